@@ -6,6 +6,7 @@ import type { LineageLabel } from '../types';
 import type { CustomStrategy } from '../types/strategy';
 import type { ProgressEmitter } from '../types/progress';
 import { generateId } from '../utils/id';
+import { analyzeFlow, formatFlowDiagnostics } from '../services/flow/analyzer';
 
 // Strategy configurations for each lineage label
 // NOTE: tools removed - all agents use direct LLM execution with tools: []
@@ -201,7 +202,7 @@ Guidelines:
 
   // Don't assign flows to basic agents - use direct LLM execution mode
   // Flow-based execution had issues with hardcoded templates ignoring user input
-  const flow: AgentFlowStep[] = [];
+  const flow = checkGeneratedFlow([]);
 
   const agent: AgentDefinition = {
     id: generateId(),
@@ -267,7 +268,7 @@ Style: ${config.style}`;
 
   // Don't assign flows to basic agents - use direct LLM execution mode
   // Flow-based execution had issues with hardcoded templates ignoring user input
-  const flow: AgentFlowStep[] = [];
+  const flow = checkGeneratedFlow([]);
 
   const agent: AgentDefinition = {
     id: generateId(),
@@ -301,6 +302,24 @@ Style: ${config.style}`;
   };
 }
 
+/**
+ * Run the flow analyzer over a generated flow: warnings are logged, errors
+ * reject the agent before it is saved
+ */
+function checkGeneratedFlow(flow: AgentFlowStep[]): AgentFlowStep[] {
+  const { valid, diagnostics } = analyzeFlow(flow);
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.severity === 'warning') {
+      console.warn(`[AgentGenerator] ${diagnostic.message}`);
+    }
+  }
+  if (!valid) {
+    const errors = diagnostics.filter((d) => d.severity === 'error');
+    throw new Error(`Generated flow has errors: ${formatFlowDiagnostics(errors)}`);
+  }
+  return flow;
+}
+
 // NOTE: generateFallbackAgent removed - LLM is now required for all operations.
 // See generateInitialAgents(), generateAgentsFromStrategies(), and generateAgent()
 // which all throw errors when LLM is not configured.
@@ -363,7 +382,7 @@ Style: ${config.style}`;
 
   // Don't assign flows to basic agents - use direct LLM execution mode
   // Flow-based execution had issues with hardcoded templates ignoring user input
-  const flow: AgentFlowStep[] = [];
+  const flow = checkGeneratedFlow([]);
 
   return {
     id: generateId(),
@@ -1,6 +1,6 @@
 // Strategy Advisor - Master Trainer's strategy suggestion logic
 
-import { generateWithSystem, isLLMConfigured } from '../api/llm';
+import { chatStructured, isLLMConfigured, type JsonSchema } from '../api/llm';
 import type { CustomStrategy, StrategyMessage } from '../types/strategy';
 import { DEFAULT_STRATEGIES } from '../types/strategy';
 import { generateId } from '../utils/id';
@@ -18,22 +18,52 @@ Guidelines for proposing strategies:
 
 When the user provides feedback, refine the strategies accordingly. Be collaborative and responsive to their input.
 
-IMPORTANT: When proposing or updating strategies, you MUST include a JSON block at the end of your message in this exact format:
+IMPORTANT: Always reply with a single JSON object in this exact format:
 
-\`\`\`strategies
-[
-  {"label": "A", "name": "Strategy Name", "description": "What this strategy does", "style": "How the agent should behave", "temperature": 0.5},
-  {"label": "B", "name": "Strategy Name", "description": "What this strategy does", "style": "How the agent should behave", "temperature": 0.5},
-  {"label": "C", "name": "Strategy Name", "description": "What this strategy does", "style": "How the agent should behave", "temperature": 0.5},
-  {"label": "D", "name": "Strategy Name", "description": "What this strategy does", "style": "How the agent should behave", "temperature": 0.5}
-]
-\`\`\`
+{
+  "message": "Your explanation for the user, in markdown",
+  "strategies": [
+    {"label": "A", "name": "Strategy Name", "description": "What this strategy does", "style": "How the agent should behave", "temperature": 0.5},
+    {"label": "B", "name": "Strategy Name", "description": "What this strategy does", "style": "How the agent should behave", "temperature": 0.5},
+    {"label": "C", "name": "Strategy Name", "description": "What this strategy does", "style": "How the agent should behave", "temperature": 0.5},
+    {"label": "D", "name": "Strategy Name", "description": "What this strategy does", "style": "How the agent should behave", "temperature": 0.5}
+  ]
+}
 
 Temperature guidelines:
 - 0.2-0.4: Precise, consistent, deterministic approaches
 - 0.5-0.7: Balanced creativity and consistency
 - 0.8-1.0: Creative, exploratory, innovative approaches`;
 
+const STRATEGY_REPLY_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['message', 'strategies'],
+  properties: {
+    message: { type: 'string' },
+    strategies: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 8,
+      items: {
+        type: 'object',
+        required: ['name', 'description', 'style'],
+        properties: {
+          label: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          style: { type: 'string' },
+          temperature: { type: 'number', minimum: 0, maximum: 2 },
+        },
+      },
+    },
+  },
+};
+
+interface StrategyReply {
+  message: string;
+  strategies: Array<Partial<CustomStrategy>>;
+}
+
 /**
  * Generate initial strategy proposals based on user need
  */
@@ -62,22 +92,17 @@ ${constraints}`;
 
   userPrompt += `
 
-Please propose ${agentCount} distinct ${agentCount === 1 ? 'strategy' : 'strategies'} for the agent ${agentCount === 1 ? 'lineage' : 'lineages'} (${labelList}). Each should explore a meaningfully different approach to solving this problem. Explain your thinking and include the strategies JSON block.`;
+Please propose ${agentCount} distinct ${agentCount === 1 ? 'strategy' : 'strategies'} for the agent ${agentCount === 1 ? 'lineage' : 'lineages'} (${labelList}). Each should explore a meaningfully different approach to solving this problem. Explain your thinking in the message.`;
 
   try {
-    const response = await generateWithSystem(STRATEGY_ADVISOR_SYSTEM_PROMPT, userPrompt, {
-      maxTokens: 1024,
-      temperature: 0.7,
-    });
-
-    const strategies = parseStrategiesFromResponse(response);
+    const reply = await requestStrategies(userPrompt, 'strategy-advisor:propose');
 
     return {
       id: generateId(),
       role: 'assistant',
-      content: response,
+      content: reply.content,
       timestamp: Date.now(),
-      proposedStrategies: strategies,
+      proposedStrategies: reply.strategies,
     };
   } catch (error) {
     console.error('Failed to propose strategies:', error);
@@ -114,26 +139,20 @@ export async function discussStrategies(
 
 ${userMessage}
 
-Please respond to their feedback and update the strategies if needed. Include the updated strategies JSON block.`;
+Please respond to their feedback and update the strategies if needed. Always return the full current list of strategies.`;
 
   try {
-    const response = await generateWithSystem(
-      STRATEGY_ADVISOR_SYSTEM_PROMPT,
+    const reply = await requestStrategies(
       [...messages.map(m => `${m.role}: ${m.content}`), `user: ${contextPrompt}`].join('\n\n'),
-      {
-        maxTokens: 1024,
-        temperature: 0.7,
-      }
+      'strategy-advisor:discuss'
     );
 
-    const strategies = parseStrategiesFromResponse(response);
-
     return {
       id: generateId(),
       role: 'assistant',
-      content: response,
+      content: reply.content,
       timestamp: Date.now(),
-      proposedStrategies: strategies.length > 0 ? strategies : undefined,
+      proposedStrategies: reply.strategies.length > 0 ? reply.strategies : undefined,
     };
   } catch (error) {
     console.error('Failed to discuss strategies:', error);
@@ -146,6 +165,60 @@ Please respond to their feedback and update the strategies if needed. Include th
   }
 }
 
+/**
+ * Ask the advisor for a structured reply. The message keeps a strategies
+ * block appended so conversation history and display look the same as for
+ * fallback proposals. If no reply validates, strategies are parsed from the
+ * last raw reply instead.
+ */
+async function requestStrategies(
+  userPrompt: string,
+  callSite: string
+): Promise<{ content: string; strategies: CustomStrategy[] }> {
+  const result = await chatStructured<StrategyReply>(
+    [
+      { role: 'system', content: STRATEGY_ADVISOR_SYSTEM_PROMPT },
+      { role: 'user', content: userPrompt },
+    ],
+    STRATEGY_REPLY_SCHEMA,
+    { callSite, maxTokens: 1024, temperature: 0.7 }
+  );
+
+  if (!result.ok) {
+    if (!result.raw) {
+      throw new Error(result.error);
+    }
+    return { content: result.raw, strategies: parseStrategiesFromResponse(result.raw) };
+  }
+
+  const strategies = normalizeStrategies(result.data.strategies);
+  return {
+    content: `${result.data.message}
+
+\`\`\`strategies
+${JSON.stringify(strategies, null, 2)}
+\`\`\``,
+    strategies,
+  };
+}
+
+/**
+ * Assign labels in order and fill missing fields from the defaults
+ */
+function normalizeStrategies(
+  parsed: Array<Partial<CustomStrategy>>
+): CustomStrategy[] {
+  const allLabels: Array<'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H'> = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+
+  return parsed.slice(0, allLabels.length).map((s, index) => ({
+    label: allLabels[index],
+    name: s.name || DEFAULT_STRATEGIES[index % 4].name,
+    description: s.description || DEFAULT_STRATEGIES[index % 4].description,
+    style: s.style || DEFAULT_STRATEGIES[index % 4].style,
+    temperature: typeof s.temperature === 'number' ? s.temperature : DEFAULT_STRATEGIES[index % 4].temperature,
+  }));
+}
+
 /**
  * Parse strategies from LLM response
  */
@@ -157,16 +230,9 @@ function parseStrategiesFromResponse(response: string): CustomStrategy[] {
     try {
       const strategiesJson = strategiesMatch[1].trim();
       const parsed = JSON.parse(strategiesJson);
-      const allLabels: Array<'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H'> = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
 
       if (Array.isArray(parsed) && parsed.length >= 1 && parsed.length <= 8) {
-        return parsed.map((s, index) => ({
-          label: allLabels[index],
-          name: s.name || DEFAULT_STRATEGIES[index % 4].name,
-          description: s.description || DEFAULT_STRATEGIES[index % 4].description,
-          style: s.style || DEFAULT_STRATEGIES[index % 4].style,
-          temperature: typeof s.temperature === 'number' ? s.temperature : DEFAULT_STRATEGIES[index % 4].temperature,
-        }));
+        return normalizeStrategies(parsed);
       }
     } catch (e) {
       console.warn('Failed to parse strategies JSON:', e);
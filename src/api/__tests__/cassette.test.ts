@@ -0,0 +1,207 @@
+/**
+ * LLM Cassette Tests
+ *
+ * Tests for request keying and record/replay through the LLM client.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { CassetteEntry, CassetteMode } from '../../types/cassette';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+vi.stubEnv('VITE_LITELLM_API_BASE', 'https://api.test.com');
+vi.stubEnv('VITE_LITELLM_API_KEY', 'test-api-key');
+
+// In-memory stand-in for the llm_cassette table
+const recordings = new Map<string, CassetteEntry>();
+
+vi.mock('../../db/cassette-queries', () => ({
+  saveCassetteEntry: vi.fn((entry: CassetteEntry) => {
+    recordings.set(entry.key, entry);
+  }),
+  saveCassetteEntries: vi.fn((entries: CassetteEntry[]) => {
+    for (const entry of entries) recordings.set(entry.key, entry);
+  }),
+  getCassetteEntry: vi.fn((key: string) => recordings.get(key) ?? null),
+  findCassetteEntryByPrompt: vi.fn(
+    (promptKey: string) =>
+      [...recordings.values()].find((e) => e.promptKey === promptKey) ?? null
+  ),
+  getAllCassetteEntries: vi.fn(() => [...recordings.values()]),
+  getCassetteEntryCount: vi.fn(() => recordings.size),
+  clearCassette: vi.fn(() => recordings.clear()),
+}));
+
+let cassetteMode: CassetteMode = 'off';
+
+vi.mock('../../store/model', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../store/model')>()),
+  useModelStore: {
+    getState: vi.fn(() => ({
+      trainerModelId: 'trainer-model',
+      agentModelId: 'agent-model',
+      cassetteMode,
+    })),
+  },
+}));
+
+function mockCompletion(content: string) {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: () =>
+      Promise.resolve({
+        id: 'test-id',
+        model: 'agent-model',
+        choices: [{ message: { content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      }),
+  });
+}
+
+describe('cassette keys', () => {
+  it('ignores object key order and undefined fields', async () => {
+    const { canonicalJson } = await import('../cassette');
+
+    expect(canonicalJson({ b: 1, a: { d: 2, c: undefined, b: 3 } })).toBe(
+      canonicalJson({ a: { b: 3, d: 2 }, b: 1 })
+    );
+  });
+
+  it('matches streamed and non-streamed requests for the same prompt', async () => {
+    const { getCassetteKeys } = await import('../cassette');
+    const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+    const plain = await getCassetteKeys({ model: 'm', messages, temperature: 0.7 });
+    const streamed = await getCassetteKeys({
+      model: 'm',
+      messages,
+      temperature: 0.7,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    expect(streamed).toEqual(plain);
+  });
+
+  it('separates models in the key but not the prompt key', async () => {
+    const { getCassetteKeys } = await import('../cassette');
+    const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+    const a = await getCassetteKeys({ model: 'model-a', messages });
+    const b = await getCassetteKeys({ model: 'model-b', messages });
+
+    expect(a.key).not.toBe(b.key);
+    expect(a.promptKey).toBe(b.promptKey);
+  });
+
+  it('rejects cassette files with an unknown version', async () => {
+    const { importCassette } = await import('../cassette');
+
+    expect(() =>
+      importCassette({ version: 99, exportedAt: 0, entries: [] })
+    ).toThrow('Unsupported cassette file');
+  });
+});
+
+describe('LLM client cassette modes', () => {
+  let llmClient: typeof import('../llm').llmClient;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    mockFetch.mockReset();
+    recordings.clear();
+    cassetteMode = 'off';
+    llmClient = (await import('../llm')).llmClient;
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('does not record when the cassette is off', async () => {
+    mockCompletion('Live answer');
+
+    await llmClient.chat([{ role: 'user', content: 'Hello' }]);
+
+    expect(recordings.size).toBe(0);
+  });
+
+  it('records responses and replays them without calling the provider', async () => {
+    cassetteMode = 'record';
+    mockCompletion('Recorded answer');
+
+    const recorded = await llmClient.chat([{ role: 'user', content: 'Hello' }]);
+    expect(recorded).toBe('Recorded answer');
+    expect(recordings.size).toBe(1);
+    expect([...recordings.values()][0].usage).toEqual({
+      promptTokens: 10,
+      completionTokens: 5,
+      totalTokens: 15,
+    });
+
+    cassetteMode = 'replay';
+    mockFetch.mockReset();
+
+    const replayed = await llmClient.chat([{ role: 'user', content: 'Hello' }]);
+    expect(replayed).toBe('Recorded answer');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('replays recordings as a stream', async () => {
+    cassetteMode = 'record';
+    mockCompletion('One two three');
+    await llmClient.chat([{ role: 'user', content: 'Count' }]);
+
+    cassetteMode = 'replay';
+    const deltas: string[] = [];
+    let content = '';
+    for await (const chunk of llmClient.chatStream([{ role: 'user', content: 'Count' }])) {
+      deltas.push(chunk.delta);
+      content = chunk.content;
+    }
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(content).toBe('One two three');
+  });
+
+  it('throws a cassette miss for unrecorded requests in replay mode', async () => {
+    cassetteMode = 'replay';
+    const { LLMCassetteMissError } = await import('../llm-errors');
+
+    await expect(
+      llmClient.chat([{ role: 'user', content: 'Never recorded' }])
+    ).rejects.toBeInstanceOf(LLMCassetteMissError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('serves recordings of the same prompt to the mock model', async () => {
+    vi.useFakeTimers();
+    try {
+      recordings.set('k', {
+        key: 'k',
+        promptKey: (
+          await (await import('../cassette')).getCassetteKeys({
+            model: 'mock/demo',
+            messages: [{ role: 'user', content: 'Hello' }],
+            max_tokens: 1024,
+            temperature: 0.7,
+          })
+        ).promptKey,
+        model: 'agent-model',
+        request: {},
+        response: { content: 'Recorded elsewhere', finishReason: 'stop' },
+        recordedAt: 0,
+      });
+
+      const pending = llmClient.chat([{ role: 'user', content: 'Hello' }], {
+        model: 'mock/demo',
+      });
+      await vi.runAllTimersAsync();
+
+      await expect(pending).resolves.toBe('Recorded elsewhere');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
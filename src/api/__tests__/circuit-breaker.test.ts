@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { CircuitBreaker } from '../circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const config = { failureThreshold: 3, cooldownMs: 1000 };
+
+  it('opens after consecutive failures', () => {
+    const breaker = new CircuitBreaker(config);
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(breaker.tryAcquire(0)).toBe(true);
+
+    breaker.recordFailure(0);
+    expect(breaker.getState(0)).toBe('open');
+    expect(breaker.tryAcquire(500)).toBe(false);
+    expect(breaker.retryAt).toBe(1000);
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker(config);
+
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+
+    expect(breaker.getState(0)).toBe('closed');
+  });
+
+  it('allows a single trial request after the cooldown', () => {
+    const breaker = new CircuitBreaker(config);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+
+    expect(breaker.getState(1000)).toBe('half_open');
+    expect(breaker.tryAcquire(1000)).toBe(true);
+    expect(breaker.tryAcquire(1000)).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState(1000)).toBe('closed');
+  });
+
+  it('re-opens when the trial request fails', () => {
+    const breaker = new CircuitBreaker(config);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+
+    breaker.tryAcquire(1000);
+    breaker.recordFailure(1000);
+
+    expect(breaker.getState(1500)).toBe('open');
+    expect(breaker.retryAt).toBe(2000);
+  });
+});
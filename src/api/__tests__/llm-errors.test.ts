@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyLLMError,
+  parseRetryAfter,
+  LLMRequestError,
+  LLMRateLimitError,
+  LLMAuthError,
+  LLMContextLengthError,
+  LLMContentFilterError,
+  LLMServerError,
+} from '../llm-errors';
+
+describe('classifyLLMError', () => {
+  it('maps 429 to a retryable rate limit error', () => {
+    const error = classifyLLMError(429, { message: 'Too many requests' }, 2000);
+
+    expect(error).toBeInstanceOf(LLMRateLimitError);
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(2000);
+    expect(error.message).toBe('Too many requests');
+  });
+
+  it('maps 401 and 403 to auth errors', () => {
+    expect(classifyLLMError(401)).toBeInstanceOf(LLMAuthError);
+    expect(classifyLLMError(403)).toBeInstanceOf(LLMAuthError);
+    expect(classifyLLMError(401).retryable).toBe(false);
+  });
+
+  it('detects context length errors from the code or message', () => {
+    expect(
+      classifyLLMError(400, { code: 'context_length_exceeded', message: 'Too long' })
+    ).toBeInstanceOf(LLMContextLengthError);
+    expect(
+      classifyLLMError(400, { message: "This model's maximum context length is 8192 tokens" })
+    ).toBeInstanceOf(LLMContextLengthError);
+  });
+
+  it('detects content filter errors', () => {
+    const error = classifyLLMError(400, { code: 'content_filter', message: 'Blocked' });
+
+    expect(error).toBeInstanceOf(LLMContentFilterError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('maps 5xx and 408 to retryable server errors', () => {
+    expect(classifyLLMError(500)).toBeInstanceOf(LLMServerError);
+    expect(classifyLLMError(503).retryable).toBe(true);
+    expect(classifyLLMError(408)).toBeInstanceOf(LLMServerError);
+  });
+
+  it('falls back to a generic non-retryable error', () => {
+    const error = classifyLLMError(400, { message: 'Invalid request', type: 'invalid_request_error' });
+
+    expect(error.constructor).toBe(LLMRequestError);
+    expect(error.retryable).toBe(false);
+    expect(error.status).toBe(400);
+    expect(error.type).toBe('invalid_request_error');
+  });
+
+  it('uses the status code when the body has no message', () => {
+    expect(classifyLLMError(502).message).toBe('API error: 502');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses delays in seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('parses HTTP dates relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:10 GMT', now)).toBe(10_000);
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
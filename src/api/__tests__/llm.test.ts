@@ -15,8 +15,14 @@ vi.stubEnv('VITE_LITELLM_API_BASE', 'https://api.test.com');
 vi.stubEnv('VITE_LITELLM_API_KEY', 'test-api-key');
 vi.stubEnv('VITE_LITELLM_MODEL', 'test-model');
 
+// Mock the usage ledger
+vi.mock('../../db/usage-queries', () => ({
+  recordUsage: vi.fn(),
+}));
+
 // Mock the model store
-vi.mock('../../store/model', () => ({
+vi.mock('../../store/model', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../store/model')>()),
   useModelStore: {
     getState: vi.fn(() => ({
       trainerModelId: 'trainer-model',
@@ -287,6 +293,627 @@ describe('LLM Client', () => {
     });
   });
 
+  describe('llmClient.chat streaming', () => {
+    function sseResponse(events: string[]) {
+      const encoder = new TextEncoder();
+      const chunks = events.map((e) => encoder.encode(e));
+      const reader = {
+        read: vi.fn(async () =>
+          chunks.length > 0
+            ? { done: false, value: chunks.shift() }
+            : { done: true, value: undefined }
+        ),
+        cancel: vi.fn(async () => undefined),
+        releaseLock: vi.fn(),
+      };
+      return {
+        ok: true,
+        body: { getReader: () => reader },
+        reader,
+      };
+    }
+
+    function sseEvent(payload: unknown): string {
+      return `data: ${JSON.stringify(payload)}\n\n`;
+    }
+
+    it('requests an SSE stream when onToken is provided', async () => {
+      mockFetch.mockResolvedValueOnce(
+        sseResponse([
+          sseEvent({ model: 'm', choices: [{ delta: { content: 'Hi' }, finish_reason: 'stop' }] }),
+          'data: [DONE]\n\n',
+        ])
+      );
+
+      await llmClient.chat([{ role: 'user', content: 'Hello' }], {
+        onToken: vi.fn(),
+      });
+
+      const callBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(callBody.stream).toBe(true);
+      expect(callBody.stream_options).toEqual({ include_usage: true });
+    });
+
+    it('delivers deltas and accumulated content to onToken', async () => {
+      mockFetch.mockResolvedValueOnce(
+        sseResponse([
+          sseEvent({ model: 'm', choices: [{ delta: { content: 'Hello' }, finish_reason: null }] }),
+          // An event split across two reads
+          'data: {"model":"m","choices":[{"delta":{"content":" wor',
+          'ld"},"finish_reason":null}]}\n\n',
+          sseEvent({ model: 'm', choices: [{ delta: {}, finish_reason: 'stop' }] }),
+          'data: [DONE]\n\n',
+        ])
+      );
+      const onToken = vi.fn();
+
+      const result = await llmClient.chat([{ role: 'user', content: 'Hi' }], {
+        onToken,
+      });
+
+      expect(result).toBe('Hello world');
+      expect(onToken).toHaveBeenNthCalledWith(1, { delta: 'Hello', content: 'Hello' });
+      expect(onToken).toHaveBeenNthCalledWith(2, { delta: ' world', content: 'Hello world' });
+    });
+
+    it('finalizes the debug entry with usage and finish reason', async () => {
+      const { useLLMDebugStore } = await import('../../store/llm-debug');
+      useLLMDebugStore.getState().clearEntries();
+      mockFetch.mockResolvedValueOnce(
+        sseResponse([
+          sseEvent({ model: 'resolved-model', choices: [{ delta: { content: 'Done' }, finish_reason: 'length' }] }),
+          sseEvent({
+            model: 'resolved-model',
+            choices: [],
+            usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+          }),
+          'data: [DONE]\n\n',
+        ])
+      );
+
+      await llmClient.chat([{ role: 'user', content: 'Hi' }], { onToken: vi.fn() });
+
+      const [entry] = useLLMDebugStore.getState().entries;
+      expect(entry.status).toBe('success');
+      expect(entry.streamed).toBe(true);
+      expect(entry.response).toEqual({
+        content: 'Done',
+        finishReason: 'length',
+        model: 'resolved-model',
+      });
+      expect(entry.usage).toEqual({ promptTokens: 5, completionTokens: 1, totalTokens: 6 });
+    });
+
+    it('yields chunks from chatStream', async () => {
+      mockFetch.mockResolvedValueOnce(
+        sseResponse([
+          sseEvent({ model: 'm', choices: [{ delta: { content: 'A' }, finish_reason: null }] }),
+          sseEvent({ model: 'm', choices: [{ delta: { content: 'B' }, finish_reason: 'stop' }] }),
+          'data: [DONE]\n\n',
+        ])
+      );
+
+      const chunks: string[] = [];
+      for await (const chunk of llmClient.chatStream([{ role: 'user', content: 'Hi' }])) {
+        chunks.push(chunk.content);
+      }
+
+      expect(chunks).toEqual(['A', 'AB']);
+    });
+
+    it('finalizes the debug entry and usage when the consumer stops early', async () => {
+      const { useLLMDebugStore } = await import('../../store/llm-debug');
+      useLLMDebugStore.getState().clearEntries();
+      mockFetch.mockResolvedValueOnce(
+        sseResponse([
+          sseEvent({
+            model: 'm',
+            choices: [{ delta: { content: 'A' }, finish_reason: null }],
+            usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+          }),
+          sseEvent({ model: 'm', choices: [{ delta: { content: 'B' }, finish_reason: 'stop' }] }),
+          'data: [DONE]\n\n',
+        ])
+      );
+      const onUsage = vi.fn();
+
+      for await (const chunk of llmClient.chatStream([{ role: 'user', content: 'Hi' }], { onUsage })) {
+        if (chunk.content === 'A') break;
+      }
+
+      const [entry] = useLLMDebugStore.getState().entries;
+      expect(entry.status).toBe('success');
+      expect(entry.response?.content).toBe('A');
+      expect(entry.usage).toEqual({ promptTokens: 5, completionTokens: 1, totalTokens: 6 });
+      expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ totalTokens: 6 }));
+    });
+
+    it('cancels the response body when the consumer stops early', async () => {
+      const response = sseResponse([
+        sseEvent({ model: 'm', choices: [{ delta: { content: 'A' }, finish_reason: null }] }),
+        sseEvent({ model: 'm', choices: [{ delta: { content: 'B' }, finish_reason: 'stop' }] }),
+      ]);
+      mockFetch.mockResolvedValueOnce(response);
+
+      for await (const chunk of llmClient.chatStream([{ role: 'user', content: 'Hi' }])) {
+        if (chunk.content === 'A') break;
+      }
+
+      expect(response.reader.cancel).toHaveBeenCalled();
+      expect(response.reader.read).toHaveBeenCalledTimes(1);
+    });
+
+    it('charges an estimate when the stream reports no usage', async () => {
+      mockFetch.mockResolvedValueOnce(
+        sseResponse([
+          sseEvent({ model: 'm', choices: [{ delta: { content: 'Hello there' }, finish_reason: null }] }),
+          sseEvent({ model: 'm', choices: [{ delta: { content: '!' }, finish_reason: 'stop' }] }),
+        ])
+      );
+      const onUsage = vi.fn();
+
+      for await (const chunk of llmClient.chatStream([{ role: 'user', content: 'Say hello' }], { onUsage })) {
+        if (chunk.content === 'Hello there') break;
+      }
+
+      // 9 prompt characters and 11 completion characters, ~4 per token
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ promptTokens: 3, completionTokens: 3, totalTokens: 6 })
+      );
+    });
+
+    it('throws when the stream contains no choices', async () => {
+      mockFetch.mockResolvedValueOnce(sseResponse(['data: [DONE]\n\n']));
+
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], { onToken: vi.fn() })
+      ).rejects.toThrow('No response from LLM');
+    });
+
+    it('throws API errors before streaming starts', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        text: () => Promise.resolve(JSON.stringify({ error: { message: 'Upstream failed' } })),
+      });
+
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], { onToken: vi.fn() })
+      ).rejects.toThrow('Upstream failed');
+    });
+  });
+
+  describe('llmClient retries', () => {
+    const fastRetry = { baseDelayMs: 1, maxDelayMs: 1 };
+
+    function errorResponse(status: number, message: string, headers: Record<string, string> = {}) {
+      return {
+        ok: false,
+        status,
+        headers: new Headers(headers),
+        text: () => Promise.resolve(JSON.stringify({ error: { message } })),
+      };
+    }
+
+    function okResponse(content: string) {
+      return {
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content } }] }),
+      };
+    }
+
+    async function getDebugEntries() {
+      const { useLLMDebugStore } = await import('../../store/llm-debug');
+      return useLLMDebugStore.getState().entries;
+    }
+
+    beforeEach(async () => {
+      const { useLLMDebugStore } = await import('../../store/llm-debug');
+      useLLMDebugStore.getState().clearEntries();
+    });
+
+    it('retries server errors and returns the eventual response', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503, 'Overloaded'))
+        .mockResolvedValueOnce(okResponse('Recovered'));
+
+      const result = await llmClient.chat([{ role: 'user', content: 'Hi' }], { retry: fastRetry });
+
+      expect(result).toBe('Recovered');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('logs every attempt as its own debug entry', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, 'Slow down'))
+        .mockResolvedValueOnce(okResponse('Done'));
+
+      await llmClient.chat([{ role: 'user', content: 'Hi' }], { retry: fastRetry });
+
+      const [retry, first] = await getDebugEntries();
+      expect(first.status).toBe('error');
+      expect(first.retryDelayMs).toBeDefined();
+      expect(retry.status).toBe('success');
+      expect(retry.attempt).toBe(2);
+      expect(retry.retryOf).toBe(first.id);
+    });
+
+    it('honors Retry-After on rate limits', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, 'Slow down', { 'Retry-After': '0.005' }))
+        .mockResolvedValueOnce(okResponse('Done'));
+
+      await llmClient.chat([{ role: 'user', content: 'Hi' }], { retry: fastRetry });
+
+      const entries = await getDebugEntries();
+      expect(entries[1].retryDelayMs).toBe(5);
+    });
+
+    it('gives up after maxRetries with a typed error', async () => {
+      const { LLMServerError } = await import('../llm-errors');
+      mockFetch.mockResolvedValue(errorResponse(500, 'Broken'));
+
+      const promise = llmClient.chat([{ role: 'user', content: 'Hi' }], {
+        retry: { ...fastRetry, maxRetries: 2 },
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(LLMServerError);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      const entries = await getDebugEntries();
+      expect(entries[0].retryDelayMs).toBeUndefined();
+    });
+
+    it('frees its scheduler slot while waiting to retry', async () => {
+      const { useRequestQueueStore } = await import('../../store/request-queue');
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503, 'Overloaded', { 'Retry-After': '0.02' }))
+        .mockResolvedValueOnce(okResponse('Done'));
+
+      const pending = llmClient.chat([{ role: 'user', content: 'Hi' }], { retry: fastRetry });
+      await vi.waitFor(async () => expect((await getDebugEntries()).length).toBe(1));
+      const runningDuringBackoff = useRequestQueueStore.getState().running;
+
+      expect(await pending).toBe('Done');
+      expect(runningDuringBackoff).toBe(0);
+      expect(useRequestQueueStore.getState().running).toBe(0);
+    });
+
+    it('does not retry auth errors', async () => {
+      const { LLMAuthError } = await import('../llm-errors');
+      mockFetch.mockResolvedValueOnce(errorResponse(401, 'Bad key'));
+
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], { retry: fastRetry })
+      ).rejects.toBeInstanceOf(LLMAuthError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries network failures', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValueOnce(okResponse('Back online'));
+
+      const result = await llmClient.chat([{ role: 'user', content: 'Hi' }], { retry: fastRetry });
+
+      expect(result).toBe('Back online');
+    });
+
+    it('stops retrying once the signal is aborted', async () => {
+      const { CancelledError } = await import('../../utils/abort');
+      const controller = new AbortController();
+      mockFetch.mockImplementationOnce(async () => {
+        controller.abort();
+        return errorResponse(503, 'Overloaded');
+      });
+
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], {
+          retry: { baseDelayMs: 60_000, maxDelayMs: 60_000 },
+          signal: controller.signal,
+        })
+      ).rejects.toBeInstanceOf(CancelledError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not send a request when already cancelled', async () => {
+      const { CancelledError } = await import('../../utils/abort');
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], { signal: controller.signal })
+      ).rejects.toBeInstanceOf(CancelledError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('opens the circuit for a model after repeated failures', async () => {
+      const { LLMCircuitOpenError } = await import('../llm-errors');
+      mockFetch.mockResolvedValue(errorResponse(503, 'Down'));
+
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], {
+          model: 'flaky-model',
+          retry: { ...fastRetry, maxRetries: 4 },
+        })
+      ).rejects.toThrow('Down');
+      mockFetch.mockClear();
+
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], { model: 'flaky-model', retry: { maxRetries: 0 } })
+      ).rejects.toBeInstanceOf(LLMCircuitOpenError);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      // Other models are unaffected
+      mockFetch.mockResolvedValueOnce(okResponse('Fine'));
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], { model: 'healthy-model' })
+      ).resolves.toBe('Fine');
+    });
+
+    it('does not let a bad request reset the failure count', async () => {
+      const { LLMCircuitOpenError } = await import('../llm-errors');
+      mockFetch.mockResolvedValue(errorResponse(503, 'Down'));
+      const failingCall = (retry = { ...fastRetry, maxRetries: 0 }) =>
+        llmClient.chat([{ role: 'user', content: 'Hi' }], { model: 'picky-model', retry });
+
+      for (let i = 0; i < 4; i++) {
+        await expect(failingCall()).rejects.toThrow('Down');
+      }
+      mockFetch.mockResolvedValueOnce(errorResponse(400, 'Bad request'));
+      await expect(failingCall()).rejects.toThrow('Bad request');
+      await expect(failingCall()).rejects.toThrow('Down');
+      mockFetch.mockClear();
+
+      await expect(failingCall()).rejects.toBeInstanceOf(LLMCircuitOpenError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('retries a stream that fails to connect', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(502, 'Bad gateway'))
+        .mockResolvedValueOnce({
+          ok: true,
+          body: {
+            getReader: () => {
+              const chunks = [new TextEncoder().encode('data: {"choices":[{"delta":{"content":"Hi"},"finish_reason":"stop"}]}\n\ndata: [DONE]\n\n')];
+              return {
+                read: vi.fn(async () =>
+                  chunks.length > 0 ? { done: false, value: chunks.shift() } : { done: true, value: undefined }
+                ),
+                cancel: vi.fn(async () => undefined),
+                releaseLock: vi.fn(),
+              };
+            },
+          },
+        });
+
+      const result = await llmClient.chat([{ role: 'user', content: 'Hi' }], {
+        onToken: vi.fn(),
+        retry: fastRetry,
+      });
+
+      expect(result).toBe('Hi');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('provider routing', () => {
+    async function mockModelState(state: Record<string, unknown>) {
+      const { useModelStore } = await import('../../store/model');
+      vi.mocked(useModelStore.getState).mockReturnValue({
+        trainerModelId: 'trainer-model',
+        agentModelId: 'agent-model',
+        ...state,
+      } as unknown as ReturnType<typeof useModelStore.getState>);
+    }
+
+    afterEach(async () => {
+      await mockModelState({});
+    });
+
+    it('routes models declaring the anthropic adapter to the Messages API', async () => {
+      await mockModelState({ providerKeys: { anthropic: 'sk-ant' } });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            id: 'msg_1',
+            model: 'claude-sonnet-4-5',
+            content: [{ type: 'text', text: 'Hello from Claude' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 3, output_tokens: 4 },
+          }),
+      });
+
+      const result = await llmClient.chat([{ role: 'user', content: 'Hi' }], {
+        model: 'anthropic-direct/claude-sonnet-4-5',
+      });
+
+      expect(result).toBe('Hello from Claude');
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init.headers['x-api-key']).toBe('sk-ant');
+      expect(JSON.parse(init.body).model).toBe('claude-sonnet-4-5');
+    });
+
+    it('uses store route overrides for arbitrary model IDs', async () => {
+      await mockModelState({
+        modelRoutes: {
+          'my-local-model': { adapter: 'openai-compatible', baseUrl: 'http://localhost:8080', apiModel: 'qwen' },
+        },
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: 'Local reply' } }] }),
+      });
+
+      const result = await llmClient.chat([{ role: 'user', content: 'Hi' }], { model: 'my-local-model' });
+
+      expect(result).toBe('Local reply');
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('http://localhost:8080/v1/chat/completions');
+      expect(init.headers.Authorization).toBeUndefined();
+      expect(JSON.parse(init.body).model).toBe('qwen');
+    });
+
+    it('requires a key for direct providers', async () => {
+      await mockModelState({ providerKeys: {} });
+
+      await expect(
+        llmClient.chat([{ role: 'user', content: 'Hi' }], { model: 'openai-direct/gpt-4o' })
+      ).rejects.toThrow('LLM API not configured');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('records the adapter on the debug entry', async () => {
+      const { useLLMDebugStore } = await import('../../store/llm-debug');
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: 'Hi' } }] }),
+      });
+
+      await llmClient.chat([{ role: 'user', content: 'Hi' }]);
+
+      expect(useLLMDebugStore.getState().entries[0].request.adapter).toBe('litellm');
+    });
+  });
+
+  describe('llmClient.complete with tools', () => {
+    const tools = [
+      {
+        type: 'function' as const,
+        function: {
+          name: 'calculate',
+          description: 'Evaluate an expression',
+          parameters: { type: 'object', properties: {}, required: [] },
+        },
+      },
+    ];
+
+    it('sends tools with automatic tool choice', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }] }),
+      });
+
+      await llmClient.complete([{ role: 'user', content: 'Hello' }], { tools });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.tools).toEqual(tools);
+      expect(body.tool_choice).toBe('auto');
+    });
+
+    it('omits tools when none are given', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ choices: [{ message: { content: 'Hi' } }] }),
+      });
+
+      await llmClient.complete([{ role: 'user', content: 'Hello' }]);
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.tools).toBeUndefined();
+      expect(body.tool_choice).toBeUndefined();
+    });
+
+    it('returns tool calls from the response', async () => {
+      const toolCalls = [
+        { id: 'call-1', type: 'function', function: { name: 'calculate', arguments: '{"expression":"1+1"}' } },
+      ];
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [{ message: { content: null, tool_calls: toolCalls }, finish_reason: 'tool_calls' }],
+          }),
+      });
+
+      const completion = await llmClient.complete([{ role: 'user', content: 'Add' }], { tools });
+
+      expect(completion).toEqual({ content: '', toolCalls, finishReason: 'tool_calls' });
+    });
+  });
+
+  describe('usage tracking', () => {
+    function mockUsageResponse() {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            model: 'gpt-4o-mini',
+            choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+          }),
+      });
+    }
+
+    it('returns usage with the estimated cost of priced models', async () => {
+      mockUsageResponse();
+
+      const completion = await llmClient.complete([{ role: 'user', content: 'Hello' }], {
+        model: 'azure/gpt-4o-mini',
+      });
+
+      expect(completion.usage).toEqual({
+        model: 'azure/gpt-4o-mini',
+        promptTokens: 1000,
+        completionTokens: 500,
+        totalTokens: 1500,
+        // 1000 * $0.15/M + 500 * $0.60/M
+        cost: 0.00045,
+      });
+    });
+
+    it('reports usage through onUsage and charges the ledger', async () => {
+      mockUsageResponse();
+      const onUsage = vi.fn();
+
+      await llmClient.chat([{ role: 'user', content: 'Hello' }], {
+        model: 'azure/gpt-4o-mini',
+        sessionId: 'session-1',
+        role: 'agent',
+        onUsage,
+      });
+
+      const { recordUsage } = await import('../../db/usage-queries');
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'azure/gpt-4o-mini', totalTokens: 1500 })
+      );
+      expect(recordUsage).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sessionId: 'session-1',
+          model: 'azure/gpt-4o-mini',
+          role: 'agent',
+          totalTokens: 1500,
+        })
+      );
+    });
+
+    it('charges calls to the trainer with no cost for unpriced models', async () => {
+      mockUsageResponse();
+
+      await llmClient.chat([{ role: 'user', content: 'Hello' }]);
+
+      const { recordUsage } = await import('../../db/usage-queries');
+      expect(recordUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'trainer-model', role: 'trainer', cost: null })
+      );
+    });
+
+    it('does not fail the call when the ledger cannot be written', async () => {
+      mockUsageResponse();
+      const { recordUsage } = await import('../../db/usage-queries');
+      vi.mocked(recordUsage).mockImplementationOnce(() => {
+        throw new Error('Database not initialized');
+      });
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(llmClient.chat([{ role: 'user', content: 'Hello' }])).resolves.toBe('Hi');
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
   describe('llmClient.generateWithSystemPrompt', () => {
     it('combines system and user prompts', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -311,6 +938,32 @@ describe('LLM Client', () => {
       ]);
     });
 
+    it('sends conversation turns after the system prompt', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            id: 'test-id',
+            choices: [{ message: { content: 'Response' } }],
+            usage: {},
+          }),
+      });
+
+      await llmClient.generateWithSystemPrompt('You are an expert', [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello! How can I help?' },
+        { role: 'user', content: 'Help me with this' },
+      ]);
+
+      const callBody = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(callBody.messages).toEqual([
+        { role: 'system', content: 'You are an expert' },
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello! How can I help?' },
+        { role: 'user', content: 'Help me with this' },
+      ]);
+    });
+
     it('passes options through', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -0,0 +1,113 @@
+/**
+ * Request Scheduler Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RequestScheduler, type ScheduleOptions } from '../scheduler';
+import { isCancelledError } from '../../utils/abort';
+
+/** Queue a request that records its label once it starts */
+function enqueue(
+  scheduler: RequestScheduler,
+  started: string[],
+  label: string,
+  options: ScheduleOptions = {}
+) {
+  return scheduler.acquire('model-a', options).then((release) => {
+    started.push(label);
+    return release;
+  });
+}
+
+/** Queue a request that finishes as soon as it starts */
+async function runToCompletion(
+  scheduler: RequestScheduler,
+  started: string[],
+  label: string,
+  options: ScheduleOptions = {}
+) {
+  const release = await enqueue(scheduler, started, label, options);
+  release();
+}
+
+describe('RequestScheduler', () => {
+  it('caps concurrent requests per model', async () => {
+    const scheduler = new RequestScheduler(() => 2);
+    const started: string[] = [];
+
+    const first = enqueue(scheduler, started, 'first');
+    const second = enqueue(scheduler, started, 'second');
+    enqueue(scheduler, started, 'third');
+    await Promise.resolve();
+
+    expect(started).toEqual(['first', 'second']);
+    expect(scheduler.snapshot().byModel['model-a']).toEqual({ running: 2, queued: 1, limit: 2 });
+
+    (await first)();
+    await vi.waitFor(() => expect(started).toEqual(['first', 'second', 'third']));
+
+    // Other models have their own cap
+    const other = await scheduler.acquire('model-b');
+    expect(scheduler.snapshot().running).toBe(3);
+    other();
+    (await second)();
+  });
+
+  it('starts higher priority classes first', async () => {
+    const scheduler = new RequestScheduler(() => 1);
+    const started: string[] = [];
+
+    const blocker = await scheduler.acquire('model-a');
+    const waiting = [
+      runToCompletion(scheduler, started, 'agent', { priority: 'agent' }),
+      runToCompletion(scheduler, started, 'tool', { priority: 'tool' }),
+      runToCompletion(scheduler, started, 'trainer', { priority: 'trainer' }),
+    ];
+
+    blocker();
+    await Promise.all(waiting);
+
+    expect(started).toEqual(['trainer', 'tool', 'agent']);
+  });
+
+  it('takes turns across lanes within a priority class', async () => {
+    const scheduler = new RequestScheduler(() => 1);
+    const started: string[] = [];
+
+    const blocker = await scheduler.acquire('model-a', { lane: 'A' });
+    const waiting = [
+      runToCompletion(scheduler, started, 'A1', { lane: 'A' }),
+      runToCompletion(scheduler, started, 'A2', { lane: 'A' }),
+      runToCompletion(scheduler, started, 'A3', { lane: 'A' }),
+      runToCompletion(scheduler, started, 'B1', { lane: 'B' }),
+      runToCompletion(scheduler, started, 'B2', { lane: 'B' }),
+    ];
+
+    blocker();
+    await Promise.all(waiting);
+
+    expect(started).toEqual(['B1', 'A1', 'B2', 'A2', 'A3']);
+  });
+
+  it('drops a queued request when its signal is aborted', async () => {
+    const onChange = vi.fn();
+    const scheduler = new RequestScheduler(() => 1, onChange);
+    const controller = new AbortController();
+
+    const blocker = await scheduler.acquire('model-a');
+    const queued = scheduler.acquire('model-a', { signal: controller.signal });
+    expect(scheduler.snapshot().queued).toBe(1);
+
+    controller.abort();
+    const error = await queued.catch((e) => e);
+
+    expect(isCancelledError(error)).toBe(true);
+    expect(scheduler.snapshot().queued).toBe(0);
+    expect(onChange).toHaveBeenLastCalledWith({
+      running: 1,
+      queued: 0,
+      byModel: { 'model-a': { running: 1, queued: 0, limit: 1 } },
+    });
+    blocker();
+  });
+});
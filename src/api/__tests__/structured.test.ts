@@ -0,0 +1,249 @@
+/**
+ * Structured Output Tests
+ *
+ * Tests for schema validation and chatStructured's repair and fallback.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  extractJson,
+  parseStructured,
+  validateAgainstSchema,
+  type JsonSchema,
+} from '../structured';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+vi.stubEnv('VITE_LITELLM_API_BASE', 'https://api.test.com');
+vi.stubEnv('VITE_LITELLM_API_KEY', 'test-api-key');
+
+vi.mock('../../db/usage-queries', () => ({
+  recordUsage: vi.fn(),
+}));
+
+vi.mock('../../store/model', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../store/model')>()),
+  useModelStore: {
+    getState: vi.fn(() => ({
+      trainerModelId: 'trainer-model',
+      agentModelId: 'agent-model',
+    })),
+  },
+}));
+
+const PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['hypothesis', 'changes'],
+  properties: {
+    hypothesis: { type: 'string' },
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['changeType'],
+        properties: {
+          changeType: { type: 'string', enum: ['add', 'remove', 'modify'] },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          before: { type: 'string', nullable: true },
+        },
+      },
+    },
+  },
+};
+
+function mockCompletion(content: string) {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: () =>
+      Promise.resolve({
+        id: 'test-id',
+        model: 'trainer-model',
+        choices: [{ message: { content }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      }),
+  });
+}
+
+function sentBody(call: number) {
+  return JSON.parse(mockFetch.mock.calls[call][1].body);
+}
+
+describe('validateAgainstSchema', () => {
+  it('accepts a matching value', () => {
+    expect(
+      validateAgainstSchema(
+        { hypothesis: 'h', changes: [{ changeType: 'add', confidence: 0.5, before: null }] },
+        PLAN_SCHEMA
+      )
+    ).toEqual([]);
+  });
+
+  it('reports each problem with its path', () => {
+    const errors = validateAgainstSchema(
+      { changes: [{ changeType: 'rename', confidence: 2 }, 'x'] },
+      PLAN_SCHEMA
+    );
+
+    expect(errors).toEqual([
+      '$.hypothesis: is required',
+      '$.changes[0].changeType: must be one of "add", "remove", "modify"',
+      '$.changes[0].confidence: must be <= 1',
+      '$.changes[1]: expected object, got string',
+    ]);
+  });
+
+  it('distinguishes integers from numbers', () => {
+    expect(validateAgainstSchema(1.5, { type: 'integer' })).toEqual([
+      '$: expected integer, got number',
+    ]);
+    expect(validateAgainstSchema(2, { type: 'integer' })).toEqual([]);
+  });
+
+  it('checks string rules, enums of any value and unlisted properties', () => {
+    const schema: JsonSchema = {
+      type: 'array',
+      maxItems: 2,
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', pattern: '^[a-z]+$', maxLength: 4 },
+          level: { enum: ['low', null] },
+          note: { type: ['string', 'null'] },
+        },
+      },
+    };
+
+    expect(validateAgainstSchema([{ id: 'ab', level: null, note: null }], schema)).toEqual([]);
+    expect(
+      validateAgainstSchema([{ id: 'ABCDE' }, { level: 'mid', note: 1, extra: true }, {}], schema)
+    ).toEqual([
+      '$: must have at most 2 items',
+      '$[0].id: must have at most 4 characters',
+      '$[0].id: must match /^[a-z]+$/',
+      '$[1].level: must be one of "low", null',
+      '$[1].note: expected string or null, got number',
+      '$[1].extra: is not allowed',
+    ]);
+  });
+});
+
+describe('extractJson', () => {
+  it('strips code fences', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('slices JSON out of surrounding text', () => {
+    expect(extractJson('Here you go: [1, 2] Hope it helps')).toEqual([1, 2]);
+  });
+
+  it('reports replies without JSON', () => {
+    expect(parseStructured('No idea', PLAN_SCHEMA)).toEqual({
+      ok: false,
+      errors: ['Invalid JSON: Reply does not contain JSON'],
+    });
+  });
+});
+
+describe('llmClient.chatStructured', () => {
+  let llmClient: typeof import('../llm').llmClient;
+  let useLLMDebugStore: typeof import('../../store/llm-debug').useLLMDebugStore;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    mockFetch.mockReset();
+    llmClient = (await import('../llm')).llmClient;
+    useLLMDebugStore = (await import('../../store/llm-debug')).useLLMDebugStore;
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('requests JSON mode and returns validated data', async () => {
+    mockCompletion('{"hypothesis": "Shorter is better", "changes": []}');
+
+    const result = await llmClient.chatStructured(
+      [{ role: 'user', content: 'Plan' }],
+      PLAN_SCHEMA,
+      { callSite: 'test-plan' }
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      data: { hypothesis: 'Shorter is better', changes: [] },
+      attempts: 1,
+    });
+    expect(sentBody(0).response_format).toEqual({ type: 'json_object' });
+    expect(useLLMDebugStore.getState().structuredStats['test-plan']).toEqual({
+      calls: 1,
+      repaired: 0,
+      fallbacks: 0,
+      lastError: undefined,
+    });
+  });
+
+  it('feeds validation errors back and counts the repair', async () => {
+    mockCompletion('{"changes": []}');
+    mockCompletion('{"hypothesis": "Fixed", "changes": []}');
+
+    const result = await llmClient.chatStructured(
+      [{ role: 'user', content: 'Plan' }],
+      PLAN_SCHEMA,
+      { callSite: 'test-plan' }
+    );
+
+    expect(result.ok).toBe(true);
+    expect(result.attempts).toBe(2);
+
+    const repairMessages = sentBody(1).messages;
+    expect(repairMessages).toHaveLength(3);
+    expect(repairMessages[1]).toEqual({ role: 'assistant', content: '{"changes": []}' });
+    expect(repairMessages[2].content).toContain('$.hypothesis: is required');
+    expect(useLLMDebugStore.getState().structuredStats['test-plan'].repaired).toBe(1);
+  });
+
+  it('falls back after the repair budget is spent', async () => {
+    mockCompletion('not json');
+    mockCompletion('still not json');
+
+    const result = await llmClient.chatStructured(
+      [{ role: 'user', content: 'Plan' }],
+      PLAN_SCHEMA,
+      { callSite: 'test-plan', maxRepairs: 1 }
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      error: 'Invalid JSON: Reply does not contain JSON',
+      attempts: 2,
+      raw: 'still not json',
+    });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(useLLMDebugStore.getState().structuredStats['test-plan']).toMatchObject({
+      calls: 1,
+      fallbacks: 1,
+      lastError: 'Invalid JSON: Reply does not contain JSON',
+    });
+  });
+
+  it('falls back without repairing when the request fails', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      text: () => Promise.resolve('{"error": {"message": "Bad request"}}'),
+      headers: new Headers(),
+    });
+
+    const result = await llmClient.chatStructured(
+      [{ role: 'user', content: 'Plan' }],
+      PLAN_SCHEMA,
+      { callSite: 'test-plan' }
+    );
+
+    expect(result.ok).toBe(false);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(useLLMDebugStore.getState().structuredStats['test-plan'].fallbacks).toBe(1);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * LLM Cassette
+ *
+ * Record/replay support for the LLM client. Requests are keyed by a SHA-256
+ * hash of their canonical JSON (model, messages, sampling parameters and
+ * tools), so the same request always maps to the same recording regardless
+ * of key order or whether it was streamed.
+ *
+ * Recordings live in the sql.js `llm_cassette` table and can be exported
+ * to / imported from a JSON file.
+ */
+
+import {
+  clearCassette as clearCassetteEntries,
+  findCassetteEntryByPrompt,
+  getAllCassetteEntries,
+  getCassetteEntry,
+  getCassetteEntryCount,
+  saveCassetteEntries,
+  saveCassetteEntry,
+} from "../db/cassette-queries";
+import { sha256 } from "../db/training-signal-queries";
+import {
+  CASSETTE_FILE_VERSION,
+  type CassetteEntry,
+  type CassetteFile,
+} from "../types/cassette";
+import type { ChatCompletionRequest } from "./providers";
+
+/**
+ * JSON with object keys sorted and undefined values dropped
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      return Object.fromEntries(
+        Object.entries(v as Record<string, unknown>)
+          .filter(([, entry]) => entry !== undefined)
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      );
+    }
+    return v;
+  });
+}
+
+/**
+ * The parts of a request that determine its response
+ */
+function getRecordedFields(
+  request: ChatCompletionRequest
+): Record<string, unknown> {
+  return {
+    model: request.model,
+    messages: request.messages,
+    max_tokens: request.max_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    tools: request.tools,
+    tool_choice: request.tool_choice,
+    response_format: request.response_format,
+  };
+}
+
+export async function getCassetteKeys(
+  request: ChatCompletionRequest
+): Promise<{ key: string; promptKey: string }> {
+  const fields = getRecordedFields(request);
+
+  const [key, promptKey] = await Promise.all([
+    sha256(canonicalJson(fields)),
+    // canonicalJson drops undefined, so this hashes everything but the model
+    sha256(canonicalJson({ ...fields, model: undefined })),
+  ]);
+  return { key, promptKey };
+}
+
+/**
+ * Find the recording for an exact request
+ */
+export async function findRecording(
+  request: ChatCompletionRequest
+): Promise<{ key: string; entry: CassetteEntry | null }> {
+  const { key } = await getCassetteKeys(request);
+  return { key, entry: getCassetteEntry(key) };
+}
+
+/**
+ * Find a recording of the same prompt made with any model. Used by the mock
+ * model to replay realistic responses.
+ */
+export async function findRecordingForPrompt(
+  request: ChatCompletionRequest
+): Promise<CassetteEntry | null> {
+  const { promptKey } = await getCassetteKeys(request);
+  return findCassetteEntryByPrompt(promptKey);
+}
+
+export async function recordResponse(
+  request: ChatCompletionRequest,
+  response: CassetteEntry["response"],
+  usage?: CassetteEntry["usage"]
+): Promise<void> {
+  const { key, promptKey } = await getCassetteKeys(request);
+  saveCassetteEntry({
+    key,
+    promptKey,
+    model: request.model,
+    request: JSON.parse(canonicalJson(getRecordedFields(request))),
+    response,
+    usage,
+    recordedAt: Date.now(),
+  });
+}
+
+export function exportCassette(): CassetteFile {
+  return {
+    version: CASSETTE_FILE_VERSION,
+    exportedAt: Date.now(),
+    entries: getAllCassetteEntries(),
+  };
+}
+
+/**
+ * Import recordings from a cassette file, returning how many were stored
+ */
+export function importCassette(file: CassetteFile): number {
+  if (file.version !== CASSETTE_FILE_VERSION || !Array.isArray(file.entries)) {
+    throw new Error(
+      `Unsupported cassette file (expected version ${CASSETTE_FILE_VERSION})`
+    );
+  }
+  saveCassetteEntries(file.entries);
+  return file.entries.length;
+}
+
+export function clearCassette(): void {
+  clearCassetteEntries();
+}
+
+export function getCassetteSize(): number {
+  return getCassetteEntryCount();
+}
@@ -0,0 +1,108 @@
+/**
+ * Per-Model Circuit Breaker
+ *
+ * Stops sending requests to a model after repeated transient failures so a
+ * struggling provider is not hammered by every lineage at once. After a
+ * cooldown a single trial request is let through; success closes the
+ * circuit again, failure re-opens it.
+ */
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerConfig {
+  /** Consecutive failures before the circuit opens */
+  failureThreshold: number;
+  /** How long the circuit stays open before allowing a trial request */
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG
+  ) {}
+
+  getState(now: number = Date.now()): CircuitState {
+    if (this.state === "open" && now - this.openedAt >= this.config.cooldownMs) {
+      this.state = "half_open";
+      this.trialInFlight = false;
+    }
+    return this.state;
+  }
+
+  /** When an open circuit will next allow a trial request */
+  get retryAt(): number {
+    return this.openedAt + this.config.cooldownMs;
+  }
+
+  /**
+   * Whether a request may be sent now. In the half-open state only one
+   * trial request is allowed until it reports back.
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    const state = this.getState(now);
+    if (state === "closed") return true;
+    if (state === "open") return false;
+
+    if (this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures += 1;
+    this.trialInFlight = false;
+
+    if (
+      this.state === "half_open" ||
+      this.consecutiveFailures >= this.config.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = now;
+    }
+  }
+
+  /**
+   * Release a half-open trial that ended with an error unrelated to the
+   * provider's health (e.g. a bad request)
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get the circuit breaker for a model, creating it on first use
+ */
+export function getCircuitBreaker(model: string): CircuitBreaker {
+  let breaker = breakers.get(model);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(model, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Close all circuits (e.g. after the user changes API settings)
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
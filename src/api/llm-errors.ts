@@ -0,0 +1,194 @@
+/**
+ * LLM Gateway Errors
+ *
+ * Typed errors thrown by the LLM client so callers can tell a throttled
+ * request apart from a bad API key or an oversized prompt. Each error
+ * says whether retrying the same request can succeed.
+ */
+
+/**
+ * Error body returned by LiteLLM / OpenAI-compatible endpoints
+ */
+export interface LLMErrorBody {
+  message?: string;
+  type?: string;
+  code?: string;
+}
+
+interface LLMRequestErrorDetails {
+  status?: number;
+  type?: string;
+  code?: string;
+  /** Delay requested by the provider via `Retry-After`, if any */
+  retryAfterMs?: number;
+}
+
+/**
+ * Base class for all errors raised by an LLM request
+ */
+export class LLMRequestError extends Error {
+  readonly status?: number;
+  readonly type?: string;
+  readonly code?: string;
+  readonly retryAfterMs?: number;
+  /** Whether sending the same request again may succeed */
+  readonly retryable: boolean = false;
+
+  constructor(message: string, details: LLMRequestErrorDetails = {}) {
+    super(message);
+    this.name = "LLMRequestError";
+    this.status = details.status;
+    this.type = details.type;
+    this.code = details.code;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** 429 - the provider is throttling requests */
+export class LLMRateLimitError extends LLMRequestError {
+  readonly retryable = true;
+
+  constructor(message: string, details: LLMRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "LLMRateLimitError";
+  }
+}
+
+/** 401/403 - missing or invalid API key */
+export class LLMAuthError extends LLMRequestError {
+  constructor(message: string, details: LLMRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "LLMAuthError";
+  }
+}
+
+/** The prompt (plus max tokens) does not fit in the model's context window */
+export class LLMContextLengthError extends LLMRequestError {
+  constructor(message: string, details: LLMRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "LLMContextLengthError";
+  }
+}
+
+/** The request or response was blocked by the provider's content filter */
+export class LLMContentFilterError extends LLMRequestError {
+  constructor(message: string, details: LLMRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "LLMContentFilterError";
+  }
+}
+
+/** 5xx or 408 - transient failure on the provider side */
+export class LLMServerError extends LLMRequestError {
+  readonly retryable = true;
+
+  constructor(message: string, details: LLMRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "LLMServerError";
+  }
+}
+
+/** The request never reached the provider (fetch rejected) */
+export class LLMNetworkError extends LLMRequestError {
+  readonly retryable = true;
+
+  constructor(message: string, details: LLMRequestErrorDetails = {}) {
+    super(message, details);
+    this.name = "LLMNetworkError";
+  }
+}
+
+/** Requests to this model are paused after repeated failures */
+export class LLMCircuitOpenError extends LLMRequestError {
+  readonly model: string;
+  /** When the circuit will allow a trial request again */
+  readonly retryAt: number;
+
+  constructor(model: string, retryAt: number) {
+    const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+    super(
+      `Model "${model}" is temporarily unavailable after repeated failures. Retrying in ${seconds}s.`,
+      { type: "circuit_open" }
+    );
+    this.name = "LLMCircuitOpenError";
+    this.model = model;
+    this.retryAt = retryAt;
+  }
+}
+
+/** Replay mode found no recording for the request */
+export class LLMCassetteMissError extends LLMRequestError {
+  /** Cassette key of the request that was not recorded */
+  readonly key: string;
+
+  constructor(model: string, key: string) {
+    super(
+      `No cassette recording for this request to "${model}" (key ${key.slice(0, 12)}). Record it first or turn off replay mode.`,
+      { type: "cassette_miss" }
+    );
+    this.name = "LLMCassetteMissError";
+    this.key = key;
+  }
+}
+
+const CONTEXT_LENGTH_PATTERN =
+  /context[_ ]length|context window|maximum context|too many tokens|prompt is too long/i;
+const CONTENT_FILTER_PATTERN =
+  /content[_ ]filter|content[_ ]policy|content management|safety system/i;
+
+/**
+ * Map an HTTP error response to the matching error class
+ */
+export function classifyLLMError(
+  status: number,
+  body: LLMErrorBody = {},
+  retryAfterMs?: number
+): LLMRequestError {
+  const message = body.message || `API error: ${status}`;
+  const details = {
+    status,
+    type: body.type,
+    code: body.code || String(status),
+    retryAfterMs,
+  };
+  const marker = `${body.code ?? ""} ${body.type ?? ""} ${message}`;
+
+  if (status === 429) {
+    return new LLMRateLimitError(message, details);
+  }
+  if (status === 401 || status === 403 || body.type === "authentication_error") {
+    return new LLMAuthError(message, details);
+  }
+  if (CONTEXT_LENGTH_PATTERN.test(marker)) {
+    return new LLMContextLengthError(message, details);
+  }
+  if (CONTENT_FILTER_PATTERN.test(marker)) {
+    return new LLMContentFilterError(message, details);
+  }
+  if (status >= 500 || status === 408) {
+    return new LLMServerError(message, details);
+  }
+  return new LLMRequestError(message, details);
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
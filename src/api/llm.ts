@@ -9,70 +9,242 @@
  * - Unified API format
  * - Model routing via model IDs like 'anthropic/claude-4-5-sonnet-aws'
  *
+ * Models can instead declare a provider adapter (direct OpenAI, direct
+ * Anthropic, or a local OpenAI-compatible server) - see src/api/providers.
+ * Requests are built in the OpenAI format and translated by the adapter.
+ *
  * Two model selections:
  * - Trainer Model (trainerModelId): Used for evolution, analysis, planning
  * - Agent Model (agentModelId): Used by generated agents for artifact production
  *
+ * Every successful call is written to the usage ledger (src/db/usage-queries)
+ * with its tokens and estimated cost, charged to the trainer or agent side
+ * via `ChatOptions.role`.
+ *
+ * Trainer calls that need JSON go through `chatStructured`, which validates
+ * the reply against a schema (src/api/structured) and repairs or falls back.
+ *
+ * Provider requests wait for a slot in the request scheduler
+ * (src/api/scheduler), which caps concurrency per model and orders waiting
+ * requests by `ChatOptions.priority` and `ChatOptions.lane`.
+ *
  * DO NOT use the Anthropic SDK directly for runtime execution.
  * See: src/lib/export/to-typescript.ts for Anthropic SDK export (standalone code generation only)
  */
 
-import { useModelStore } from "../store/model";
+import {
+  useModelStore,
+  resolveModelRoute,
+  estimateCost,
+  getModelById,
+} from "../store/model";
 import { useLLMDebugStore, generateDebugId } from "../store/llm-debug";
+import { useRequestQueueStore } from "../store/request-queue";
+import { useSessionStore } from "../store/session";
+import { recordUsage } from "../db/usage-queries";
 import type { LLMDebugEntry } from "../types/llm-debug";
+import type { ConversationTurn } from "../types/agent";
+import type { TokenUsage, UsageRole } from "../types/usage";
+import { getCircuitBreaker } from "./circuit-breaker";
+import {
+  DEFAULT_MAX_CONCURRENT,
+  RequestScheduler,
+  type ReleaseSlot,
+  type RequestPriority,
+  type ScheduleOptions,
+} from "./scheduler";
+import {
+  CancelledError,
+  delay,
+  isCancelledError,
+  throwIfCancelled,
+} from "../utils/abort";
+import {
+  buildRepairPrompt,
+  parseStructured,
+  type JsonSchema,
+} from "./structured";
+import {
+  findRecording,
+  findRecordingForPrompt,
+  recordResponse,
+} from "./cassette";
+import type { CassetteEntry, CassetteMode } from "../types/cassette";
+import { getMockReply } from "./mock";
+import {
+  LLMCassetteMissError,
+  LLMCircuitOpenError,
+  LLMNetworkError,
+  LLMRequestError,
+  classifyLLMError,
+  parseRetryAfter,
+  type LLMErrorBody,
+} from "./llm-errors";
+import {
+  DEFAULT_PROVIDER_BASE_URLS,
+  getProviderAdapter,
+  type ChatCompletionRequest,
+  type ResolvedModelRoute,
+} from "./providers";
+
+export type { JsonSchema } from "./structured";
+export type { RequestPriority } from "./scheduler";
 
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
   content: string;
+  /** Tool calls requested by the assistant (assistant messages only) */
+  tool_calls?: ChatToolCall[];
+  /** The tool call this message answers (tool messages only) */
+  tool_call_id?: string;
 }
 
-interface ChatCompletionRequest {
-  model: string;
-  messages: ChatMessage[];
-  max_tokens?: number;
-  temperature?: number;
-  top_p?: number;
+/**
+ * A tool the model may call, in OpenAI function-calling format
+ */
+export interface ChatToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    /** JSON Schema describing the arguments object */
+    parameters: Record<string, unknown>;
+  };
 }
 
-interface ChatCompletionChoice {
-  index: number;
-  message: {
-    role: string;
-    content: string;
+/**
+ * A tool call requested by the model
+ */
+export interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    /** JSON-encoded arguments */
+    arguments: string;
   };
-  finish_reason: string;
 }
 
-interface ChatCompletionResponse {
-  id: string;
-  object: string;
-  created: number;
+/**
+ * Full result of a (non-streamed) chat completion
+ */
+export interface ChatCompletion {
+  /** Text content of the reply (empty when the model only calls tools) */
+  content: string;
+  /** Tool calls requested by the model */
+  toolCalls: ChatToolCall[];
+  finishReason: string;
+  /** Token usage, when the provider reported it */
+  usage?: LLMCallUsage;
+}
+
+/**
+ * Token usage and estimated cost of one successful call
+ */
+export interface LLMCallUsage extends TokenUsage {
   model: string;
-  choices: ChatCompletionChoice[];
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  /** Estimated USD cost, null when the model has no price */
+  cost: number | null;
 }
 
-interface LLMError {
-  error: {
-    message: string;
-    type: string;
-    code: string;
-  };
+export type UsageCallback = (usage: LLMCallUsage) => void;
+
+interface LLMErrorResponse {
+  error: LLMErrorBody;
+}
+
+type BaseDebugEntry = Omit<LLMDebugEntry, "status" | "durationMs">;
+
+interface SentRequest {
+  response: Response;
+  /** Debug entry of the attempt that produced the response */
+  debugEntry: BaseDebugEntry;
+  startTime: number;
+  /** Frees the scheduler slot; call once the response has been read */
+  releaseSlot: ReleaseSlot;
 }
 
-interface ChatOptions {
+/**
+ * Retry policy for transient failures (rate limits, 5xx, network errors)
+ */
+export interface RetryConfig {
+  /** Retries after the first attempt (0 disables retrying) */
+  maxRetries: number;
+  /** Backoff before the first retry; doubles on each further retry */
+  baseDelayMs: number;
+  /** Upper bound for the exponential backoff */
+  maxDelayMs: number;
+  /** Give up instead of waiting when `Retry-After` asks for longer than this */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  maxRetryAfterMs: 60_000,
+};
+
+/**
+ * Partial output delivered while a response is streaming
+ */
+export interface ChatStreamChunk {
+  /** Text received in this chunk */
+  delta: string;
+  /** All text received so far */
+  content: string;
+}
+
+export type TokenCallback = (chunk: ChatStreamChunk) => void;
+
+export interface ChatOptions {
   maxTokens?: number;
   temperature?: number;
+  topP?: number; // Nucleus sampling; the provider default when unset
   model?: string; // Override the default model
   sessionId?: string; // For debug filtering
+  onToken?: TokenCallback; // Stream the response, called for every delta
+  tools?: ChatToolDefinition[]; // Tools the model may call
+  toolChoice?: "auto" | "none" | "required";
+  retry?: Partial<RetryConfig>; // Override the client's retry policy
+  role?: UsageRole; // Side of training charged for the call (default: trainer)
+  onUsage?: UsageCallback; // Called with tokens and cost once the call succeeds
+  jsonMode?: boolean; // Ask for a JSON object reply where the provider supports it
+  signal?: AbortSignal; // Abort the request; rejects with CancelledError
+  priority?: RequestPriority; // Scheduling class (default: from role)
+  lane?: string; // Fair-queuing key, usually the lineage ID
+}
+
+/**
+ * Per-run options that callers thread through to every LLM call they make
+ */
+export type LLMCallContext = Pick<ChatOptions, "signal" | "lane">;
+
+export interface StructuredChatOptions
+  extends Omit<ChatOptions, "onToken" | "tools" | "toolChoice" | "jsonMode"> {
+  /** Name reported in the per-call-site fallback stats (e.g. "evolution-planner") */
+  callSite: string;
+  /** Extra attempts that feed validation errors back to the model */
+  maxRepairs?: number;
 }
 
+/**
+ * Result of a structured call. `ok: false` means no reply validated and the
+ * caller should use its own fallback; `raw` is the last reply, if any.
+ */
+export type StructuredResult<T> =
+  | { ok: true; data: T; attempts: number }
+  | { ok: false; error: string; attempts: number; raw?: string };
+
+export const DEFAULT_MAX_REPAIRS = 2;
+
 class LLMClient {
   private defaultModel: string;
+  private retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG;
+  private scheduler = new RequestScheduler(
+    (model) => getModelById(model)?.maxConcurrent ?? DEFAULT_MAX_CONCURRENT,
+    (snapshot) => useRequestQueueStore.getState().setSnapshot(snapshot)
+  );
 
   constructor() {
     this.defaultModel =
@@ -110,8 +282,54 @@ class LLMClient {
     return import.meta.env.VITE_LITELLM_API_KEY || null;
   }
 
+  /**
+   * Work out which adapter, URL, key and provider model name to use for a model
+   */
+  private resolveRoute(modelId: string): ResolvedModelRoute {
+    let state: ReturnType<typeof useModelStore.getState> | undefined;
+    try {
+      state = useModelStore.getState();
+    } catch {
+      // Store not initialized
+    }
+
+    const route = resolveModelRoute(modelId, state?.modelRoutes);
+    const model = route.apiModel || modelId;
+
+    if (route.adapter === "litellm") {
+      return {
+        adapter: "litellm",
+        baseUrl: route.baseUrl || this.getBaseUrl(),
+        apiKey: this.getApiKey(),
+        model,
+      };
+    }
+
+    return {
+      adapter: route.adapter,
+      baseUrl:
+        route.baseUrl ||
+        state?.providerBaseUrls?.[route.adapter] ||
+        DEFAULT_PROVIDER_BASE_URLS[route.adapter],
+      apiKey: state?.providerKeys?.[route.adapter] || null,
+      model,
+    };
+  }
+
+  private isRouteConfigured(route: ResolvedModelRoute): boolean {
+    const adapter = getProviderAdapter(route.adapter);
+    return Boolean(route.baseUrl && (route.apiKey || adapter.apiKeyOptional));
+  }
+
   isConfigured(): boolean {
-    return Boolean(this.getBaseUrl() && this.getApiKey());
+    const model = this.getTrainerModel();
+    // The mock model needs no key
+    if (model === "mock/demo") return true;
+    return this.isRouteConfigured(this.resolveRoute(model));
+  }
+
+  configureRetry(config: Partial<RetryConfig>): void {
+    this.retryConfig = { ...this.retryConfig, ...config };
   }
 
   // Get the trainer model from the store (used for evolution, analysis, planning)
@@ -129,91 +347,280 @@ class LLMClient {
     messages: ChatMessage[],
     options: ChatOptions = {}
   ): Promise<string> {
+    // Stream through the callback when the caller wants partial output
+    if (options.onToken && !options.tools) {
+      let content = "";
+      for await (const chunk of this.chatStream(messages, options)) {
+        content = chunk.content;
+        options.onToken(chunk);
+      }
+      return content;
+    }
+
+    const completion = await this.complete(messages, options);
+    return completion.content;
+  }
+
+  /**
+   * Run a chat completion and return the full result, including any
+   * tool calls requested by the model when `options.tools` is set.
+   */
+  async complete(
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): Promise<ChatCompletion> {
+    throwIfCancelled(options.signal);
+
     // Use provided model, or get trainer model from store, or use default
     const model = options.model || this.getTrainerModel();
 
+    const request: ChatCompletionRequest = {
+      model,
+      messages,
+      max_tokens: options.maxTokens || 1024,
+      temperature: options.temperature ?? 0.7,
+    };
+    if (options.topP !== undefined) {
+      request.top_p = options.topP;
+    }
+    if (options.tools && options.tools.length > 0) {
+      request.tools = options.tools;
+      request.tool_choice = options.toolChoice ?? "auto";
+    }
+    if (options.jsonMode) {
+      request.response_format = { type: "json_object" };
+    }
+
     // Handle Mock Model
     if (model === "mock/demo") {
-      return this.handleMockRequest(messages);
+      return {
+        content: await this.handleMockRequest(request, options),
+        toolCalls: [],
+        finishReason: "stop",
+      };
+    }
+
+    const route = this.resolveRoute(model);
+    const cassetteMode = this.getCassetteMode();
+
+    // Build base debug entry
+    const baseDebugEntry: BaseDebugEntry = {
+      id: generateDebugId(),
+      timestamp: Date.now(),
+      request: {
+        model: request.model,
+        adapter: route.adapter,
+        messages: request.messages,
+        maxTokens: request.max_tokens || 1024,
+        temperature: request.temperature ?? 0.7,
+        topP: request.top_p,
+        tools: request.tools?.map((t) => t.function.name),
+      },
+      sessionId: options.sessionId,
+    };
+
+    // Replay serves recordings only and never needs the provider
+    if (cassetteMode === "replay") {
+      const recording = await this.replayRecording(request, baseDebugEntry);
+      return {
+        content: recording.response.content,
+        toolCalls: recording.response.toolCalls ?? [],
+        finishReason: recording.response.finishReason,
+        usage: this.trackUsage(model, recording.usage, options, true),
+      };
     }
 
-    const baseUrl = this.getBaseUrl();
-    const apiKey = this.getApiKey();
-    if (!baseUrl || !apiKey) {
+    if (!this.isRouteConfigured(route)) {
       throw new Error("LLM API not configured. Please set your API Base URL and API Key.");
     }
 
-    const startTime = Date.now();
-    const debugId = generateDebugId();
+    const { response, debugEntry, startTime, releaseSlot } =
+      await this.sendRequest(route, request, baseDebugEntry, options);
+
+    try {
+      const data = getProviderAdapter(route.adapter).parseResponse(
+        await response.json()
+      );
+      const durationMs = Date.now() - startTime;
+
+      if (!data.choices || data.choices.length === 0) {
+        // Log empty response as error
+        useLLMDebugStore.getState().addEntry({
+          ...debugEntry,
+          durationMs,
+          status: "error",
+          error: {
+            message: "No response from LLM",
+            type: "empty_response",
+          },
+        });
+        throw new Error("No response from LLM");
+      }
+
+      const choice = data.choices[0];
+      const completion: ChatCompletion = {
+        content: choice.message.content ?? "",
+        toolCalls: choice.message.tool_calls ?? [],
+        finishReason: choice.finish_reason,
+      };
+      const debugResponse = {
+        content: completion.content,
+        finishReason: completion.finishReason,
+        model: data.model,
+        toolCalls:
+          completion.toolCalls.length > 0 ? completion.toolCalls : undefined,
+      };
+      const usage = data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens,
+            completionTokens: data.usage.completion_tokens,
+            totalTokens: data.usage.total_tokens,
+          }
+        : undefined;
+
+      // Log success to debug store
+      useLLMDebugStore.getState().addEntry({
+        ...debugEntry,
+        durationMs,
+        status: "success",
+        response: debugResponse,
+        usage,
+      });
+
+      if (cassetteMode === "record") {
+        await this.recordToCassette(request, debugResponse, usage);
+      }
+
+      completion.usage = this.trackUsage(model, usage, options);
+      return completion;
+    } catch (error) {
+      throw this.logUnhandledError(error, debugEntry, startTime, options.signal);
+    } finally {
+      releaseSlot();
+    }
+  }
+
+  /**
+   * Stream a chat completion, yielding partial output as it arrives.
+   *
+   * Uses SSE (`stream: true`). The debug entry is written once the stream
+   * ends, with the full content, finish reason and usage. A consumer that
+   * stops iterating early still gets the call logged and its usage so far
+   * tracked, with the content it received.
+   */
+  async *chatStream(
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): AsyncGenerator<ChatStreamChunk> {
+    throwIfCancelled(options.signal);
+
+    const model = options.model || this.getTrainerModel();
 
     const request: ChatCompletionRequest = {
       model,
       messages,
       max_tokens: options.maxTokens || 1024,
       temperature: options.temperature ?? 0.7,
+      stream: true,
+      stream_options: { include_usage: true },
     };
+    if (options.topP !== undefined) {
+      request.top_p = options.topP;
+    }
+    if (options.jsonMode) {
+      request.response_format = { type: "json_object" };
+    }
 
-    // Build base debug entry
-    const baseDebugEntry: Omit<LLMDebugEntry, "status" | "durationMs"> = {
-      id: debugId,
-      timestamp: startTime,
+    // Handle Mock Model
+    if (model === "mock/demo") {
+      yield* this.streamMockRequest(request, options);
+      return;
+    }
+
+    const route = this.resolveRoute(model);
+    const cassetteMode = this.getCassetteMode();
+
+    const baseDebugEntry: BaseDebugEntry = {
+      id: generateDebugId(),
+      timestamp: Date.now(),
       request: {
         model: request.model,
+        adapter: route.adapter,
         messages: request.messages,
         maxTokens: request.max_tokens || 1024,
         temperature: request.temperature ?? 0.7,
+        topP: request.top_p,
       },
       sessionId: options.sessionId,
+      streamed: true,
     };
 
+    if (cassetteMode === "replay") {
+      const recording = await this.replayRecording(request, baseDebugEntry);
+      try {
+        yield* streamText(recording.response.content);
+      } finally {
+        this.trackUsage(model, recording.usage, options, true);
+      }
+      return;
+    }
+
+    if (!this.isRouteConfigured(route)) {
+      throw new Error("LLM API not configured. Please set your API Base URL and API Key.");
+    }
+
+    // Only connecting is retried; once tokens have been yielded a failure is final
+    const { response, debugEntry, startTime, releaseSlot } =
+      await this.sendRequest(route, request, baseDebugEntry, options);
+
+    let content = "";
+    let finishReason = "";
+    let responseModel = model;
+    let usage: LLMDebugEntry["usage"];
+    // Set once the stream ended or failed; unset in `finally` means the
+    // consumer stopped iterating
+    let settled = false;
+
     try {
-      const response = await fetch(`${baseUrl}/v1/chat/completions`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(request),
-      });
+      if (!response.body) {
+        throw new Error("Streaming not supported by response");
+      }
 
-      const durationMs = Date.now() - startTime;
+      let receivedChoice = false;
 
-      if (!response.ok) {
-        // Try to get raw response for debugging
-        let rawResponse: string | undefined;
-        let errorData: LLMError | undefined;
-        try {
-          rawResponse = await response.text();
-          errorData = JSON.parse(rawResponse) as LLMError;
-        } catch {
-          // Response wasn't JSON
-        }
+      const parseChunk = getProviderAdapter(route.adapter).createStreamParser();
 
-        const errorMessage =
-          errorData?.error?.message || `API error: ${response.status}`;
+      for await (const event of readSSEEvents(response.body)) {
+        const chunk = parseChunk(event);
+        if (!chunk) continue;
 
-        // Log error to debug store
-        useLLMDebugStore.getState().addEntry({
-          ...baseDebugEntry,
-          durationMs,
-          status: "error",
-          error: {
-            message: errorMessage,
-            type: errorData?.error?.type,
-            code: errorData?.error?.code || String(response.status),
-            rawResponse,
-          },
-        });
+        if (chunk.model) responseModel = chunk.model;
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
 
-        throw new Error(errorMessage);
+        const choice = chunk.choices?.[0];
+        if (!choice) continue;
+        receivedChoice = true;
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+
+        const delta = choice.delta?.content;
+        if (delta) {
+          content += delta;
+          yield { delta, content };
+        }
       }
 
-      const data = (await response.json()) as ChatCompletionResponse;
+      settled = true;
+      const durationMs = Date.now() - startTime;
 
-      if (!data.choices || data.choices.length === 0) {
-        // Log empty response as error
+      if (!receivedChoice) {
         useLLMDebugStore.getState().addEntry({
-          ...baseDebugEntry,
+          ...debugEntry,
           durationMs,
           status: "error",
           error: {
@@ -224,78 +631,547 @@ class LLMClient {
         throw new Error("No response from LLM");
       }
 
-      // Log success to debug store
+      // Finalize the debug entry now that the stream has ended
+      const debugResponse = { content, finishReason, model: responseModel };
       useLLMDebugStore.getState().addEntry({
-        ...baseDebugEntry,
+        ...debugEntry,
         durationMs,
         status: "success",
-        response: {
-          content: data.choices[0].message.content,
-          finishReason: data.choices[0].finish_reason,
-          model: data.model,
-        },
-        usage: data.usage
-          ? {
-              promptTokens: data.usage.prompt_tokens,
-              completionTokens: data.usage.completion_tokens,
-              totalTokens: data.usage.total_tokens,
-            }
-          : undefined,
+        response: debugResponse,
+        usage,
       });
 
-      return data.choices[0].message.content;
-    } catch (error) {
-      const durationMs = Date.now() - startTime;
+      if (cassetteMode === "record") {
+        await this.recordToCassette(request, debugResponse, usage);
+      }
 
-      // Only log if not already logged (check if error was thrown after logging)
-      const existingEntry = useLLMDebugStore
-        .getState()
-        .entries.find((e) => e.id === debugId);
-      if (!existingEntry) {
+      this.trackUsage(model, usage ?? estimateUsage(request, content), options);
+    } catch (error) {
+      settled = true;
+      throw this.logUnhandledError(error, debugEntry, startTime, options.signal);
+    } finally {
+      if (!settled) {
         useLLMDebugStore.getState().addEntry({
-          ...baseDebugEntry,
-          durationMs,
-          status: "error",
-          error: {
-            message: error instanceof Error ? error.message : "Unknown error",
-            stack: error instanceof Error ? error.stack : undefined,
-          },
+          ...debugEntry,
+          durationMs: Date.now() - startTime,
+          status: "success",
+          response: { content, finishReason, model: responseModel },
+          usage,
         });
+        // Providers send usage in the last chunk, so a stream stopped early
+        // rarely has it
+        this.trackUsage(model, usage ?? estimateUsage(request, content), options);
+      }
+      releaseSlot();
+    }
+  }
+
+  /**
+   * Charge a successful call to the usage ledger and report it to the caller.
+   * Replayed calls cost nothing and are not charged.
+   */
+  private trackUsage(
+    model: string,
+    usage: TokenUsage | undefined,
+    options: ChatOptions,
+    replayed = false
+  ): LLMCallUsage | undefined {
+    if (!usage) return undefined;
+
+    const callUsage: LLMCallUsage = {
+      ...usage,
+      model,
+      cost: replayed ? 0 : estimateCost(model, usage),
+    };
+
+    if (!replayed) {
+      try {
+        recordUsage({
+          sessionId: options.sessionId ?? this.getActiveSessionId(),
+          model,
+          role: options.role ?? "trainer",
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          totalTokens: usage.totalTokens,
+          cost: callUsage.cost,
+        });
+      } catch (error) {
+        console.warn("[LLM] Failed to record usage:", error);
+      }
+    }
+
+    options.onUsage?.(callUsage);
+    return callUsage;
+  }
+
+  // Calls made without a session ID are charged to the open session
+  private getActiveSessionId(): string | null {
+    try {
+      return useSessionStore.getState().currentSession?.id ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getCassetteMode(): CassetteMode {
+    try {
+      return useModelStore.getState().cassetteMode ?? "off";
+    } catch {
+      return "off";
+    }
+  }
+
+  /**
+   * Serve a request from the cassette, failing loudly when it was never recorded
+   */
+  private async replayRecording(
+    request: ChatCompletionRequest,
+    baseDebugEntry: BaseDebugEntry
+  ): Promise<CassetteEntry> {
+    const startTime = Date.now();
+    const { key, entry } = await findRecording(request);
+
+    if (!entry) {
+      const error = new LLMCassetteMissError(request.model, key);
+      useLLMDebugStore.getState().addEntry({
+        ...baseDebugEntry,
+        durationMs: Date.now() - startTime,
+        status: "error",
+        replayed: true,
+        error: { message: error.message, type: error.type },
+      });
+      throw error;
+    }
+
+    useLLMDebugStore.getState().addEntry({
+      ...baseDebugEntry,
+      durationMs: Date.now() - startTime,
+      status: "success",
+      replayed: true,
+      response: {
+        content: entry.response.content,
+        finishReason: entry.response.finishReason,
+        model: entry.response.model ?? entry.model,
+        toolCalls: entry.response.toolCalls,
+      },
+      usage: entry.usage,
+    });
+    return entry;
+  }
+
+  /**
+   * Store a successful response; a failed write never fails the request
+   */
+  private async recordToCassette(
+    request: ChatCompletionRequest,
+    response: CassetteEntry["response"],
+    usage?: CassetteEntry["usage"]
+  ): Promise<void> {
+    try {
+      await recordResponse(request, response, usage);
+    } catch (error) {
+      console.warn("[LLM] Failed to record response to cassette:", error);
+    }
+  }
+
+  /**
+   * Send a chat completion request, retrying transient failures with
+   * exponential backoff and jitter (or the provider's `Retry-After`).
+   *
+   * Each attempt waits for its own scheduler slot and frees it before the
+   * backoff, so waiting to retry doesn't keep other requests out. Every
+   * attempt is logged as its own debug entry; retries point back at the
+   * first attempt via `retryOf`. Resolves with the first 2xx response and
+   * the debug entry of the attempt that produced it; the caller must call
+   * `releaseSlot` once the body has been read.
+   */
+  private async sendRequest(
+    route: ResolvedModelRoute,
+    request: ChatCompletionRequest,
+    baseDebugEntry: BaseDebugEntry,
+    options: ChatOptions
+  ): Promise<SentRequest> {
+    const { signal } = options;
+    const retryConfig = { ...this.retryConfig, ...options.retry };
+    const breaker = getCircuitBreaker(request.model);
+    const schedule: ScheduleOptions = {
+      priority: options.priority ?? (options.role === "agent" ? "agent" : "trainer"),
+      lane: options.lane,
+      signal,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      const releaseSlot = await this.scheduler.acquire(request.model, schedule);
+      const startTime = Date.now();
+      const debugEntry: BaseDebugEntry =
+        attempt === 1
+          ? baseDebugEntry
+          : {
+              ...baseDebugEntry,
+              id: generateDebugId(),
+              timestamp: startTime,
+              attempt,
+              retryOf: baseDebugEntry.id,
+            };
+
+      let error: Error;
+      let rawResponse: string | undefined;
+
+      if (!breaker.tryAcquire(startTime)) {
+        error = new LLMCircuitOpenError(request.model, breaker.retryAt);
+      } else {
+        try {
+          const { url, init } = getProviderAdapter(
+            route.adapter
+          ).buildRequest(request, route);
+          const response = await fetch(url, { ...init, signal });
+
+          if (response.ok) {
+            breaker.recordSuccess();
+            return { response, debugEntry, startTime, releaseSlot };
+          }
+
+          ({ error, rawResponse } = await readErrorResponse(response));
+        } catch (fetchError) {
+          if (signal?.aborted) {
+            breaker.release();
+            releaseSlot();
+            useLLMDebugStore.getState().addEntry({
+              ...debugEntry,
+              durationMs: Date.now() - startTime,
+              status: "error",
+              error: { message: "Request cancelled", type: "cancelled" },
+            });
+            throw new CancelledError();
+          }
+
+          // fetch rejects with a TypeError when the request could not be sent
+          error =
+            fetchError instanceof TypeError
+              ? new LLMNetworkError(fetchError.message)
+              : fetchError instanceof Error
+                ? fetchError
+                : new Error("Unknown error during LLM request");
+        }
+
+        // Only transient failures count against the model's health; a bad
+        // request says nothing about it either way
+        if (error instanceof LLMRequestError && error.retryable) {
+          breaker.recordFailure();
+        } else {
+          breaker.release();
+        }
       }
+      releaseSlot();
 
-      if (error instanceof Error) {
+      const retryDelayMs =
+        attempt <= retryConfig.maxRetries
+          ? getRetryDelay(error, attempt, retryConfig)
+          : undefined;
+
+      useLLMDebugStore.getState().addEntry({
+        ...debugEntry,
+        durationMs: Date.now() - startTime,
+        status: "error",
+        error: {
+          message: error.message,
+          type: error instanceof LLMRequestError ? error.type : undefined,
+          code: error instanceof LLMRequestError ? error.code : undefined,
+          rawResponse,
+          stack: error instanceof LLMRequestError ? undefined : error.stack,
+        },
+        retryDelayMs,
+      });
+
+      if (retryDelayMs === undefined) {
         throw error;
       }
-      throw new Error("Unknown error during LLM request");
+      await delay(retryDelayMs, signal);
+    }
+  }
+
+  /**
+   * Log an error that has not been logged yet and normalize it to an Error
+   */
+  private logUnhandledError(
+    error: unknown,
+    baseDebugEntry: BaseDebugEntry,
+    startTime: number,
+    signal?: AbortSignal
+  ): Error {
+    const durationMs = Date.now() - startTime;
+    // Reading the body fails with an AbortError once the request is aborted
+    const cancelled = signal?.aborted === true;
+
+    // Only log if not already logged (check if error was thrown after logging)
+    const existingEntry = useLLMDebugStore
+      .getState()
+      .entries.find((e) => e.id === baseDebugEntry.id);
+    if (!existingEntry) {
+      useLLMDebugStore.getState().addEntry({
+        ...baseDebugEntry,
+        durationMs,
+        status: "error",
+        error: cancelled
+          ? { message: "Request cancelled", type: "cancelled" }
+          : {
+              message: error instanceof Error ? error.message : "Unknown error",
+              stack: error instanceof Error ? error.stack : undefined,
+            },
+      });
+    }
+
+    if (cancelled) {
+      return new CancelledError();
+    }
+    if (error instanceof Error) {
+      return error;
     }
+    return new Error("Unknown error during LLM request");
   }
 
+  /**
+   * Reply to a user prompt, or to a conversation ending in a user turn
+   */
   async generateWithSystemPrompt(
     systemPrompt: string,
-    userPrompt: string,
+    userPrompt: string | ConversationTurn[],
     options: ChatOptions = {}
   ): Promise<string> {
-    return this.chat(
-      [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      options
-    );
+    const turns: ChatMessage[] =
+      typeof userPrompt === "string"
+        ? [{ role: "user", content: userPrompt }]
+        : userPrompt.map((turn) => ({ role: turn.role, content: turn.content }));
+    return this.chat([{ role: "system", content: systemPrompt }, ...turns], options);
+  }
+
+  /**
+   * Ask for a JSON reply and validate it against `schema`. JSON mode is
+   * requested for object schemas (providers only support object roots).
+   * A reply that fails validation is sent back with its errors for up to
+   * `maxRepairs` more attempts; if none validates, or the request itself
+   * fails, the result is `ok: false` and the caller falls back. Every
+   * outcome is counted per call site in the debug store.
+   */
+  async chatStructured<T>(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    options: StructuredChatOptions
+  ): Promise<StructuredResult<T>> {
+    const { callSite, maxRepairs = DEFAULT_MAX_REPAIRS, ...chatOptions } =
+      options;
+    const conversation = [...messages];
+    let error = "";
+    let raw: string | undefined;
+    let attempts = 0;
+
+    while (attempts <= maxRepairs) {
+      attempts += 1;
+      try {
+        raw = await this.chat(conversation, {
+          ...chatOptions,
+          jsonMode: schema.type === "object",
+        });
+      } catch (err) {
+        // A cancelled call is not a fallback; let the caller stop
+        if (isCancelledError(err)) throw err;
+        // Transient failures were already retried by sendRequest
+        error = err instanceof Error ? err.message : String(err);
+        break;
+      }
+
+      const parsed = parseStructured<T>(raw, schema);
+      if (parsed.ok) {
+        useLLMDebugStore
+          .getState()
+          .recordStructuredOutcome(callSite, attempts === 1 ? "valid" : "repaired");
+        return { ok: true, data: parsed.data, attempts };
+      }
+
+      error = parsed.errors.join("; ");
+      conversation.push(
+        { role: "assistant", content: raw },
+        { role: "user", content: buildRepairPrompt(parsed.errors, schema) }
+      );
+    }
+
+    useLLMDebugStore
+      .getState()
+      .recordStructuredOutcome(callSite, "fallback", error);
+    console.warn(`Structured output for ${callSite} fell back:`, error);
+    return { ok: false, error, attempts, raw };
   }
 
-  private async handleMockRequest(messages: ChatMessage[]): Promise<string> {
+  private async handleMockRequest(
+    request: ChatCompletionRequest,
+    options: ChatOptions
+  ): Promise<string> {
     // Simulate network delay
-    await new Promise((resolve) => setTimeout(resolve, 800));
+    await delay(800, options.signal);
 
-    const lastMessage = messages[messages.length - 1].content.toLowerCase();
+    return this.getMockResponse(request, options);
+  }
+
+  private async *streamMockRequest(
+    request: ChatCompletionRequest,
+    options: ChatOptions
+  ): AsyncGenerator<ChatStreamChunk> {
+    // Simulate time to first token, then emit word by word
+    await delay(300, options.signal);
+
+    yield* streamText(
+      await this.getMockResponse(request, options),
+      20,
+      options.signal
+    );
+  }
 
-    if (lastMessage.includes("quantum")) {
-      return "Quantum computing uses quantum mechanics to process information. Unlike classical computers that use bits (0 or 1), quantum computers use qubits which can exist in a state of superposition, representing both 0 and 1 simultaneously. This allows them to solve certain complex problems much faster.";
+  /**
+   * Mock responses come from any cassette recording of the same prompt,
+   * so recorded sessions can be demoed without a key. Otherwise the mock
+   * scenarios (src/api/mock) answer in the shape the caller expects.
+   */
+  private async getMockResponse(
+    request: ChatCompletionRequest,
+    options: ChatOptions
+  ): Promise<string> {
+    try {
+      const recording = await findRecordingForPrompt(request);
+      if (recording) return recording.response.content;
+    } catch {
+      // Database not available - fall back to the mock scenarios
     }
 
-    return "This is a simulated response from the Mock Demo model. In a real session, this would be generated by an advanced LLM based on your specific prompt and context.";
+    return getMockReply(request, options.role);
+  }
+}
+
+/**
+ * Emit text word by word as stream chunks, optionally pausing between words
+ */
+async function* streamText(
+  text: string,
+  delayMs = 0,
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamChunk> {
+  let content = "";
+  for (const delta of text.split(/(?<=\s)/)) {
+    if (delayMs > 0) {
+      await delay(delayMs, signal);
+    }
+    content += delta;
+    yield { delta, content };
+  }
+}
+
+/**
+ * Read a non-2xx response into a typed error, keeping the raw body for debugging
+ */
+async function readErrorResponse(
+  response: Response
+): Promise<{ error: LLMRequestError; rawResponse?: string }> {
+  let rawResponse: string | undefined;
+  let errorData: LLMErrorResponse | undefined;
+  try {
+    rawResponse = await response.text();
+    errorData = JSON.parse(rawResponse) as LLMErrorResponse;
+  } catch {
+    // Response wasn't JSON
+  }
+
+  const retryAfterMs = parseRetryAfter(response.headers?.get("Retry-After"));
+
+  return {
+    error: classifyLLMError(response.status, errorData?.error, retryAfterMs),
+    rawResponse,
+  };
+}
+
+/**
+ * How long to wait before retrying after `error`, or undefined when the
+ * error should not be retried
+ */
+function getRetryDelay(
+  error: Error,
+  attempt: number,
+  config: RetryConfig
+): number | undefined {
+  if (!(error instanceof LLMRequestError) || !error.retryable) {
+    return undefined;
+  }
+
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= config.maxRetryAfterMs
+      ? error.retryAfterMs
+      : undefined;
   }
+
+  // Exponential backoff with jitter over the upper half of the window
+  const backoff = Math.min(
+    config.maxDelayMs,
+    config.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+}
+
+/**
+ * Parse an SSE response body into JSON event payloads.
+ * Stops at the `[DONE]` sentinel; malformed events are skipped.
+ */
+async function* readSSEEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      // Keep the last (possibly incomplete) line for the next read
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const data = trimmed.slice(5).trim();
+        if (data === "[DONE]") return;
+
+        try {
+          yield JSON.parse(data) as unknown;
+        } catch {
+          // Ignore keep-alives and partial events
+        }
+      }
+    }
+  } finally {
+    // Cancelling closes the connection when the caller stopped reading early
+    await reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Rough token usage of a call whose provider reported none: ~4 characters
+ * per token
+ */
+function estimateUsage(request: ChatCompletionRequest, content: string): TokenUsage {
+  const promptChars = request.messages.reduce(
+    (sum, message) => sum + message.content.length,
+    0
+  );
+  const promptTokens = Math.ceil(promptChars / 4);
+  const completionTokens = Math.ceil(content.length / 4);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+  };
 }
 
 // Singleton instance
@@ -309,9 +1185,24 @@ export async function generateText(
   return llmClient.chat([{ role: "user", content: prompt }], options);
 }
 
+export async function completeChat(
+  messages: ChatMessage[],
+  options?: ChatOptions
+): Promise<ChatCompletion> {
+  return llmClient.complete(messages, options);
+}
+
+export async function chatStructured<T>(
+  messages: ChatMessage[],
+  schema: JsonSchema,
+  options: StructuredChatOptions
+): Promise<StructuredResult<T>> {
+  return llmClient.chatStructured<T>(messages, schema, options);
+}
+
 export async function generateWithSystem(
   systemPrompt: string,
-  userPrompt: string,
+  userPrompt: string | ConversationTurn[],
   options?: ChatOptions
 ): Promise<string> {
   return llmClient.generateWithSystemPrompt(systemPrompt, userPrompt, options);
@@ -0,0 +1,165 @@
+/**
+ * Mock Provider Tests
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { getMockReply, setMockScenario } from '../index';
+import type { ChatMessage } from '../../llm';
+
+function request(messages: ChatMessage[], json = false) {
+  return {
+    model: 'mock/demo',
+    messages,
+    ...(json ? { response_format: { type: 'json_object' as const } } : {}),
+  };
+}
+
+describe('mock provider', () => {
+  afterEach(() => {
+    setMockScenario(null);
+  });
+
+  it('extracts feedback aspects for reward analysis', () => {
+    const reply = getMockReply(
+      request(
+        [
+          {
+            role: 'user',
+            content:
+              'Analyze this user feedback for an AI agent output and extract specific aspects being commented on.\n\nScore: 6/10\nComment: "Way too long, but the tone was friendly"\n\nReturn ONLY the JSON object, no other text.',
+          },
+        ],
+        true
+      )
+    );
+
+    expect(JSON.parse(reply).aspects).toEqual([
+      { aspect: 'length', sentiment: 'negative', quote: 'Way too long', confidence: 0.8 },
+      { aspect: 'tone', sentiment: 'positive', quote: 'the tone was friendly', confidence: 0.8 },
+    ]);
+  });
+
+  it('blames the prompt segment that matches a negative aspect', () => {
+    const reply = getMockReply(
+      request(
+        [
+          { role: 'system', content: 'You are an AI prompt analyzer. Your task is...' },
+          {
+            role: 'user',
+            content:
+              'System Prompt Segments:\n[0] You are a helpful assistant.\n\n[1] Always give long, detailed answers.\n\nUser Feedback:\nScore: 3/10\nAspects:\n- length (negative): too long',
+          },
+        ],
+        true
+      )
+    );
+
+    expect(JSON.parse(reply).assignments).toEqual([
+      expect.objectContaining({ segmentIndex: 0, blame: 'none' }),
+      expect.objectContaining({ segmentIndex: 1, blame: 'high', relatedAspect: 'length' }),
+    ]);
+  });
+
+  it('plans one change per negative aspect', () => {
+    const reply = getMockReply(
+      request(
+        [
+          { role: 'system', content: 'You are an AI agent evolution planner. Based on...' },
+          {
+            role: 'user',
+            content:
+              'Agent: Writer\n\nScore: 3/10\nComment: too long\nAspects: length(negative), tone(positive)\nTrend: stable (delta: 0)',
+          },
+        ],
+        true
+      )
+    );
+
+    const plan = JSON.parse(reply);
+    expect(plan.changes).toHaveLength(1);
+    expect(plan.changes[0]).toMatchObject({
+      component: 'systemPrompt',
+      changeType: 'add',
+      target: 'length_guideline',
+    });
+    expect(plan.expectedImpact).toEqual([
+      { aspect: 'length', direction: 'improve' },
+      { aspect: 'tone', direction: 'maintain' },
+    ]);
+  });
+
+  it('proposes the requested number of strategies', () => {
+    const reply = getMockReply(
+      request(
+        [
+          { role: 'system', content: 'You are the Master Trainer, an expert AI strategist helping users...' },
+          {
+            role: 'user',
+            content:
+              'The user wants to create an AI agent for this need:\n\n"Write product descriptions"\n\nPlease propose 3 distinct strategies for the agent lineages (A, B, C).',
+          },
+        ],
+        true
+      )
+    );
+
+    const parsed = JSON.parse(reply);
+    expect(parsed.message).toContain('Write product descriptions');
+    expect(parsed.strategies.map((s: { label: string }) => s.label)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('rewrites a system prompt with directives, replacing earlier refinements', () => {
+    const reply = getMockReply(
+      request([
+        { role: 'system', content: 'You are an expert at crafting system prompts for AI agents.' },
+        {
+          role: 'user',
+          content:
+            'Current system prompt:\n---\nYou write poems.\n\nRefinements:\n- Old guidance\n---\n\nFeedback:\n- Score: 5/10\n- One-time directive (apply now): Use rhyme',
+        },
+      ])
+    );
+
+    expect(reply).toBe('You write poems.\n\nRefinements:\n- Use rhyme');
+  });
+
+  it('gives agents deterministic replies that vary by prompt', () => {
+    const ask = (system: string) =>
+      getMockReply(
+        request([
+          { role: 'system', content: system },
+          { role: 'user', content: 'Explain recursion' },
+        ]),
+        'agent'
+      );
+
+    expect(ask('You are a tutor.')).toBe(ask('You are a tutor.'));
+    expect(ask('You are a tutor.')).toContain('Explain recursion');
+    expect(ask('Be concise.').length).toBeLessThan(ask('You are a tutor.').length);
+  });
+
+  it('does not serve trainer replies to agent calls', () => {
+    const reply = getMockReply(
+      request([
+        { role: 'system', content: 'You are an AI agent evolution planner. Based on...' },
+        { role: 'user', content: 'Plan my week' },
+      ]),
+      'agent'
+    );
+
+    expect(() => JSON.parse(reply)).toThrow();
+  });
+
+  it('consults an installed scenario before the default one', () => {
+    setMockScenario({
+      id: 'custom',
+      name: 'Custom',
+      rules: [{ name: 'greeting', user: /^hello/i, reply: 'Hi there!' }],
+    });
+
+    expect(getMockReply(request([{ role: 'user', content: 'Hello' }]))).toBe('Hi there!');
+    expect(getMockReply(request([{ role: 'user', content: 'Something else' }]))).toContain(
+      'Something else'
+    );
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Scriptable Mock Provider
+ *
+ * Serves the `mock/demo` model so a whole session can run without an API
+ * key. Replies come from a scenario: an ordered list of rules matched
+ * against the system and user messages of a request, plus the side of
+ * training that made the call. The first matching rule builds the reply.
+ *
+ * The default scenario (./scenarios) answers every trainer call site in
+ * the shape it parses - reward analysis, credit assignment, planning,
+ * strategy proposals, prompt rewrites, built-in tools - and gives agents a
+ * plain-text reply derived from their prompt. Replies are deterministic:
+ * the same request always gets the same reply.
+ *
+ * A custom scenario installed with `setMockScenario` is consulted first;
+ * requests none of its rules match fall through to the default scenario.
+ */
+
+import type { UsageRole } from "../../types/usage";
+import type { ChatCompletionRequest } from "../providers";
+import { DEFAULT_MOCK_SCENARIO } from "./scenarios";
+
+export { DEFAULT_MOCK_SCENARIO } from "./scenarios";
+
+/**
+ * The parts of a request mock rules match on and build replies from
+ */
+export interface MockRequest {
+  /** All system messages, joined */
+  system: string;
+  /** The last user message */
+  user: string;
+  messages: ChatCompletionRequest["messages"];
+  /** The caller asked for a JSON object */
+  json: boolean;
+  role: UsageRole;
+}
+
+export interface MockRule {
+  name: string;
+  /** Only match calls from this side of training */
+  role?: UsageRole;
+  /** Must match the system messages */
+  system?: RegExp;
+  /** Must match the last user message */
+  user?: RegExp;
+  /** Only match requests that do (true) or do not (false) want JSON */
+  json?: boolean;
+  reply: string | ((request: MockRequest) => string);
+}
+
+export interface MockScenario {
+  id: string;
+  name: string;
+  description?: string;
+  rules: MockRule[];
+}
+
+let activeScenario: MockScenario | null = null;
+
+/**
+ * Install a scenario ahead of the default one; pass null to remove it
+ */
+export function setMockScenario(scenario: MockScenario | null): void {
+  activeScenario = scenario;
+}
+
+export function getMockScenario(): MockScenario {
+  return activeScenario ?? DEFAULT_MOCK_SCENARIO;
+}
+
+export function toMockRequest(
+  request: ChatCompletionRequest,
+  role: UsageRole = "trainer"
+): MockRequest {
+  const system = request.messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+  const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+
+  return {
+    system,
+    user: lastUser?.content ?? "",
+    messages: request.messages,
+    json: request.response_format?.type === "json_object",
+    role,
+  };
+}
+
+export function matchesRule(rule: MockRule, request: MockRequest): boolean {
+  if (rule.role && rule.role !== request.role) return false;
+  if (rule.json !== undefined && rule.json !== request.json) return false;
+  if (rule.system && !rule.system.test(request.system)) return false;
+  if (rule.user && !rule.user.test(request.user)) return false;
+  return true;
+}
+
+/**
+ * Find the rule that answers a request: the installed scenario first, then
+ * the default scenario
+ */
+export function findMockRule(request: MockRequest): MockRule | undefined {
+  const scenarios = activeScenario
+    ? [activeScenario, DEFAULT_MOCK_SCENARIO]
+    : [DEFAULT_MOCK_SCENARIO];
+
+  for (const scenario of scenarios) {
+    const rule = scenario.rules.find((r) => matchesRule(r, request));
+    if (rule) return rule;
+  }
+  return undefined;
+}
+
+/**
+ * Reply to a request from the mock scenarios
+ */
+export function getMockReply(
+  request: ChatCompletionRequest,
+  role?: UsageRole
+): string {
+  const mockRequest = toMockRequest(request, role);
+  const rule = findMockRule(mockRequest);
+
+  if (!rule) {
+    return "This is a simulated response from the Mock Demo model.";
+  }
+  return typeof rule.reply === "string" ? rule.reply : rule.reply(mockRequest);
+}
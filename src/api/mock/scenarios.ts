@@ -0,0 +1,592 @@
+/**
+ * Default Mock Scenario
+ *
+ * Rules for every prompt Training Camp sends. Trainer rules recognise a
+ * call site by its system prompt (or, for single-message calls, its user
+ * prompt), read the inputs back out of the prompt text and reply in the
+ * shape the call site validates. Anything else is answered as an agent.
+ */
+
+import type { MockRequest, MockRule, MockScenario } from "./index";
+
+// ============================================================================
+// Prompt parsing helpers
+// ============================================================================
+
+/** Value of a `Label: "value"` line */
+function quotedField(text: string, label: string): string | undefined {
+  return text.match(new RegExp(`${label}:\\s*"([^"]*)"`, "i"))?.[1];
+}
+
+/** Value of a `Label: value` line */
+function lineField(text: string, label: string): string | undefined {
+  return text.match(new RegExp(`^\\s*-?\\s*${label}:\\s*(.+)$`, "im"))?.[1].trim();
+}
+
+function parseScore(text: string): number {
+  const match = text.match(/Score:\s*(\d+(?:\.\d+)?)\s*\/\s*10/i);
+  return match ? Number(match[1]) : 5;
+}
+
+/** Text between `---` fences, in order */
+function fencedBlocks(text: string): string[] {
+  return [...text.matchAll(/^---\n([\s\S]*?)\n---$/gm)].map((m) => m[1].trim());
+}
+
+function firstLine(text: string, maxLength = 100): string {
+  const line = text.trim().split("\n")[0] ?? "";
+  return line.length > maxLength ? `${line.substring(0, maxLength)}...` : line;
+}
+
+/** Stable 32-bit hash, used to vary replies between prompts */
+function hashText(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash << 5) - hash + text.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+function pick<T>(items: readonly T[], seed: string): T {
+  return items[hashText(seed) % items.length];
+}
+
+// ============================================================================
+// Feedback aspects
+// ============================================================================
+
+const ASPECT_KEYWORDS: Record<string, RegExp> = {
+  length: /\b(long|short|length|lengthy|verbose|wordy|brief|concise|rambl\w*)\b/i,
+  tone: /\b(tone|formal|casual|friendly|rude|warm|cold|stiff)\b/i,
+  accuracy: /\b(accura\w*|wrong|incorrect|correct|facts?|factual|errors?)\b/i,
+  format: /\b(format\w*|structur\w*|bullets?|headings?|layout|markdown)\b/i,
+  clarity: /\b(clear|clarity|confusing|unclear|vague)\b/i,
+  creativity: /\b(creativ\w*|original|boring|bland|generic)\b/i,
+  completeness: /\b(complete|missing|incomplete|thorough|detail\w*)\b/i,
+};
+
+const NEGATIVE_CUES =
+  /\b(too|not|no|lacks?|lacking|missing|wrong|incorrect|confusing|unclear|vague|boring|bland|generic|rude|cold|stiff|rambl\w*|verbose|wordy)\b|n't\b/i;
+
+const ASPECT_GUIDANCE: Record<string, string> = {
+  length: "Keep responses focused; cut anything that does not serve the request.",
+  tone: "Match the tone to the audience and keep it warm and professional.",
+  accuracy: "Double-check facts and say so when you are unsure.",
+  format: "Structure responses with short headings and bullet points where they help.",
+  clarity: "Prefer plain language and explain any necessary jargon.",
+  creativity: "Offer at least one fresh or unexpected angle.",
+  completeness: "Cover every part of the request before finishing.",
+};
+
+type Sentiment = "positive" | "negative" | "neutral";
+
+function scoreSentiment(score: number): Sentiment {
+  if (score >= 7) return "positive";
+  if (score <= 4) return "negative";
+  return "neutral";
+}
+
+/** Aspects named in a feedback comment, with the clause that names them */
+function findAspects(comment: string, score: number) {
+  const clauses = comment
+    .split(/[.;!?,]|\bbut\b/i)
+    .map((c) => c.trim())
+    .filter(Boolean);
+
+  return Object.entries(ASPECT_KEYWORDS).flatMap(([aspect, pattern]) => {
+    const clause = clauses.find((c) => pattern.test(c));
+    if (!clause) return [];
+    const sentiment: Sentiment = NEGATIVE_CUES.test(clause)
+      ? "negative"
+      : scoreSentiment(score) === "negative"
+        ? "negative"
+        : "positive";
+    return [{ aspect, sentiment, quote: clause, confidence: 0.8 }];
+  });
+}
+
+/** `- aspect (sentiment): quote` lines in credit assignment prompts */
+function parseAspectList(text: string): Array<{ aspect: string; sentiment: string }> {
+  return [...text.matchAll(/^- (\w+) \((positive|negative|neutral)\)/gm)].map(
+    (m) => ({ aspect: m[1], sentiment: m[2] })
+  );
+}
+
+// ============================================================================
+// Trainer replies
+// ============================================================================
+
+function replyRewardAnalysis(request: MockRequest): string {
+  const score = parseScore(request.user);
+  const comment = request.user.match(/Comment:\s*"([\s\S]*?)"\n/)?.[1] ?? "";
+  return JSON.stringify({ aspects: findAspects(comment, score) });
+}
+
+function replyCreditAssignment(request: MockRequest): string {
+  const segments = [...request.user.matchAll(/^\[(\d+)\] (.*)$/gm)].map((m) => ({
+    index: Number(m[1]),
+    text: m[2],
+  }));
+  const negatives = parseAspectList(request.user).filter(
+    (a) => a.sentiment === "negative"
+  );
+
+  const assignments = segments.map((segment) => {
+    const aspect = negatives.find((a) => ASPECT_KEYWORDS[a.aspect]?.test(segment.text));
+    return aspect
+      ? {
+          segmentIndex: segment.index,
+          blame: "high",
+          relatedAspect: aspect.aspect,
+          reason: `Segment shapes the ${aspect.aspect} the user criticised`,
+        }
+      : {
+          segmentIndex: segment.index,
+          blame: "none",
+          relatedAspect: null,
+          reason: "Unrelated to the feedback",
+        };
+  });
+
+  // Nothing in the prompt speaks to the complaint: blame the gap at the end
+  const last = assignments[assignments.length - 1];
+  if (negatives.length > 0 && last && !assignments.some((a) => a.blame === "high")) {
+    assignments[assignments.length - 1] = {
+      ...last,
+      blame: "medium",
+      relatedAspect: negatives[0].aspect,
+      reason: `Prompt gives no guidance on ${negatives[0].aspect}`,
+    };
+  }
+
+  return JSON.stringify({ assignments });
+}
+
+function replyEvolutionPlan(request: MockRequest): string {
+  const score = parseScore(request.user);
+  const aspects = [
+    ...(lineField(request.user, "Aspects") ?? "").matchAll(
+      /(\w+)\((positive|negative|neutral)\)/g
+    ),
+  ].map((m) => ({ aspect: m[1], sentiment: m[2] }));
+  let targets = aspects
+    .filter((a) => a.sentiment === "negative")
+    .map((a) => a.aspect)
+    .slice(0, 3);
+  if (targets.length === 0 && score < 7) {
+    targets = ["clarity"];
+  }
+
+  const changes = targets.map((aspect) => ({
+    component: "systemPrompt",
+    changeType: "add",
+    target: `${aspect}_guideline`,
+    before: null,
+    after:
+      ASPECT_GUIDANCE[aspect] ?? `Pay closer attention to ${aspect} in every response.`,
+    reason: `Feedback calls for better ${aspect}`,
+    confidence: 0.7,
+  }));
+
+  return JSON.stringify({
+    changes,
+    hypothesis:
+      changes.length > 0
+        ? `After these changes, we expect ${targets.join(", ")} to improve while keeping what already worked.`
+        : "The current approach is working; keeping it unchanged should maintain the score.",
+    expectedImpact: [
+      ...targets.map((aspect) => ({ aspect, direction: "improve" })),
+      ...aspects
+        .filter((a) => a.sentiment === "positive")
+        .map((a) => ({ aspect: a.aspect, direction: "maintain" })),
+    ],
+  });
+}
+
+const STRATEGY_ARCHETYPES = [
+  {
+    name: "Concise Expert",
+    description: "Gets straight to the point with authoritative, well-scoped answers",
+    style: "Direct and precise; leads with the answer and trims every extra word",
+    temperature: 0.3,
+  },
+  {
+    name: "Friendly Guide",
+    description: "Walks the user through the task step by step in an approachable voice",
+    style: "Warm and encouraging; explains reasoning and checks understanding",
+    temperature: 0.6,
+  },
+  {
+    name: "Structured Analyst",
+    description: "Breaks the problem into parts and covers each one systematically",
+    style: "Organised with headings and lists; weighs trade-offs explicitly",
+    temperature: 0.4,
+  },
+  {
+    name: "Creative Explorer",
+    description: "Looks for unexpected angles and original ideas",
+    style: "Playful and imaginative; offers several distinct options",
+    temperature: 0.9,
+  },
+  {
+    name: "Critical Reviewer",
+    description: "Anticipates weaknesses and addresses them up front",
+    style: "Skeptical and thorough; flags risks and assumptions",
+    temperature: 0.4,
+  },
+  {
+    name: "Storyteller",
+    description: "Frames the answer around concrete examples and narratives",
+    style: "Vivid and engaging; uses examples to make points stick",
+    temperature: 0.8,
+  },
+  {
+    name: "Minimalist",
+    description: "Delivers the smallest answer that fully solves the problem",
+    style: "Sparse and plain; no filler, no decoration",
+    temperature: 0.2,
+  },
+  {
+    name: "Coach",
+    description: "Helps the user build their own skill alongside the answer",
+    style: "Supportive and Socratic; explains the why behind each step",
+    temperature: 0.6,
+  },
+];
+
+const STRATEGY_LABELS = ["A", "B", "C", "D", "E", "F", "G", "H"];
+
+function replyStrategies(request: MockRequest): string {
+  const discussing = /original need is:/i.test(request.user);
+  const need =
+    request.user.match(/original need is:\s*"([^"]*)"/i)?.[1] ??
+    request.user.match(/"([^"]*)"/)?.[1] ??
+    "your task";
+  const requested = Number(request.user.match(/propose (\d+) distinct/i)?.[1] ?? 4);
+  const count = Math.min(Math.max(requested, 1), STRATEGY_ARCHETYPES.length);
+
+  const strategies = STRATEGY_ARCHETYPES.slice(0, count).map((strategy, i) => ({
+    label: STRATEGY_LABELS[i],
+    ...strategy,
+  }));
+
+  const message = discussing
+    ? "Thanks for the feedback. I've kept the strategies below and tuned them to your notes - let me know if any angle should be swapped out."
+    : `Here ${count === 1 ? "is one approach" : `are ${count} distinct approaches`} for **${need}**. Each lineage explores a different way of serving the user, so comparing their outputs will show which direction works best.`;
+
+  return JSON.stringify({ message, strategies });
+}
+
+/** Directive lines in prompt rewrite requests */
+function findDirectives(request: MockRequest): string[] {
+  const inline = [
+    ...`${request.system}\n${request.user}`.matchAll(/directive[^:\n]*:[ \t]*(.+)$/gim),
+  ].map((m) => m[1].trim());
+  const listed =
+    request.system
+      .match(/User directives to incorporate:\n([\s\S]*?)(?:\n\n|$)/)?.[1]
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean) ?? [];
+  return [...new Set([...inline, ...listed])];
+}
+
+/**
+ * System prompt for generation, enhancement, evolution and merge requests.
+ * Earlier refinements are replaced rather than stacked, so prompts do not
+ * grow every cycle.
+ */
+function replySystemPrompt(request: MockRequest): string {
+  const blocks = fencedBlocks(request.user).map((block) =>
+    block.replace(/\n\nRefinements:[\s\S]*$/, "")
+  );
+
+  if (blocks.length === 0) {
+    const need = quotedField(request.user, "User Need") ?? "the user's request";
+    const strategy = lineField(request.user, "Strategy") ?? "Balanced - helpful and clear";
+    const style = lineField(request.user, "Style") ?? "clear and helpful";
+    return `You are an AI assistant designed for: ${need}
+
+Strategy: ${strategy}
+Your approach is ${style}.
+
+Guidelines:
+- Start by restating the goal in one sentence
+- Follow the user's instructions carefully
+- Keep your style consistent from start to finish`;
+  }
+
+  const directives = findDirectives(request);
+  const refinements =
+    directives.length > 0
+      ? directives
+      : [pick(Object.values(ASPECT_GUIDANCE), request.user)];
+
+  return `${blocks.join("\n\n")}
+
+Refinements:
+${refinements.map((r) => `- ${r}`).join("\n")}`;
+}
+
+function replyTrainerChat(request: MockRequest): string {
+  const need = quotedField(request.system, "Need") ?? "this session";
+  const lineages = (request.system.match(/^- Lineage /gm) ?? []).length;
+
+  return `Looking at the ${lineages} ${lineages === 1 ? "lineage" : "lineages"} working on "${need}", the quickest progress usually comes from grading every output and adding one concrete directive to the weakest lineage. Sticky directives are best for rules you always want followed; one-shot directives for fixing something specific in the next cycle.`;
+}
+
+function replyTestInput(request: MockRequest): string {
+  const need = quotedField(request.user, "Need") ?? "this task";
+  return `I need help with ${need}. Please produce a complete first version I can review, and point out any assumptions you made.`;
+}
+
+function replyKnowledge(request: MockRequest): string {
+  const query = request.user.trim();
+  return JSON.stringify({
+    query,
+    summary: `${firstLine(query)} is a broad topic; the key points below cover the essentials.`,
+    details: [
+      "Start from the core definition and the problem it solves.",
+      "Common approaches trade simplicity against flexibility.",
+      "Practical examples are the fastest way to check understanding.",
+    ],
+    relatedTopics: ["best practices", "common pitfalls"],
+    confidence: "medium",
+    caveat: "Simulated answer from the Mock Demo model.",
+  });
+}
+
+function replyBrainstorm(request: MockRequest): string {
+  const count = Number(request.system.match(/Generate (\d+) unique/)?.[1] ?? 5);
+  const topic = request.user.match(/ideas for:\s*(.+)$/m)?.[1] ?? firstLine(request.user);
+  const angles = [
+    "Start small with",
+    "Automate",
+    "Crowdsource",
+    "Gamify",
+    "Partner with experts on",
+    "Build a template for",
+    "Run a weekly review of",
+    "Visualise",
+    "Teach others about",
+    "Reverse the usual approach to",
+  ];
+
+  return JSON.stringify({
+    ideas: angles.slice(0, count).map((angle, i) => ({
+      idea: `${angle} ${topic}`,
+      rationale: `A ${i % 2 === 0 ? "low-risk" : "bolder"} way to make progress on ${topic}.`,
+      feasibility: ["high", "medium", "low"][i % 3],
+      innovationScore: Number((0.5 + ((i * 7) % 10) / 20).toFixed(2)),
+    })),
+  });
+}
+
+function replyAnalysis(request: MockRequest): string {
+  const type = lineField(request.system, "Analysis type requested") ?? "summary";
+  const data = request.user.replace(/^Analyze this data[^\n]*\n\n/, "");
+
+  const statistics =
+    type === "sentiment"
+      ? { positive: 0.5, neutral: 0.3, negative: 0.2 }
+      : type === "trend"
+        ? { growthRate: 0.12, trendStrength: 0.6, direction: "up" }
+        : { characters: data.length, lines: data.split("\n").length };
+
+  return JSON.stringify({
+    summary: `The data shows a generally consistent pattern (${type} analysis).`,
+    insights: [
+      "Most values cluster around the middle of the range.",
+      "A small number of entries stand out and deserve a closer look.",
+    ],
+    statistics,
+    recommendations: ["Collect more data points before drawing firm conclusions."],
+  });
+}
+
+function replySummary(request: MockRequest): string {
+  const sentences = request.user.match(/[^.!?]+[.!?]+/g) ?? [request.user];
+  return sentences.slice(0, 2).join(" ").trim();
+}
+
+function replyMarkdown(request: MockRequest): string {
+  const paragraphs = request.user
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const title = firstLine(paragraphs[0] ?? "Document", 60);
+  return `# ${title}\n\n${paragraphs.join("\n\n")}`;
+}
+
+// ============================================================================
+// Agent replies
+// ============================================================================
+
+const OPENERS = [
+  (topic: string) => `Here is a response to "${topic}".`,
+  (topic: string) => `Let's work through "${topic}".`,
+  (topic: string) => `Good question - "${topic}" comes down to a few key points.`,
+  (topic: string) => `You asked about "${topic}". Here is my take.`,
+];
+
+const POINTS = [
+  "Start with the goal, so every later step has something to serve.",
+  "Break the work into small pieces that can be checked one at a time.",
+  "Use a concrete example to make the idea tangible.",
+  "Call out the main trade-off and which way to lean.",
+  "Finish with a clear next step.",
+];
+
+/**
+ * Plain-text agent output. The system prompt's style cues decide the shape
+ * (short, listed or prose) and the prompt hash picks the wording, so
+ * different lineages answering the same input get different outputs.
+ */
+function replyAsAgent(request: MockRequest): string {
+  const topic = firstLine(request.user || request.system) || "your request";
+  const seed = `${request.system}\n${request.user}`;
+  const opener = pick(OPENERS, seed)(topic);
+  const start = hashText(seed) % POINTS.length;
+  const points = [0, 1, 2].map((i) => POINTS[(start + i) % POINTS.length]);
+
+  if (/\b(concise|brief|short|minimal\w*|direct)\b/i.test(request.system)) {
+    return `${opener} ${points[0]}`;
+  }
+  if (/\b(structur\w*|bullet\w*|steps?|lists?|organi[sz]ed)\b/i.test(request.system)) {
+    return `${opener}\n\n${points.map((p, i) => `${i + 1}. ${p}`).join("\n")}\n\nLet me know which step you'd like to expand.`;
+  }
+  return `${opener}\n\n${points.join(" ")}\n\nThis is a simulated response from the Mock Demo model.`;
+}
+
+const SIMULATED_FOLLOW_UPS = [
+  "Can you give me a concrete example?",
+  "What should I do first?",
+  "That helps. Is there anything I should watch out for?",
+];
+
+/**
+ * Simulated user messages: the goal as the opening message, a follow-up
+ * after each agent reply, and done after the third reply
+ */
+function replyAsSimulatedUser(request: MockRequest): string {
+  const replies = (request.user.match(/^Assistant:/gm) ?? []).length;
+  if (replies === 0) {
+    return `Hi, I need help with this: ${lineField(request.system, "Goal") ?? "a question"}`;
+  }
+  return replies >= 3
+    ? "[DONE]"
+    : SIMULATED_FOLLOW_UPS[(replies - 1) % SIMULATED_FOLLOW_UPS.length];
+}
+
+// ============================================================================
+// Scenario
+// ============================================================================
+
+const DEFAULT_RULES: MockRule[] = [
+  {
+    name: "reward-analysis",
+    role: "trainer",
+    user: /^Analyze this user feedback for an AI agent output/,
+    reply: replyRewardAnalysis,
+  },
+  {
+    name: "credit-assignment",
+    role: "trainer",
+    system: /^You are an AI prompt analyzer/,
+    reply: replyCreditAssignment,
+  },
+  {
+    name: "evolution-plan",
+    role: "trainer",
+    system: /^You are an AI agent evolution planner/,
+    reply: replyEvolutionPlan,
+  },
+  {
+    name: "strategy-proposals",
+    role: "trainer",
+    system: /^You are the Master Trainer, an expert AI strategist/,
+    reply: replyStrategies,
+  },
+  {
+    name: "trainer-chat",
+    role: "trainer",
+    system: /^You are the Master Trainer, an AI assistant/,
+    reply: replyTrainerChat,
+  },
+  {
+    name: "test-input",
+    role: "trainer",
+    system: /^You are an expert at designing test inputs/,
+    reply: replyTestInput,
+  },
+  {
+    name: "agent-description",
+    role: "trainer",
+    user: /Suggest a brief, improved description/,
+    reply: (request) =>
+      `An improved agent for ${quotedField(request.user, "for the need") ?? "this need"}, with clearer structure and closer attention to feedback.`,
+  },
+  {
+    name: "system-prompt",
+    role: "trainer",
+    system:
+      /^You are an (expert AI agent architect|AI agent prompt engineer|expert at crafting system prompts)/,
+    reply: replySystemPrompt,
+  },
+  {
+    name: "tool:knowledge_query",
+    system: /^You are a knowledge assistant/,
+    reply: replyKnowledge,
+  },
+  {
+    name: "tool:brainstorm",
+    system: /^You are a creative brainstorming assistant/,
+    reply: replyBrainstorm,
+  },
+  {
+    name: "tool:analyze_data",
+    system: /^You are a data analyst/,
+    reply: replyAnalysis,
+  },
+  {
+    name: "tool:summarize",
+    system: /^You are a summarization expert/,
+    reply: replySummary,
+  },
+  {
+    name: "tool:format",
+    system: /^You are a markdown formatting expert/,
+    reply: replyMarkdown,
+  },
+  {
+    name: "user-simulator",
+    role: "trainer",
+    system: /^You are playing a user talking to an AI assistant/,
+    reply: replyAsSimulatedUser,
+  },
+  {
+    name: "flow-judge",
+    user: /^Pick the best of these candidate responses/,
+    reply: (request) => {
+      const count = (request.user.match(/^Candidate \d+:/gm) ?? []).length;
+      return String(1 + (hashText(request.user) % Math.max(count, 1)));
+    },
+  },
+  {
+    name: "json",
+    json: true,
+    reply: (request) => JSON.stringify({ result: replyAsAgent(request) }),
+  },
+  {
+    name: "agent",
+    reply: replyAsAgent,
+  },
+];
+
+export const DEFAULT_MOCK_SCENARIO: MockScenario = {
+  id: "default",
+  name: "Default",
+  description: "Plausible replies for every trainer stage, tool and agent call",
+  rules: DEFAULT_RULES,
+};
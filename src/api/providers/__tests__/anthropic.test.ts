@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { anthropicAdapter } from '../anthropic';
+import type { ResolvedModelRoute } from '../types';
+
+const route: ResolvedModelRoute = {
+  adapter: 'anthropic',
+  baseUrl: 'https://api.anthropic.com',
+  apiKey: 'sk-ant-test',
+  model: 'claude-sonnet-4-5',
+};
+
+function buildBody(request: Parameters<typeof anthropicAdapter.buildRequest>[0]) {
+  const { init } = anthropicAdapter.buildRequest(request, route);
+  return JSON.parse(init.body as string);
+}
+
+describe('anthropicAdapter', () => {
+  describe('buildRequest', () => {
+    it('targets the Messages API with Anthropic headers', () => {
+      const { url, init } = anthropicAdapter.buildRequest(
+        { model: 'anthropic-direct/claude-sonnet-4-5', messages: [{ role: 'user', content: 'Hi' }] },
+        route
+      );
+
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(init.headers).toMatchObject({
+        'x-api-key': 'sk-ant-test',
+        'anthropic-version': '2023-06-01',
+      });
+    });
+
+    it('moves system messages to the system field and uses the provider model name', () => {
+      const body = buildBody({
+        model: 'anthropic-direct/claude-sonnet-4-5',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        max_tokens: 200,
+        temperature: 0.3,
+      });
+
+      expect(body).toEqual({
+        model: 'claude-sonnet-4-5',
+        system: 'Be brief.',
+        messages: [{ role: 'user', content: 'Hi' }],
+        max_tokens: 200,
+        temperature: 0.3,
+      });
+    });
+
+    it('translates tools, tool calls and tool results', () => {
+      const body = buildBody({
+        model: 'm',
+        messages: [
+          { role: 'user', content: 'What is 2+2?' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { id: 'call-1', type: 'function', function: { name: 'calculate', arguments: '{"expression":"2+2"}' } },
+              { id: 'call-2', type: 'function', function: { name: 'calculate', arguments: '{"expression":"1"}' } },
+            ],
+          },
+          { role: 'tool', tool_call_id: 'call-1', content: '4' },
+          { role: 'tool', tool_call_id: 'call-2', content: '1' },
+        ],
+        tools: [
+          {
+            type: 'function',
+            function: { name: 'calculate', description: 'Maths', parameters: { type: 'object' } },
+          },
+        ],
+        tool_choice: 'required',
+      });
+
+      expect(body.tools).toEqual([
+        { name: 'calculate', description: 'Maths', input_schema: { type: 'object' } },
+      ]);
+      expect(body.tool_choice).toEqual({ type: 'any' });
+      expect(body.messages[1]).toEqual({
+        role: 'assistant',
+        content: [
+          { type: 'tool_use', id: 'call-1', name: 'calculate', input: { expression: '2+2' } },
+          { type: 'tool_use', id: 'call-2', name: 'calculate', input: { expression: '1' } },
+        ],
+      });
+      expect(body.messages[2]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'call-1', content: '4' },
+          { type: 'tool_result', tool_use_id: 'call-2', content: '1' },
+        ],
+      });
+    });
+  });
+
+  describe('parseResponse', () => {
+    it('converts text, tool use and usage to the OpenAI format', () => {
+      const response = anthropicAdapter.parseResponse({
+        id: 'msg_1',
+        model: 'claude-sonnet-4-5',
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'calculate', input: { expression: '2+2' } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      });
+
+      expect(response.model).toBe('claude-sonnet-4-5');
+      expect(response.choices[0].message.content).toBe('Let me check.');
+      expect(response.choices[0].message.tool_calls).toEqual([
+        { id: 'toolu_1', type: 'function', function: { name: 'calculate', arguments: '{"expression":"2+2"}' } },
+      ]);
+      expect(response.choices[0].finish_reason).toBe('tool_calls');
+      expect(response.usage).toEqual({ prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+    });
+
+    it('maps end_turn to stop', () => {
+      const response = anthropicAdapter.parseResponse({
+        id: 'msg_1',
+        model: 'm',
+        content: [{ type: 'text', text: 'Done' }],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 1, output_tokens: 1 },
+      });
+
+      expect(response.choices[0].finish_reason).toBe('stop');
+      expect(response.choices[0].message.tool_calls).toBeUndefined();
+    });
+  });
+
+  describe('createStreamParser', () => {
+    it('converts stream events to OpenAI chunks with usage', () => {
+      const parse = anthropicAdapter.createStreamParser();
+
+      expect(
+        parse({ type: 'message_start', message: { id: 'msg_1', model: 'm', usage: { input_tokens: 7 } } })
+      ).toBeNull();
+      expect(parse({ type: 'content_block_start', index: 0 })).toBeNull();
+
+      const delta = parse({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hel' } });
+      expect(delta?.choices[0].delta.content).toBe('Hel');
+      expect(delta?.model).toBe('m');
+
+      const end = parse({ type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 3 } });
+      expect(end?.choices[0].finish_reason).toBe('length');
+      expect(end?.usage).toEqual({ prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 });
+    });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Anthropic Messages API Adapter
+ *
+ * Translates OpenAI-format chat requests to the Anthropic Messages API
+ * (`/v1/messages`) and converts responses and stream events back.
+ */
+
+import type { ChatMessage, ChatToolCall } from "../llm";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionStreamChunk,
+  ProviderAdapter,
+} from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "tool_use";
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+interface AnthropicResponse {
+  id: string;
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+type AnthropicStreamEvent =
+  | {
+      type: "message_start";
+      message: { id: string; model: string; usage: { input_tokens: number } };
+    }
+  | {
+      type: "content_block_delta";
+      delta: { type: string; text?: string };
+    }
+  | {
+      type: "message_delta";
+      delta: { stop_reason: string | null };
+      usage: { output_tokens: number };
+    }
+  | { type: string };
+
+const STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+};
+
+function toFinishReason(stopReason: string | null): string {
+  if (!stopReason) return "stop";
+  return STOP_REASONS[stopReason] ?? stopReason;
+}
+
+/**
+ * Convert OpenAI-style messages to Anthropic's format. System messages move
+ * to the top-level `system` field; tool results become user content blocks.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): {
+  system?: string;
+  messages: AnthropicMessage[];
+} {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+  const converted: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+
+    if (message.role === "tool") {
+      const block: AnthropicContentBlock = {
+        type: "tool_result",
+        tool_use_id: message.tool_call_id ?? "",
+        content: message.content,
+      };
+      // Consecutive tool results share a single user turn
+      const previous = converted[converted.length - 1];
+      if (
+        previous?.role === "user" &&
+        Array.isArray(previous.content) &&
+        previous.content.every((b) => b.type === "tool_result")
+      ) {
+        previous.content.push(block);
+      } else {
+        converted.push({ role: "user", content: [block] });
+      }
+      continue;
+    }
+
+    if (message.role === "assistant" && message.tool_calls?.length) {
+      const blocks: AnthropicContentBlock[] = [];
+      if (message.content) {
+        blocks.push({ type: "text", text: message.content });
+      }
+      for (const call of message.tool_calls) {
+        blocks.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.function.name,
+          input: JSON.parse(call.function.arguments || "{}"),
+        });
+      }
+      converted.push({ role: "assistant", content: blocks });
+      continue;
+    }
+
+    converted.push({ role: message.role, content: message.content });
+  }
+
+  return { system: system || undefined, messages: converted };
+}
+
+function toAnthropicBody(
+  request: ChatCompletionRequest,
+  model: string
+): Record<string, unknown> {
+  const { system, messages } = toAnthropicMessages(request.messages);
+  const body: Record<string, unknown> = {
+    model,
+    messages,
+    max_tokens: request.max_tokens ?? 1024,
+  };
+
+  if (system) body.system = system;
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  if (request.top_p !== undefined) body.top_p = request.top_p;
+  if (request.stream) body.stream = true;
+  // The Messages API has no JSON mode; `response_format` is dropped and
+  // structured callers rely on their prompt plus schema validation instead
+
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map((t) => ({
+      name: t.function.name,
+      description: t.function.description,
+      input_schema: t.function.parameters,
+    }));
+    const choice = request.tool_choice ?? "auto";
+    body.tool_choice = { type: choice === "required" ? "any" : choice };
+  }
+
+  return body;
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: "anthropic",
+  apiKeyOptional: false,
+
+  buildRequest(request, route) {
+    return {
+      url: `${route.baseUrl}/v1/messages`,
+      init: {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": route.apiKey ?? "",
+          "anthropic-version": ANTHROPIC_VERSION,
+          // Required for calling the API straight from the browser
+          "anthropic-dangerous-direct-browser-access": "true",
+        },
+        body: JSON.stringify(toAnthropicBody(request, route.model)),
+      },
+    };
+  },
+
+  parseResponse(data) {
+    const response = data as AnthropicResponse;
+    const text = response.content
+      .filter((b): b is Extract<AnthropicContentBlock, { type: "text" }> => b.type === "text")
+      .map((b) => b.text)
+      .join("");
+    const toolCalls: ChatToolCall[] = response.content
+      .filter(
+        (b): b is Extract<AnthropicContentBlock, { type: "tool_use" }> =>
+          b.type === "tool_use"
+      )
+      .map((b) => ({
+        id: b.id,
+        type: "function",
+        function: { name: b.name, arguments: JSON.stringify(b.input) },
+      }));
+
+    const result: ChatCompletionResponse = {
+      id: response.id,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model: response.model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: text,
+            tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+          },
+          finish_reason: toFinishReason(response.stop_reason),
+        },
+      ],
+      usage: {
+        prompt_tokens: response.usage.input_tokens,
+        completion_tokens: response.usage.output_tokens,
+        total_tokens: response.usage.input_tokens + response.usage.output_tokens,
+      },
+    };
+    return result;
+  },
+
+  createStreamParser() {
+    let id = "";
+    let model = "";
+    let inputTokens = 0;
+
+    return (data) => {
+      const event = data as AnthropicStreamEvent;
+
+      if (event.type === "message_start" && "message" in event) {
+        id = event.message.id;
+        model = event.message.model;
+        inputTokens = event.message.usage.input_tokens;
+        return null;
+      }
+
+      if (event.type === "content_block_delta" && "delta" in event) {
+        const text = "text" in event.delta ? event.delta.text : undefined;
+        if (!text) return null;
+        const chunk: ChatCompletionStreamChunk = {
+          id,
+          model,
+          choices: [{ index: 0, delta: { content: text }, finish_reason: null }],
+        };
+        return chunk;
+      }
+
+      if (event.type === "message_delta" && "usage" in event) {
+        const outputTokens = event.usage.output_tokens;
+        const chunk: ChatCompletionStreamChunk = {
+          id,
+          model,
+          choices: [
+            {
+              index: 0,
+              delta: {},
+              finish_reason: toFinishReason(event.delta.stop_reason),
+            },
+          ],
+          usage: {
+            prompt_tokens: inputTokens,
+            completion_tokens: outputTokens,
+            total_tokens: inputTokens + outputTokens,
+          },
+        };
+        return chunk;
+      }
+
+      return null;
+    };
+  },
+};
@@ -0,0 +1,51 @@
+/**
+ * LLM Provider Adapters
+ *
+ * Registry of the adapters the LLM client can route a model through.
+ * See `ModelInfo.adapter` and `useModelStore.modelRoutes` for how a model
+ * is mapped to an adapter.
+ */
+
+import { anthropicAdapter } from "./anthropic";
+import { createOpenAIAdapter } from "./openai";
+import type { ProviderAdapter, ProviderAdapterId } from "./types";
+
+export type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionStreamChunk,
+  ProviderAdapter,
+  ProviderAdapterId,
+  ResolvedModelRoute,
+} from "./types";
+
+const adapters: Record<ProviderAdapterId, ProviderAdapter> = {
+  litellm: createOpenAIAdapter("litellm"),
+  openai: createOpenAIAdapter("openai"),
+  "openai-compatible": createOpenAIAdapter("openai-compatible"),
+  anthropic: anthropicAdapter,
+};
+
+/**
+ * Base URL used when neither the model nor the user configures one.
+ * LiteLLM's default is resolved by the client (store, env, hosted proxy).
+ */
+export const DEFAULT_PROVIDER_BASE_URLS: Record<
+  Exclude<ProviderAdapterId, "litellm">,
+  string
+> = {
+  openai: "https://api.openai.com",
+  "openai-compatible": "http://localhost:11434",
+  anthropic: "https://api.anthropic.com",
+};
+
+export const PROVIDER_LABELS: Record<ProviderAdapterId, string> = {
+  litellm: "LiteLLM",
+  openai: "OpenAI",
+  "openai-compatible": "Local (OpenAI-compatible)",
+  anthropic: "Anthropic",
+};
+
+export function getProviderAdapter(id: ProviderAdapterId): ProviderAdapter {
+  return adapters[id] ?? adapters.litellm;
+}
@@ -0,0 +1,49 @@
+/**
+ * OpenAI-Compatible Adapter
+ *
+ * Used for LiteLLM, the OpenAI API and local OpenAI-compatible servers.
+ * Requests and responses are already in the client's internal format, so
+ * only the URL, headers and model name change.
+ */
+
+import type {
+  ChatCompletionResponse,
+  ChatCompletionStreamChunk,
+  ProviderAdapter,
+  ProviderAdapterId,
+} from "./types";
+
+export function createOpenAIAdapter(
+  id: Extract<ProviderAdapterId, "litellm" | "openai" | "openai-compatible">
+): ProviderAdapter {
+  return {
+    id,
+    apiKeyOptional: id === "openai-compatible",
+
+    buildRequest(request, route) {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (route.apiKey) {
+        headers.Authorization = `Bearer ${route.apiKey}`;
+      }
+
+      return {
+        url: `${route.baseUrl}/v1/chat/completions`,
+        init: {
+          method: "POST",
+          headers,
+          body: JSON.stringify({ ...request, model: route.model }),
+        },
+      };
+    },
+
+    parseResponse(data) {
+      return data as ChatCompletionResponse;
+    },
+
+    createStreamParser() {
+      return (data) => data as ChatCompletionStreamChunk;
+    },
+  };
+}
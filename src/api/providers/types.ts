@@ -0,0 +1,111 @@
+/**
+ * Provider Adapter Types
+ *
+ * The LLM client speaks the OpenAI chat completions format internally.
+ * A provider adapter translates that format to and from a provider's own
+ * wire format, so the rest of the client (retries, streaming, debug
+ * logging) works the same for every provider.
+ */
+
+import type { ChatMessage, ChatToolCall, ChatToolDefinition } from "../llm";
+
+/**
+ * Supported adapters:
+ * - litellm: the LiteLLM proxy (OpenAI-compatible, default for all models)
+ * - openai: the OpenAI API directly
+ * - openai-compatible: any local/self-hosted OpenAI-compatible server (llama.cpp, Ollama, vLLM)
+ * - anthropic: the Anthropic Messages API directly
+ */
+export type ProviderAdapterId =
+  | "litellm"
+  | "openai"
+  | "openai-compatible"
+  | "anthropic";
+
+/**
+ * Where and how to send requests for one model, after applying defaults
+ */
+export interface ResolvedModelRoute {
+  adapter: ProviderAdapterId;
+  baseUrl: string | null;
+  apiKey: string | null;
+  /** Model name sent to the provider */
+  model: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  tools?: ChatToolDefinition[];
+  tool_choice?: "auto" | "none" | "required";
+  /** JSON mode: the reply must be a single JSON object */
+  response_format?: { type: "json_object" };
+  stream?: boolean;
+  stream_options?: {
+    include_usage: boolean;
+  };
+}
+
+export interface ChatCompletionChoice {
+  index: number;
+  message: {
+    role: string;
+    content: string | null;
+    tool_calls?: ChatToolCall[];
+  };
+  finish_reason: string;
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: ChatCompletionChoice[];
+  usage: ChatCompletionUsage;
+}
+
+/**
+ * A single SSE chunk from a streamed chat completion
+ */
+export interface ChatCompletionStreamChunk {
+  id: string;
+  model: string;
+  choices: {
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }[];
+  usage?: ChatCompletionUsage | null;
+}
+
+export interface ProviderAdapter {
+  id: ProviderAdapterId;
+  /** Whether requests can be sent without an API key (e.g. local servers) */
+  apiKeyOptional: boolean;
+  /** Build the URL and fetch options for a chat completion request */
+  buildRequest(
+    request: ChatCompletionRequest,
+    route: ResolvedModelRoute
+  ): { url: string; init: RequestInit };
+  /** Convert a JSON response body to the OpenAI format */
+  parseResponse(data: unknown): ChatCompletionResponse;
+  /**
+   * Create a parser for one streamed response. The parser converts each SSE
+   * data payload to an OpenAI stream chunk, or null for events that carry
+   * nothing the client needs.
+   */
+  createStreamParser(): (data: unknown) => ChatCompletionStreamChunk | null;
+}
@@ -0,0 +1,194 @@
+/**
+ * Request Scheduler
+ *
+ * Sits in front of the provider so a regeneration across many lineages
+ * does not fire every request at once. Each model has a concurrency cap;
+ * requests over the cap wait in a queue and are started by priority class,
+ * then round-robin across lanes (usually one lane per lineage) so a single
+ * busy lineage cannot starve the others, then in arrival order.
+ */
+
+import { CancelledError } from "../utils/abort";
+
+/**
+ * Scheduling class of a request. Trainer stages go first since every
+ * evolved execution waits on them; tool calls next, to unblock agent runs
+ * that are already in progress; agent executions last.
+ */
+export type RequestPriority = "trainer" | "tool" | "agent";
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  trainer: 0,
+  tool: 1,
+  agent: 2,
+};
+
+/** Requests allowed in flight per model when the model declares no cap */
+export const DEFAULT_MAX_CONCURRENT = 4;
+
+/** Lane for requests that are not tied to a lineage */
+export const DEFAULT_LANE = "default";
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  /** Fair-queuing key; requests in different lanes take turns */
+  lane?: string;
+  /** Removes the request from the queue; rejects with CancelledError */
+  signal?: AbortSignal;
+}
+
+export interface ModelQueueStats {
+  running: number;
+  queued: number;
+  limit: number;
+}
+
+export interface SchedulerSnapshot {
+  running: number;
+  queued: number;
+  byModel: Record<string, ModelQueueStats>;
+}
+
+/** Call once the request has finished to free its slot */
+export type ReleaseSlot = () => void;
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  lane: string;
+  sequence: number;
+  start: () => void;
+}
+
+interface ModelQueue {
+  running: number;
+  waiting: QueuedRequest[];
+  /** Starts so far, used to stamp when each lane was last served */
+  started: number;
+  laneLastServed: Map<string, number>;
+}
+
+export class RequestScheduler {
+  private queues = new Map<string, ModelQueue>();
+  private sequence = 0;
+
+  constructor(
+    private getLimit: (model: string) => number = () => DEFAULT_MAX_CONCURRENT,
+    private onChange?: (snapshot: SchedulerSnapshot) => void
+  ) {}
+
+  /**
+   * Wait for a slot on the model. Resolves with a release function that
+   * must be called exactly once when the request is done.
+   */
+  acquire(model: string, options: ScheduleOptions = {}): Promise<ReleaseSlot> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new CancelledError());
+    }
+
+    const queue = this.getQueue(model);
+    const request: QueuedRequest = {
+      priority: options.priority ?? "trainer",
+      lane: options.lane ?? DEFAULT_LANE,
+      sequence: this.sequence++,
+      start: () => {},
+    };
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      const onAbort = () => {
+        queue.waiting = queue.waiting.filter((r) => r !== request);
+        this.notify();
+        reject(new CancelledError());
+      };
+
+      request.start = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(this.createRelease(model, queue));
+      };
+
+      if (queue.waiting.length === 0 && queue.running < this.getLimit(model)) {
+        this.startRequest(queue, request);
+      } else {
+        queue.waiting.push(request);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      }
+      this.notify();
+    });
+  }
+
+  snapshot(): SchedulerSnapshot {
+    const byModel: Record<string, ModelQueueStats> = {};
+    let running = 0;
+    let queued = 0;
+
+    for (const [model, queue] of this.queues) {
+      if (queue.running === 0 && queue.waiting.length === 0) continue;
+      byModel[model] = {
+        running: queue.running,
+        queued: queue.waiting.length,
+        limit: this.getLimit(model),
+      };
+      running += queue.running;
+      queued += queue.waiting.length;
+    }
+
+    return { running, queued, byModel };
+  }
+
+  private getQueue(model: string): ModelQueue {
+    let queue = this.queues.get(model);
+    if (!queue) {
+      queue = { running: 0, waiting: [], started: 0, laneLastServed: new Map() };
+      this.queues.set(model, queue);
+    }
+    return queue;
+  }
+
+  private startRequest(queue: ModelQueue, request: QueuedRequest): void {
+    queue.running += 1;
+    queue.laneLastServed.set(request.lane, queue.started++);
+    request.start();
+  }
+
+  private createRelease(model: string, queue: ModelQueue): ReleaseSlot {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      queue.running -= 1;
+      this.drain(model, queue);
+      this.notify();
+    };
+  }
+
+  private drain(model: string, queue: ModelQueue): void {
+    while (queue.waiting.length > 0 && queue.running < this.getLimit(model)) {
+      const next = this.pickNext(queue);
+      queue.waiting = queue.waiting.filter((r) => r !== next);
+      this.startRequest(queue, next);
+    }
+  }
+
+  /**
+   * Highest priority class first; within it, the lane that was served
+   * longest ago (never-served lanes first); then the oldest request.
+   */
+  private pickNext(queue: ModelQueue): QueuedRequest {
+    const lastServed = (lane: string) => queue.laneLastServed.get(lane) ?? -1;
+
+    return queue.waiting.reduce((best, candidate) => {
+      const rankDiff =
+        PRIORITY_RANK[candidate.priority] - PRIORITY_RANK[best.priority];
+      if (rankDiff !== 0) return rankDiff < 0 ? candidate : best;
+
+      const laneDiff = lastServed(candidate.lane) - lastServed(best.lane);
+      if (laneDiff !== 0) return laneDiff < 0 ? candidate : best;
+
+      return candidate.sequence < best.sequence ? candidate : best;
+    });
+  }
+
+  private notify(): void {
+    this.onChange?.(this.snapshot());
+  }
+}
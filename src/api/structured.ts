@@ -0,0 +1,219 @@
+/**
+ * Structured LLM Outputs
+ *
+ * A small JSON Schema subset for declaring the shape of a JSON reply, plus
+ * the extraction, validation and repair-prompt helpers behind
+ * `LLMClient.chatStructured`. Agent output contracts use the same schema
+ * and validator.
+ */
+
+export type JsonSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
+export interface JsonSchema {
+  /** Any type when unset; a list accepts any of its types */
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  /** Also accept null */
+  nullable?: boolean;
+  /** Object properties; others are not checked */
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** Whether keys outside `properties` are allowed (default true) */
+  additionalProperties?: boolean;
+  /** Schema for every array item */
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  /** Allowed values, compared as JSON */
+  enum?: readonly unknown[];
+  minLength?: number;
+  maxLength?: number;
+  /** Regular expression strings must match */
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type StructuredParseResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; errors: string[] };
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Check a value against a schema. Returns one message per problem, each
+ * prefixed with the JSON path of the offending value ($ is the root).
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$"
+): string[] {
+  if (value === null && schema.nullable) return [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${describeType(value)}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (
+    schema.enum &&
+    !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))
+  ) {
+    errors.push(
+      `${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`
+    );
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match /${schema.pattern}/`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`));
+      });
+    }
+  } else if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (item === undefined) continue;
+        errors.push(...validateAgainstSchema(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse the JSON value in a reply, tolerating code fences and text around it
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to slicing out the outermost object or array
+  }
+
+  const start = trimmed.search(/[[{]/);
+  if (start === -1) {
+    throw new Error("Reply does not contain JSON");
+  }
+  const close = trimmed[start] === "{" ? "}" : "]";
+  const end = trimmed.lastIndexOf(close);
+  if (end <= start) {
+    throw new Error("Reply contains incomplete JSON");
+  }
+
+  return JSON.parse(trimmed.slice(start, end + 1));
+}
+
+/**
+ * Extract and validate the JSON in a reply
+ */
+export function parseStructured<T>(
+  text: string,
+  schema: JsonSchema
+): StructuredParseResult<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return {
+      ok: false,
+      errors: [
+        `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    };
+  }
+
+  const errors = validateAgainstSchema(value, schema);
+  return errors.length === 0 ? { ok: true, data: value as T } : { ok: false, errors };
+}
+
+/**
+ * Follow-up message asking the model to fix a reply that failed validation
+ */
+export function buildRepairPrompt(errors: string[], schema: JsonSchema): string {
+  return `Your previous reply did not match the required format:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+It must be JSON matching this schema:
+${JSON.stringify(schema)}
+
+Reply again with ONLY the corrected JSON, no markdown or explanation.`;
+}
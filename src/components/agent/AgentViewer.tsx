@@ -1,13 +1,20 @@
-import { useState } from 'react';
-import { Workflow, FileText, Wrench, Settings, X } from 'lucide-react';
-import type { AgentDefinition } from '../../types/agent';
+import { useMemo, useState } from 'react';
+import { Workflow, FileText, Wrench, Settings, History, X } from 'lucide-react';
+import type { AgentDefinition, AgentFlowStep } from '../../types/agent';
+import type { ExecutionSpan } from '../../types/evolution';
+import { analyzeFlow } from '../../services/flow/analyzer';
+import { describeOutputContract, DEFAULT_MAX_REPAIR_ATTEMPTS } from '../../services/flow/contract';
+import { useFlowDebugger } from '../../hooks/useFlowDebugger';
 import { FlowchartView } from '../infrastructure/FlowchartView';
+import { FlowDiagnosticsList } from '../infrastructure/FlowDiagnosticsList';
+import { MemoryPanel } from '../infrastructure/MemoryPanel';
 import { PromptViewer } from '../infrastructure/PromptViewer';
+import { RunsPanel } from '../infrastructure/RunsPanel';
 import { ToolsPanel } from '../infrastructure/ToolsPanel';
 import { Badge } from '../ui/Badge';
 import { cn } from '../../utils/cn';
 
-type TabId = 'flow' | 'prompt' | 'tools' | 'config';
+type TabId = 'flow' | 'prompt' | 'tools' | 'runs' | 'config';
 
 interface TabConfig {
   id: TabId;
@@ -19,6 +26,7 @@ const tabs: TabConfig[] = [
   { id: 'flow', label: 'Flow', icon: Workflow },
   { id: 'prompt', label: 'Prompt', icon: FileText },
   { id: 'tools', label: 'Tools', icon: Wrench },
+  { id: 'runs', label: 'Runs', icon: History },
   { id: 'config', label: 'Config', icon: Settings },
 ];
 
@@ -26,11 +34,36 @@ interface AgentViewerProps {
   agent: AgentDefinition;
   className?: string;
   onClose?: () => void;
+  /** Rerun one of the lineage's recorded runs from a span; enables the Runs tab */
+  onReplayFromSpan?: (span: ExecutionSpan) => void;
+  isReplaying?: boolean;
+  /** Save an edited flow as a new version; enables the flow editor */
+  onSaveFlow?: (flow: AgentFlowStep[]) => void | Promise<void>;
+  /** Session debug runs log their LLM calls under */
+  sessionId?: string;
+  /** Input debug runs start with */
+  debugInput?: string;
 }
 
-export function AgentViewer({ agent, className, onClose }: AgentViewerProps) {
+export function AgentViewer({
+  agent,
+  className,
+  onClose,
+  onReplayFromSpan,
+  isReplaying,
+  onSaveFlow,
+  sessionId,
+  debugInput,
+}: AgentViewerProps) {
   const [activeTab, setActiveTab] = useState<TabId>('flow');
+  const flowDebugger = useFlowDebugger(agent, sessionId);
+  // Only flows have steps to pause at
+  const canDebug = agent.flow.length > 0;
   const [isFlowFullscreen, setIsFlowFullscreen] = useState(false);
+  const flowAnalysis = useMemo(() => analyzeFlow(agent.flow), [agent.flow]);
+  const flowErrorCount = flowAnalysis.diagnostics.filter((d) => d.severity === 'error').length;
+  const canReplay = Boolean(agent.lineageId && onReplayFromSpan);
+  const visibleTabs = tabs.filter((tab) => tab.id !== 'runs' || canReplay);
 
   const memoryTypeLabels: Record<string, string> = {
     none: 'No Memory',
@@ -69,6 +102,9 @@ export function AgentViewer({ agent, className, onClose }: AgentViewerProps) {
           flow={agent.flow}
           isFullscreen={true}
           onToggleFullscreen={handleToggleFullscreen}
+          onSave={onSaveFlow}
+          debugger={canDebug ? flowDebugger : undefined}
+          debugInput={debugInput}
         />
       </div>
     );
@@ -113,7 +149,7 @@ export function AgentViewer({ agent, className, onClose }: AgentViewerProps) {
 
       {/* Tab Navigation */}
       <div className="flex border-b border-gray-200 bg-gray-50">
-        {tabs.map((tab) => {
+        {visibleTabs.map((tab) => {
           const Icon = tab.icon;
           return (
             <button
@@ -128,6 +164,11 @@ export function AgentViewer({ agent, className, onClose }: AgentViewerProps) {
             >
               <Icon className="w-4 h-4" />
               {tab.label}
+              {tab.id === 'flow' && flowErrorCount > 0 && (
+                <span className="px-1.5 rounded-full bg-red-100 text-red-700 text-xs">
+                  {flowErrorCount}
+                </span>
+              )}
             </button>
           );
         })}
@@ -136,12 +177,18 @@ export function AgentViewer({ agent, className, onClose }: AgentViewerProps) {
       {/* Tab Content */}
       <div className="flex-1 overflow-auto">
         {activeTab === 'flow' && (
-          <div className="h-full relative">
-            <FlowchartView
-              flow={agent.flow}
-              isFullscreen={false}
-              onToggleFullscreen={handleToggleFullscreen}
-            />
+          <div className="h-full flex flex-col">
+            <FlowDiagnosticsList diagnostics={flowAnalysis.diagnostics} />
+            <div className="flex-1 min-h-0 relative">
+              <FlowchartView
+                flow={agent.flow}
+                isFullscreen={false}
+                onToggleFullscreen={handleToggleFullscreen}
+                onSave={onSaveFlow}
+                debugger={canDebug ? flowDebugger : undefined}
+                debugInput={debugInput}
+              />
+            </div>
           </div>
         )}
 
@@ -157,6 +204,15 @@ export function AgentViewer({ agent, className, onClose }: AgentViewerProps) {
           </div>
         )}
 
+        {activeTab === 'runs' && agent.lineageId && onReplayFromSpan && (
+          <RunsPanel
+            lineageId={agent.lineageId}
+            agentVersion={agent.version}
+            onReplay={onReplayFromSpan}
+            isReplaying={isReplaying}
+          />
+        )}
+
         {activeTab === 'config' && (
           <div className="p-6 space-y-6">
             {/* Memory Configuration */}
@@ -197,8 +253,34 @@ export function AgentViewer({ agent, className, onClose }: AgentViewerProps) {
                   </div>
                 )}
               </div>
+              {agent.lineageId && (
+                <MemoryPanel lineageId={agent.lineageId} memory={agent.memory} className="mt-3" />
+              )}
             </section>
 
+            {/* Output Contract */}
+            {agent.outputContract && (
+              <section>
+                <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                  <div className="w-1.5 h-1.5 rounded-full bg-amber-500" />
+                  Output Contract
+                </h3>
+                <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                  <ul className="space-y-1 text-sm text-gray-900 list-disc list-inside break-words">
+                    {describeOutputContract(agent.outputContract).map((rule) => (
+                      <li key={rule}>{rule}</li>
+                    ))}
+                  </ul>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-gray-600">Repair Attempts</span>
+                    <span className="text-sm font-medium text-gray-900">
+                      {agent.outputContract.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS}
+                    </span>
+                  </div>
+                </div>
+              </section>
+            )}
+
             {/* Model Parameters */}
             <section>
               <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
@@ -212,6 +294,12 @@ export function AgentViewer({ agent, className, onClose }: AgentViewerProps) {
                     {agent.parameters.model}
                   </span>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-gray-600">Execution Mode</span>
+                  <Badge variant={agent.executionMode === 'function_calling' ? 'primary' : 'default'}>
+                    {agent.executionMode === 'function_calling' ? 'Function Calling' : 'Flow'}
+                  </Badge>
+                </div>
                 <div className="flex justify-between items-center">
                   <span className="text-sm text-gray-600">Temperature</span>
                   <span className="text-sm font-medium text-gray-900">
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Wallet } from 'lucide-react';
+import { Button, Input, Modal } from '../ui';
+import { useSessionStore } from '../../store/session';
+import { useSessionUsage } from '../../hooks/useSessionUsage';
+import { formatUsd } from '../../services/budget';
+import type { Session } from '../../types';
+import type { UsageTotals } from '../../types/usage';
+import { cn } from '../../utils/cn';
+
+interface SessionBudgetProps {
+  session: Session;
+}
+
+/**
+ * Header chip showing the session's spend against its budget; opens a
+ * breakdown by trainer and agent model where the budget can be edited
+ */
+export function SessionBudget({ session }: SessionBudgetProps) {
+  const usage = useSessionUsage(session.id);
+  const updateSession = useSessionStore((s) => s.updateSession);
+  const [isOpen, setIsOpen] = useState(false);
+  const [budgetInput, setBudgetInput] = useState('');
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  const budgetUsd = session.budgetUsd ?? null;
+  const spentUsd = usage?.total.cost ?? 0;
+  const overBudget = budgetUsd !== null && spentUsd >= budgetUsd;
+
+  useEffect(() => {
+    setBudgetInput(budgetUsd !== null ? String(budgetUsd) : '');
+    setInputError(null);
+  }, [budgetUsd, isOpen]);
+
+  const handleSave = () => {
+    const trimmed = budgetInput.trim();
+    if (trimmed === '') {
+      updateSession(session.id, { budgetUsd: null });
+      setIsOpen(false);
+      return;
+    }
+
+    const value = Number(trimmed);
+    if (!Number.isFinite(value) || value <= 0) {
+      setInputError('Enter a positive amount in USD, or leave empty for no budget');
+      return;
+    }
+    updateSession(session.id, { budgetUsd: value });
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={cn(
+          'flex items-center gap-1.5 px-2 py-1 rounded-full text-xs transition-colors',
+          overBudget
+            ? 'bg-red-100 text-red-700 hover:bg-red-200'
+            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        )}
+        title="Session spend"
+      >
+        <Wallet className="w-3 h-3" />
+        {formatUsd(spentUsd)}
+        {budgetUsd !== null && <span className="text-gray-500">/ {formatUsd(budgetUsd)}</span>}
+      </button>
+
+      <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title="Session Spend" size="md">
+        <div className="space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            <UsageColumn label="Trainer model" totals={usage?.trainer} />
+            <UsageColumn label="Agent model" totals={usage?.agent} />
+            <UsageColumn label="Total" totals={usage?.total} />
+          </div>
+
+          {usage && usage.total.unpricedCalls > 0 && (
+            <p className="text-xs text-yellow-700">
+              {usage.total.unpricedCalls} call(s) used models without a price and are not
+              included in the cost.
+            </p>
+          )}
+
+          <div className="space-y-2 border-t pt-4">
+            <Input
+              id="sessionBudget"
+              label="Budget (USD)"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No budget"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+              error={inputError ?? undefined}
+            />
+            <p className="text-xs text-gray-500">
+              Regeneration is blocked when the estimated cost of the next cycle would
+              take the session over this amount.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button variant="ghost" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>Save Budget</Button>
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
+
+function UsageColumn({ label, totals }: { label: string; totals?: UsageTotals }) {
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg">
+      <p className="text-xs font-medium text-gray-500">{label}</p>
+      <p className="text-lg font-semibold text-gray-900">{formatUsd(totals?.cost ?? 0)}</p>
+      <p className="text-xs text-gray-500">
+        {(totals?.totalTokens ?? 0).toLocaleString()} tokens · {totals?.calls ?? 0} calls
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { SessionBudget } from './SessionBudget';
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import type { LineageWithArtifact } from '../../types';
+import type { ConversationTurn } from '../../types/agent';
+import type { TurnFeedback } from '../../types/evolution';
+import { useLineageStore } from '../../store/lineages';
+import { cn } from '../../utils/cn';
+
+const SCORES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+interface ConversationViewProps {
+  lineage: LineageWithArtifact;
+  transcript: ConversationTurn[];
+}
+
+/**
+ * A conversation artifact turn by turn, with a score and comment for each
+ * assistant turn once the artifact itself is scored
+ */
+export function ConversationView({ lineage, transcript }: ConversationViewProps) {
+  const canRate = !!lineage.currentEvaluation && !lineage.isLocked;
+
+  return (
+    <div className="space-y-3">
+      {!lineage.currentEvaluation && (
+        <p className="text-xs text-gray-500">Score the output to rate single turns.</p>
+      )}
+      {transcript.map((turn, index) => (
+        <div
+          key={index}
+          className={cn('flex flex-col', turn.role === 'user' ? 'items-start' : 'items-end')}
+        >
+          <span className="text-xs text-gray-400 mb-1">
+            Turn {index + 1} · {turn.role === 'user' ? 'User' : 'Assistant'}
+          </span>
+          <div
+            className={cn(
+              'max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap',
+              turn.role === 'user'
+                ? 'bg-gray-200 text-gray-800'
+                : 'bg-white border border-gray-200 text-gray-800'
+            )}
+          >
+            {turn.content}
+          </div>
+          {turn.role === 'assistant' && lineage.currentEvaluation && (
+            <TurnFeedbackControls
+              key={lineage.currentEvaluation.id}
+              lineageId={lineage.id}
+              turn={index}
+              feedback={lineage.currentEvaluation.turnFeedback?.find((f) => f.turn === index)}
+              disabled={!canRate}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface TurnFeedbackControlsProps {
+  lineageId: string;
+  turn: number;
+  feedback?: TurnFeedback;
+  disabled: boolean;
+}
+
+function TurnFeedbackControls({ lineageId, turn, feedback, disabled }: TurnFeedbackControlsProps) {
+  const { setTurnFeedback } = useLineageStore();
+  const [comment, setComment] = useState(feedback?.comment ?? '');
+
+  const handleScore = (score: number) => {
+    // Clicking the current score clears it
+    setTurnFeedback(lineageId, turn, { score: feedback?.score === score ? undefined : score });
+  };
+
+  const handleCommentBlur = () => {
+    const trimmed = comment.trim();
+    if (trimmed !== (feedback?.comment ?? '')) {
+      setTurnFeedback(lineageId, turn, { comment: trimmed || undefined });
+    }
+  };
+
+  return (
+    <div className="mt-1 flex w-full max-w-[85%] items-center gap-2">
+      <div className="flex gap-0.5">
+        {SCORES.map((score) => (
+          <button
+            key={score}
+            onClick={() => handleScore(score)}
+            disabled={disabled}
+            title={`Rate turn ${turn + 1}: ${score}/10`}
+            className={cn(
+              'w-5 h-5 rounded text-[10px] font-medium',
+              'disabled:opacity-50 disabled:cursor-not-allowed',
+              feedback?.score === score
+                ? score <= 3
+                  ? 'bg-red-500 text-white'
+                  : score <= 6
+                    ? 'bg-yellow-500 text-white'
+                    : 'bg-green-500 text-white'
+                : 'bg-gray-100 text-gray-500 hover:bg-gray-200'
+            )}
+          >
+            {score}
+          </button>
+        ))}
+      </div>
+      <input
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        onBlur={handleCommentBlur}
+        disabled={disabled}
+        placeholder="Comment on this turn"
+        className="flex-1 min-w-0 rounded border border-gray-200 px-2 py-0.5 text-xs placeholder:text-gray-400 focus:outline-none focus:ring-1 focus:ring-primary-500 disabled:bg-gray-50"
+      />
+    </div>
+  );
+}
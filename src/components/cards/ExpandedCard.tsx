@@ -4,6 +4,7 @@ import { cn } from '../../utils/cn';
 import type { LineageWithArtifact } from '../../types';
 import { useLineageStore } from '../../store/lineages';
 import { useState } from 'react';
+import { ConversationView } from './ConversationView';
 
 interface ExpandedCardProps {
   lineage: LineageWithArtifact;
@@ -13,6 +14,7 @@ interface ExpandedCardProps {
 export function ExpandedCard({ lineage, onClose }: ExpandedCardProps) {
   const { toggleLock } = useLineageStore();
   const [copied, setCopied] = useState(false);
+  const transcript = lineage.currentArtifact?.metadata?.transcript;
 
   const handleCopy = async () => {
     if (lineage.currentArtifact) {
@@ -83,9 +85,13 @@ export function ExpandedCard({ lineage, onClose }: ExpandedCardProps) {
 
         {/* Content */}
         <div className="flex-1 overflow-auto bg-gray-50 rounded-lg p-4 mb-4">
-          <pre className="whitespace-pre-wrap text-sm text-gray-800 font-mono">
-            {lineage.currentArtifact?.content || 'No content'}
-          </pre>
+          {transcript ? (
+            <ConversationView lineage={lineage} transcript={transcript} />
+          ) : (
+            <pre className="whitespace-pre-wrap text-sm text-gray-800 font-mono">
+              {lineage.currentArtifact?.content || 'No content'}
+            </pre>
+          )}
         </div>
 
         {/* Metadata */}
@@ -4,6 +4,7 @@ import { cn } from '../../utils/cn';
 import type { LineageWithArtifact, ArtifactMetadata } from '../../types';
 import { useLineageStore } from '../../store/lineages';
 import { useUIStore } from '../../store/ui';
+import { useStreamingStore } from '../../store/streaming';
 
 interface LineageCardProps {
   lineage: LineageWithArtifact;
@@ -15,10 +16,16 @@ interface LineageCardProps {
 export function LineageCard({ lineage, onViewAgent, onRun, isRunning }: LineageCardProps) {
   const { toggleLock, setScore } = useLineageStore();
   const { expandCard, openDirectivesForLineage } = useUIStore();
+  const streamingOutput = useStreamingStore((state) => state.outputs[lineage.id]);
 
   const hasDirective = (lineage.directiveSticky?.length ?? 0) > 0 || (lineage.directiveOneshot?.length ?? 0) > 0;
 
   const getPreview = () => {
+    // Show live output while the agent is still generating
+    if (streamingOutput !== undefined) {
+      return { text: streamingOutput, isError: false };
+    }
+
     const artifact = lineage.currentArtifact;
     if (!artifact) return { text: 'No output yet', isError: false };
 
@@ -38,6 +45,7 @@ export function LineageCard({ lineage, onViewAgent, onRun, isRunning }: LineageC
   };
 
   const { text: preview, isError: previewIsError } = getPreview();
+  const contract = (lineage.currentArtifact?.metadata as ArtifactMetadata | null)?.outputContract;
 
   return (
     <Card
@@ -70,6 +78,24 @@ export function LineageCard({ lineage, onViewAgent, onRun, isRunning }: LineageC
           {lineage.strategyTag && (
             <Badge variant="default">{lineage.strategyTag}</Badge>
           )}
+          {contract && streamingOutput === undefined && (
+            <Badge
+              variant={contract.passed ? 'success' : 'warning'}
+              className="text-xs"
+              title={
+                contract.passed
+                  ? `Output contract passed${contract.repairAttempts > 0 ? ` after ${contract.repairAttempts} repair(s)` : ''}`
+                  : contract.violations.join('\n')
+              }
+            >
+              {contract.passed ? 'Contract OK' : 'Contract failed'}
+            </Badge>
+          )}
+          {streamingOutput !== undefined && (
+            <Badge variant="primary" className="text-xs animate-pulse">
+              Generating...
+            </Badge>
+          )}
         </div>
         <div className="flex items-center gap-1">
           {hasDirective && (
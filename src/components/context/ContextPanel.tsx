@@ -1,19 +1,23 @@
 import { useState } from 'react';
-import { FileText, Plus, Trash2, CheckCircle, TestTube } from 'lucide-react';
+import { FileText, Plus, Trash2, CheckCircle, TestTube, Users } from 'lucide-react';
 import { Button, Input, Textarea, Card, CardHeader, CardContent } from '../ui';
 import { DocumentUploader } from './DocumentUploader';
 import { useContextStore } from '../../store/context';
+import { DEFAULT_SIMULATION_TURNS } from '../../services/user-simulator';
 
 interface ContextPanelProps {
   sessionId: string;
 }
 
 export function ContextPanel({ sessionId }: ContextPanelProps) {
-  const { documents, examples, testCases, addDocument, removeDocument, addExample, removeExample, addTestCase, removeTestCase } = useContextStore();
+  const { documents, examples, testCases, userSimulations, addDocument, removeDocument, addExample, removeExample, addTestCase, removeTestCase, addUserSimulation, removeUserSimulation, setActiveUserSimulation } = useContextStore();
   const [showExampleForm, setShowExampleForm] = useState(false);
   const [showTestCaseForm, setShowTestCaseForm] = useState(false);
   const [exampleForm, setExampleForm] = useState({ name: '', input: '', expectedOutput: '' });
   const [testCaseForm, setTestCaseForm] = useState({ name: '', input: '', expectedOutput: '', isGolden: false });
+  const [showSimulationForm, setShowSimulationForm] = useState(false);
+  const emptySimulationForm = { name: '', persona: '', goal: '', maxTurns: String(DEFAULT_SIMULATION_TURNS), stopPhrase: '' };
+  const [simulationForm, setSimulationForm] = useState(emptySimulationForm);
 
   const handleUpload = (doc: { sessionId: string; name: string; content: string; type: string }) => {
     addDocument({ sessionId: doc.sessionId, name: doc.name, content: doc.content, mimeType: `text/${doc.type}`, size: doc.content.length });
@@ -35,11 +39,26 @@ export function ContextPanel({ sessionId }: ContextPanelProps) {
     setShowTestCaseForm(false);
   };
 
+  const handleAddSimulation = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!simulationForm.name.trim() || !simulationForm.persona.trim() || !simulationForm.goal.trim()) return;
+    addUserSimulation({
+      sessionId,
+      name: simulationForm.name.trim(),
+      persona: simulationForm.persona.trim(),
+      goal: simulationForm.goal.trim(),
+      maxTurns: Math.max(1, Number.parseInt(simulationForm.maxTurns, 10) || DEFAULT_SIMULATION_TURNS),
+      stopPhrase: simulationForm.stopPhrase.trim() || undefined,
+    });
+    setSimulationForm(emptySimulationForm);
+    setShowSimulationForm(false);
+  };
+
   return (
     <div className="flex flex-col h-full overflow-hidden bg-white rounded-xl border border-gray-200">
       <div className="px-4 py-3 border-b border-gray-100">
         <h2 className="font-semibold text-gray-900">Session Context</h2>
-        <p className="text-xs text-gray-500">Documents, examples, and test cases</p>
+        <p className="text-xs text-gray-500">Documents, examples, test cases, and simulated users</p>
       </div>
 
       <div className="flex-1 overflow-auto p-4 space-y-6">
@@ -176,6 +195,74 @@ export function ContextPanel({ sessionId }: ContextPanelProps) {
             {!showTestCaseForm && testCases.length === 0 && <p className="text-sm text-gray-400 text-center py-2">No test cases added</p>}
           </CardContent>
         </Card>
+
+        {/* Simulated Users Section */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between w-full">
+              <div className="flex items-center gap-2">
+                <Users className="w-4 h-4 text-teal-500" />
+                <span className="font-medium text-sm">Simulated Users</span>
+                <span className="text-xs text-gray-400">({userSimulations.length})</span>
+              </div>
+              {!showSimulationForm && (
+                <Button size="sm" variant="ghost" onClick={() => setShowSimulationForm(true)}><Plus className="w-4 h-4" /></Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {userSimulations.length > 0 && (
+              <ul className="space-y-2">
+                {userSimulations.map((simulation) => (
+                  <li key={simulation.id} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <p className="text-sm font-medium text-gray-700">{simulation.name}</p>
+                          {simulation.isActive && (
+                            <span className="text-xs bg-teal-100 text-teal-700 px-1.5 py-0.5 rounded font-medium">In use</span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">Persona: {simulation.persona}</p>
+                        <p className="text-xs text-gray-500">Goal: {simulation.goal}</p>
+                        <p className="text-xs text-gray-400">
+                          Up to {simulation.maxTurns} {simulation.maxTurns === 1 ? 'message' : 'messages'}
+                          {simulation.stopPhrase && `, stops at "${simulation.stopPhrase}"`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => setActiveUserSimulation(sessionId, simulation.isActive ? null : simulation.id)}>
+                          {simulation.isActive ? 'Stop' : 'Use'}
+                        </Button>
+                        <button onClick={() => removeUserSimulation(simulation.id)} className="p-1 text-gray-400 hover:text-red-500 transition-colors" aria-label="Remove simulated user">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {showSimulationForm && (
+              <form onSubmit={handleAddSimulation} className="space-y-3 p-3 border rounded-lg bg-gray-50">
+                <Input label="Name" value={simulationForm.name} onChange={(e) => setSimulationForm({ ...simulationForm, name: e.target.value })} placeholder="e.g., Impatient customer" />
+                <Textarea label="Persona" value={simulationForm.persona} onChange={(e) => setSimulationForm({ ...simulationForm, persona: e.target.value })} placeholder="Who the user is and how they write" rows={2} />
+                <Textarea label="Goal" value={simulationForm.goal} onChange={(e) => setSimulationForm({ ...simulationForm, goal: e.target.value })} placeholder="What the user wants out of the conversation" rows={2} />
+                <div className="flex gap-2">
+                  <Input label="Max Messages" type="number" min={1} value={simulationForm.maxTurns} onChange={(e) => setSimulationForm({ ...simulationForm, maxTurns: e.target.value })} />
+                  <Input label="Stop Phrase" value={simulationForm.stopPhrase} onChange={(e) => setSimulationForm({ ...simulationForm, stopPhrase: e.target.value })} placeholder="Optional" />
+                </div>
+                <div className="flex gap-2">
+                  <Button type="submit" size="sm">Add Simulated User</Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => { setSimulationForm(emptySimulationForm); setShowSimulationForm(false); }}>Cancel</Button>
+                </div>
+              </form>
+            )}
+            {!showSimulationForm && userSimulations.length === 0 && (
+              <p className="text-sm text-gray-400 text-center py-2">No simulated users added. A simulated user in use replaces the input prompt with a conversation.</p>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,111 @@
+import { useRef, useState } from 'react';
+import { Download, Upload, Trash2, Disc } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import { Badge } from '../ui';
+import { useModelStore } from '../../store/model';
+import {
+  clearCassette,
+  exportCassette,
+  getCassetteSize,
+  importCassette,
+} from '../../api/cassette';
+import type { CassetteFile, CassetteMode } from '../../types/cassette';
+
+function readCassetteSize(): number {
+  try {
+    return getCassetteSize();
+  } catch {
+    return 0;
+  }
+}
+
+export function CassetteControls() {
+  const cassetteMode = useModelStore((s) => s.cassetteMode);
+  const setCassetteMode = useModelStore((s) => s.setCassetteMode);
+  const [entryCount, setEntryCount] = useState(readCassetteSize);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = () => {
+    const file = exportCassette();
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    saveAs(blob, 'llm-cassette.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      importCassette(JSON.parse(await file.text()) as CassetteFile);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import cassette');
+    }
+    setEntryCount(readCassetteSize());
+  };
+
+  const handleClear = () => {
+    clearCassette();
+    setEntryCount(readCassetteSize());
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center gap-2">
+        <Disc className="w-4 h-4 text-gray-400" />
+        <span className="text-sm font-medium text-gray-700">Cassette</span>
+        <select
+          value={cassetteMode}
+          onChange={(e) => {
+            setCassetteMode(e.target.value as CassetteMode);
+            setEntryCount(readCassetteSize());
+          }}
+          className="text-sm border border-gray-200 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          <option value="off">Off</option>
+          <option value="record">Record</option>
+          <option value="replay">Replay</option>
+        </select>
+        <Badge variant={cassetteMode === 'off' ? 'default' : 'primary'}>
+          {entryCount} recorded
+        </Badge>
+        {error && <span className="text-xs text-red-600">{error}</span>}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={handleExport}
+          disabled={entryCount === 0}
+          className="flex items-center gap-1.5 px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1.5 px-2 py-1 text-sm text-gray-600 hover:bg-gray-100 rounded-lg"
+        >
+          <Upload className="w-4 h-4" />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+        />
+        <button
+          onClick={handleClear}
+          disabled={entryCount === 0}
+          className="flex items-center gap-1.5 px-2 py-1 text-sm text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
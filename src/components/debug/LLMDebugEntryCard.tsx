@@ -78,6 +78,30 @@ export function LLMDebugEntryCard({ entry, onViewDetails }: LLMDebugEntryCardPro
             {formatDuration(entry.durationMs)}
           </span>
 
+          {entry.streamed && (
+            <Badge variant="secondary" className="flex-shrink-0">
+              stream
+            </Badge>
+          )}
+
+          {entry.replayed && (
+            <Badge variant="primary" className="flex-shrink-0">
+              replay
+            </Badge>
+          )}
+
+          {entry.attempt && entry.attempt > 1 && (
+            <Badge variant="warning" className="flex-shrink-0">
+              retry {entry.attempt - 1}
+            </Badge>
+          )}
+
+          {entry.retryDelayMs !== undefined && (
+            <span className="text-xs text-yellow-600 flex-shrink-0">
+              retried after {formatDuration(entry.retryDelayMs)}
+            </span>
+          )}
+
           {/* Token usage or error */}
           {entry.status === 'success' && entry.usage ? (
             <span className="text-xs text-gray-400 flex-shrink-0">
@@ -115,7 +115,8 @@ export function LLMDebugModal({ entry, onClose }: LLMDebugModalProps) {
                         'rounded p-2 text-sm',
                         msg.role === 'system' && 'bg-purple-50 border-l-2 border-purple-400',
                         msg.role === 'user' && 'bg-blue-50 border-l-2 border-blue-400',
-                        msg.role === 'assistant' && 'bg-green-50 border-l-2 border-green-400'
+                        msg.role === 'assistant' && 'bg-green-50 border-l-2 border-green-400',
+                        msg.role === 'tool' && 'bg-amber-50 border-l-2 border-amber-400'
                       )}
                     >
                       <span className="font-medium text-xs uppercase text-gray-500">
@@ -192,6 +193,22 @@ export function LLMDebugModal({ entry, onClose }: LLMDebugModalProps) {
                     </pre>
                   </div>
                 </div>
+
+                {entry.response.toolCalls && entry.response.toolCalls.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-gray-600 text-sm mb-2">Tool Calls:</h4>
+                    <div className="space-y-2">
+                      {entry.response.toolCalls.map((call) => (
+                        <div key={call.id} className="bg-amber-50 rounded p-2 text-sm">
+                          <code className="font-medium">{call.function.name}</code>
+                          <pre className="whitespace-pre-wrap font-mono text-xs mt-1">
+                            {call.function.arguments}
+                          </pre>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           )}
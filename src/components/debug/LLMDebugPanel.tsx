@@ -3,6 +3,8 @@ import { Trash2, Filter } from 'lucide-react';
 import { Badge } from '../ui';
 import { LLMDebugEntryCard } from './LLMDebugEntryCard';
 import { LLMDebugModal } from './LLMDebugModal';
+import { CassetteControls } from './CassetteControls';
+import { StructuredOutputStats } from './StructuredOutputStats';
 import type { LLMDebugEntry, LLMDebugFilter } from '../../types/llm-debug';
 
 interface LLMDebugPanelProps {
@@ -40,6 +42,9 @@ export function LLMDebugPanel({ entries, onClear }: LLMDebugPanelProps) {
         )}
       </div>
 
+      <CassetteControls />
+      <StructuredOutputStats />
+
       {/* Filter bar */}
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-2">
@@ -0,0 +1,53 @@
+import { Braces } from 'lucide-react';
+import { Badge } from '../ui';
+import { useLLMDebugStore } from '../../store/llm-debug';
+
+export function StructuredOutputStats() {
+  const stats = useLLMDebugStore((s) => s.structuredStats);
+  const clearStructuredStats = useLLMDebugStore((s) => s.clearStructuredStats);
+  const callSites = Object.entries(stats).sort(([a], [b]) => a.localeCompare(b));
+
+  if (callSites.length === 0) return null;
+
+  return (
+    <div className="px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Braces className="w-4 h-4 text-gray-400" />
+          <span className="text-sm font-medium text-gray-700">Structured outputs</span>
+        </div>
+        <button
+          onClick={clearStructuredStats}
+          className="px-2 py-1 text-xs text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg"
+        >
+          Reset
+        </button>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-medium py-1">Call site</th>
+            <th className="font-medium py-1 text-right">Calls</th>
+            <th className="font-medium py-1 text-right">Repaired</th>
+            <th className="font-medium py-1 text-right">Fallbacks</th>
+          </tr>
+        </thead>
+        <tbody>
+          {callSites.map(([callSite, s]) => (
+            <tr key={callSite} className="border-t border-gray-200" title={s.lastError}>
+              <td className="py-1 font-mono text-gray-700">{callSite}</td>
+              <td className="py-1 text-right text-gray-600">{s.calls}</td>
+              <td className="py-1 text-right text-gray-600">{s.repaired}</td>
+              <td className="py-1 text-right">
+                <Badge variant={s.fallbacks > 0 ? 'warning' : 'default'}>
+                  {s.fallbacks} ({Math.round((s.fallbacks / s.calls) * 100)}%)
+                </Badge>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
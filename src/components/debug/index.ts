@@ -1,3 +1,5 @@
 export { LLMDebugPanel } from './LLMDebugPanel';
 export { LLMDebugEntryCard } from './LLMDebugEntryCard';
 export { LLMDebugModal } from './LLMDebugModal';
+export { CassetteControls } from './CassetteControls';
+export { StructuredOutputStats } from './StructuredOutputStats';
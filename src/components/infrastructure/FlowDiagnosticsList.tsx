@@ -0,0 +1,53 @@
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import type { FlowDiagnostic } from '../../services/flow/analyzer';
+import { cn } from '../../utils/cn';
+
+interface FlowDiagnosticsListProps {
+  diagnostics: FlowDiagnostic[];
+  className?: string;
+}
+
+/**
+ * Analyzer findings for a flow, errors first
+ */
+export function FlowDiagnosticsList({ diagnostics, className }: FlowDiagnosticsListProps) {
+  if (diagnostics.length === 0) return null;
+
+  const errors = diagnostics.filter((d) => d.severity === 'error');
+  const warnings = diagnostics.filter((d) => d.severity === 'warning');
+
+  return (
+    <div className={cn('border-b border-gray-200 bg-gray-50 px-4 py-3', className)}>
+      <p className="text-xs font-medium text-gray-700 mb-2">
+        {errors.length > 0 &&
+          `${errors.length} error${errors.length === 1 ? '' : 's'} - this flow won't run`}
+        {errors.length > 0 && warnings.length > 0 && ', '}
+        {warnings.length > 0 && `${warnings.length} warning${warnings.length === 1 ? '' : 's'}`}
+      </p>
+      <ul className="space-y-1.5 max-h-40 overflow-auto">
+        {[...errors, ...warnings].map((diagnostic, index) => {
+          const isError = diagnostic.severity === 'error';
+          const Icon = isError ? AlertCircle : AlertTriangle;
+          return (
+            <li key={`${diagnostic.code}-${diagnostic.stepId ?? ''}-${index}`} className="flex items-start gap-2">
+              <Icon
+                className={cn(
+                  'w-4 h-4 mt-0.5 flex-shrink-0',
+                  isError ? 'text-red-500' : 'text-amber-500'
+                )}
+              />
+              <div className="min-w-0">
+                <p className={cn('text-sm', isError ? 'text-red-800' : 'text-amber-800')}>
+                  {diagnostic.message}
+                </p>
+                {diagnostic.hint && (
+                  <p className="text-xs text-gray-500">{diagnostic.hint}</p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
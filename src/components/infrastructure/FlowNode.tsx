@@ -6,8 +6,13 @@ import {
   MessageSquare,
   GitBranch,
   Repeat,
+  Split,
+  Merge,
+  Bot,
+  UserCheck,
   CheckCircle,
   AlertTriangle,
+  Braces,
 } from 'lucide-react';
 import { cn } from '../../utils/cn';
 import type { AgentFlowStep } from '../../types/agent';
@@ -16,6 +21,10 @@ type FlowNodeData = {
   step: AgentFlowStep;
   isSelected?: boolean;
   onSelect?: (stepId: string) => void;
+  /** A debug run pauses before this step */
+  hasBreakpoint?: boolean;
+  /** A debug run is paused before this step */
+  isActive?: boolean;
 };
 
 interface NodeStyleConfig {
@@ -70,6 +79,16 @@ const nodeStyles: Record<AgentFlowStep['type'] | 'error', NodeStyleConfig> = {
     glow: 'shadow-amber-200',
     gradient: 'from-amber-500 to-orange-500',
   },
+  transform: {
+    bg: 'bg-gradient-to-br from-indigo-50 to-slate-100',
+    bgHover: 'hover:from-indigo-100 hover:to-slate-200',
+    border: 'border-indigo-400',
+    borderSelected: 'ring-2 ring-indigo-500 ring-offset-2',
+    text: 'text-indigo-800',
+    icon: 'text-indigo-600',
+    glow: 'shadow-indigo-200',
+    gradient: 'from-indigo-500 to-slate-500',
+  },
   loop: {
     bg: 'bg-gradient-to-br from-cyan-50 to-teal-100',
     bgHover: 'hover:from-cyan-100 hover:to-teal-200',
@@ -80,6 +99,46 @@ const nodeStyles: Record<AgentFlowStep['type'] | 'error', NodeStyleConfig> = {
     glow: 'shadow-cyan-200',
     gradient: 'from-cyan-500 to-teal-500',
   },
+  parallel: {
+    bg: 'bg-gradient-to-br from-fuchsia-50 to-pink-100',
+    bgHover: 'hover:from-fuchsia-100 hover:to-pink-200',
+    border: 'border-fuchsia-400',
+    borderSelected: 'ring-2 ring-fuchsia-500 ring-offset-2',
+    text: 'text-fuchsia-800',
+    icon: 'text-fuchsia-600',
+    glow: 'shadow-fuchsia-200',
+    gradient: 'from-fuchsia-500 to-pink-500',
+  },
+  join: {
+    bg: 'bg-gradient-to-br from-sky-50 to-blue-100',
+    bgHover: 'hover:from-sky-100 hover:to-blue-200',
+    border: 'border-sky-400',
+    borderSelected: 'ring-2 ring-sky-500 ring-offset-2',
+    text: 'text-sky-800',
+    icon: 'text-sky-600',
+    glow: 'shadow-sky-200',
+    gradient: 'from-sky-500 to-blue-500',
+  },
+  call_agent: {
+    bg: 'bg-gradient-to-br from-rose-50 to-pink-100',
+    bgHover: 'hover:from-rose-100 hover:to-pink-200',
+    border: 'border-rose-400',
+    borderSelected: 'ring-2 ring-rose-500 ring-offset-2',
+    text: 'text-rose-800',
+    icon: 'text-rose-600',
+    glow: 'shadow-rose-200',
+    gradient: 'from-rose-500 to-pink-500',
+  },
+  human_input: {
+    bg: 'bg-gradient-to-br from-yellow-50 to-amber-100',
+    bgHover: 'hover:from-yellow-100 hover:to-amber-200',
+    border: 'border-yellow-400',
+    borderSelected: 'ring-2 ring-yellow-500 ring-offset-2',
+    text: 'text-yellow-800',
+    icon: 'text-yellow-600',
+    glow: 'shadow-yellow-200',
+    gradient: 'from-yellow-500 to-amber-500',
+  },
   output: {
     bg: 'bg-gradient-to-br from-green-50 to-emerald-100',
     bgHover: 'hover:from-green-100 hover:to-emerald-200',
@@ -107,13 +166,28 @@ const nodeIcons: Record<AgentFlowStep['type'] | 'error', React.ComponentType<{ c
   prompt: MessageSquare,
   tool: Wrench,
   condition: GitBranch,
+  transform: Braces,
   loop: Repeat,
+  parallel: Split,
+  join: Merge,
+  call_agent: Bot,
+  human_input: UserCheck,
   output: CheckCircle,
   error: AlertTriangle,
 };
 
+/** Step types whose handlers route failures to onError */
+const ERROR_HANDLE_TYPES: AgentFlowStep['type'][] = [
+  'prompt',
+  'tool',
+  'condition',
+  'transform',
+  'join',
+  'call_agent',
+];
+
 function FlowNodeComponent({ data }: NodeProps<FlowNodeData>) {
-  const { step, isSelected, onSelect } = data;
+  const { step, isSelected, onSelect, hasBreakpoint, isActive } = data;
   const style = nodeStyles[step.type];
   const Icon = nodeIcons[step.type];
   const isCondition = step.type === 'condition';
@@ -138,6 +212,27 @@ function FlowNodeComponent({ data }: NodeProps<FlowNodeData>) {
     if (config.condition && typeof config.condition === 'string') {
       return config.condition.slice(0, 30) + (config.condition.length > 30 ? '...' : '');
     }
+    if (step.type === 'transform') {
+      const names = Object.keys((config.assignments as Record<string, unknown> | undefined) ?? {});
+      return names.length > 0 ? `Sets ${names.join(', ')}`.slice(0, 40) : null;
+    }
+    if (step.type === 'parallel') {
+      const count = step.connections.branches?.length ?? 0;
+      return `${count} ${count === 1 ? 'branch' : 'branches'}`;
+    }
+    if (step.type === 'join') {
+      return typeof config.strategy === 'string' ? config.strategy : 'concat';
+    }
+    if (step.type === 'human_input') {
+      return typeof config.prompt === 'string'
+        ? config.prompt.slice(0, 40) + (config.prompt.length > 40 ? '...' : '')
+        : 'Waits for your reply';
+    }
+    if (step.type === 'call_agent') {
+      const target = config.agentId ?? config.lineageId;
+      if (typeof target !== 'string') return null;
+      return typeof config.version === 'number' ? `${target} v${config.version}` : target;
+    }
     return null;
   };
 
@@ -169,6 +264,7 @@ function FlowNodeComponent({ data }: NodeProps<FlowNodeData>) {
           style.border,
           isSelected ? style.borderSelected : '',
           isSelected && `shadow-lg ${style.glow}`,
+          isActive && 'ring-4 ring-yellow-400 ring-offset-2',
           !isSelected && 'hover:shadow-xl hover:-translate-y-0.5',
           isCondition ? 'w-24 h-24 rotate-45' : 'min-w-40 px-4 py-3 rounded-xl'
         )}
@@ -221,14 +317,22 @@ function FlowNodeComponent({ data }: NodeProps<FlowNodeData>) {
           </div>
         )}
 
+        {/* Breakpoint marker */}
+        {hasBreakpoint && (
+          <div
+            className="absolute -top-1 -left-1 w-3 h-3 rounded-full bg-red-500 border-2 border-white shadow-sm"
+            title="Breakpoint"
+          />
+        )}
+
         {/* Selection indicator */}
         {isSelected && (
           <div className="absolute -top-1 -right-1 w-3 h-3 rounded-full bg-primary-500 border-2 border-white shadow-sm animate-pulse" />
         )}
       </div>
 
-      {/* Output handles */}
-      {step.type === 'condition' ? (
+      {/* Output handles - loops branch into their body (true) or exit (false) */}
+      {step.type === 'condition' || step.type === 'loop' ? (
         <>
           {/* True branch - right */}
           <Handle
@@ -264,8 +368,21 @@ function FlowNodeComponent({ data }: NodeProps<FlowNodeData>) {
         />
       ) : null}
 
+      {/* Branch handle - each connection starts one parallel branch */}
+      {step.type === 'parallel' && (
+        <Handle
+          type="source"
+          position={Position.Bottom}
+          id="branch"
+          className={cn(
+            'w-3 h-3 !border-2 !bg-fuchsia-100 !border-fuchsia-500',
+            isSelected && '!w-4 !h-4'
+          )}
+        />
+      )}
+
       {/* Error handle for nodes that can fail */}
-      {(step.type === 'tool' || step.type === 'prompt') && (
+      {ERROR_HANDLE_TYPES.includes(step.type) && (
         <Handle
           type="source"
           position={Position.Bottom}
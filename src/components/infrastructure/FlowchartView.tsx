@@ -1,4 +1,4 @@
-import { useMemo, useCallback, useState, useEffect } from 'react';
+import { useMemo, useCallback, useState, useEffect, useRef } from 'react';
 import ReactFlow, {
   Background,
   MiniMap,
@@ -8,6 +8,10 @@ import ReactFlow, {
   useReactFlow,
   ReactFlowProvider,
   Panel,
+  type Connection,
+  type Edge,
+  type EdgeChange,
+  type NodeChange,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import {
@@ -17,11 +21,37 @@ import {
   ZoomOut,
   Move,
   Crosshair,
+  Pencil,
+  Save,
+  Bug,
+  StepForward,
+  FastForward,
+  Square,
 } from 'lucide-react';
 import { cn } from '../../utils/cn';
 import { FlowNode } from './FlowNode';
 import { NodeDetailPanel } from './NodeDetailPanel';
-import { convertFlowToLayoutedElements, getDirectExecutionFlow } from '../../utils/flowLayout';
+import { FlowDiagnosticsList } from './FlowDiagnosticsList';
+import { StepPalette, STEP_DRAG_TYPE } from './StepPalette';
+import { Button } from '../ui/Button';
+import {
+  applyLayoutPositions,
+  convertFlowToElements,
+  convertFlowToLayoutedElements,
+  getDirectExecutionFlow,
+} from '../../utils/flowLayout';
+import {
+  connectSteps,
+  connectionForHandle,
+  createFlowStep,
+  diffFlows,
+  disconnectSteps,
+  removeFlowStep,
+  updateFlowStep,
+  type FlowConnection,
+} from '../../utils/flowEditing';
+import { analyzeFlow } from '../../services/flow/analyzer';
+import type { FlowDebugger } from '../../hooks/useFlowDebugger';
 import type { AgentFlowStep } from '../../types/agent';
 
 interface FlowchartViewProps {
@@ -29,6 +59,12 @@ interface FlowchartViewProps {
   className?: string;
   isFullscreen?: boolean;
   onToggleFullscreen?: () => void;
+  /** Save an edited flow; enables editing */
+  onSave?: (flow: AgentFlowStep[]) => void | Promise<void>;
+  /** Debug runs of the flow; enables breakpoints and the debug toolbar */
+  debugger?: FlowDebugger;
+  /** Input the debug toolbar starts with */
+  debugInput?: string;
 }
 
 const nodeTypes: NodeTypes = {
@@ -54,48 +90,230 @@ function FlowchartViewInner({
   className,
   isFullscreen,
   onToggleFullscreen,
+  onSave,
+  debugger: flowDebugger,
+  debugInput,
 }: FlowchartViewProps) {
   const reactFlow = useReactFlow();
   const [selectedStepId, setSelectedStepId] = useState<string | null>(null);
+  const [selectedEdgeId, setSelectedEdgeId] = useState<string | null>(null);
+  // The flow being edited, laid out at the steps' own positions; null when viewing
+  const [draft, setDraft] = useState<AgentFlowStep[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const isEditing = draft !== null;
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [runInput, setRunInput] = useState(debugInput ?? '');
+  // Debugging runs the saved flow, so it is off while editing
+  const debug = isEditing ? undefined : flowDebugger;
+  const pause = debug?.pause ?? null;
 
   // Use direct execution mode if no flow provided
-  const actualFlow = flow.length > 0 ? flow : getDirectExecutionFlow();
+  const actualFlow = useMemo(
+    () => (flow.length > 0 ? flow : getDirectExecutionFlow()),
+    [flow]
+  );
+  const shownFlow = draft ?? actualFlow;
 
-  // Convert flow to nodes and edges with layout
-  const { nodes: initialNodes, edges } = useMemo(
-    () => convertFlowToLayoutedElements(actualFlow),
-    [actualFlow]
+  // Convert flow to nodes and edges; the viewer lays them out, the editor
+  // keeps them where they were dragged
+  const { nodes: initialNodes, edges: initialEdges } = useMemo(
+    () => (draft ? convertFlowToElements(draft) : convertFlowToLayoutedElements(actualFlow)),
+    [draft, actualFlow]
   );
 
-  // Add selection state and callbacks to nodes
+  const breakpoints = debug?.breakpoints;
+  const activeStepId = pause?.stepId ?? null;
+  const fromStepId = pause?.fromStepId ?? null;
+
+  // Add selection state, debugger markers and callbacks to nodes
   const nodes = useMemo(() => {
     return initialNodes.map((node) => ({
       ...node,
+      selected: isEditing && node.id === selectedStepId,
       data: {
         ...node.data,
         isSelected: node.id === selectedStepId,
         onSelect: (stepId: string) => setSelectedStepId(stepId),
+        hasBreakpoint: breakpoints?.has(node.id) ?? false,
+        isActive: node.id === activeStepId,
       },
     }));
-  }, [initialNodes, selectedStepId]);
+  }, [initialNodes, selectedStepId, isEditing, breakpoints, activeStepId]);
+
+  // The edge a paused debug run just took is highlighted
+  const edges = useMemo(
+    () =>
+      isEditing
+        ? initialEdges.map((edge) => ({ ...edge, selected: edge.id === selectedEdgeId }))
+        : initialEdges.map((edge) =>
+            edge.source === fromStepId && edge.target === activeStepId
+              ? { ...edge, animated: true, style: { ...edge.style, strokeWidth: 3, stroke: '#eab308' } }
+              : edge
+          ),
+    [initialEdges, selectedEdgeId, isEditing, fromStepId, activeStepId]
+  );
+
+  // Show the step a debug run paused at
+  useEffect(() => {
+    if (activeStepId) setSelectedStepId(activeStepId);
+  }, [activeStepId, pause?.stepsExecuted]);
+
+  const analysis = useMemo(() => (draft ? analyzeFlow(draft) : null), [draft]);
+  const hasChanges = useMemo(
+    () => (draft ? diffFlows(actualFlow, draft, '').length > 0 : false),
+    [draft, actualFlow]
+  );
+  const hasUnnamedSteps = draft?.some((step) => !step.name.trim()) ?? false;
 
   // Get selected step
   const selectedStep = useMemo(() => {
-    return actualFlow.find((step) => step.id === selectedStepId) || null;
-  }, [actualFlow, selectedStepId]);
+    return shownFlow.find((step) => step.id === selectedStepId) || null;
+  }, [shownFlow, selectedStepId]);
 
   // Handle clicking on the background to deselect
   const handlePaneClick = useCallback(() => {
     setSelectedStepId(null);
+    setSelectedEdgeId(null);
   }, []);
 
-  // Fit view on mount
+  // Fit view on mount and when the shown flow is replaced, not while editing it
   useEffect(() => {
     const timer = setTimeout(() => {
       reactFlow.fitView({ padding: 0.2, duration: 500 });
     }, 100);
     return () => clearTimeout(timer);
-  }, [reactFlow, nodes]);
+  }, [reactFlow, actualFlow, isEditing]);
+
+  const handleStartEditing = () => {
+    setDraft(applyLayoutPositions(actualFlow));
+  };
+
+  const handleCancelEditing = () => {
+    setDraft(null);
+    setSelectedEdgeId(null);
+    setSaveError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft || !onSave) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(draft);
+      setDraft(null);
+      setSelectedEdgeId(null);
+    } catch (error) {
+      // Keep the draft so the edit isn't lost
+      setSaveError(error instanceof Error ? error.message : 'Failed to save the flow');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateDraft = useCallback(
+    (update: (flow: AgentFlowStep[]) => AgentFlowStep[]) => {
+      setDraft((current) => (current ? update(current) : current));
+    },
+    []
+  );
+
+  // Dragging is the only node change the draft keeps; selection is ours
+  const handleNodesChange = useCallback(
+    (changes: NodeChange[]) => {
+      updateDraft((current) =>
+        changes.reduce(
+          (flow, change) =>
+            change.type === 'position' && change.position
+              ? updateFlowStep(flow, change.id, { position: change.position })
+              : flow,
+          current
+        )
+      );
+    },
+    [updateDraft]
+  );
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    for (const change of changes) {
+      if (change.type === 'select') {
+        setSelectedEdgeId(change.selected ? change.id : null);
+      }
+    }
+  }, []);
+
+  const handleConnect = useCallback(
+    (connection: Connection) => {
+      if (!connection.source || !connection.target) return;
+      const { source, target, sourceHandle } = connection;
+      updateDraft((current) =>
+        connectSteps(current, source, connectionForHandle(sourceHandle), target)
+      );
+    },
+    [updateDraft]
+  );
+
+  const handleEdgesDelete = useCallback(
+    (deleted: Edge[]) => {
+      updateDraft((current) =>
+        deleted.reduce(
+          (flow, edge) =>
+            disconnectSteps(flow, edge.source, edge.data?.connection as FlowConnection, edge.target),
+          current
+        )
+      );
+      setSelectedEdgeId(null);
+    },
+    [updateDraft]
+  );
+
+  const handleNodesDelete = useCallback(
+    (deleted: Node[]) => {
+      updateDraft((current) =>
+        deleted.reduce((flow, node) => removeFlowStep(flow, node.id), current)
+      );
+      setSelectedStepId(null);
+    },
+    [updateDraft]
+  );
+
+  const handleDeleteStep = (stepId: string) => {
+    updateDraft((current) => removeFlowStep(current, stepId));
+    setSelectedStepId(null);
+  };
+
+  const addStep = (type: AgentFlowStep['type'], position: { x: number; y: number }) => {
+    if (!draft) return;
+    const step = createFlowStep(draft, type, position);
+    setDraft([...draft, step]);
+    setSelectedStepId(step.id);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isEditing || !event.dataTransfer.types.includes(STEP_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    const type = event.dataTransfer.getData(STEP_DRAG_TYPE) as AgentFlowStep['type'];
+    if (!isEditing || !type) return;
+    event.preventDefault();
+    addStep(type, reactFlow.screenToFlowPosition({ x: event.clientX, y: event.clientY }));
+  };
+
+  // Palette clicks drop the step in the middle of what is visible
+  const handleAddFromPalette = (type: AgentFlowStep['type']) => {
+    const bounds = canvasRef.current?.getBoundingClientRect();
+    const center = bounds
+      ? { x: bounds.left + bounds.width / 2, y: bounds.top + bounds.height / 2 }
+      : { x: 0, y: 0 };
+    addStep(type, reactFlow.screenToFlowPosition(center));
+  };
+
+  const stepDiagnostics = selectedStepId
+    ? analysis?.diagnostics.filter((d) => d.stepId === selectedStepId)
+    : undefined;
 
   // Custom controls
   const handleZoomIn = () => reactFlow.zoomIn({ duration: 200 });
@@ -115,152 +333,280 @@ function FlowchartViewInner({
     )}>
       {/* Main flowchart area */}
       <div className={cn(
-        'flex-1 rounded-xl overflow-hidden',
+        'flex-1 flex flex-col rounded-xl overflow-hidden',
         !isFullscreen && 'border border-gray-200'
       )}>
-        <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          nodeTypes={nodeTypes}
-          connectionLineType={ConnectionLineType.SmoothStep}
-          onPaneClick={handlePaneClick}
-          fitView
-          fitViewOptions={{ padding: 0.2 }}
-          proOptions={{ hideAttribution: true }}
-          nodesDraggable={false}
-          nodesConnectable={false}
-          panOnDrag
-          zoomOnScroll
-          zoomOnPinch
-          minZoom={0.2}
-          maxZoom={2}
-        >
-          {/* Custom gradient background */}
-          <Background
-            color="#cbd5e1"
-            gap={20}
-            size={1}
-            style={{ opacity: 0.5 }}
-          />
-
-          {/* MiniMap - only in fullscreen */}
-          {isFullscreen && (
-            <MiniMap
-              nodeColor={nodeColor}
-              nodeStrokeWidth={3}
-              zoomable
-              pannable
-              className="!bg-white !rounded-lg !shadow-lg !border !border-gray-200"
-              style={{
-                width: 160,
-                height: 100,
-              }}
+        {analysis && <FlowDiagnosticsList diagnostics={analysis.diagnostics} />}
+        <div ref={canvasRef} className="flex-1 min-h-0" onDragOver={handleDragOver} onDrop={handleDrop}>
+          <ReactFlow
+            nodes={nodes}
+            edges={edges}
+            nodeTypes={nodeTypes}
+            connectionLineType={ConnectionLineType.SmoothStep}
+            onPaneClick={handlePaneClick}
+            onNodesChange={isEditing ? handleNodesChange : undefined}
+            onEdgesChange={isEditing ? handleEdgesChange : undefined}
+            onConnect={isEditing ? handleConnect : undefined}
+            onNodesDelete={isEditing ? handleNodesDelete : undefined}
+            onEdgesDelete={isEditing ? handleEdgesDelete : undefined}
+            deleteKeyCode={isEditing ? ['Backspace', 'Delete'] : null}
+            fitView
+            fitViewOptions={{ padding: 0.2 }}
+            proOptions={{ hideAttribution: true }}
+            nodesDraggable={isEditing}
+            nodesConnectable={isEditing}
+            edgesFocusable={isEditing}
+            panOnDrag
+            zoomOnScroll
+            zoomOnPinch
+            minZoom={0.2}
+            maxZoom={2}
+          >
+            {/* Custom gradient background */}
+            <Background
+              color="#cbd5e1"
+              gap={20}
+              size={1}
+              style={{ opacity: 0.5 }}
             />
-          )}
-
-          {/* Custom Control Panel */}
-          <Panel position="top-left" className="!m-3">
-            <div className="flex items-center gap-1.5 bg-white rounded-lg shadow-lg border border-gray-200 p-1">
-              <button
-                onClick={handleZoomIn}
-                className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
-                title="Zoom In"
-              >
-                <ZoomIn className="w-4 h-4" />
-              </button>
-              <button
-                onClick={handleZoomOut}
-                className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
-                title="Zoom Out"
-              >
-                <ZoomOut className="w-4 h-4" />
-              </button>
-              <div className="w-px h-6 bg-gray-200" />
-              <button
-                onClick={handleFitView}
-                className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
-                title="Fit View"
-              >
-                <Move className="w-4 h-4" />
-              </button>
-              <button
-                onClick={handleCenter}
-                className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
-                title="Center"
-              >
-                <Crosshair className="w-4 h-4" />
-              </button>
-              {onToggleFullscreen && (
-                <>
-                  <div className="w-px h-6 bg-gray-200" />
-                  <button
-                    onClick={onToggleFullscreen}
-                    className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
-                    title={isFullscreen ? 'Exit Fullscreen' : 'Fullscreen'}
-                  >
-                    {isFullscreen ? (
-                      <Minimize2 className="w-4 h-4" />
-                    ) : (
-                      <Maximize2 className="w-4 h-4" />
-                    )}
-                  </button>
-                </>
-              )}
-            </div>
-          </Panel>
-
-          {/* Stats Panel */}
-          <Panel position="bottom-left" className="!m-3">
-            <div className="flex items-center gap-3 bg-white/90 backdrop-blur rounded-lg shadow-sm border border-gray-200 px-3 py-2 text-xs text-gray-600">
-              <span className="flex items-center gap-1.5">
-                <span className="w-2 h-2 rounded-full bg-emerald-500" />
-                {actualFlow.length} nodes
-              </span>
-              <span className="text-gray-300">|</span>
-              <span>Scroll to zoom, drag to pan</span>
-            </div>
-          </Panel>
-
-          {/* Title Panel - in fullscreen */}
-          {isFullscreen && (
-            <Panel position="top-center" className="!m-3">
-              <div className="bg-white/90 backdrop-blur rounded-lg shadow-sm border border-gray-200 px-4 py-2">
-                <h2 className="text-sm font-semibold text-gray-900">
-                  Agent Flowchart
-                </h2>
+
+            {/* MiniMap - only in fullscreen */}
+            {isFullscreen && (
+              <MiniMap
+                nodeColor={nodeColor}
+                nodeStrokeWidth={3}
+                zoomable
+                pannable
+                className="!bg-white !rounded-lg !shadow-lg !border !border-gray-200"
+                style={{
+                  width: 160,
+                  height: 100,
+                }}
+              />
+            )}
+
+            {/* Custom Control Panel */}
+            <Panel position="top-left" className="!m-3">
+              <div className="flex items-center gap-1.5 bg-white rounded-lg shadow-lg border border-gray-200 p-1">
+                <button
+                  onClick={handleZoomIn}
+                  className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
+                  title="Zoom In"
+                >
+                  <ZoomIn className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleZoomOut}
+                  className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
+                  title="Zoom Out"
+                >
+                  <ZoomOut className="w-4 h-4" />
+                </button>
+                <div className="w-px h-6 bg-gray-200" />
+                <button
+                  onClick={handleFitView}
+                  className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
+                  title="Fit View"
+                >
+                  <Move className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleCenter}
+                  className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
+                  title="Center"
+                >
+                  <Crosshair className="w-4 h-4" />
+                </button>
+                {onToggleFullscreen && !isEditing && (
+                  <>
+                    <div className="w-px h-6 bg-gray-200" />
+                    <button
+                      onClick={onToggleFullscreen}
+                      className="p-2 rounded-md hover:bg-gray-100 text-gray-600 transition-colors"
+                      title={isFullscreen ? 'Exit Fullscreen' : 'Fullscreen'}
+                    >
+                      {isFullscreen ? (
+                        <Minimize2 className="w-4 h-4" />
+                      ) : (
+                        <Maximize2 className="w-4 h-4" />
+                      )}
+                    </button>
+                  </>
+                )}
               </div>
             </Panel>
-          )}
-
-          {/* Legend Panel */}
-          <Panel position="bottom-right" className="!m-3 !mb-16">
-            <div className="bg-white/90 backdrop-blur rounded-lg shadow-sm border border-gray-200 p-3">
-              <h4 className="text-xs font-semibold text-gray-500 mb-2">Legend</h4>
-              <div className="space-y-1.5 text-xs">
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded bg-emerald-500" />
-                  <span className="text-gray-600">Start/Output</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded bg-blue-500" />
-                  <span className="text-gray-600">Prompt</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded bg-violet-500" />
-                  <span className="text-gray-600">Tool</span>
+
+            {/* Stats Panel */}
+            <Panel position="bottom-left" className="!m-3">
+              <div className="flex items-center gap-3 bg-white/90 backdrop-blur rounded-lg shadow-sm border border-gray-200 px-3 py-2 text-xs text-gray-600">
+                <span className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full bg-emerald-500" />
+                  {shownFlow.length} nodes
+                </span>
+                <span className="text-gray-300">|</span>
+                <span>
+                  {isEditing
+                    ? 'Drag between handles to connect, Backspace deletes the selection'
+                    : 'Scroll to zoom, drag to pan'}
+                </span>
+              </div>
+            </Panel>
+
+            {/* Title Panel - in fullscreen */}
+            {isFullscreen && (
+              <Panel position="top-center" className="!m-3">
+                <div className="bg-white/90 backdrop-blur rounded-lg shadow-sm border border-gray-200 px-4 py-2">
+                  <h2 className="text-sm font-semibold text-gray-900">
+                    Agent Flowchart
+                  </h2>
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded rotate-45 bg-amber-500" style={{ width: 10, height: 10 }} />
-                  <span className="text-gray-600">Condition</span>
+              </Panel>
+            )}
+
+            {/* Edit controls */}
+            {onSave && (
+              <Panel position="top-right" className="!m-3 flex flex-col items-end gap-2">
+                {isEditing ? (
+                  <>
+                    <div className="flex items-center gap-2 bg-white rounded-lg shadow-lg border border-gray-200 p-1">
+                      <Button variant="ghost" size="sm" onClick={handleCancelEditing} disabled={isSaving}>
+                        Cancel
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={handleSave}
+                        disabled={isSaving || !hasChanges || !analysis?.valid || hasUnnamedSteps}
+                        title={
+                          !analysis?.valid
+                            ? 'Fix the errors before saving'
+                            : hasUnnamedSteps
+                              ? 'Every step needs a name'
+                              : undefined
+                        }
+                      >
+                        <Save className="w-4 h-4 mr-1.5" />
+                        {isSaving ? 'Saving...' : 'Save as new version'}
+                      </Button>
+                    </div>
+                    {saveError && (
+                    <p className="max-w-64 bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700">
+                      {saveError}
+                    </p>
+                  )}
+                  <StepPalette onAdd={handleAddFromPalette} />
+                  </>
+                ) : (
+                  <Button variant="outline" size="sm" className="bg-white shadow-lg" onClick={handleStartEditing}>
+                    <Pencil className="w-4 h-4 mr-1.5" />
+                    Edit flow
+                  </Button>
+                )}
+              </Panel>
+            )}
+
+            {/* Debug toolbar */}
+            {debug && (
+              <Panel position="bottom-center" className="!m-3">
+                <div className="flex flex-col gap-1.5 w-96 bg-white rounded-lg shadow-lg border border-gray-200 p-2">
+                  <div className="flex items-center gap-1.5">
+                    <input
+                      value={runInput}
+                      onChange={(e) => setRunInput(e.target.value)}
+                      disabled={debug.status === 'running' || debug.status === 'paused'}
+                      placeholder="Input for the debug run"
+                      className="flex-1 min-w-0 rounded border border-gray-200 px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-primary-500 disabled:bg-gray-50"
+                    />
+                    {debug.status === 'paused' ? (
+                      <>
+                        <button
+                          onClick={debug.step}
+                          className="p-1.5 rounded-md hover:bg-gray-100 text-gray-600"
+                          title="Run this step and pause"
+                        >
+                          <StepForward className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={debug.resume}
+                          className="p-1.5 rounded-md hover:bg-gray-100 text-gray-600"
+                          title="Continue to the next breakpoint"
+                        >
+                          <FastForward className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={debug.stop}
+                          className="p-1.5 rounded-md hover:bg-gray-100 text-red-600"
+                          title="Stop the run"
+                        >
+                          <Square className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => debug.start(runInput)}
+                          disabled={debug.status === 'running' || !runInput.trim()}
+                          className="p-1.5 rounded-md hover:bg-gray-100 text-gray-600 disabled:opacity-50"
+                          title="Debug: run to the first breakpoint"
+                        >
+                          <Bug className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => debug.start(runInput, true)}
+                          disabled={debug.status === 'running' || !runInput.trim()}
+                          className="p-1.5 rounded-md hover:bg-gray-100 text-gray-600 disabled:opacity-50"
+                          title="Step through from the start"
+                        >
+                          <StepForward className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 truncate">
+                    {debug.status === 'idle' && 'Add breakpoints from a step\'s details, then debug'}
+                    {debug.status === 'running' && 'Running...'}
+                    {debug.status === 'paused' && pause &&
+                      `Paused before ${shownFlow.find((step) => step.id === pause.stepId)?.name ?? pause.stepId} (${pause.reason})`}
+                    {debug.status === 'finished' &&
+                      (debug.error
+                        ? `Failed: ${debug.error}`
+                        : debug.result
+                          ? `Finished: ${debug.result.output}`
+                          : 'Stopped')}
+                  </p>
                 </div>
-                <div className="flex items-center gap-2">
-                  <div className="w-3 h-3 rounded bg-cyan-500" />
-                  <span className="text-gray-600">Loop</span>
+              </Panel>
+            )}
+
+            {/* Legend Panel */}
+            <Panel position="bottom-right" className="!m-3 !mb-16">
+              <div className="bg-white/90 backdrop-blur rounded-lg shadow-sm border border-gray-200 p-3">
+                <h4 className="text-xs font-semibold text-gray-500 mb-2">Legend</h4>
+                <div className="space-y-1.5 text-xs">
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded bg-emerald-500" />
+                    <span className="text-gray-600">Start/Output</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded bg-blue-500" />
+                    <span className="text-gray-600">Prompt</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded bg-violet-500" />
+                    <span className="text-gray-600">Tool</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded rotate-45 bg-amber-500" style={{ width: 10, height: 10 }} />
+                    <span className="text-gray-600">Condition</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded bg-cyan-500" />
+                    <span className="text-gray-600">Loop</span>
+                  </div>
                 </div>
               </div>
-            </div>
-          </Panel>
-        </ReactFlow>
+            </Panel>
+          </ReactFlow>
+        </div>
       </div>
 
       {/* Detail Panel - slides in when node is selected */}
@@ -268,6 +614,25 @@ function FlowchartViewInner({
         <NodeDetailPanel
           step={selectedStep}
           onClose={() => setSelectedStepId(null)}
+          onChange={
+            isEditing
+              ? (updates) => updateDraft((current) => updateFlowStep(current, selectedStep.id, updates))
+              : undefined
+          }
+          onDelete={
+            isEditing
+              ? () => handleDeleteStep(selectedStep.id)
+              : undefined
+          }
+          diagnostics={stepDiagnostics}
+          debug={
+            debug && {
+              hasBreakpoint: debug.breakpoints.has(selectedStep.id),
+              onToggleBreakpoint: () => debug.toggleBreakpoint(selectedStep.id),
+              pause,
+              onEditVariable: debug.setVariable,
+            }
+          }
         />
       )}
     </div>
@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { Brain, Trash2 } from 'lucide-react';
+import { clearMemory, getMemoryEntries } from '../../db/memory-queries';
+import { getMemoryLimits } from '../../services/memory';
+import type { AgentMemoryConfig } from '../../types/agent';
+import { cn } from '../../utils/cn';
+
+/** How many of the latest messages to list */
+const MAX_LISTED_MESSAGES = 10;
+
+const recallDescriptions: Record<AgentMemoryConfig['type'], string> = {
+  none: 'Runs do not recall this memory while the agent has no memory type.',
+  buffer: 'Runs recall the most recent messages.',
+  summary: 'Runs recall the summary and the most recent messages; older messages are folded into the summary.',
+  vector: 'Runs recall the earlier exchanges most similar to their input, ranked by local TF-IDF similarity.',
+};
+
+interface MemoryPanelProps {
+  lineageId: string;
+  memory: AgentMemoryConfig;
+  className?: string;
+}
+
+/**
+ * What a lineage remembers across runs, shared by all of its versions
+ */
+export function MemoryPanel({ lineageId, memory, className }: MemoryPanelProps) {
+  const [entries, setEntries] = useState(() => getMemoryEntries(lineageId));
+
+  useEffect(() => {
+    setEntries(getMemoryEntries(lineageId));
+  }, [lineageId]);
+
+  const summary = entries.filter((entry) => entry.role === 'summary').pop();
+  const messages = entries.filter((entry) => entry.role !== 'summary');
+  const limits = getMemoryLimits(memory);
+
+  const handleClear = () => {
+    if (confirm('Clear everything this lineage remembers?')) {
+      clearMemory(lineageId);
+      setEntries(getMemoryEntries(lineageId));
+    }
+  };
+
+  return (
+    <div className={cn('bg-gray-50 rounded-lg p-4 space-y-3', className)}>
+      <div className="flex items-center gap-2">
+        <Brain className="w-4 h-4 text-gray-400" />
+        <span className="text-sm text-gray-600">Stored Memory</span>
+        <span className="ml-auto text-sm font-medium text-gray-900">
+          {messages.length} {messages.length === 1 ? 'message' : 'messages'}
+          {summary && ' + summary'}
+        </span>
+        {entries.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="flex items-center gap-1 text-xs text-red-600 hover:text-red-800"
+            title="Clear memory"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Clear
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        {recallDescriptions[memory.type]}
+        {memory.type !== 'none' &&
+          ` Limits: ${limits.maxMessages} messages, ~${limits.maxTokens.toLocaleString()} tokens.`}
+      </p>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing remembered yet</p>
+      ) : (
+        <div className="space-y-2">
+          {summary && (
+            <div className="rounded border border-gray-200 bg-white px-3 py-2">
+              <p className="text-xs font-medium text-gray-500 mb-1">Summary</p>
+              <p className="text-sm text-gray-900 whitespace-pre-wrap">{summary.content}</p>
+            </div>
+          )}
+          {messages.slice(-MAX_LISTED_MESSAGES).map((entry) => (
+            <div key={entry.id} className="rounded border border-gray-200 bg-white px-3 py-2">
+              <p className="text-xs font-medium text-gray-500 mb-1">
+                {entry.role === 'user' ? 'Input' : 'Output'}
+                <span className="ml-2 font-normal">{new Date(entry.createdAt).toLocaleString()}</span>
+              </p>
+              <p className="text-sm text-gray-900 line-clamp-3 whitespace-pre-wrap">{entry.content}</p>
+            </div>
+          ))}
+          {messages.length > MAX_LISTED_MESSAGES && (
+            <p className="text-xs text-gray-500">
+              {messages.length - MAX_LISTED_MESSAGES} older messages not shown
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
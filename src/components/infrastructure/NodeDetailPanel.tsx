@@ -1,20 +1,44 @@
-import { X, Copy, Check, Wrench, MessageSquare, GitBranch, Repeat, CheckCircle, Play, Code, Settings } from 'lucide-react';
+import { X, Copy, Check, Wrench, MessageSquare, GitBranch, Repeat, Split, Merge, Bot, UserCheck, CheckCircle, Play, Code, Braces, Settings, RotateCcw, Trash2, Bug, CircleDot, SlidersHorizontal } from 'lucide-react';
 import { useState, useCallback } from 'react';
 import { cn } from '../../utils/cn';
-import type { AgentFlowStep } from '../../types/agent';
+import type { AgentFlowStep, AgentStepFallback } from '../../types/agent';
+import type { FlowDiagnostic } from '../../services/flow/analyzer';
+import type { FlowDebugPause } from '../../services/flow';
+import { StepConfigForm } from './StepConfigForm';
+import { MODEL_PARAMETER_FIELDS } from '../../utils/flowEditing';
 
 interface NodeDetailPanelProps {
   step: AgentFlowStep;
   onClose: () => void;
+  /** Makes the step editable */
+  onChange?: (updates: Partial<Omit<AgentFlowStep, 'id'>>) => void;
+  onDelete?: () => void;
+  /** Analyzer findings on this step */
+  diagnostics?: FlowDiagnostic[];
+  /** Debugger state; shows the breakpoint toggle and the paused run */
+  debug?: NodeDebugState;
   className?: string;
 }
 
+export interface NodeDebugState {
+  hasBreakpoint: boolean;
+  onToggleBreakpoint: () => void;
+  /** Where a debug run is paused, if it is */
+  pause: FlowDebugPause | null;
+  onEditVariable: (name: string, value: unknown) => void;
+}
+
 const typeLabels: Record<AgentFlowStep['type'], string> = {
   start: 'Start Node',
   prompt: 'Prompt Node',
   tool: 'Tool Node',
   condition: 'Condition Node',
+  transform: 'Transform Node',
   loop: 'Loop Node',
+  parallel: 'Parallel Node',
+  join: 'Join Node',
+  call_agent: 'Call Agent Node',
+  human_input: 'Human Input Node',
   output: 'Output Node',
 };
 
@@ -23,7 +47,12 @@ const typeDescriptions: Record<AgentFlowStep['type'], string> = {
   prompt: 'Processes input using a language model with the configured prompt template.',
   tool: 'Executes an external tool or function with the specified parameters.',
   condition: 'Evaluates a condition and branches the flow based on the result.',
+  transform: 'Sets variables from expressions, e.g. splitting a list or picking a field, without calling the model.',
   loop: 'Iterates over the flow until a condition is met or max iterations reached.',
+  parallel: 'Runs several branches at the same time, each with its own copy of the variables.',
+  join: 'Merges the branches of a parallel node by concatenating, judging or merging their results.',
+  call_agent: "Runs another lineage's agent on an interpolated input and stores its output.",
+  human_input: 'Pauses the run and asks you a question; the run continues from here once you reply.',
   output: 'Generates the final output in the specified format.',
 };
 
@@ -32,7 +61,12 @@ const typeIcons: Record<AgentFlowStep['type'], React.ComponentType<{ className?:
   prompt: MessageSquare,
   tool: Wrench,
   condition: GitBranch,
+  transform: Braces,
   loop: Repeat,
+  parallel: Split,
+  join: Merge,
+  call_agent: Bot,
+  human_input: UserCheck,
   output: CheckCircle,
 };
 
@@ -41,11 +75,69 @@ const typeColors: Record<AgentFlowStep['type'], { bg: string; text: string; acce
   prompt: { bg: 'bg-blue-50', text: 'text-blue-700', accent: 'bg-blue-500' },
   tool: { bg: 'bg-violet-50', text: 'text-violet-700', accent: 'bg-violet-500' },
   condition: { bg: 'bg-amber-50', text: 'text-amber-700', accent: 'bg-amber-500' },
+  transform: { bg: 'bg-indigo-50', text: 'text-indigo-700', accent: 'bg-indigo-500' },
   loop: { bg: 'bg-cyan-50', text: 'text-cyan-700', accent: 'bg-cyan-500' },
+  parallel: { bg: 'bg-fuchsia-50', text: 'text-fuchsia-700', accent: 'bg-fuchsia-500' },
+  join: { bg: 'bg-sky-50', text: 'text-sky-700', accent: 'bg-sky-500' },
+  call_agent: { bg: 'bg-rose-50', text: 'text-rose-700', accent: 'bg-rose-500' },
+  human_input: { bg: 'bg-yellow-50', text: 'text-yellow-700', accent: 'bg-yellow-500' },
   output: { bg: 'bg-green-50', text: 'text-green-700', accent: 'bg-green-500' },
 };
 
-export function NodeDetailPanel({ step, onClose, className }: NodeDetailPanelProps) {
+/** Variables edit as JSON; anything that isn't JSON is a string */
+function parseVariable(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function VariableInput({
+  name,
+  value,
+  onChange,
+}: {
+  name: string;
+  value: unknown;
+  onChange: (name: string, value: unknown) => void;
+}) {
+  const shown = JSON.stringify(value) ?? '';
+  const [text, setText] = useState(shown);
+
+  return (
+    <div>
+      <label className="block text-xs font-mono text-gray-700 mb-1">{name}</label>
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => text !== shown && onChange(name, parseVariable(text))}
+        className="w-full rounded border border-gray-200 px-2 py-1 text-xs font-mono focus:outline-none focus:ring-1 focus:ring-primary-500"
+      />
+    </div>
+  );
+}
+
+function describeFallback(fallback: AgentStepFallback): string {
+  switch (fallback.type) {
+    case 'model':
+      return `Rerun on ${fallback.model}`;
+    case 'value':
+      return `Continue with ${JSON.stringify(fallback.value)}`;
+    case 'skip':
+      return 'Skip the step';
+  }
+}
+
+export function NodeDetailPanel({
+  step,
+  onClose,
+  onChange,
+  onDelete,
+  diagnostics,
+  debug,
+  className,
+}: NodeDetailPanelProps) {
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
 
   const Icon = typeIcons[step.type];
@@ -158,10 +250,11 @@ export function NodeDetailPanel({ step, onClose, className }: NodeDetailPanelPro
               {type === 'onTrue' && 'On True'}
               {type === 'onFalse' && 'On False'}
               {type === 'onError' && 'On Error'}
+              {type === 'branches' && 'Branches'}
             </span>
             <span className="text-gray-500">&rarr;</span>
             <code className="text-xs bg-white px-2 py-0.5 rounded border border-gray-200">
-              {targetId}
+              {Array.isArray(targetId) ? targetId.join(', ') : targetId}
             </code>
           </div>
         ))}
@@ -222,7 +315,15 @@ export function NodeDetailPanel({ step, onClose, className }: NodeDetailPanelPro
         </section>
 
         {/* Configuration */}
-        {Object.keys(config).length > 0 && (
+        {onChange ? (
+          <section>
+            <h4 className="text-xs font-semibold uppercase text-gray-400 mb-3 flex items-center gap-2">
+              <Code className="w-3.5 h-3.5" />
+              Configuration
+            </h4>
+            <StepConfigForm step={step} onChange={onChange} diagnostics={diagnostics} />
+          </section>
+        ) : Object.keys(config).length > 0 && (
           <section>
             <h4 className="text-xs font-semibold uppercase text-gray-400 mb-3 flex items-center gap-2">
               <Code className="w-3.5 h-3.5" />
@@ -241,6 +342,118 @@ export function NodeDetailPanel({ step, onClose, className }: NodeDetailPanelPro
           </section>
         )}
 
+        {/* Model parameters - the editor shows them in the config form */}
+        {!onChange && step.modelParameters && Object.keys(step.modelParameters).length > 0 && (
+          <section>
+            <h4 className="text-xs font-semibold uppercase text-gray-400 mb-3 flex items-center gap-2">
+              <SlidersHorizontal className="w-3.5 h-3.5" />
+              Model Parameters
+            </h4>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 text-sm">
+              {MODEL_PARAMETER_FIELDS.filter((field) => step.modelParameters?.[field.key] !== undefined).map(
+                (field) => (
+                  <div key={field.key} className="contents">
+                    <dt className="text-gray-500">{field.label}</dt>
+                    <dd className="text-gray-900 break-all">{String(step.modelParameters?.[field.key])}</dd>
+                  </div>
+                )
+              )}
+            </dl>
+            <p className="mt-2 text-xs text-gray-500">Overrides the agent's parameters for this step</p>
+          </section>
+        )}
+
+        {/* Failure policy */}
+        {step.policy && (
+          <section>
+            <h4 className="text-xs font-semibold uppercase text-gray-400 mb-3 flex items-center gap-2">
+              <RotateCcw className="w-3.5 h-3.5" />
+              On Failure
+            </h4>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1.5 text-sm">
+              {step.policy.retries !== undefined && (
+                <>
+                  <dt className="text-gray-500">Retries</dt>
+                  <dd className="text-gray-900">
+                    {step.policy.retries}
+                    {step.policy.retries > 0 && step.policy.backoffMs !== undefined && (
+                      <span className="text-gray-500"> ({step.policy.backoffMs}ms backoff, doubling)</span>
+                    )}
+                  </dd>
+                </>
+              )}
+              {step.policy.timeoutMs !== undefined && (
+                <>
+                  <dt className="text-gray-500">Timeout</dt>
+                  <dd className="text-gray-900">{step.policy.timeoutMs}ms per attempt</dd>
+                </>
+              )}
+              {step.policy.fallback && (
+                <>
+                  <dt className="text-gray-500">Fallback</dt>
+                  <dd className="text-gray-900 break-all">{describeFallback(step.policy.fallback)}</dd>
+                </>
+              )}
+            </dl>
+          </section>
+        )}
+
+        {/* Debugger */}
+        {debug && (
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-semibold uppercase text-gray-400 flex items-center gap-2">
+                <Bug className="w-3.5 h-3.5" />
+                Debug
+              </h4>
+              <button
+                onClick={debug.onToggleBreakpoint}
+                className={cn(
+                  'flex items-center gap-1 text-xs',
+                  debug.hasBreakpoint ? 'text-red-600 hover:text-red-800' : 'text-gray-500 hover:text-gray-700'
+                )}
+              >
+                <CircleDot className="w-3.5 h-3.5" />
+                {debug.hasBreakpoint ? 'Remove breakpoint' : 'Add breakpoint'}
+              </button>
+            </div>
+            {debug.pause ? (
+              <div className="space-y-3">
+                <p className="text-xs text-gray-600">
+                  {debug.pause.stepId === step.id
+                    ? 'Paused before this step.'
+                    : `Paused before ${debug.pause.stepId}.`}{' '}
+                  Edits apply when the run continues.
+                </p>
+                {Object.keys(debug.pause.variables).length === 0 ? (
+                  <p className="text-sm text-gray-500 italic">No variables yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {Object.entries(debug.pause.variables).map(([name, value]) => (
+                      <VariableInput
+                        // Remount at every pause so the inputs show the run's values
+                        key={`${debug.pause?.stepsExecuted}-${name}`}
+                        name={name}
+                        value={value}
+                        onChange={debug.onEditVariable}
+                      />
+                    ))}
+                  </div>
+                )}
+                {Object.entries(debug.pause.loopState).map(([loopId, loop]) => (
+                  <div key={loopId} className="px-3 py-2 rounded-lg bg-cyan-50 text-xs text-cyan-800">
+                    <span className="font-mono">{loopId}</span>: iteration {loop.currentIndex} of{' '}
+                    {loop.items ? loop.items.length : loop.maxIterations}
+                    {loop.itemVariable && <> over <span className="font-mono">{loop.itemVariable}</span></>}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 italic">Variables show here while a debug run is paused</p>
+            )}
+          </section>
+        )}
+
         {/* Connections */}
         <section>
           <h4 className="text-xs font-semibold uppercase text-gray-400 mb-3 flex items-center gap-2">
@@ -253,9 +466,19 @@ export function NodeDetailPanel({ step, onClose, className }: NodeDetailPanelPro
 
       {/* Footer */}
       <div className="px-4 py-3 border-t border-gray-200 bg-gray-50">
-        <p className="text-xs text-gray-500 text-center">
-          Click elsewhere to deselect
-        </p>
+        {onDelete ? (
+          <button
+            onClick={onDelete}
+            className="w-full flex items-center justify-center gap-2 text-sm text-red-600 hover:text-red-800"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete step
+          </button>
+        ) : (
+          <p className="text-xs text-gray-500 text-center">
+            Click elsewhere to deselect
+          </p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { getRolloutsByLineage } from '../../db/queries';
+import { getFlowCheckpointsByAttempt } from '../../db/checkpoint-queries';
+import { isConversationAttempt } from '../../services/agent-executor';
+import type { Attempt, AttemptStatus, ExecutionSpan, FlowCheckpoint } from '../../types/evolution';
+import { Badge } from '../ui/Badge';
+import { cn } from '../../utils/cn';
+
+/** How many of the lineage's latest runs to list */
+const MAX_RUNS = 5;
+
+const statusVariants: Record<AttemptStatus, 'default' | 'success' | 'warning' | 'danger'> = {
+  running: 'warning',
+  succeeded: 'success',
+  failed: 'danger',
+  cancelled: 'default',
+};
+
+interface RunsPanelProps {
+  lineageId: string;
+  /** Version replays run on */
+  agentVersion: number;
+  onReplay: (span: ExecutionSpan) => void;
+  isReplaying?: boolean;
+  className?: string;
+}
+
+interface RecentRun {
+  cycle: number;
+  attempt: Attempt;
+}
+
+interface RunStep {
+  checkpoint: FlowCheckpoint;
+  spans: ExecutionSpan[];
+}
+
+/**
+ * Recent runs of a lineage, span by span. Replaying from a span reruns the
+ * step that recorded it and everything after, reusing the earlier steps.
+ */
+export function RunsPanel({ lineageId, agentVersion, onReplay, isReplaying, className }: RunsPanelProps) {
+  const [runs, setRuns] = useState(() => getRecentRuns(lineageId));
+
+  // Read again once a replay finishes to pick up its run
+  useEffect(() => {
+    if (!isReplaying) setRuns(getRecentRuns(lineageId));
+  }, [lineageId, isReplaying]);
+
+  if (runs.length === 0) {
+    return (
+      <div className={cn('p-6 text-sm text-gray-500 text-center', className)}>
+        No recorded runs yet
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('p-6 space-y-4', className)}>
+      <p className="text-xs text-gray-500">
+        Replays run v{agentVersion} from the chosen step, reusing the results of the steps before it.
+      </p>
+      {runs.map(({ cycle, attempt }) => (
+        <RunCard
+          key={attempt.id}
+          cycle={cycle}
+          attempt={attempt}
+          onReplay={onReplay}
+          isReplaying={isReplaying}
+        />
+      ))}
+    </div>
+  );
+}
+
+function getRecentRuns(lineageId: string): RecentRun[] {
+  return getRolloutsByLineage(lineageId)
+    .flatMap((rollout) => rollout.attempts.map((attempt) => ({ cycle: rollout.cycle, attempt })))
+    .sort((a, b) => b.attempt.createdAt - a.attempt.createdAt)
+    .slice(0, MAX_RUNS);
+}
+
+interface RunCardProps {
+  cycle: number;
+  attempt: Attempt;
+  onReplay: (span: ExecutionSpan) => void;
+  isReplaying?: boolean;
+}
+
+function RunCard({ cycle, attempt, onReplay, isReplaying }: RunCardProps) {
+  const steps = useMemo(() => groupSpansBySteps(attempt), [attempt]);
+  const isConversation = useMemo(() => isConversationAttempt(attempt), [attempt]);
+
+  return (
+    <section className="rounded-lg border border-gray-200">
+      <div className="px-4 py-2 bg-gray-50 border-b border-gray-200 flex items-center gap-2">
+        <History className="w-4 h-4 text-gray-400" />
+        <span className="text-sm font-medium text-gray-900">Cycle {cycle}</span>
+        <Badge variant={statusVariants[attempt.status]}>{attempt.status}</Badge>
+        <span className="ml-auto text-xs text-gray-500">
+          {new Date(attempt.createdAt).toLocaleString()}
+        </span>
+      </div>
+      {isConversation ? (
+        <p className="px-4 py-3 text-sm text-gray-500">
+          Conversation runs can't be replayed from a step
+        </p>
+      ) : steps.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-gray-500">
+          This run has no checkpoints to replay from
+        </p>
+      ) : (
+        <ol className="divide-y divide-gray-100">
+          {steps.flatMap(({ checkpoint, spans }) =>
+            spans.map((span) => (
+              <li key={span.id} className="px-4 py-2 flex items-start gap-3">
+                <span className="text-xs font-mono text-gray-400 w-6 text-right pt-0.5">
+                  {span.sequence}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900">
+                    {checkpoint.stepName}{' '}
+                    <span className="text-xs text-gray-500">{span.type.replace('_', ' ')}</span>
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">{span.output || span.toolError || '-'}</p>
+                </div>
+                <button
+                  onClick={() => onReplay(span)}
+                  disabled={isReplaying}
+                  className="flex items-center gap-1 text-xs text-primary-600 hover:text-primary-800 disabled:opacity-50"
+                  title={`Rerun from "${checkpoint.stepName}"`}
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Replay from here
+                </button>
+              </li>
+            ))
+          )}
+        </ol>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Pair each checkpoint with the top-level spans recorded until the next one
+ */
+function groupSpansBySteps(attempt: Attempt): RunStep[] {
+  const checkpoints = getFlowCheckpointsByAttempt(attempt.id);
+  const spanIds = new Set(attempt.spans.map((span) => span.id));
+  const topLevel = attempt.spans.filter(
+    (span) => !span.parentSpanId || !spanIds.has(span.parentSpanId)
+  );
+
+  return checkpoints.map((checkpoint, index) => {
+    const end = checkpoints[index + 1]?.sequence ?? Infinity;
+    return {
+      checkpoint,
+      spans: topLevel.filter((span) => span.sequence >= checkpoint.sequence && span.sequence < end),
+    };
+  });
+}
@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, X } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import {
+  MODEL_PARAMETER_FIELDS,
+  STEP_CONFIG_FIELDS,
+  type StepConfigField,
+} from '../../utils/flowEditing';
+import { MODEL_PARAMETER_STEP_TYPES, type FlowDiagnostic } from '../../services/flow/analyzer';
+import type { AgentFlowStep, StepModelParameters } from '../../types/agent';
+
+interface StepConfigFormProps {
+  step: AgentFlowStep;
+  onChange: (updates: Partial<Omit<AgentFlowStep, 'id'>>) => void;
+  /** Analyzer findings on this step, shown above the fields */
+  diagnostics?: FlowDiagnostic[];
+}
+
+const inputClassName = cn(
+  'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm',
+  'placeholder:text-gray-400',
+  'focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent'
+);
+
+/**
+ * Edits the name, config and model parameters of one step. Empty fields are
+ * removed rather than saved as empty strings, so handler defaults apply.
+ */
+export function StepConfigForm({ step, onChange, diagnostics = [] }: StepConfigFormProps) {
+  const fields = STEP_CONFIG_FIELDS[step.type] ?? [];
+  const config = step.config as Record<string, unknown>;
+  const knownKeys = new Set(fields.map((field) => field.key));
+  const otherKeys = Object.keys(config).filter((key) => !knownKeys.has(key));
+
+  const setConfigValue = (key: string, value: unknown) => {
+    const next = { ...config };
+    if (value === undefined || value === '') {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange({ config: next });
+  };
+
+  const setModelParameter = (key: keyof StepModelParameters, value: unknown) => {
+    const next: Record<string, unknown> = { ...step.modelParameters };
+    if (value === undefined || value === '') {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange({ modelParameters: Object.keys(next).length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      {diagnostics.length > 0 && (
+        <ul className="space-y-1.5">
+          {diagnostics.map((diagnostic, index) => {
+            const isError = diagnostic.severity === 'error';
+            const Icon = isError ? AlertCircle : AlertTriangle;
+            return (
+              <li
+                key={`${diagnostic.code}-${index}`}
+                className={cn(
+                  'flex items-start gap-2 rounded-lg px-3 py-2 text-xs',
+                  isError ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-800'
+                )}
+              >
+                <Icon className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                <span>
+                  {diagnostic.message}
+                  {diagnostic.hint && <span className="block text-gray-500">{diagnostic.hint}</span>}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1.5">Name</label>
+        <input
+          className={cn(inputClassName, !step.name.trim() && 'border-red-500')}
+          value={step.name}
+          onChange={(e) => onChange({ name: e.target.value })}
+        />
+        {!step.name.trim() && <p className="mt-1 text-xs text-red-600">A step needs a name</p>}
+      </div>
+
+      {fields.map((field) => (
+        <div key={field.key}>
+          <label className="block text-xs font-medium text-gray-700 mb-1.5">{field.label}</label>
+          <ConfigFieldInput
+            // Remount on step switch so JSON drafts don't leak between steps
+            key={`${step.id}-${field.key}`}
+            field={field}
+            value={config[field.key]}
+            onChange={(value) => setConfigValue(field.key, value)}
+          />
+        </div>
+      ))}
+
+      {MODEL_PARAMETER_STEP_TYPES.includes(step.type) && (
+        <div>
+          <p className="text-xs font-medium text-gray-700 mb-1.5">Model parameters</p>
+          <p className="text-xs text-gray-500 mb-2">Empty fields use the agent's parameters</p>
+          <div className="grid grid-cols-2 gap-2">
+            {MODEL_PARAMETER_FIELDS.map((field) => (
+              <div key={field.key} className={cn(field.key === 'model' && 'col-span-2')}>
+                <label className="block text-xs text-gray-600 mb-1">{field.label}</label>
+                <ConfigFieldInput
+                  key={`${step.id}-${field.key}`}
+                  field={field}
+                  value={step.modelParameters?.[field.key]}
+                  onChange={(value) => setModelParameter(field.key, value)}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {otherKeys.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-700 mb-1.5">Other keys</p>
+          <ul className="space-y-1">
+            {otherKeys.map((key) => (
+              <li key={key} className="flex items-center gap-2 text-xs">
+                <code className="flex-1 truncate bg-gray-100 px-2 py-1 rounded text-gray-700">
+                  {key}: {JSON.stringify(config[key])}
+                </code>
+                <button
+                  onClick={() => setConfigValue(key, undefined)}
+                  className="p-1 rounded hover:bg-gray-100 text-gray-500"
+                  title={`Remove ${key}`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ConfigFieldInputProps {
+  field: StepConfigField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+function ConfigFieldInput({ field, value, onChange }: ConfigFieldInputProps) {
+  switch (field.kind) {
+    case 'template':
+      return (
+        <textarea
+          className={cn(inputClassName, 'font-mono text-xs min-h-24')}
+          value={typeof value === 'string' ? value : ''}
+          placeholder={field.placeholder}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+
+    case 'number':
+      return <NumberInput field={field} value={value} onChange={onChange} />;
+
+    case 'boolean':
+      return (
+        <input
+          type="checkbox"
+          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          checked={value === true}
+          onChange={(e) => onChange(e.target.checked ? true : undefined)}
+        />
+      );
+
+    case 'select':
+      return (
+        <select
+          className={inputClassName}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+        >
+          <option value="">Default</option>
+          {field.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+
+    case 'json':
+      return <JsonInput field={field} value={value} onChange={onChange} />;
+
+    default:
+      return (
+        <input
+          className={inputClassName}
+          value={typeof value === 'string' ? value : ''}
+          placeholder={field.placeholder}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+}
+
+/**
+ * Keeps what was typed until it is a number, so "1." or "-" can be typed
+ */
+function NumberInput({ field, value, onChange }: ConfigFieldInputProps) {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+  const invalid = text.trim() !== '' && !Number.isFinite(Number(text));
+
+  return (
+    <>
+      <input
+        className={cn(inputClassName, invalid && 'border-red-500')}
+        inputMode="numeric"
+        value={text}
+        placeholder={field.placeholder}
+        onChange={(e) => {
+          setText(e.target.value);
+          const trimmed = e.target.value.trim();
+          if (trimmed === '') onChange(undefined);
+          else if (Number.isFinite(Number(trimmed))) onChange(Number(trimmed));
+        }}
+      />
+      {invalid && <p className="mt-1 text-xs text-red-600">Not a number</p>}
+    </>
+  );
+}
+
+/**
+ * Keeps what was typed until it parses, so the JSON can be typed in pieces
+ */
+function JsonInput({ field, value, onChange }: ConfigFieldInputProps) {
+  const [text, setText] = useState(value === undefined ? '' : JSON.stringify(value, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  return (
+    <>
+      <textarea
+        className={cn(inputClassName, 'font-mono text-xs min-h-20', parseError && 'border-red-500')}
+        value={text}
+        placeholder={field.placeholder}
+        onChange={(e) => {
+          setText(e.target.value);
+          if (e.target.value.trim() === '') {
+            setParseError(null);
+            onChange(undefined);
+            return;
+          }
+          try {
+            onChange(JSON.parse(e.target.value));
+            setParseError(null);
+          } catch (error) {
+            setParseError(error instanceof Error ? error.message : 'Invalid JSON');
+          }
+        }}
+      />
+      {parseError && <p className="mt-1 text-xs text-red-600">{parseError}</p>}
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+import { Wrench, MessageSquare, GitBranch, Repeat, Split, Merge, Bot, UserCheck, CheckCircle, Play, Braces } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import type { AgentFlowStep } from '../../types/agent';
+
+/** dataTransfer type a palette item carries its step type in */
+export const STEP_DRAG_TYPE = 'application/x-flow-step-type';
+
+const paletteItems: {
+  type: AgentFlowStep['type'];
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+  color: string;
+}[] = [
+  { type: 'start', label: 'Start', icon: Play, color: 'text-emerald-600' },
+  { type: 'prompt', label: 'Prompt', icon: MessageSquare, color: 'text-blue-600' },
+  { type: 'tool', label: 'Tool', icon: Wrench, color: 'text-violet-600' },
+  { type: 'condition', label: 'Condition', icon: GitBranch, color: 'text-amber-600' },
+  { type: 'transform', label: 'Transform', icon: Braces, color: 'text-indigo-600' },
+  { type: 'loop', label: 'Loop', icon: Repeat, color: 'text-cyan-600' },
+  { type: 'parallel', label: 'Parallel', icon: Split, color: 'text-fuchsia-600' },
+  { type: 'join', label: 'Join', icon: Merge, color: 'text-sky-600' },
+  { type: 'call_agent', label: 'Call Agent', icon: Bot, color: 'text-rose-600' },
+  { type: 'human_input', label: 'Ask User', icon: UserCheck, color: 'text-yellow-600' },
+  { type: 'output', label: 'Output', icon: CheckCircle, color: 'text-green-600' },
+];
+
+interface StepPaletteProps {
+  /** Add a step without dragging it, e.g. from the keyboard */
+  onAdd: (type: AgentFlowStep['type']) => void;
+  className?: string;
+}
+
+/**
+ * Step types to drag onto the flowchart
+ */
+export function StepPalette({ onAdd, className }: StepPaletteProps) {
+  return (
+    <div className={cn('bg-white rounded-lg shadow-lg border border-gray-200 p-2 w-36', className)}>
+      <h4 className="text-xs font-semibold text-gray-500 px-1 mb-1.5">Add step</h4>
+      <div className="space-y-0.5">
+        {paletteItems.map(({ type, label, icon: Icon, color }) => (
+          <button
+            key={type}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(STEP_DRAG_TYPE, type);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onClick={() => onAdd(type)}
+            className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-xs text-gray-700 hover:bg-gray-100 cursor-grab"
+            title={`Drag onto the flow, or click to add a ${label} step`}
+          >
+            <Icon className={cn('w-3.5 h-3.5', color)} />
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -10,6 +10,7 @@ import {
   Key,
 } from "lucide-react";
 import { Button, ModelSelector, ApiKeyModal } from "../ui";
+import { SessionBudget } from "../budget";
 import type { Session } from "../../types";
 import { isLLMConfigured } from "../../api/llm";
 import { useModelStore } from "../../store/model";
@@ -33,8 +34,10 @@ export function Header({
   const navigate = useNavigate();
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
 
-  // Subscribe to store updates so we re-render when key changes
+  // Subscribe to store updates so we re-render when keys or the trainer model change
   useModelStore((state) => state.apiKey);
+  useModelStore((state) => state.providerKeys);
+  useModelStore((state) => state.trainerModelId);
 
   const llmConnected = isLLMConfigured();
 
@@ -115,6 +118,7 @@ export function Header({
                 Set API Key
               </Button>
             )}
+            <SessionBudget session={session} />
             <div className="h-6 w-px bg-gray-200" />
             <Button
               variant="secondary"
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { UserCheck, Send, X } from 'lucide-react';
+import { Button, Textarea } from '../ui';
+import type { LineageWithArtifact } from '../../types';
+import type { PausedRun } from '../../types/evolution';
+import { useLineageStore } from '../../store/lineages';
+
+interface PendingInputPanelProps {
+  pausedRuns: PausedRun[];
+  lineages: LineageWithArtifact[];
+}
+
+/**
+ * Agent runs waiting at a human_input step. Answering one resumes the run
+ * from the step that paused it.
+ */
+export function PendingInputPanel({ pausedRuns, lineages }: PendingInputPanelProps) {
+  if (pausedRuns.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-3">
+      {pausedRuns.map((run) => (
+        <PendingInputCard
+          key={run.id}
+          run={run}
+          lineageLabel={lineages.find((l) => l.id === run.lineageId)?.label}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface PendingInputCardProps {
+  run: PausedRun;
+  lineageLabel?: string;
+}
+
+function PendingInputCard({ run, lineageLabel }: PendingInputCardProps) {
+  const { answerPausedRun, discardPausedRun, resumingRunId } = useLineageStore();
+  const [answer, setAnswer] = useState('');
+
+  const isResuming = resumingRunId === run.id;
+
+  const handleSubmit = () => {
+    if (!answer.trim()) return;
+    answerPausedRun(run.id, answer.trim());
+    setAnswer('');
+  };
+
+  return (
+    <div className="p-4 bg-yellow-50 rounded-lg border border-yellow-200 shadow-sm">
+      <div className="flex items-start gap-3">
+        <UserCheck className="w-5 h-5 text-yellow-600 mt-0.5 flex-shrink-0" />
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-yellow-900">
+              Lineage {lineageLabel ?? '?'} is waiting for your input
+            </h3>
+            <button
+              onClick={() => discardPausedRun(run.id)}
+              disabled={isResuming}
+              className="p-1 text-yellow-600 hover:text-yellow-800 transition-colors disabled:opacity-50"
+              title="Discard this run"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-sm text-yellow-800 whitespace-pre-wrap">{run.prompt}</p>
+          <Textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSubmit();
+            }}
+            placeholder="Type your answer..."
+            rows={2}
+            disabled={isResuming}
+            className="bg-white"
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              onClick={handleSubmit}
+              disabled={isResuming || !answer.trim()}
+              className="gap-2"
+            >
+              <Send className="w-4 h-4" />
+              {isResuming ? 'Resuming...' : 'Send answer'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
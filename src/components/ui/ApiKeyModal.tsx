@@ -4,6 +4,7 @@ import { Modal } from "./Modal";
 import { Button } from "./Button";
 import { Input } from "./Input";
 import { useModelStore } from "../../store/model";
+import { DEFAULT_PROVIDER_BASE_URLS } from "../../api/providers";
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -11,15 +12,33 @@ interface ApiKeyModalProps {
 }
 
 export function ApiKeyModal({ isOpen, onClose }: ApiKeyModalProps) {
-  const { apiKey, setApiKey } = useModelStore();
+  const {
+    apiKey,
+    setApiKey,
+    providerKeys,
+    providerBaseUrls,
+    setProviderKey,
+    setProviderBaseUrl,
+  } = useModelStore();
   const [key, setKey] = useState(apiKey || "");
+  const [openaiKey, setOpenaiKey] = useState(providerKeys.openai || "");
+  const [anthropicKey, setAnthropicKey] = useState(providerKeys.anthropic || "");
+  const [localUrl, setLocalUrl] = useState(
+    providerBaseUrls["openai-compatible"] || ""
+  );
 
   useEffect(() => {
     setKey(apiKey || "");
-  }, [apiKey, isOpen]);
+    setOpenaiKey(providerKeys.openai || "");
+    setAnthropicKey(providerKeys.anthropic || "");
+    setLocalUrl(providerBaseUrls["openai-compatible"] || "");
+  }, [apiKey, providerKeys, providerBaseUrls, isOpen]);
 
   const handleSave = () => {
     setApiKey(key.trim() || null);
+    setProviderKey("openai", openaiKey.trim() || null);
+    setProviderKey("anthropic", anthropicKey.trim() || null);
+    setProviderBaseUrl("openai-compatible", localUrl.trim() || null);
     onClose();
   };
 
@@ -58,6 +77,56 @@ export function ApiKeyModal({ isOpen, onClose }: ApiKeyModalProps) {
           </p>
         </div>
 
+        <div className="space-y-3 border-t pt-4">
+          <div>
+            <h4 className="text-sm font-medium text-gray-700">
+              Direct Providers (optional)
+            </h4>
+            <p className="text-xs text-gray-500 mt-1">
+              Used by models marked "direct" or "local", which skip the
+              LiteLLM proxy.
+            </p>
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="openaiKey" className="text-xs font-medium text-gray-600">
+              OpenAI API Key
+            </label>
+            <Input
+              id="openaiKey"
+              type="password"
+              placeholder="sk-..."
+              value={openaiKey}
+              onChange={(e) => setOpenaiKey(e.target.value)}
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="anthropicKey" className="text-xs font-medium text-gray-600">
+              Anthropic API Key
+            </label>
+            <Input
+              id="anthropicKey"
+              type="password"
+              placeholder="sk-ant-..."
+              value={anthropicKey}
+              onChange={(e) => setAnthropicKey(e.target.value)}
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <label htmlFor="localUrl" className="text-xs font-medium text-gray-600">
+              Local Server URL
+            </label>
+            <Input
+              id="localUrl"
+              placeholder={DEFAULT_PROVIDER_BASE_URLS["openai-compatible"]}
+              value={localUrl}
+              onChange={(e) => setLocalUrl(e.target.value)}
+              className="font-mono"
+            />
+          </div>
+        </div>
+
         <div className="flex justify-end gap-3 pt-2">
           <Button variant="ghost" onClick={onClose}>
             Cancel
@@ -6,9 +6,11 @@
  */
 
 import { useState } from "react";
-import { Check, X, RefreshCw, ChevronDown, ChevronUp } from "lucide-react";
+import { Check, X, RefreshCw, ChevronDown, ChevronUp, Ban } from "lucide-react";
 import { useProgressStore } from "../../store/progress";
+import { useRequestQueueStore } from "../../store/request-queue";
 import type { ProgressItem } from "../../types/progress";
+import type { ModelQueueStats } from "../../api/scheduler";
 
 const ERROR_PREVIEW_LENGTH = 150;
 
@@ -31,9 +33,19 @@ function StatusIcon({ status }: { status: ProgressItem["status"] }) {
       return <Check className="w-4 h-4 text-green-500" />;
     case "error":
       return <X className="w-4 h-4 text-red-500" />;
+    case "cancelled":
+      return <Ban className="w-4 h-4 text-gray-400" />;
   }
 }
 
+function formatQueueBreakdown(
+  byModel: Record<string, ModelQueueStats>
+): string {
+  return Object.entries(byModel)
+    .map(([model, s]) => `${model}: ${s.running}/${s.limit} running, ${s.queued} queued`)
+    .join("\n");
+}
+
 function getItemStageLabel(stage: ProgressItem["stage"]): string {
   switch (stage) {
     case "generating_agents":
@@ -64,6 +76,8 @@ function getItemStageLabel(stage: ProgressItem["stage"]): string {
 export function ProgressOverlay() {
   const operation = useProgressStore((state) => state.currentOperation);
   const clearOperation = useProgressStore((state) => state.clearOperation);
+  const cancelOperation = useProgressStore((state) => state.cancelOperation);
+  const queue = useRequestQueueStore();
   const [isErrorExpanded, setIsErrorExpanded] = useState(false);
 
   if (!operation) return null;
@@ -75,6 +89,11 @@ export function ProgressOverlay() {
 
   const hasError = operation.error || operation.items.some((i) => i.status === "error");
   const errorInfo = operation.error ? truncateError(operation.error) : null;
+  const isRunning = !hasError && operation.currentStage !== "complete";
+  // Cancelled and finished winding down: every item has settled
+  const isCancelled =
+    operation.cancelled &&
+    operation.items.every((i) => i.status !== "pending" && i.status !== "in_progress");
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -84,11 +103,13 @@ export function ProgressOverlay() {
           <div className="text-center">
             <div
               className={`w-12 h-12 mx-auto mb-3 rounded-full flex items-center justify-center ${
-                hasError ? "bg-red-100" : "bg-primary-100"
+                hasError ? "bg-red-100" : isCancelled ? "bg-gray-100" : "bg-primary-100"
               }`}
             >
               {hasError ? (
                 <X className="w-6 h-6 text-red-600" />
+              ) : isCancelled ? (
+                <Ban className="w-6 h-6 text-gray-500" />
               ) : operation.currentStage === "complete" ? (
                 <Check className="w-6 h-6 text-green-600" />
               ) : (
@@ -99,6 +120,15 @@ export function ProgressOverlay() {
             <p className="text-sm text-gray-500 mt-1">
               {operation.completedItems} of {operation.totalItems} complete
             </p>
+            {(queue.running > 0 || queue.queued > 0) && (
+              <p
+                className="text-xs text-gray-400 mt-1"
+                title={formatQueueBreakdown(queue.byModel)}
+              >
+                {queue.running} {queue.running === 1 ? "request" : "requests"} running
+                {queue.queued > 0 && ` · ${queue.queued} queued`}
+              </p>
+            )}
           </div>
 
           {/* Progress bar */}
@@ -165,8 +195,19 @@ export function ProgressOverlay() {
             </div>
           )}
 
-          {/* Dismiss button when there's an error */}
-          {hasError && (
+          {/* Cancel button while the operation runs */}
+          {operation.cancellable && isRunning && !isCancelled && (
+            <button
+              onClick={cancelOperation}
+              disabled={operation.cancelled}
+              className="w-full py-2 px-4 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {operation.cancelled ? "Cancelling..." : "Cancel"}
+            </button>
+          )}
+
+          {/* Dismiss button when there's an error or the operation was cancelled */}
+          {(hasError || isCancelled) && (
             <button
               onClick={clearOperation}
               className="w-full py-2 px-4 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium rounded-lg transition-colors"
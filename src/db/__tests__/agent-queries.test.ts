@@ -180,6 +180,83 @@ describe('Agent Queries', () => {
     });
   });
 
+  describe('getAgentVersion', () => {
+    it('should look up the requested version of a lineage', () => {
+      const agent = createTestAgent({ version: 2 });
+      const lineageId = 'lineage-123';
+
+      (mockDb.exec as ReturnType<typeof vi.fn>).mockReturnValueOnce([
+        {
+          columns: [],
+          values: [[
+            agent.id,
+            lineageId,
+            agent.version,
+            agent.name,
+            agent.description,
+            agent.systemPrompt,
+            JSON.stringify(agent.tools),
+            JSON.stringify(agent.flow),
+            JSON.stringify(agent.memory),
+            JSON.stringify(agent.parameters),
+            agent.createdAt,
+            agent.updatedAt,
+          ]],
+        },
+      ]);
+
+      const result = queries.getAgentVersion(lineageId, 2);
+
+      expect(mockDb.exec).toHaveBeenCalledWith(
+        expect.stringContaining('version = ?'),
+        [lineageId, 2]
+      );
+      expect(result?.version).toBe(2);
+    });
+
+    it('should return null when the version does not exist', () => {
+      (mockDb.exec as ReturnType<typeof vi.fn>).mockReturnValueOnce([]);
+
+      const result = queries.getAgentVersion('lineage-123', 9);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getAgentById', () => {
+    it('should return the agent with its lineage', () => {
+      const agent = createTestAgent();
+
+      (mockDb.exec as ReturnType<typeof vi.fn>).mockReturnValueOnce([
+        {
+          columns: [],
+          values: [[
+            agent.id,
+            'lineage-123',
+            agent.version,
+            agent.name,
+            agent.description,
+            agent.systemPrompt,
+            JSON.stringify(agent.tools),
+            JSON.stringify(agent.flow),
+            JSON.stringify(agent.memory),
+            JSON.stringify(agent.parameters),
+            agent.createdAt,
+            agent.updatedAt,
+          ]],
+        },
+      ]);
+
+      const result = queries.getAgentById(agent.id);
+
+      expect(mockDb.exec).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE id = ?'),
+        [agent.id]
+      );
+      expect(result).toEqual({ ...agent, lineageId: 'lineage-123' });
+    });
+  });
+
   describe('getAgentHistory', () => {
     it('should return all versions ordered by version descending', () => {
       const lineageId = 'lineage-123';
@@ -73,6 +73,56 @@ function createDatabaseAtVersion4(): Database {
       created_at INTEGER NOT NULL
     );
 
+    CREATE TABLE agent_definitions (
+      id TEXT PRIMARY KEY,
+      lineage_id TEXT NOT NULL,
+      version INTEGER NOT NULL DEFAULT 1,
+      name TEXT NOT NULL,
+      description TEXT,
+      system_prompt TEXT NOT NULL,
+      tools TEXT NOT NULL,
+      flow TEXT NOT NULL,
+      memory_config TEXT NOT NULL,
+      parameters TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE rollouts (
+      id TEXT PRIMARY KEY,
+      lineage_id TEXT NOT NULL,
+      cycle INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+      final_attempt_id TEXT,
+      created_at INTEGER NOT NULL,
+      completed_at INTEGER
+    );
+
+    CREATE TABLE attempts (
+      id TEXT PRIMARY KEY,
+      rollout_id TEXT NOT NULL,
+      attempt_number INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+      agent_id TEXT NOT NULL,
+      agent_version INTEGER NOT NULL,
+      system_prompt_hash TEXT NOT NULL,
+      tools_hash TEXT NOT NULL,
+      flow_hash TEXT NOT NULL,
+      input TEXT NOT NULL,
+      model_id TEXT NOT NULL,
+      temperature REAL,
+      max_tokens INTEGER,
+      top_p REAL,
+      output TEXT,
+      error TEXT,
+      duration_ms INTEGER,
+      total_tokens INTEGER,
+      prompt_tokens INTEGER,
+      completion_tokens INTEGER,
+      estimated_cost REAL,
+      created_at INTEGER NOT NULL
+    );
+
     CREATE TABLE audit_log (
       id TEXT PRIMARY KEY,
       event_type TEXT NOT NULL,
@@ -170,6 +220,158 @@ describe('Database Migrations Integration', () => {
     });
   });
 
+  describe('Migration 12 → 13 (cancelled rollouts and attempts)', () => {
+    it('should allow the cancelled status and keep existing rows', async () => {
+      const db = createDatabaseAtVersion4();
+      db.run(`INSERT INTO rollouts (id, lineage_id, cycle, status, created_at)
+              VALUES ('rollout-1', 'lineage-1', 1, 'completed', 1234567890)`);
+
+      const { applyMigrations } = await import('../index');
+      applyMigrations(db);
+
+      expect(() => {
+        db.run(`INSERT INTO rollouts (id, lineage_id, cycle, status, created_at)
+                VALUES ('rollout-2', 'lineage-1', 2, 'cancelled', 1234567890)`);
+        db.run(
+          `INSERT INTO attempts (id, rollout_id, attempt_number, status, agent_id, agent_version,
+             system_prompt_hash, tools_hash, flow_hash, input, model_id, created_at)
+           VALUES ('attempt-1', 'rollout-2', 1, 'cancelled', 'agent-1', 1, 'h', 'h', 'h', 'in', 'model', 1234567890)`
+        );
+      }).not.toThrow();
+
+      const result = db.exec(`SELECT status FROM rollouts WHERE id = 'rollout-1'`);
+      expect(result[0].values[0][0]).toBe('completed');
+
+      db.close();
+    });
+  });
+
+  describe('Migration 13 → 14 (paused runs)', () => {
+    it('should create the paused_runs table', async () => {
+      const db = createDatabaseAtVersion4();
+
+      const { applyMigrations } = await import('../index');
+      applyMigrations(db);
+
+      db.run(
+        `INSERT INTO paused_runs (id, lineage_id, cycle, rollout_id, attempt_id, agent_id,
+           agent_version, input, prompt, snapshot, created_at)
+         VALUES ('run-1', 'lineage-1', 2, NULL, 'attempt-1', 'agent-1', 1, 'in', 'Which tone?', '{}', 1234567890)`
+      );
+
+      const result = db.exec(`SELECT prompt FROM paused_runs WHERE lineage_id = 'lineage-1'`);
+      expect(result[0].values[0][0]).toBe('Which tone?');
+
+      db.close();
+    });
+  });
+
+  describe('Migration 14 → 15 (flow checkpoints)', () => {
+    it('should create the flow_checkpoints table', async () => {
+      const db = createDatabaseAtVersion4();
+
+      const { applyMigrations } = await import('../index');
+      applyMigrations(db);
+
+      db.run(
+        `INSERT INTO flow_checkpoints (id, attempt_id, step_id, step_name, sequence, snapshot, created_at)
+         VALUES ('checkpoint-1', 'attempt-1', 'draft', 'Draft', 3, '{}', 1234567890)`
+      );
+
+      const result = db.exec(
+        `SELECT step_name FROM flow_checkpoints WHERE attempt_id = 'attempt-1' AND sequence <= 5`
+      );
+      expect(result[0].values[0][0]).toBe('Draft');
+
+      db.close();
+    });
+  });
+
+  describe('Migration 15 → 16 (agent memory)', () => {
+    it('should create the agent_memory table', async () => {
+      const db = createDatabaseAtVersion4();
+
+      const { applyMigrations } = await import('../index');
+      applyMigrations(db);
+
+      db.run(
+        `INSERT INTO agent_memory (id, lineage_id, role, content, attempt_id, created_at)
+         VALUES ('memory-1', 'lineage-1', 'summary', 'Prefers short answers', NULL, 1234567890)`
+      );
+
+      const result = db.exec(`SELECT role, content FROM agent_memory WHERE lineage_id = 'lineage-1'`);
+      expect(result[0].values[0]).toEqual(['summary', 'Prefers short answers']);
+      expect(() =>
+        db.run(
+          `INSERT INTO agent_memory (id, lineage_id, role, content, created_at)
+           VALUES ('memory-2', 'lineage-1', 'system', 'x', 1234567890)`
+        )
+      ).toThrow();
+
+      db.close();
+    });
+  });
+
+  describe('Migration 16 → 17 (output contracts)', () => {
+    it('should add output_contract to agent_definitions', async () => {
+      const db = createDatabaseAtVersion4();
+
+      const { applyMigrations } = await import('../index');
+      applyMigrations(db);
+
+      expect(columnExists(db, 'agent_definitions', 'output_contract')).toBe(true);
+
+      db.close();
+    });
+  });
+
+  describe('Migration 17 → 18 (turn feedback)', () => {
+    it('should add turn_feedback to evaluations', async () => {
+      const db = createDatabaseAtVersion4();
+
+      const { applyMigrations } = await import('../index');
+      applyMigrations(db);
+
+      expect(columnExists(db, 'evaluations', 'turn_feedback')).toBe(true);
+
+      db.close();
+    });
+  });
+
+  describe('Migration 18 → 19 (user simulations)', () => {
+    it('should create the user_simulations table', async () => {
+      const db = createDatabaseAtVersion4();
+
+      const { applyMigrations } = await import('../index');
+      applyMigrations(db);
+
+      db.run(
+        `INSERT INTO user_simulations (id, session_id, name, persona, goal, created_at)
+         VALUES ('simulation-1', 'session-1', 'Refund', 'An impatient customer', 'Get a refund', 1234567890)`
+      );
+
+      const result = db.exec(
+        `SELECT max_turns, stop_phrase, is_active FROM user_simulations WHERE id = 'simulation-1'`
+      );
+      expect(result[0].values[0]).toEqual([3, null, 0]);
+
+      db.close();
+    });
+  });
+
+  describe('Migration 19 → 20 (checkpoint span ids)', () => {
+    it('should add span_ids to flow_checkpoints', async () => {
+      const db = createDatabaseAtVersion4();
+
+      const { applyMigrations } = await import('../index');
+      applyMigrations(db);
+
+      expect(columnExists(db, 'flow_checkpoints', 'span_ids')).toBe(true);
+
+      db.close();
+    });
+  });
+
   describe('applyMigrations function', () => {
     // This is the critical test - it tests the actual migration runner
     // that was broken (it didn't apply migrations, just updated version)
@@ -33,7 +33,8 @@ describe("Session Queries Schema Robustness", () => {
         promoted_from TEXT,
         input_prompt TEXT,
         initial_agent_count INTEGER NOT NULL DEFAULT 4,
-        trainer_messages TEXT
+        trainer_messages TEXT,
+        budget_usd REAL
       );
     `);
 
@@ -0,0 +1,109 @@
+import type { SqlValue } from 'sql.js';
+import { getDatabase, saveDatabase } from './index';
+import type { CassetteEntry } from '../types/cassette';
+
+type SqlRow = SqlValue[];
+
+const CASSETTE_COLUMNS =
+  'key, prompt_key, model, request, response, usage, recorded_at';
+
+// ============ LLM Cassette ============
+
+/**
+ * Store a recording, replacing any earlier recording of the same request
+ */
+export function saveCassetteEntry(entry: CassetteEntry): void {
+  insertCassetteEntry(entry);
+  saveDatabase();
+}
+
+/**
+ * Store many recordings at once (e.g. when importing a cassette file)
+ */
+export function saveCassetteEntries(entries: CassetteEntry[]): void {
+  for (const entry of entries) {
+    insertCassetteEntry(entry);
+  }
+  saveDatabase();
+}
+
+export function getCassetteEntry(key: string): CassetteEntry | null {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${CASSETTE_COLUMNS} FROM llm_cassette WHERE key = ?`,
+    [key]
+  );
+  if (result.length === 0 || result[0].values.length === 0) return null;
+
+  return parseCassetteRow(result[0].values[0]);
+}
+
+/**
+ * Find the most recent recording of a prompt, regardless of model
+ */
+export function findCassetteEntryByPrompt(
+  promptKey: string
+): CassetteEntry | null {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${CASSETTE_COLUMNS} FROM llm_cassette
+     WHERE prompt_key = ? ORDER BY recorded_at DESC LIMIT 1`,
+    [promptKey]
+  );
+  if (result.length === 0 || result[0].values.length === 0) return null;
+
+  return parseCassetteRow(result[0].values[0]);
+}
+
+export function getAllCassetteEntries(): CassetteEntry[] {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${CASSETTE_COLUMNS} FROM llm_cassette ORDER BY recorded_at ASC`
+  );
+  if (result.length === 0) return [];
+
+  return result[0].values.map(parseCassetteRow);
+}
+
+export function getCassetteEntryCount(): number {
+  const db = getDatabase();
+  const result = db.exec('SELECT COUNT(*) FROM llm_cassette');
+  if (result.length === 0 || result[0].values.length === 0) return 0;
+
+  return result[0].values[0][0] as number;
+}
+
+export function clearCassette(): void {
+  const db = getDatabase();
+  db.run('DELETE FROM llm_cassette');
+  saveDatabase();
+}
+
+function insertCassetteEntry(entry: CassetteEntry): void {
+  const db = getDatabase();
+  db.run(
+    `INSERT OR REPLACE INTO llm_cassette (${CASSETTE_COLUMNS})
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entry.key,
+      entry.promptKey,
+      entry.model,
+      JSON.stringify(entry.request),
+      JSON.stringify(entry.response),
+      entry.usage ? JSON.stringify(entry.usage) : null,
+      entry.recordedAt,
+    ]
+  );
+}
+
+function parseCassetteRow(row: SqlRow): CassetteEntry {
+  return {
+    key: row[0] as string,
+    promptKey: row[1] as string,
+    model: row[2] as string,
+    request: JSON.parse(row[3] as string),
+    response: JSON.parse(row[4] as string),
+    usage: row[5] ? JSON.parse(row[5] as string) : undefined,
+    recordedAt: row[6] as number,
+  };
+}
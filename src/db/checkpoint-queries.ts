@@ -0,0 +1,110 @@
+import type { SqlValue } from 'sql.js';
+import { getDatabase, saveDatabase } from './index';
+import { generateId } from '../utils/id';
+import type {
+  CreateFlowCheckpointInput,
+  FlowCheckpoint,
+  FlowSnapshot,
+} from '../types/evolution';
+
+type SqlRow = SqlValue[];
+
+const CHECKPOINT_COLUMNS =
+  'id, attempt_id, step_id, step_name, sequence, snapshot, span_ids, created_at';
+
+// ============ Flow Checkpoints ============
+
+export function createFlowCheckpoint(input: CreateFlowCheckpointInput): FlowCheckpoint {
+  const db = getDatabase();
+  // The spans are in the spans table already; copying them into every
+  // checkpoint would grow each one with the length of the run
+  const checkpoint: FlowCheckpoint = {
+    ...input,
+    snapshot: { ...input.snapshot, spans: [] },
+    id: generateId(),
+    createdAt: Date.now(),
+  };
+
+  db.run(
+    `INSERT INTO flow_checkpoints (${CHECKPOINT_COLUMNS})
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      checkpoint.id,
+      checkpoint.attemptId,
+      checkpoint.stepId,
+      checkpoint.stepName,
+      checkpoint.sequence,
+      JSON.stringify(checkpoint.snapshot),
+      JSON.stringify(checkpoint.spanIds),
+      checkpoint.createdAt,
+    ]
+  );
+
+  saveDatabase();
+  return checkpoint;
+}
+
+export function getFlowCheckpoint(id: string): FlowCheckpoint | null {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${CHECKPOINT_COLUMNS} FROM flow_checkpoints WHERE id = ?`,
+    [id]
+  );
+  if (result.length === 0 || result[0].values.length === 0) return null;
+
+  return parseCheckpointRow(result[0].values[0]);
+}
+
+/**
+ * Checkpoints of an attempt in the order its steps ran
+ */
+export function getFlowCheckpointsByAttempt(attemptId: string): FlowCheckpoint[] {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${CHECKPOINT_COLUMNS} FROM flow_checkpoints
+     WHERE attempt_id = ? ORDER BY sequence ASC, created_at ASC`,
+    [attemptId]
+  );
+  if (result.length === 0) return [];
+
+  return result[0].values.map(parseCheckpointRow);
+}
+
+/**
+ * Checkpoint of the step that recorded the span at `sequence`: the last one
+ * taken at or before it
+ */
+export function getFlowCheckpointForSpan(
+  attemptId: string,
+  sequence: number
+): FlowCheckpoint | null {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${CHECKPOINT_COLUMNS} FROM flow_checkpoints
+     WHERE attempt_id = ? AND sequence <= ?
+     ORDER BY sequence DESC, created_at DESC LIMIT 1`,
+    [attemptId, sequence]
+  );
+  if (result.length === 0 || result[0].values.length === 0) return null;
+
+  return parseCheckpointRow(result[0].values[0]);
+}
+
+function parseCheckpointRow(row: SqlRow): FlowCheckpoint {
+  const snapshot = JSON.parse(row[5] as string) as FlowSnapshot;
+  // Checkpoints saved before span_ids existed carry their spans inline
+  const spanIds = row[6]
+    ? (JSON.parse(row[6] as string) as string[])
+    : snapshot.spans.map((span) => span.id);
+
+  return {
+    id: row[0] as string,
+    attemptId: row[1] as string,
+    stepId: row[2] as string,
+    stepName: row[3] as string,
+    sequence: row[4] as number,
+    snapshot: { ...snapshot, spans: [] },
+    spanIds,
+    createdAt: row[7] as number,
+  };
+}
@@ -0,0 +1,88 @@
+import type { SqlValue } from 'sql.js';
+import { getDatabase, saveDatabase } from './index';
+import { generateId } from '../utils/id';
+import type { AgentMemoryEntry } from '../types/agent';
+
+type SqlRow = SqlValue[];
+
+const MEMORY_COLUMNS = 'id, lineage_id, role, content, attempt_id, created_at';
+
+// ============ Agent Memory ============
+
+/**
+ * Append entries to a lineage's memory, in order
+ */
+export function addMemoryEntries(
+  lineageId: string,
+  entries: Pick<AgentMemoryEntry, 'role' | 'content' | 'attemptId'>[]
+): AgentMemoryEntry[] {
+  const db = getDatabase();
+  const now = Date.now();
+
+  const saved = entries.map((entry, index) => ({
+    ...entry,
+    id: generateId(),
+    lineageId,
+    // Entries of one run share a moment; the offset keeps their order
+    createdAt: now + index,
+  }));
+
+  for (const entry of saved) {
+    db.run(
+      `INSERT INTO agent_memory (${MEMORY_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        entry.id,
+        entry.lineageId,
+        entry.role,
+        entry.content,
+        entry.attemptId ?? null,
+        entry.createdAt,
+      ]
+    );
+  }
+
+  saveDatabase();
+  return saved;
+}
+
+/**
+ * A lineage's memory, oldest first
+ */
+export function getMemoryEntries(lineageId: string): AgentMemoryEntry[] {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${MEMORY_COLUMNS} FROM agent_memory
+     WHERE lineage_id = ? ORDER BY created_at ASC, rowid ASC`,
+    [lineageId]
+  );
+  if (result.length === 0) return [];
+
+  return result[0].values.map(parseMemoryRow);
+}
+
+export function deleteMemoryEntries(ids: string[]): void {
+  if (ids.length === 0) return;
+  const db = getDatabase();
+  db.run(
+    `DELETE FROM agent_memory WHERE id IN (${ids.map(() => '?').join(', ')})`,
+    ids
+  );
+  saveDatabase();
+}
+
+export function clearMemory(lineageId: string): void {
+  const db = getDatabase();
+  db.run('DELETE FROM agent_memory WHERE lineage_id = ?', [lineageId]);
+  saveDatabase();
+}
+
+function parseMemoryRow(row: SqlRow): AgentMemoryEntry {
+  return {
+    id: row[0] as string,
+    lineageId: row[1] as string,
+    role: row[2] as AgentMemoryEntry['role'],
+    content: row[3] as string,
+    attemptId: (row[4] as string) || undefined,
+    createdAt: row[5] as number,
+  };
+}
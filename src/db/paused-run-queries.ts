@@ -0,0 +1,94 @@
+import type { SqlValue } from 'sql.js';
+import { getDatabase, saveDatabase } from './index';
+import { generateId } from '../utils/id';
+import type {
+  CreatePausedRunInput,
+  FlowSnapshot,
+  PausedRun,
+} from '../types/evolution';
+
+type SqlRow = SqlValue[];
+
+const PAUSED_RUN_COLUMNS =
+  'id, lineage_id, cycle, rollout_id, attempt_id, agent_id, agent_version, input, prompt, snapshot, created_at';
+
+// ============ Paused Runs ============
+
+export function createPausedRun(input: CreatePausedRunInput): PausedRun {
+  const db = getDatabase();
+  const run: PausedRun = {
+    ...input,
+    id: generateId(),
+    createdAt: Date.now(),
+  };
+
+  db.run(
+    `INSERT INTO paused_runs (${PAUSED_RUN_COLUMNS})
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      run.id,
+      run.lineageId,
+      run.cycle,
+      run.rolloutId ?? null,
+      run.attemptId,
+      run.agentId,
+      run.agentVersion,
+      run.input,
+      run.prompt,
+      JSON.stringify(run.snapshot),
+      run.createdAt,
+    ]
+  );
+
+  saveDatabase();
+  return run;
+}
+
+export function getPausedRun(id: string): PausedRun | null {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${PAUSED_RUN_COLUMNS} FROM paused_runs WHERE id = ?`,
+    [id]
+  );
+  if (result.length === 0 || result[0].values.length === 0) return null;
+
+  return parsePausedRunRow(result[0].values[0]);
+}
+
+/**
+ * Runs of a session that are waiting for the user, oldest first
+ */
+export function getPausedRunsBySession(sessionId: string): PausedRun[] {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${PAUSED_RUN_COLUMNS} FROM paused_runs
+     WHERE lineage_id IN (SELECT id FROM lineages WHERE session_id = ?)
+     ORDER BY created_at ASC`,
+    [sessionId]
+  );
+  if (result.length === 0) return [];
+
+  return result[0].values.map(parsePausedRunRow);
+}
+
+export function deletePausedRun(id: string): void {
+  const db = getDatabase();
+  db.run('DELETE FROM paused_runs WHERE id = ?', [id]);
+  saveDatabase();
+}
+
+function parsePausedRunRow(row: SqlRow): PausedRun {
+  return {
+    id: row[0] as string,
+    lineageId: row[1] as string,
+    cycle: row[2] as number,
+    rolloutId: (row[3] as string | null) ?? undefined,
+    attemptId: row[4] as string,
+    agentId: row[5] as string,
+    agentVersion: row[6] as number,
+    input: row[7] as string,
+    prompt: row[8] as string,
+    snapshot: JSON.parse(row[9] as string) as FlowSnapshot,
+    createdAt: row[10] as number,
+  };
+}
@@ -16,6 +16,8 @@ import type {
   AgentFlowStep,
   AgentMemoryConfig,
   AgentParameters,
+  AgentExecutionMode,
+  AgentOutputContract,
 } from "../types/agent";
 import type {
   Rollout,
@@ -31,6 +33,7 @@ import type {
   CreateEvolutionRecordInput,
   CreateLearningInsightInput,
   UpdateAttemptInput,
+  UpdateSpanInput,
   UpdateEvolutionOutcomeInput,
   ScoreAnalysis,
   PromptCredit,
@@ -55,6 +58,7 @@ export function createSession(input: CreateSessionInput): Session {
     constraints: input.constraints || null,
     inputPrompt: input.inputPrompt || null,
     initialAgentCount,
+    budgetUsd: null,
     createdAt: now,
     updatedAt: now,
   };
@@ -86,7 +90,7 @@ export function createSession(input: CreateSessionInput): Session {
 export function getSession(id: string): Session | null {
   const db = getDatabase();
   const result = db.exec(
-    "SELECT id, name, need, constraints, input_prompt, initial_agent_count, trainer_messages, created_at, updated_at FROM sessions WHERE id = ?",
+    "SELECT id, name, need, constraints, input_prompt, initial_agent_count, trainer_messages, created_at, updated_at, budget_usd FROM sessions WHERE id = ?",
     [id]
   );
   if (result.length === 0 || result[0].values.length === 0) return null;
@@ -102,13 +106,14 @@ export function getSession(id: string): Session | null {
     trainerMessages: row[6] ? JSON.parse(row[6] as string) : [],
     createdAt: row[7] as number,
     updatedAt: row[8] as number,
+    budgetUsd: (row[9] as number | null) ?? null,
   };
 }
 
 export function getAllSessions(): Session[] {
   const db = getDatabase();
   const result = db.exec(
-    "SELECT id, name, need, constraints, input_prompt, initial_agent_count, trainer_messages, created_at, updated_at FROM sessions ORDER BY updated_at DESC"
+    "SELECT id, name, need, constraints, input_prompt, initial_agent_count, trainer_messages, created_at, updated_at, budget_usd FROM sessions ORDER BY updated_at DESC"
   );
   if (result.length === 0) return [];
 
@@ -122,6 +127,7 @@ export function getAllSessions(): Session[] {
     trainerMessages: row[6] ? JSON.parse(row[6] as string) : [],
     createdAt: row[7] as number,
     updatedAt: row[8] as number,
+    budgetUsd: (row[9] as number | null) ?? null,
   }));
 }
 
@@ -130,7 +136,12 @@ export function updateSession(
   updates: Partial<
     Pick<
       Session,
-      "name" | "need" | "constraints" | "inputPrompt" | "trainerMessages"
+      | "name"
+      | "need"
+      | "constraints"
+      | "inputPrompt"
+      | "trainerMessages"
+      | "budgetUsd"
     >
   >
 ): void {
@@ -159,6 +170,10 @@ export function updateSession(
     sets.push("trainer_messages = ?");
     values.push(JSON.stringify(updates.trainerMessages));
   }
+  if (updates.budgetUsd !== undefined) {
+    sets.push("budget_usd = ?");
+    values.push(updates.budgetUsd);
+  }
 
   values.push(id);
   db.run(`UPDATE sessions SET ${sets.join(", ")} WHERE id = ?`, values);
@@ -382,6 +397,21 @@ export function getCurrentCycle(sessionId: string): number {
   return result[0].values[0][0] as number;
 }
 
+/**
+ * Number of artifacts produced across all lineages of a session
+ */
+export function getArtifactCountBySession(sessionId: string): number {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT COUNT(*) FROM artifacts a
+     JOIN lineages l ON a.lineage_id = l.id
+     WHERE l.session_id = ?`,
+    [sessionId]
+  );
+  if (result.length === 0) return 0;
+  return (result[0].values[0][0] as number) ?? 0;
+}
+
 // ============ Evaluations ============
 
 export function createEvaluation(
@@ -422,7 +452,7 @@ export function getEvaluationForArtifact(
 ): Evaluation | null {
   const db = getDatabase();
   const result = db.exec(
-    "SELECT * FROM evaluations WHERE artifact_id = ? ORDER BY created_at DESC LIMIT 1",
+    "SELECT id, artifact_id, score, comment, created_at, turn_feedback FROM evaluations WHERE artifact_id = ? ORDER BY created_at DESC LIMIT 1",
     [artifactId]
   );
   if (result.length === 0 || result[0].values.length === 0) return null;
@@ -433,13 +463,14 @@ export function getEvaluationForArtifact(
     artifactId: row[1] as string,
     score: row[2] as number,
     comment: row[3] as string | null,
+    turnFeedback: row[5] ? JSON.parse(row[5] as string) : undefined,
     createdAt: row[4] as number,
   };
 }
 
 export function updateEvaluation(
   id: string,
-  updates: Partial<Pick<Evaluation, "score" | "comment">>
+  updates: Partial<Pick<Evaluation, "score" | "comment" | "turnFeedback">>
 ): void {
   const db = getDatabase();
   const sets: string[] = [];
@@ -453,6 +484,10 @@ export function updateEvaluation(
     sets.push("comment = ?");
     values.push(updates.comment);
   }
+  if (updates.turnFeedback !== undefined) {
+    sets.push("turn_feedback = ?");
+    values.push(JSON.stringify(updates.turnFeedback));
+  }
 
   if (sets.length === 0) return;
 
@@ -544,8 +579,8 @@ export function createAgent(
   };
 
   db.run(
-    `INSERT INTO agent_definitions (id, lineage_id, version, name, description, system_prompt, tools, flow, memory_config, parameters, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO agent_definitions (id, lineage_id, version, name, description, system_prompt, tools, flow, memory_config, parameters, created_at, updated_at, execution_mode, output_contract)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       agentWithId.id,
       lineageId,
@@ -559,6 +594,8 @@ export function createAgent(
       JSON.stringify(agentWithId.parameters),
       agentWithId.createdAt,
       agentWithId.updatedAt,
+      agentWithId.executionMode ?? null,
+      agentWithId.outputContract ? JSON.stringify(agentWithId.outputContract) : null,
     ]
   );
 
@@ -585,7 +622,7 @@ export function getLatestAgentVersion(
 ): AgentDefinition | null {
   const db = getDatabase();
   const result = db.exec(
-    `SELECT id, lineage_id, version, name, description, system_prompt, tools, flow, memory_config, parameters, created_at, updated_at
+    `SELECT id, lineage_id, version, name, description, system_prompt, tools, flow, memory_config, parameters, created_at, updated_at, execution_mode, output_contract
      FROM agent_definitions
      WHERE lineage_id = ?
      ORDER BY version DESC
@@ -598,13 +635,53 @@ export function getLatestAgentVersion(
   return parseAgentRow(result[0].values[0]);
 }
 
+/**
+ * Get a specific version of an agent for a lineage
+ */
+export function getAgentVersion(
+  lineageId: string,
+  version: number
+): AgentDefinition | null {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT id, lineage_id, version, name, description, system_prompt, tools, flow, memory_config, parameters, created_at, updated_at, execution_mode, output_contract
+     FROM agent_definitions
+     WHERE lineage_id = ? AND version = ?
+     LIMIT 1`,
+    [lineageId, version]
+  );
+
+  if (result.length === 0 || result[0].values.length === 0) return null;
+
+  return parseAgentRow(result[0].values[0]);
+}
+
+/**
+ * Get an agent definition by ID. The lineage is set on the returned agent
+ * since, unlike the lineage lookups, the caller does not know it.
+ */
+export function getAgentById(id: string): AgentDefinition | null {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT id, lineage_id, version, name, description, system_prompt, tools, flow, memory_config, parameters, created_at, updated_at, execution_mode, output_contract
+     FROM agent_definitions
+     WHERE id = ?`,
+    [id]
+  );
+
+  if (result.length === 0 || result[0].values.length === 0) return null;
+
+  const row = result[0].values[0];
+  return { ...parseAgentRow(row), lineageId: row[1] as string };
+}
+
 /**
  * Get all versions of an agent for a lineage
  */
 export function getAgentHistory(lineageId: string): AgentDefinition[] {
   const db = getDatabase();
   const result = db.exec(
-    `SELECT id, lineage_id, version, name, description, system_prompt, tools, flow, memory_config, parameters, created_at, updated_at
+    `SELECT id, lineage_id, version, name, description, system_prompt, tools, flow, memory_config, parameters, created_at, updated_at, execution_mode, output_contract
      FROM agent_definitions
      WHERE lineage_id = ?
      ORDER BY version DESC`,
@@ -660,6 +737,14 @@ export function updateAgent(
     sets.push("version = ?");
     values.push(updates.version);
   }
+  if (updates.executionMode !== undefined) {
+    sets.push("execution_mode = ?");
+    values.push(updates.executionMode);
+  }
+  if (updates.outputContract !== undefined) {
+    sets.push("output_contract = ?");
+    values.push(JSON.stringify(updates.outputContract));
+  }
 
   values.push(id);
   db.run(
@@ -713,6 +798,10 @@ function parseAgentRow(row: SqlRow): AgentDefinition {
     parameters: JSON.parse(row[9] as string) as AgentParameters,
     createdAt: row[10] as number,
     updatedAt: row[11] as number,
+    executionMode: (row[12] as AgentExecutionMode | null) ?? undefined,
+    outputContract: row[13]
+      ? (JSON.parse(row[13] as string) as AgentOutputContract)
+      : undefined,
   };
 }
 
@@ -1031,6 +1120,27 @@ export function createSpan(
   return span;
 }
 
+export function updateSpan(id: string, updates: UpdateSpanInput): void {
+  const db = getDatabase();
+  const sets: string[] = [];
+  const values: SqlValue[] = [];
+
+  if (updates.output !== undefined) {
+    sets.push("output = ?");
+    values.push(updates.output);
+  }
+  if (updates.durationMs !== undefined) {
+    sets.push("duration_ms = ?");
+    values.push(updates.durationMs);
+  }
+
+  if (sets.length === 0) return;
+
+  values.push(id);
+  db.run(`UPDATE execution_spans SET ${sets.join(", ")} WHERE id = ?`, values);
+  saveDatabase();
+}
+
 export function getSpansByAttempt(attemptId: string): ExecutionSpan[] {
   const db = getDatabase();
   const result = db.exec(
@@ -1164,6 +1274,16 @@ export function updateEvolutionOutcome(
   saveDatabase();
 }
 
+/**
+ * Delete an evolution record (used when the cycle that created it is cancelled)
+ */
+export function deleteEvolutionRecord(id: string): void {
+  const db = getDatabase();
+  db.run("DELETE FROM evolution_records WHERE id = ?", [id]);
+  logAudit("evolution_deleted", "evolution", id, null);
+  saveDatabase();
+}
+
 function parseEvolutionRecordRow(row: SqlRow): EvolutionRecord {
   const record: EvolutionRecord = {
     id: row[0] as string,
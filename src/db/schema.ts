@@ -1,4 +1,4 @@
-export const SCHEMA_VERSION = 9;
+export const SCHEMA_VERSION = 20;
 
 export const CREATE_TABLES_SQL = `
 -- Sessions
@@ -12,6 +12,7 @@ CREATE TABLE IF NOT EXISTS sessions (
   promoted_from TEXT,
   initial_agent_count INTEGER NOT NULL DEFAULT 4,
   trainer_messages TEXT,
+  budget_usd REAL,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL
 );
@@ -52,6 +53,7 @@ CREATE TABLE IF NOT EXISTS evaluations (
   score INTEGER NOT NULL CHECK (score >= 1 AND score <= 10),
   comment TEXT,
   created_at INTEGER NOT NULL,
+  turn_feedback TEXT,
   FOREIGN KEY (artifact_id) REFERENCES artifacts(id) ON DELETE CASCADE
 );
 
@@ -82,6 +84,8 @@ CREATE TABLE IF NOT EXISTS agent_definitions (
   flow TEXT NOT NULL,
   memory_config TEXT NOT NULL,
   parameters TEXT NOT NULL,
+  execution_mode TEXT,
+  output_contract TEXT,
   created_at INTEGER NOT NULL,
   updated_at INTEGER NOT NULL,
   FOREIGN KEY (lineage_id) REFERENCES lineages(id) ON DELETE CASCADE
@@ -120,12 +124,26 @@ CREATE TABLE IF NOT EXISTS test_cases (
   FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
 );
 
+-- Simulated users (a persona and goal an LLM plays against the agents)
+CREATE TABLE IF NOT EXISTS user_simulations (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  persona TEXT NOT NULL,
+  goal TEXT NOT NULL,
+  max_turns INTEGER NOT NULL DEFAULT 3,
+  stop_phrase TEXT,
+  is_active INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
 -- Rollouts (cycles of agent execution)
 CREATE TABLE IF NOT EXISTS rollouts (
   id TEXT PRIMARY KEY,
   lineage_id TEXT NOT NULL,
   cycle INTEGER NOT NULL,
-  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
   final_attempt_id TEXT,
   created_at INTEGER NOT NULL,
   completed_at INTEGER,
@@ -137,7 +155,7 @@ CREATE TABLE IF NOT EXISTS attempts (
   id TEXT PRIMARY KEY,
   rollout_id TEXT NOT NULL,
   attempt_number INTEGER NOT NULL,
-  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed', 'cancelled')),
 
   -- Reproducibility (agent snapshot)
   agent_id TEXT NOT NULL,
@@ -289,6 +307,71 @@ CREATE TABLE IF NOT EXISTS training_examples (
   created_at INTEGER NOT NULL
 );
 
+-- Recorded LLM responses for offline replay
+CREATE TABLE IF NOT EXISTS llm_cassette (
+  key TEXT PRIMARY KEY,
+  prompt_key TEXT NOT NULL,
+  model TEXT NOT NULL,
+  request TEXT NOT NULL,
+  response TEXT NOT NULL,
+  usage TEXT,
+  recorded_at INTEGER NOT NULL
+);
+
+-- Token and cost ledger, one row per successful LLM call
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id TEXT PRIMARY KEY,
+  session_id TEXT,
+  model TEXT NOT NULL,
+  role TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL,
+  completion_tokens INTEGER NOT NULL,
+  total_tokens INTEGER NOT NULL,
+  cost REAL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+-- Flow runs waiting at a human_input step, with their saved flow context
+CREATE TABLE IF NOT EXISTS paused_runs (
+  id TEXT PRIMARY KEY,
+  lineage_id TEXT NOT NULL,
+  cycle INTEGER NOT NULL,
+  rollout_id TEXT,
+  attempt_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  agent_version INTEGER NOT NULL,
+  input TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  snapshot TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (lineage_id) REFERENCES lineages(id) ON DELETE CASCADE
+);
+
+-- Flow state just before each top-level step of an attempt, for replays
+CREATE TABLE IF NOT EXISTS flow_checkpoints (
+  id TEXT PRIMARY KEY,
+  attempt_id TEXT NOT NULL,
+  step_id TEXT NOT NULL,
+  step_name TEXT NOT NULL,
+  sequence INTEGER NOT NULL,
+  snapshot TEXT NOT NULL,
+  span_ids TEXT,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (attempt_id) REFERENCES attempts(id) ON DELETE CASCADE
+);
+
+-- What each lineage's agent remembers across runs: messages and a rolling summary
+CREATE TABLE IF NOT EXISTS agent_memory (
+  id TEXT PRIMARY KEY,
+  lineage_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'summary')),
+  content TEXT NOT NULL,
+  attempt_id TEXT,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (lineage_id) REFERENCES lineages(id) ON DELETE CASCADE
+);
+
 -- Indexes for common queries
 CREATE INDEX IF NOT EXISTS idx_lineages_session ON lineages(session_id);
 CREATE INDEX IF NOT EXISTS idx_artifacts_lineage ON artifacts(lineage_id);
@@ -299,6 +382,7 @@ CREATE INDEX IF NOT EXISTS idx_agent_definitions_lineage ON agent_definitions(li
 CREATE INDEX IF NOT EXISTS idx_context_documents_session ON context_documents(session_id);
 CREATE INDEX IF NOT EXISTS idx_context_examples_session ON context_examples(session_id);
 CREATE INDEX IF NOT EXISTS idx_test_cases_session ON test_cases(session_id);
+CREATE INDEX IF NOT EXISTS idx_user_simulations_session ON user_simulations(session_id);
 CREATE INDEX IF NOT EXISTS idx_rollouts_lineage ON rollouts(lineage_id);
 CREATE INDEX IF NOT EXISTS idx_rollouts_cycle ON rollouts(lineage_id, cycle);
 CREATE INDEX IF NOT EXISTS idx_attempts_rollout ON attempts(rollout_id);
@@ -309,6 +393,11 @@ CREATE INDEX IF NOT EXISTS idx_training_events_type ON training_events(event_typ
 CREATE INDEX IF NOT EXISTS idx_training_events_session ON training_events(session_id);
 CREATE INDEX IF NOT EXISTS idx_training_events_timestamp ON training_events(timestamp);
 CREATE INDEX IF NOT EXISTS idx_training_examples_type ON training_examples(example_type);
+CREATE INDEX IF NOT EXISTS idx_llm_cassette_prompt ON llm_cassette(prompt_key);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_session ON llm_usage(session_id);
+CREATE INDEX IF NOT EXISTS idx_paused_runs_lineage ON paused_runs(lineage_id);
+CREATE INDEX IF NOT EXISTS idx_flow_checkpoints_attempt ON flow_checkpoints(attempt_id, sequence);
+CREATE INDEX IF NOT EXISTS idx_agent_memory_lineage ON agent_memory(lineage_id, created_at);
 `;
 
 // Migrations for upgrading schema versions
@@ -632,6 +721,208 @@ ALTER TABLE sessions ADD COLUMN initial_agent_count INTEGER NOT NULL DEFAULT 4;
     sql: `
 -- Add trainer_messages to sessions for chat persistence
 ALTER TABLE sessions ADD COLUMN trainer_messages TEXT;
+`,
+  },
+  {
+    fromVersion: 9,
+    toVersion: 10,
+    sql: `
+-- Add execution_mode to agent_definitions for native function calling
+ALTER TABLE agent_definitions ADD COLUMN execution_mode TEXT;
+`,
+  },
+  {
+    fromVersion: 10,
+    toVersion: 11,
+    sql: `
+-- Add llm_cassette for recording and replaying LLM calls
+CREATE TABLE IF NOT EXISTS llm_cassette (
+  key TEXT PRIMARY KEY,
+  prompt_key TEXT NOT NULL,
+  model TEXT NOT NULL,
+  request TEXT NOT NULL,
+  response TEXT NOT NULL,
+  usage TEXT,
+  recorded_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_llm_cassette_prompt ON llm_cassette(prompt_key);
+`,
+  },
+  {
+    fromVersion: 11,
+    toVersion: 12,
+    sql: `
+-- Add per-session budgets and the llm_usage token/cost ledger
+ALTER TABLE sessions ADD COLUMN budget_usd REAL;
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id TEXT PRIMARY KEY,
+  session_id TEXT,
+  model TEXT NOT NULL,
+  role TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL,
+  completion_tokens INTEGER NOT NULL,
+  total_tokens INTEGER NOT NULL,
+  cost REAL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_session ON llm_usage(session_id);
+`,
+  },
+  {
+    fromVersion: 12,
+    toVersion: 13,
+    sql: `
+-- Allow 'cancelled' rollouts and attempts. SQLite cannot alter a CHECK
+-- constraint, so both tables are rebuilt (foreign keys are not enforced).
+CREATE TABLE rollouts_new (
+  id TEXT PRIMARY KEY,
+  lineage_id TEXT NOT NULL,
+  cycle INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  final_attempt_id TEXT,
+  created_at INTEGER NOT NULL,
+  completed_at INTEGER,
+  FOREIGN KEY (lineage_id) REFERENCES lineages(id) ON DELETE CASCADE
+);
+INSERT INTO rollouts_new (id, lineage_id, cycle, status, final_attempt_id, created_at, completed_at)
+  SELECT id, lineage_id, cycle, status, final_attempt_id, created_at, completed_at FROM rollouts;
+DROP TABLE rollouts;
+ALTER TABLE rollouts_new RENAME TO rollouts;
+CREATE INDEX IF NOT EXISTS idx_rollouts_lineage ON rollouts(lineage_id);
+CREATE INDEX IF NOT EXISTS idx_rollouts_cycle ON rollouts(lineage_id, cycle);
+
+CREATE TABLE attempts_new (
+  id TEXT PRIMARY KEY,
+  rollout_id TEXT NOT NULL,
+  attempt_number INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed', 'cancelled')),
+  agent_id TEXT NOT NULL,
+  agent_version INTEGER NOT NULL,
+  system_prompt_hash TEXT NOT NULL,
+  tools_hash TEXT NOT NULL,
+  flow_hash TEXT NOT NULL,
+  input TEXT NOT NULL,
+  model_id TEXT NOT NULL,
+  temperature REAL,
+  max_tokens INTEGER,
+  top_p REAL,
+  output TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  total_tokens INTEGER,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  estimated_cost REAL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (rollout_id) REFERENCES rollouts(id) ON DELETE CASCADE
+);
+INSERT INTO attempts_new (id, rollout_id, attempt_number, status, agent_id, agent_version, system_prompt_hash, tools_hash, flow_hash, input, model_id, temperature, max_tokens, top_p, output, error, duration_ms, total_tokens, prompt_tokens, completion_tokens, estimated_cost, created_at)
+  SELECT id, rollout_id, attempt_number, status, agent_id, agent_version, system_prompt_hash, tools_hash, flow_hash, input, model_id, temperature, max_tokens, top_p, output, error, duration_ms, total_tokens, prompt_tokens, completion_tokens, estimated_cost, created_at FROM attempts;
+DROP TABLE attempts;
+ALTER TABLE attempts_new RENAME TO attempts;
+CREATE INDEX IF NOT EXISTS idx_attempts_rollout ON attempts(rollout_id);
+`,
+  },
+  {
+    fromVersion: 13,
+    toVersion: 14,
+    sql: `
+-- Add paused_runs for flows waiting on human input
+CREATE TABLE IF NOT EXISTS paused_runs (
+  id TEXT PRIMARY KEY,
+  lineage_id TEXT NOT NULL,
+  cycle INTEGER NOT NULL,
+  rollout_id TEXT,
+  attempt_id TEXT NOT NULL,
+  agent_id TEXT NOT NULL,
+  agent_version INTEGER NOT NULL,
+  input TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  snapshot TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (lineage_id) REFERENCES lineages(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_paused_runs_lineage ON paused_runs(lineage_id);
+`,
+  },
+  {
+    fromVersion: 14,
+    toVersion: 15,
+    sql: `
+-- Add flow_checkpoints so attempts can be replayed from a step
+CREATE TABLE IF NOT EXISTS flow_checkpoints (
+  id TEXT PRIMARY KEY,
+  attempt_id TEXT NOT NULL,
+  step_id TEXT NOT NULL,
+  step_name TEXT NOT NULL,
+  sequence INTEGER NOT NULL,
+  snapshot TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (attempt_id) REFERENCES attempts(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_flow_checkpoints_attempt ON flow_checkpoints(attempt_id, sequence);
+`,
+  },
+  {
+    fromVersion: 15,
+    toVersion: 16,
+    sql: `
+-- Add agent_memory so agents remember earlier runs of their lineage
+CREATE TABLE IF NOT EXISTS agent_memory (
+  id TEXT PRIMARY KEY,
+  lineage_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'summary')),
+  content TEXT NOT NULL,
+  attempt_id TEXT,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (lineage_id) REFERENCES lineages(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_agent_memory_lineage ON agent_memory(lineage_id, created_at);
+`,
+  },
+  {
+    fromVersion: 16,
+    toVersion: 17,
+    sql: `
+-- Add output_contract to agent_definitions for validated output steps
+ALTER TABLE agent_definitions ADD COLUMN output_contract TEXT;
+`,
+  },
+  {
+    fromVersion: 17,
+    toVersion: 18,
+    sql: `
+-- Add turn_feedback to evaluations for scores and comments on conversation turns
+ALTER TABLE evaluations ADD COLUMN turn_feedback TEXT;
+`,
+  },
+  {
+    fromVersion: 18,
+    toVersion: 19,
+    sql: `
+-- Add user_simulations for simulated users that converse with the agents
+CREATE TABLE IF NOT EXISTS user_simulations (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  persona TEXT NOT NULL,
+  goal TEXT NOT NULL,
+  max_turns INTEGER NOT NULL DEFAULT 3,
+  stop_phrase TEXT,
+  is_active INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+CREATE INDEX IF NOT EXISTS idx_user_simulations_session ON user_simulations(session_id);
+`,
+  },
+  {
+    fromVersion: 19,
+    toVersion: 20,
+    sql: `
+-- Add span_ids to flow_checkpoints so snapshots point at spans instead of copying them
+ALTER TABLE flow_checkpoints ADD COLUMN span_ids TEXT;
 `,
   },
 ];
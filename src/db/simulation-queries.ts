@@ -0,0 +1,105 @@
+import type { SqlValue } from 'sql.js';
+import { getDatabase, saveDatabase } from './index';
+import { generateId } from '../utils/id';
+import type { UserSimulation } from '../types/context';
+
+type SqlRow = SqlValue[];
+
+const SIMULATION_COLUMNS =
+  'id, session_id, name, persona, goal, max_turns, stop_phrase, is_active, created_at';
+
+// ============ User Simulations ============
+
+export function createUserSimulation(
+  input: Omit<UserSimulation, 'id' | 'isActive' | 'createdAt'>
+): UserSimulation {
+  const db = getDatabase();
+  const simulation: UserSimulation = {
+    ...input,
+    id: generateId(),
+    isActive: false,
+    createdAt: Date.now(),
+  };
+
+  db.run(
+    `INSERT INTO user_simulations (${SIMULATION_COLUMNS})
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      simulation.id,
+      simulation.sessionId,
+      simulation.name,
+      simulation.persona,
+      simulation.goal,
+      simulation.maxTurns,
+      simulation.stopPhrase ?? null,
+      0,
+      simulation.createdAt,
+    ]
+  );
+
+  saveDatabase();
+  return simulation;
+}
+
+/**
+ * A session's simulations, oldest first
+ */
+export function getUserSimulations(sessionId: string): UserSimulation[] {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${SIMULATION_COLUMNS} FROM user_simulations
+     WHERE session_id = ? ORDER BY created_at ASC`,
+    [sessionId]
+  );
+  if (result.length === 0) return [];
+
+  return result[0].values.map(parseSimulationRow);
+}
+
+/**
+ * The simulation a session's runs use, if one is active
+ */
+export function getActiveUserSimulation(sessionId: string): UserSimulation | null {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT ${SIMULATION_COLUMNS} FROM user_simulations
+     WHERE session_id = ? AND is_active = 1 LIMIT 1`,
+    [sessionId]
+  );
+  if (result.length === 0 || result[0].values.length === 0) return null;
+
+  return parseSimulationRow(result[0].values[0]);
+}
+
+/**
+ * Make one simulation the session's active one, or pass null to run the
+ * session's input prompt again
+ */
+export function setActiveUserSimulation(sessionId: string, id: string | null): void {
+  const db = getDatabase();
+  db.run(
+    'UPDATE user_simulations SET is_active = CASE WHEN id = ? THEN 1 ELSE 0 END WHERE session_id = ?',
+    [id, sessionId]
+  );
+  saveDatabase();
+}
+
+export function deleteUserSimulation(id: string): void {
+  const db = getDatabase();
+  db.run('DELETE FROM user_simulations WHERE id = ?', [id]);
+  saveDatabase();
+}
+
+function parseSimulationRow(row: SqlRow): UserSimulation {
+  return {
+    id: row[0] as string,
+    sessionId: row[1] as string,
+    name: row[2] as string,
+    persona: row[3] as string,
+    goal: row[4] as string,
+    maxTurns: row[5] as number,
+    stopPhrase: (row[6] as string) || undefined,
+    isActive: row[7] === 1,
+    createdAt: row[8] as number,
+  };
+}
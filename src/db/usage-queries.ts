@@ -0,0 +1,99 @@
+import { getDatabase, saveDatabase } from './index';
+import { generateId } from '../utils/id';
+import type {
+  CreateUsageRecordInput,
+  SessionUsage,
+  UsageRecord,
+  UsageRole,
+  UsageTotals,
+} from '../types/usage';
+
+// ============ LLM Usage Ledger ============
+
+export function recordUsage(input: CreateUsageRecordInput): UsageRecord {
+  const db = getDatabase();
+  const record: UsageRecord = {
+    ...input,
+    id: generateId(),
+    createdAt: Date.now(),
+  };
+
+  db.run(
+    `INSERT INTO llm_usage (id, session_id, model, role, prompt_tokens, completion_tokens, total_tokens, cost, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      record.id,
+      record.sessionId,
+      record.model,
+      record.role,
+      record.promptTokens,
+      record.completionTokens,
+      record.totalTokens,
+      record.cost,
+      record.createdAt,
+    ]
+  );
+
+  saveDatabase();
+  return record;
+}
+
+/**
+ * Total tokens and cost for a session, split by trainer and agent
+ */
+export function getSessionUsage(sessionId: string): SessionUsage {
+  const db = getDatabase();
+  const result = db.exec(
+    `SELECT role, SUM(prompt_tokens), SUM(completion_tokens), SUM(total_tokens),
+            SUM(COALESCE(cost, 0)), COUNT(*), SUM(CASE WHEN cost IS NULL THEN 1 ELSE 0 END)
+     FROM llm_usage WHERE session_id = ? GROUP BY role`,
+    [sessionId]
+  );
+
+  const usage: SessionUsage = {
+    trainer: emptyTotals(),
+    agent: emptyTotals(),
+    total: emptyTotals(),
+  };
+  if (result.length === 0) return usage;
+
+  for (const row of result[0].values) {
+    const totals: UsageTotals = {
+      promptTokens: (row[1] as number) ?? 0,
+      completionTokens: (row[2] as number) ?? 0,
+      totalTokens: (row[3] as number) ?? 0,
+      cost: (row[4] as number) ?? 0,
+      calls: (row[5] as number) ?? 0,
+      unpricedCalls: (row[6] as number) ?? 0,
+    };
+    const role = row[0] as UsageRole;
+    if (role === 'trainer' || role === 'agent') {
+      usage[role] = totals;
+    }
+    usage.total = addTotals(usage.total, totals);
+  }
+
+  return usage;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    calls: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function addTotals(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: a.cost + b.cost,
+    calls: a.calls + b.calls,
+    unpricedCalls: a.unpricedCalls + b.unpricedCalls,
+  };
+}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { executeAgent, type ExecutionResult } from '../services/agent-executor';
+import type { FlowDebugCommand, FlowDebugHooks, FlowDebugPause } from '../services/flow';
+import type { AgentDefinition } from '../types/agent';
+import { isCancelledError } from '../utils/abort';
+
+export type FlowDebugStatus = 'idle' | 'running' | 'paused' | 'finished';
+
+export interface FlowDebugger {
+  status: FlowDebugStatus;
+  breakpoints: Set<string>;
+  /** Where the run is paused, with variable edits not yet sent applied */
+  pause: FlowDebugPause | null;
+  result: ExecutionResult | null;
+  error: string | null;
+  toggleBreakpoint: (stepId: string) => void;
+  /** Run the agent on an input, pausing at breakpoints (or at the start step) */
+  start: (input: string, stepFromStart?: boolean) => void;
+  step: () => void;
+  resume: () => void;
+  stop: () => void;
+  /** Edit a variable of the paused run; sent when the run goes on */
+  setVariable: (name: string, value: unknown) => void;
+}
+
+/**
+ * Debug runs of an agent's flow. Runs don't create rollouts or records;
+ * the flow pauses before steps with a breakpoint, and before every step
+ * while stepping.
+ */
+export function useFlowDebugger(agent: AgentDefinition, sessionId?: string): FlowDebugger {
+  const [breakpoints, setBreakpoints] = useState<Set<string>>(() => new Set());
+  const [status, setStatus] = useState<FlowDebugStatus>('idle');
+  const [pause, setPause] = useState<FlowDebugPause | null>(null);
+  const [edits, setEdits] = useState<Record<string, unknown>>({});
+  const [result, setResult] = useState<ExecutionResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The executor asks about breakpoints mid-run, so it reads the latest set
+  const breakpointsRef = useRef(breakpoints);
+  breakpointsRef.current = breakpoints;
+  // Answers the pause the run is waiting on
+  const resolveRef = useRef<((command: FlowDebugCommand) => void) | null>(null);
+
+  // Stop a paused run when the viewer closes
+  useEffect(() => () => resolveRef.current?.({ action: 'stop' }), []);
+
+  const toggleBreakpoint = useCallback((stepId: string) => {
+    setBreakpoints((current) => {
+      const next = new Set(current);
+      if (next.has(stepId)) {
+        next.delete(stepId);
+      } else {
+        next.add(stepId);
+      }
+      return next;
+    });
+  }, []);
+
+  const start = useCallback(
+    (input: string, stepFromStart = false) => {
+      if (resolveRef.current) return;
+
+      const debug: FlowDebugHooks = {
+        isBreakpoint: (stepId) => breakpointsRef.current.has(stepId),
+        stepFromStart,
+        onPause: (next) =>
+          new Promise((resolve) => {
+            resolveRef.current = resolve;
+            setPause(next);
+            setEdits({});
+            setStatus('paused');
+          }),
+      };
+
+      setStatus('running');
+      setPause(null);
+      setResult(null);
+      setError(null);
+      executeAgent(agent, { content: input }, { sessionId, debug })
+        .then((executed) => {
+          setResult(executed);
+          setError(executed.success ? null : executed.error ?? 'Run failed');
+        })
+        .catch((err) => {
+          if (!isCancelledError(err)) {
+            setError(err instanceof Error ? err.message : 'Run failed');
+          }
+        })
+        .finally(() => {
+          resolveRef.current = null;
+          setPause(null);
+          setStatus('finished');
+        });
+    },
+    [agent, sessionId]
+  );
+
+  const send = useCallback(
+    (action: FlowDebugCommand['action']) => {
+      const resolve = resolveRef.current;
+      if (!resolve) return;
+      resolveRef.current = null;
+      setPause(null);
+      setStatus('running');
+      resolve(Object.keys(edits).length > 0 ? { action, variables: edits } : { action });
+    },
+    [edits]
+  );
+
+  const setVariable = useCallback((name: string, value: unknown) => {
+    setEdits((current) => ({ ...current, [name]: value }));
+  }, []);
+
+  return {
+    status,
+    breakpoints,
+    pause: pause && { ...pause, variables: { ...pause.variables, ...edits } },
+    result,
+    error,
+    toggleBreakpoint,
+    start,
+    step: () => send('step'),
+    resume: () => send('continue'),
+    stop: () => send('stop'),
+    setVariable,
+  };
+}
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useLLMDebugStore } from '../store/llm-debug';
+import { getSessionUsage } from '../db/usage-queries';
+import type { SessionUsage } from '../types/usage';
+
+/**
+ * A value read from the usage ledger, read again whenever an LLM call
+ * finishes or `read` changes
+ */
+export function useLedgerValue<T>(read: () => T): T {
+  const [value, setValue] = useState(read);
+
+  useEffect(() => {
+    setValue(read());
+    return useLLMDebugStore.subscribe((state, previous) => {
+      if (state.entries[0]?.id !== previous.entries[0]?.id) {
+        setValue(read());
+      }
+    });
+  }, [read]);
+
+  return value;
+}
+
+/**
+ * Token and cost totals for a session, refreshed after every LLM call
+ */
+export function useSessionUsage(sessionId: string | undefined): SessionUsage | null {
+  const read = useCallback(() => {
+    if (!sessionId) return null;
+    try {
+      return getSessionUsage(sessionId);
+    } catch {
+      return null;
+    }
+  }, [sessionId]);
+
+  return useLedgerValue(read);
+}
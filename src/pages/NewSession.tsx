@@ -259,7 +259,7 @@ export function NewSession() {
                   rows={3}
                 />
                 <p className="text-xs text-gray-500">
-                  This is the actual input your agents will respond to. If left empty, agents will receive a generic prompt based on your need.
+                  This is the actual input your agents will respond to. If left empty, agents will receive a generic prompt based on your need. To test a conversation, write it as lines starting with "User:" and "Assistant:"; agents answer each user turn in order.
                 </p>
               </div>
 
@@ -16,11 +16,14 @@ import { CardGrid } from "../components/cards/CardGrid";
 import { ExpandedCard } from "../components/cards/ExpandedCard";
 import { TrainerPanel } from "../components/panels/TrainerPanel";
 import { DirectivePanel } from "../components/panels/DirectivePanel";
+import { PendingInputPanel } from "../components/panels/PendingInputPanel";
 import { ContextPanel } from "../components/context";
 import { AgentViewer } from "../components/agent/AgentViewer";
 import { ExportModal } from "../components/export";
 import { Button, Modal } from "../components/ui";
 import { useCurrentSession } from "../hooks/useSession";
+import { useLedgerValue } from "../hooks/useSessionUsage";
+import { checkRegenerationBudget } from "../services/budget";
 import { useLineageStore } from "../store/lineages";
 import { useUIStore } from "../store/ui";
 import { useAgentStore } from "../store/agents";
@@ -37,7 +40,8 @@ import {
 import { generateAgent } from "../agents/agent-generator";
 import { updateSession } from "../db/queries";
 import type { TrainerMessage, TrainerAction } from "../types";
-import type { AgentDefinition } from "../types/agent";
+import type { AgentDefinition, AgentFlowStep } from "../types/agent";
+import type { ExecutionSpan } from "../types/evolution";
 import { generateId } from "../utils/id";
 import { cn } from "../utils/cn";
 
@@ -48,9 +52,11 @@ export function Training() {
     regenerateWithFullPipeline,
     isRegenerating,
     runLineage,
+    replayFromSpan,
     addLineage,
     getExistingLabels,
     isLoading,
+    pausedRuns,
   } = useLineageStore();
   const {
     activePanel,
@@ -62,8 +68,10 @@ export function Training() {
     isRightPanelCollapsed,
     toggleRightPanel,
   } = useUIStore();
-  const { agents, loadAgentsForSession, getAgentForLineage } = useAgentStore();
-  const { loadContext } = useContextStore();
+  const { agents, loadAgentsForSession, getAgentForLineage, saveFlowEdit } =
+    useAgentStore();
+  const { loadContext, userSimulations } = useContextStore();
+  const activeSimulation = userSimulations.find((sim) => sim.isActive);
 
   const { setCurrentSession } = useSessionStore();
   const [messages, setMessages] = useState<TrainerMessage[]>([]);
@@ -96,6 +104,18 @@ export function Training() {
 
   const expandedLineage = lineages.find((l) => l.id === expandedCardId);
 
+  // Re-check the budget after every LLM call and when the budget changes
+  const unlockedCount = lineages.filter((l) => !l.isLocked).length;
+  const budgetUsd = session?.budgetUsd;
+  const readBudgetCheck = useCallback(
+    () =>
+      sessionId && unlockedCount > 0 && budgetUsd != null
+        ? checkRegenerationBudget(sessionId, unlockedCount)
+        : null,
+    [sessionId, unlockedCount, budgetUsd]
+  );
+  const budgetCheck = useLedgerValue(readBudgetCheck);
+
   // Handler to view an agent - shows the real agent for this lineage
   const handleViewAgent = useCallback(
     (lineageId: string) => {
@@ -149,6 +169,32 @@ export function Training() {
     [session, runLineage, getAgentForLineage]
   );
 
+  // Handler to rerun the viewed agent's lineage from a recorded span
+  const handleReplayFromSpan = useCallback(
+    async (span: ExecutionSpan) => {
+      const lineageId = viewingAgent?.lineageId;
+      if (!lineageId) return;
+      setRunningLineageId(lineageId);
+      try {
+        await replayFromSpan(lineageId, span, getAgentForLineage);
+      } finally {
+        setRunningLineageId(null);
+      }
+    },
+    [viewingAgent, replayFromSpan, getAgentForLineage]
+  );
+
+  // Handler to save the viewed agent's edited flow as the lineage's next version
+  const handleSaveFlow = useCallback(
+    (flow: AgentFlowStep[]) => {
+      const lineageId = viewingAgent?.lineageId;
+      if (!lineageId) return;
+      const saved = saveFlowEdit(lineageId, flow, sessionId ?? undefined);
+      setViewingAgent(saved);
+    },
+    [viewingAgent, saveFlowEdit, sessionId]
+  );
+
   // Handler to add a new agent mid-session
   const handleAddAgent = useCallback(async () => {
     if (!session || !sessionId) return;
@@ -214,9 +260,10 @@ export function Training() {
     if (unlockedLineages.length === 0) return;
 
     // Start progress tracking
-    const { startOperation, completeOperation, failOperation } = useProgressStore.getState();
+    const { startOperation, completeOperation, failOperation, getAbortSignal } =
+      useProgressStore.getState();
     const items = unlockedLineages.map(l => ({ id: l.label, label: `Lineage ${l.label}` }));
-    startOperation('regeneration', items);
+    startOperation('regeneration', items, { cancellable: true });
     const progressEmitter = createProgressEmitter();
 
     // Set initial stage
@@ -230,10 +277,11 @@ export function Training() {
         sessionId,
         session.need,
         getAgentForLineage,
-        progressEmitter
+        progressEmitter,
+        getAbortSignal()
       );
 
-      // Complete the operation
+      // Complete the operation (shown as cancelled if the user cancelled it)
       completeOperation();
 
       // Reload agents after regeneration
@@ -363,7 +411,7 @@ export function Training() {
       <Header
         session={session}
         onRegenerate={handleRegenerate}
-        canRegenerate={canRegenerate()}
+        canRegenerate={canRegenerate() && budgetCheck?.allowed !== false}
         isRegenerating={isRegenerating}
         onExport={() => setShowExportModal(true)}
       />
@@ -427,10 +475,19 @@ export function Training() {
                     )}
                   </p>
                 )}
+                {activeSimulation && (
+                  <p className="mt-2 text-xs text-teal-700">
+                    Agents converse with the simulated user "
+                    {activeSimulation.name}" instead of this prompt.
+                  </p>
+                )}
               </div>
             </div>
           </div>
 
+          {/* Runs paused at a human_input step */}
+          <PendingInputPanel pausedRuns={pausedRuns} lineages={lineages} />
+
           <CardGrid
             lineages={lineages}
             onViewAgent={handleViewAgent}
@@ -458,7 +515,16 @@ export function Training() {
           {/* Score requirement notice */}
           {!canRegenerate() && lineages.length > 0 && (
             <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
-              Score all unlocked lineages before regenerating.
+              {pausedRuns.length > 0
+                ? "Answer or discard the runs waiting for your input before regenerating."
+                : "Score all unlocked lineages before regenerating."}
+            </div>
+          )}
+
+          {budgetCheck && !budgetCheck.allowed && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+              {budgetCheck.reason} Raise the budget from the spend indicator
+              in the header to continue.
             </div>
           )}
         </main>
@@ -614,7 +680,15 @@ export function Training() {
       {/* Agent Viewer Modal */}
       {viewingAgent && (
         <Modal isOpen={true} onClose={handleCloseAgentViewer} size="xl">
-          <AgentViewer agent={viewingAgent} onClose={handleCloseAgentViewer} />
+          <AgentViewer
+            agent={viewingAgent}
+            onClose={handleCloseAgentViewer}
+            onReplayFromSpan={handleReplayFromSpan}
+            isReplaying={isRegenerating}
+            onSaveFlow={viewingAgent.lineageId ? handleSaveFlow : undefined}
+            sessionId={sessionId ?? undefined}
+            debugInput={session?.inputPrompt ?? undefined}
+          />
         </Modal>
       )}
 
@@ -12,7 +12,14 @@ import {
   evolveTools,
   evolveParameters,
 } from '../agent-evolver';
-import type { AgentDefinition, AgentTool, AgentParameters } from '../../types/agent';
+import type {
+  AgentDefinition,
+  AgentFlowStep,
+  AgentTool,
+  AgentParameters,
+} from '../../types/agent';
+import { generateId } from '../../utils/id';
+import { analyzeFlow } from '../flow/analyzer';
 
 // Mock the LLM client
 vi.mock('../../api/llm', () => ({
@@ -376,6 +383,37 @@ describe('agent-evolver', () => {
       expect(result.tools).not.toEqual(agent.tools);
     });
 
+    describe('flow evolution', () => {
+      const flow: AgentFlowStep[] = [
+        { id: 'start', type: 'start', name: 'Start', config: {}, position: { x: 0, y: 0 }, connections: { next: 'draft' } },
+        { id: 'draft', type: 'prompt', name: 'Draft', config: { template: '{{input}}' }, position: { x: 0, y: 100 }, connections: { next: 'out' } },
+        { id: 'out', type: 'output', name: 'Out', config: {}, position: { x: 0, y: 200 }, connections: {} },
+      ];
+
+      it('keeps connections pointing at the renamed steps on major evolution', async () => {
+        let counter = 0;
+        vi.mocked(generateId).mockImplementation(() => `id-${++counter}`);
+
+        const result = await evolveAgent(createTestAgent({ flow }), 'test need', 3, null, null, null);
+
+        expect(result.flow.map((step) => step.name)).toEqual(['Start', 'Draft', 'Validate Output', 'Out']);
+        expect(result.flow.some((step) => ['start', 'draft', 'out'].includes(step.id))).toBe(false);
+        expect(analyzeFlow(result.flow).valid).toBe(true);
+      });
+
+      it('keeps the current flow when the evolved one has errors', async () => {
+        // Every new step gets the same ID
+        vi.mocked(generateId).mockReturnValue('test-generated-id');
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const result = await evolveAgent(createTestAgent({ flow }), 'test need', 3, null, null, null);
+
+        expect(result.flow).toBe(flow);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('Evolved flow has errors'));
+        warn.mockRestore();
+      });
+    });
+
     it('updates the updatedAt timestamp', async () => {
       const agent = createTestAgent({ updatedAt: 1000 });
 
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Session } from '../../types';
+import type { SessionUsage, UsageTotals } from '../../types/usage';
+
+vi.mock('../../db/queries', () => ({
+  getSession: vi.fn(),
+  getArtifactCountBySession: vi.fn(),
+}));
+
+vi.mock('../../db/usage-queries', () => ({
+  getSessionUsage: vi.fn(),
+}));
+
+import { checkRegenerationBudget, formatUsd } from '../budget';
+import { getArtifactCountBySession, getSession } from '../../db/queries';
+import { getSessionUsage } from '../../db/usage-queries';
+
+function totals(cost: number): UsageTotals {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost,
+    calls: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function mockSession(budgetUsd: number | null, spentUsd: number, artifactCount: number) {
+  vi.mocked(getSession).mockReturnValue({
+    id: 'session-1',
+    budgetUsd,
+  } as Session);
+  const usage: SessionUsage = {
+    trainer: totals(spentUsd / 2),
+    agent: totals(spentUsd / 2),
+    total: totals(spentUsd),
+  };
+  vi.mocked(getSessionUsage).mockReturnValue(usage);
+  vi.mocked(getArtifactCountBySession).mockReturnValue(artifactCount);
+}
+
+describe('checkRegenerationBudget', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('allows regeneration when the session has no budget', () => {
+    mockSession(null, 100, 4);
+
+    const check = checkRegenerationBudget('session-1', 4);
+
+    expect(check.allowed).toBe(true);
+    expect(getSessionUsage).not.toHaveBeenCalled();
+  });
+
+  it('allows regeneration when the estimate fits in the budget', () => {
+    // $0.10 per artifact so far, 4 lineages -> $0.40 estimated
+    mockSession(1, 0.4, 4);
+
+    const check = checkRegenerationBudget('session-1', 4);
+
+    expect(check.allowed).toBe(true);
+    expect(check.estimatedUsd).toBeCloseTo(0.4);
+  });
+
+  it('blocks regeneration when the next cycle would exceed the budget', () => {
+    mockSession(1, 0.8, 4);
+
+    const check = checkRegenerationBudget('session-1', 4);
+
+    expect(check.allowed).toBe(false);
+    expect(check.reason).toContain('would exceed the session budget of $1.00');
+  });
+
+  it('blocks regeneration once the budget has been spent', () => {
+    mockSession(1, 1.2, 0);
+
+    const check = checkRegenerationBudget('session-1', 1);
+
+    expect(check.allowed).toBe(false);
+    expect(check.reason).toContain('has been spent');
+  });
+
+  it('estimates nothing before any artifact exists', () => {
+    mockSession(1, 0.5, 0);
+
+    const check = checkRegenerationBudget('session-1', 4);
+
+    expect(check.allowed).toBe(true);
+    expect(check.estimatedUsd).toBe(0);
+  });
+});
+
+describe('formatUsd', () => {
+  it('keeps precision for sub-cent amounts', () => {
+    expect(formatUsd(0.0012)).toBe('$0.0012');
+    expect(formatUsd(0)).toBe('$0.00');
+    expect(formatUsd(12.345)).toBe('$12.35');
+  });
+});
@@ -26,6 +26,7 @@ import type { AgentDefinition } from '../../types/agent';
 vi.mock('../../api/llm', () => ({
   llmClient: {
     chat: vi.fn(),
+    chatStructured: vi.fn(),
   },
   isLLMConfigured: vi.fn(() => false), // Default to heuristic-based credit
 }));
@@ -227,6 +228,60 @@ Always verify your answers.`);
         const firstSpanCredit = credits.find((c) => c.spanId === 'span-0');
         expect(firstSpanCredit!.reason).toContain('accuracy');
       });
+
+      it('orders nested branch spans after their parent span', async () => {
+        const agent = createTestAgent('You are a helpful assistant.');
+        const analysis = createTestAnalysis(6);
+        const spans = [
+          createTestSpan('reasoning', 0, { id: 'start' }),
+          createTestSpan('reasoning', 1, { id: 'branch-a' }),
+          createTestSpan('reasoning', 2, { id: 'branch-b' }),
+          createTestSpan('reasoning', 3, { id: 'join' }),
+          createTestSpan('llm_call', 0, { id: 'b-draft', parentSpanId: 'branch-b' }),
+          createTestSpan('llm_call', 0, { id: 'a-draft', parentSpanId: 'branch-a' }),
+          createTestSpan('output', 4, { id: 'output' }),
+        ];
+
+        const result = await assignCredit(agent, analysis, spans);
+
+        expect((result.credits as TrajectoryCredit[]).map((c) => c.spanId)).toEqual([
+          'start',
+          'branch-a',
+          'a-draft',
+          'branch-b',
+          'b-draft',
+          'join',
+          'output',
+        ]);
+      });
+
+      it('judges spans inside a scored conversation turn by the turn score', async () => {
+        const agent = createTestAgent('You are a helpful assistant.');
+        const analysis: ScoreAnalysis = {
+          ...createTestAnalysis(8),
+          turnFeedback: [{ turn: 3, score: 2, comment: 'Ignored the question' }],
+        };
+        const turnSpan = (id: string, sequence: number, turn: number) =>
+          createTestSpan('reasoning', sequence, {
+            id,
+            input: JSON.stringify({ step: 'turn', turn, message: 'Hi' }),
+          });
+        const spans = [
+          turnSpan('turn-1', 1, 1),
+          createTestSpan('llm_call', 0, { id: 'reply-1', parentSpanId: 'turn-1' }),
+          turnSpan('turn-3', 3, 3),
+          createTestSpan('llm_call', 0, { id: 'reply-3', parentSpanId: 'turn-3' }),
+        ];
+
+        const result = await assignCredit(agent, analysis, spans);
+
+        const credits = result.credits as TrajectoryCredit[];
+        expect(credits.find((c) => c.spanId === 'reply-1')!.contribution).toBeGreaterThan(0);
+        const reply = credits.find((c) => c.spanId === 'reply-3')!;
+        expect(reply.contribution).toBeLessThan(0);
+        expect(reply.reason).toContain('turn 4: Ignored the question');
+        expect(credits.find((c) => c.spanId === 'turn-3')!.contribution).toBeLessThan(0);
+      });
     });
   });
 
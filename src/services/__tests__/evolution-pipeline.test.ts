@@ -17,7 +17,7 @@ import {
   vi,
   type MockedFunction,
 } from "vitest";
-import type { AgentDefinition } from "../../types/agent";
+import type { AgentDefinition, AgentFlowStep } from "../../types/agent";
 import type {
   ScoreAnalysis,
   EvolutionPlan,
@@ -36,9 +36,12 @@ vi.mock("../credit-assignment", () => ({
   summarizeCreditAssignment: vi.fn(() => "Credit summary"),
 }));
 
-vi.mock("../evolution-planner", () => ({
+vi.mock("../evolution-planner", async (importOriginal) => ({
   createEvolutionPlan: vi.fn(),
   summarizePlan: vi.fn(() => "Plan summary"),
+  parseStepParameterTarget: (
+    await importOriginal<typeof import("../evolution-planner")>()
+  ).parseStepParameterTarget,
 }));
 
 vi.mock("../agent-evolver", () => ({
@@ -72,6 +75,8 @@ import {
   type EvolutionPipelineInput,
 } from "../evolution-pipeline";
 
+import { AVAILABLE_MODELS } from "../../store/model";
+
 // Import mocked modules to access mock functions
 import { analyzeReward } from "../reward-analyzer";
 import { assignCredit } from "../credit-assignment";
@@ -275,7 +280,8 @@ describe("Evolution Pipeline", () => {
       expect(mockAnalyzeReward).toHaveBeenCalledWith(
         6,
         "Could be more concise",
-        null
+        null,
+        { signal: undefined, lane: "lineage-123" }
       );
     });
 
@@ -285,7 +291,8 @@ describe("Evolution Pipeline", () => {
       expect(mockAnalyzeReward).toHaveBeenCalledWith(
         6,
         "Could be more concise",
-        4
+        4,
+        { signal: undefined, lane: "lineage-123" }
       );
     });
 
@@ -298,7 +305,8 @@ describe("Evolution Pipeline", () => {
       expect(mockAssignCredit).toHaveBeenCalledWith(
         defaultInput.agent,
         analysis,
-        []
+        [],
+        { signal: undefined, lane: "lineage-123" }
       );
     });
 
@@ -321,7 +329,8 @@ describe("Evolution Pipeline", () => {
       expect(mockAssignCredit).toHaveBeenCalledWith(
         defaultInput.agent,
         expect.any(Object),
-        spans
+        spans,
+        { signal: undefined, lane: "lineage-123" }
       );
     });
 
@@ -353,7 +362,8 @@ describe("Evolution Pipeline", () => {
         expect.any(Object),
         expect.any(Object),
         pastRecords,
-        insights
+        insights,
+        { signal: undefined, lane: "lineage-123" }
       );
     });
 
@@ -545,6 +555,139 @@ describe("Evolution Pipeline", () => {
       expect(result.evolvedAgent.parameters.temperature).toBe(0.5);
     });
 
+    // start -> draft -> output, with draft's parameters overridden
+    function createDraftFlow(
+      modelParameters: AgentFlowStep["modelParameters"],
+      draftId = "draft-1"
+    ): AgentFlowStep[] {
+      return [
+        {
+          id: "start-1",
+          type: "start",
+          name: "Start",
+          config: {},
+          position: { x: 0, y: 0 },
+          connections: { next: draftId },
+        },
+        {
+          id: draftId,
+          type: "prompt",
+          name: "Draft",
+          config: { template: "{{input}}" },
+          position: { x: 100, y: 0 },
+          connections: { next: "output-1" },
+          modelParameters,
+        },
+        {
+          id: "output-1",
+          type: "output",
+          name: "Output",
+          config: {},
+          position: { x: 200, y: 0 },
+          connections: {},
+        },
+      ];
+    }
+
+    function mockStepParameterPlan(after: string, parameter = "temperature") {
+      mockCreateEvolutionPlan.mockResolvedValue(
+        createMockEvolutionPlan({
+          changes: [
+            {
+              component: "parameters",
+              changeType: "modify",
+              target: `step:draft-1.${parameter}`,
+              before: null,
+              after,
+              reason: "Tune the draft step",
+              confidence: 0.7,
+            },
+          ],
+        })
+      );
+    }
+
+    it("should apply step parameter changes to the renamed step", async () => {
+      const agent = createTestAgent({
+        flow: createDraftFlow({ model: "claude-opus", temperature: 0.9 }),
+      });
+      mockCreateEvolutionPlan.mockResolvedValue(
+        createMockEvolutionPlan({
+          changes: [
+            {
+              component: "parameters",
+              changeType: "modify",
+              target: "step:draft-1.temperature",
+              before: "0.9",
+              after: "0.4",
+              reason: "Steadier drafts",
+              confidence: 0.7,
+            },
+            {
+              component: "parameters",
+              changeType: "remove",
+              target: "step:draft-1.model",
+              before: "claude-opus",
+              after: null,
+              reason: "Use the agent's model",
+              confidence: 0.6,
+            },
+          ],
+        })
+      );
+      // A major evolution gives the step a new ID
+      mockEvolveAgent.mockResolvedValue(
+        createTestAgent({
+          version: 2,
+          flow: createDraftFlow({ model: "claude-opus", temperature: 0.9 }, "draft-2"),
+        })
+      );
+
+      const result = await runEvolutionPipeline({ ...defaultInput, agent });
+
+      expect(result.evolvedAgent.flow[1].modelParameters).toEqual({ temperature: 0.4 });
+      expect(result.evolvedAgent.parameters.temperature).toBe(0.7);
+    });
+
+    it.each([
+      ["temperature", "2.5"],
+      ["topP", "0"],
+      ["maxTokens", "12.5"],
+      ["temperature", "warmer"],
+    ])("should skip a step %s change to %s", async (parameter, after) => {
+      const flow = createDraftFlow({ temperature: 0.9 });
+      mockStepParameterPlan(after, parameter);
+      mockEvolveAgent.mockResolvedValue(createTestAgent({ version: 2, flow }));
+
+      const result = await runEvolutionPipeline({
+        ...defaultInput,
+        agent: createTestAgent({ flow }),
+      });
+
+      expect(result.evolvedAgent.flow[1].modelParameters).toEqual({ temperature: 0.9 });
+    });
+
+    it("should only move a step to a model it can call", async () => {
+      const flow = createDraftFlow(undefined);
+      mockEvolveAgent.mockResolvedValue(createTestAgent({ version: 2, flow }));
+
+      mockStepParameterPlan("made-up-model", "model");
+      const unknown = await runEvolutionPipeline({
+        ...defaultInput,
+        agent: createTestAgent({ flow }),
+      });
+      mockStepParameterPlan(AVAILABLE_MODELS[0].id, "model");
+      const known = await runEvolutionPipeline({
+        ...defaultInput,
+        agent: createTestAgent({ flow }),
+      });
+
+      expect(unknown.evolvedAgent.flow[1].modelParameters).toBeUndefined();
+      expect(known.evolvedAgent.flow[1].modelParameters).toEqual({
+        model: AVAILABLE_MODELS[0].id,
+      });
+    });
+
     it("should use fallback lineageId when agent has none", async () => {
       const agentWithoutLineage = createTestAgent({ lineageId: undefined });
 
@@ -602,6 +745,21 @@ describe("Evolution Pipeline", () => {
         })
       );
     });
+
+    it("should stop before recording when cancelled mid-pipeline", async () => {
+      const controller = new AbortController();
+      mockCreateEvolutionPlan.mockImplementation(async () => {
+        controller.abort();
+        return createMockEvolutionPlan();
+      });
+
+      await expect(
+        runEvolutionPipeline({ ...defaultInput, signal: controller.signal })
+      ).rejects.toThrow("Cancelled");
+
+      expect(mockEvolveAgent).not.toHaveBeenCalled();
+      expect(mockCreateEvolutionRecord).not.toHaveBeenCalled();
+    });
   });
 
   describe("quickEvolve", () => {
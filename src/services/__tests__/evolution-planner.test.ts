@@ -10,6 +10,8 @@ import {
   createEvolutionPlan,
   checkAgainstHistory,
   summarizePlan,
+  stepParameterTarget,
+  parseStepParameterTarget,
 } from '../evolution-planner';
 import type {
   ScoreAnalysis,
@@ -25,6 +27,7 @@ import type { AgentDefinition } from '../../types/agent';
 vi.mock('../../api/llm', () => ({
   llmClient: {
     chat: vi.fn(),
+    chatStructured: vi.fn(),
   },
   isLLMConfigured: vi.fn(() => false), // Default to heuristic-based planning
 }));
@@ -109,6 +112,43 @@ describe('evolution-planner', () => {
         expect(paramChange?.target).toBe('temperature');
       });
 
+      it('lowers the temperature of steps that override it', async () => {
+        const agent: AgentDefinition = {
+          ...createTestAgent('Simple prompt'),
+          flow: [
+            {
+              id: 'brainstorm',
+              type: 'prompt',
+              name: 'Brainstorm',
+              config: {},
+              position: { x: 0, y: 0 },
+              connections: {},
+              modelParameters: { temperature: 1 },
+            },
+            {
+              id: 'classify',
+              type: 'prompt',
+              name: 'Classify',
+              config: {},
+              position: { x: 0, y: 0 },
+              connections: {},
+              modelParameters: { model: 'small-model', temperature: 0 },
+            },
+          ],
+        };
+
+        const plan = await createEvolutionPlan(agent, createTestAnalysis(2), []);
+
+        const stepChanges = plan.changes.filter((c) => parseStepParameterTarget(c.target));
+        expect(stepChanges).toHaveLength(1);
+        expect(stepChanges[0]).toMatchObject({
+          component: 'parameters',
+          target: 'step:brainstorm.temperature',
+          before: '1',
+          after: '0.8',
+        });
+      });
+
       it('generates instruction changes for negative aspects', async () => {
         const agent = createTestAgent('You are a helpful assistant.');
         const analysis = createTestAnalysis(4, [
@@ -459,6 +499,21 @@ describe('evolution-planner', () => {
     });
   });
 
+  describe('step parameter targets', () => {
+    it('round-trips a step and parameter', () => {
+      expect(stepParameterTarget('draft.v2', 'maxTokens')).toBe('step:draft.v2.maxTokens');
+      expect(parseStepParameterTarget('step:draft.v2.maxTokens')).toEqual({
+        stepId: 'draft.v2',
+        name: 'maxTokens',
+      });
+    });
+
+    it('ignores agent-level targets and unknown parameters', () => {
+      expect(parseStepParameterTarget('temperature')).toBeNull();
+      expect(parseStepParameterTarget('step:draft.frequencyPenalty')).toBeNull();
+    });
+  });
+
   describe('summarizePlan', () => {
     it('returns no changes message for empty plan', () => {
       const plan = {
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import type { AgentDefinition } from '../../types/agent';
+import type { ChatCompletion, ChatMessage } from '../../api/llm';
+
+vi.mock('../../api/llm', () => ({
+  completeChat: vi.fn(),
+}));
+
+vi.mock('../../db/queries', () => ({
+  createSpan: vi.fn((input: Record<string, unknown>) => ({
+    id: `span-${input.sequence}`,
+    ...input,
+  })),
+}));
+
+import { executeWithFunctionCalling } from '../function-calling';
+import { completeChat } from '../../api/llm';
+import { toolRegistry } from '../tools';
+
+const mockCompleteChat = completeChat as Mock;
+
+function createTestAgent(overrides: Partial<AgentDefinition> = {}): AgentDefinition {
+  return {
+    id: 'agent-123',
+    name: 'Calculator Agent',
+    description: 'Answers maths questions',
+    version: 1,
+    systemPrompt: 'You are a maths assistant.',
+    tools: [
+      {
+        id: 'tool-1',
+        name: 'Calculator',
+        description: 'Evaluate an expression',
+        type: 'builtin',
+        config: { builtinName: 'calculate' },
+        parameters: [
+          { name: 'expression', type: 'string', description: 'Expression', required: true },
+        ],
+      },
+    ],
+    flow: [],
+    memory: { type: 'none', config: {} },
+    parameters: { model: 'test-model', temperature: 0.2, maxTokens: 512 },
+    executionMode: 'function_calling',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+function toolCallCompletion(id: string, name: string, args: string): ChatCompletion {
+  return {
+    content: '',
+    toolCalls: [{ id, type: 'function', function: { name, arguments: args } }],
+    finishReason: 'tool_calls',
+  };
+}
+
+function answer(content: string): ChatCompletion {
+  return { content, toolCalls: [], finishReason: 'stop' };
+}
+
+describe('executeWithFunctionCalling', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send tool definitions and return a direct answer', async () => {
+    mockCompleteChat.mockResolvedValueOnce(answer('Four'));
+
+    const result = await executeWithFunctionCalling(createTestAgent(), 'What is 2+2?', 'attempt-1');
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('Four');
+    expect(result.stepsExecuted).toBe(1);
+    expect(result.spans.map((s) => s.type)).toEqual(['llm_call']);
+
+    const [messages, options] = mockCompleteChat.mock.calls[0];
+    expect(messages).toEqual([
+      { role: 'system', content: 'You are a maths assistant.' },
+      { role: 'user', content: 'What is 2+2?' },
+    ]);
+    expect(options.model).toBe('test-model');
+    expect(options.tools).toHaveLength(1);
+    expect(options.tools[0].function.name).toBe('calculate');
+  });
+
+  it('should run requested tools and feed results back to the model', async () => {
+    mockCompleteChat
+      .mockResolvedValueOnce(toolCallCompletion('call-1', 'calculate', '{"expression":"6*7"}'))
+      .mockResolvedValueOnce(answer('The answer is 42'));
+
+    const result = await executeWithFunctionCalling(createTestAgent(), 'What is 6*7?', 'attempt-1');
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('The answer is 42');
+    expect(result.stepsExecuted).toBe(2);
+    expect(result.spans.map((s) => s.type)).toEqual([
+      'llm_call',
+      'tool_call',
+      'tool_result',
+      'llm_call',
+    ]);
+    expect(result.spans.map((s) => s.sequence)).toEqual([0, 1, 2, 3]);
+
+    const toolResultSpan = result.spans[2];
+    expect(toolResultSpan.toolName).toBe('calculate');
+    expect(toolResultSpan.parentSpanId).toBe(result.spans[1].id);
+
+    const secondTurn = mockCompleteChat.mock.calls[1][0] as ChatMessage[];
+    expect(secondTurn).toHaveLength(4);
+    expect(secondTurn[2].role).toBe('assistant');
+    expect(secondTurn[2].tool_calls?.[0].id).toBe('call-1');
+    expect(secondTurn[3].role).toBe('tool');
+    expect(secondTurn[3].tool_call_id).toBe('call-1');
+    expect(secondTurn[3].content).toContain('42');
+  });
+
+  it('should report tools the agent is not allowed to use back to the model', async () => {
+    const executeSpy = vi.spyOn(toolRegistry, 'execute');
+    mockCompleteChat
+      .mockResolvedValueOnce(toolCallCompletion('call-1', 'web_search', '{"query":"x"}'))
+      .mockResolvedValueOnce(answer('Sorry'));
+
+    const result = await executeWithFunctionCalling(createTestAgent(), 'Search', 'attempt-1');
+
+    expect(result.success).toBe(true);
+    expect(executeSpy).not.toHaveBeenCalled();
+    const toolMessage = (mockCompleteChat.mock.calls[1][0] as ChatMessage[])[3];
+    expect(toolMessage.content).toContain('not allowed');
+    executeSpy.mockRestore();
+  });
+
+  it('should report malformed arguments without running the tool', async () => {
+    mockCompleteChat
+      .mockResolvedValueOnce(toolCallCompletion('call-1', 'calculate', '{not json'))
+      .mockResolvedValueOnce(answer('Retrying failed'));
+
+    const result = await executeWithFunctionCalling(createTestAgent(), 'Calc', 'attempt-1');
+
+    expect(result.success).toBe(true);
+    expect(result.spans.map((s) => s.type)).toEqual(['llm_call', 'tool_result', 'llm_call']);
+    expect(result.spans[1].toolError).toContain('Invalid JSON arguments');
+  });
+
+  it('should fail when the model keeps calling tools past maxSteps', async () => {
+    mockCompleteChat.mockResolvedValue(
+      toolCallCompletion('call-1', 'calculate', '{"expression":"1+1"}')
+    );
+
+    const result = await executeWithFunctionCalling(createTestAgent(), 'Loop', 'attempt-1', {
+      maxSteps: 3,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Function calling exceeded maximum steps limit (3)');
+    expect(mockCompleteChat).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return an error result when the LLM call fails', async () => {
+    mockCompleteChat.mockRejectedValueOnce(new Error('LLM API error: 500'));
+
+    const result = await executeWithFunctionCalling(createTestAgent(), 'Hi', 'attempt-1');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('LLM API error: 500');
+    expect(result.output).toBe('');
+  });
+
+  it('should include session context in the user message', async () => {
+    mockCompleteChat.mockResolvedValueOnce(answer('Done'));
+
+    await executeWithFunctionCalling(createTestAgent(), 'Question', 'attempt-1', {
+      sessionContext: 'Some docs',
+    });
+
+    const messages = mockCompleteChat.mock.calls[0][0] as ChatMessage[];
+    expect(messages[1].content).toBe('Context:\nSome docs\n\nQuestion');
+  });
+});
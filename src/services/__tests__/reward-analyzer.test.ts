@@ -16,6 +16,7 @@ import type { ScoreAnalysis } from '../../types/evolution';
 vi.mock('../../api/llm', () => ({
   llmClient: {
     chat: vi.fn(),
+    chatStructured: vi.fn(),
   },
   isLLMConfigured: vi.fn(() => false), // Default to keyword-based extraction
 }));
@@ -0,0 +1,97 @@
+/**
+ * User Simulator Tests
+ *
+ * Tests for the simulated user that converses with agents.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SIMULATION_DONE, describeSimulation, simulateUserTurn } from '../user-simulator';
+import { generateWithSystem } from '../../api/llm';
+import type { UserSimulation } from '../../types/context';
+import type { ConversationTurn } from '../../types/agent';
+
+vi.mock('../../api/llm', () => ({
+  generateWithSystem: vi.fn(),
+}));
+
+const simulation: UserSimulation = {
+  id: 'simulation-1',
+  sessionId: 'session-1',
+  name: 'Refund',
+  persona: 'An impatient customer who writes short messages',
+  goal: 'Get a refund for a late order',
+  maxTurns: 2,
+  stopPhrase: 'Refund issued',
+  isActive: true,
+  createdAt: 0,
+};
+
+describe('user-simulator', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('simulateUserTurn', () => {
+    it('writes the opening message from the persona and goal', async () => {
+      vi.mocked(generateWithSystem).mockResolvedValue('User: My order is late. Refund please.');
+
+      const message = await simulateUserTurn(simulation, [], { sessionId: 'session-1' });
+
+      expect(message).toBe('My order is late. Refund please.');
+      const [system, prompt, options] = vi.mocked(generateWithSystem).mock.calls[0];
+      expect(system).toContain('Persona: An impatient customer who writes short messages');
+      expect(system).toContain('Goal: Get a refund for a late order');
+      expect(prompt).toBe('Write your first message.');
+      expect(options).toMatchObject({ sessionId: 'session-1' });
+    });
+
+    it('shows the simulated user the conversation so far', async () => {
+      vi.mocked(generateWithSystem).mockResolvedValue('It is 1234.');
+
+      await simulateUserTurn(simulation, [
+        { role: 'user', content: 'Refund please.' },
+        { role: 'assistant', content: 'What is the order number?' },
+      ]);
+
+      expect(vi.mocked(generateWithSystem).mock.calls[0][1]).toContain(
+        'User: Refund please.\n\nAssistant: What is the order number?'
+      );
+    });
+
+    it('ends when the simulated user is done', async () => {
+      vi.mocked(generateWithSystem).mockResolvedValue(SIMULATION_DONE);
+
+      expect(await simulateUserTurn(simulation, [])).toBeNull();
+    });
+
+    it('ends after the turn limit without calling the model', async () => {
+      const transcript: ConversationTurn[] = [
+        { role: 'user', content: 'Refund please.' },
+        { role: 'assistant', content: 'What is the order number?' },
+        { role: 'user', content: 'It is 1234.' },
+        { role: 'assistant', content: 'Thanks, looking into it.' },
+      ];
+
+      expect(await simulateUserTurn(simulation, transcript)).toBeNull();
+      expect(generateWithSystem).not.toHaveBeenCalled();
+    });
+
+    it('ends when the agent says the stop phrase', async () => {
+      const transcript: ConversationTurn[] = [
+        { role: 'user', content: 'Refund please.' },
+        { role: 'assistant', content: 'Done. REFUND ISSUED for order 1234.' },
+      ];
+
+      expect(await simulateUserTurn(simulation, transcript)).toBeNull();
+      expect(generateWithSystem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('describeSimulation', () => {
+    it('names the persona and goal', () => {
+      expect(describeSimulation(simulation)).toBe(
+        'Simulated user: Refund\nPersona: An impatient customer who writes short messages\nGoal: Get a refund for a late order'
+      );
+    });
+  });
+});
@@ -9,6 +9,7 @@ import type {
 } from "../types/agent";
 import { llmClient, isLLMConfigured } from "../api/llm";
 import { generateId } from "../utils/id";
+import { analyzeFlow, formatFlowDiagnostics } from "./flow/analyzer";
 
 // Evolution intensity levels based on score
 type EvolutionIntensity = "minor" | "moderate" | "major";
@@ -210,9 +211,20 @@ function evolveFlow(
   }
 
   // For major overhaul, we might add validation steps
-  const evolvedFlow = flow.map((step) => ({
+  // New IDs for major evolution, with connections following them
+  const newIds = new Map(flow.map((step) => [step.id, generateId()]));
+  const remap = (id: string | undefined) => (id ? newIds.get(id) ?? id : id);
+  const evolvedFlow: AgentFlowStep[] = flow.map((step) => ({
     ...step,
-    id: generateId(), // New IDs for major evolution
+    id: newIds.get(step.id)!,
+    connections: {
+      ...step.connections,
+      next: remap(step.connections.next),
+      onTrue: remap(step.connections.onTrue),
+      onFalse: remap(step.connections.onFalse),
+      onError: remap(step.connections.onError),
+      branches: step.connections.branches?.map((id) => remap(id)!),
+    },
   }));
 
   // Check if there's already a validation step
@@ -259,6 +271,24 @@ function evolveFlow(
   return evolvedFlow;
 }
 
+/**
+ * Keep the current flow when evolution broke it, so the evolved agent
+ * can still run
+ */
+function checkEvolvedFlow(
+  currentFlow: AgentFlowStep[],
+  evolvedFlow: AgentFlowStep[]
+): AgentFlowStep[] {
+  const analysis = analyzeFlow(evolvedFlow);
+  if (analysis.valid) return evolvedFlow;
+
+  const errors = analysis.diagnostics.filter((d) => d.severity === "error");
+  console.warn(
+    `[Evolver] Evolved flow has errors, keeping the current flow: ${formatFlowDiagnostics(errors)}`
+  );
+  return currentFlow;
+}
+
 /**
  * Main evolution function
  * Evolves an agent definition based on feedback and score
@@ -296,7 +326,7 @@ export async function evolveAgent(
 
   const evolvedTools = evolveTools(agent.tools, score);
   const evolvedParameters = evolveParameters(agent.parameters, score);
-  const evolvedFlow = evolveFlow(agent.flow, intensity);
+  const evolvedFlow = checkEvolvedFlow(agent.flow, evolveFlow(agent.flow, intensity));
 
   // Clone agent with evolved components
   const evolvedAgent: AgentDefinition = {
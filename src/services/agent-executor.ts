@@ -7,26 +7,81 @@
  *
  * Now supports:
  * - Flow-based execution for agents with defined flows
+ * - Native function calling for agents in 'function_calling' mode
  * - Single prompt fallback for simple agents
  * - Full execution span tracking for credit assignment
+ * - Pausing flows for human input and resuming them later
+ * - Replaying recorded flow attempts from a checkpointed step
+ * - Buffer, summary and vector memory kept per lineage across runs
+ * - Conversation inputs, answered turn by turn into a transcript
+ * - Simulated users, whose turns an LLM writes from a persona and goal
+ * - Debug runs that pause flows at breakpoints
  */
 
-import type { AgentDefinition } from '../types/agent';
-import type { ExecutionSpan, Attempt } from '../types/evolution';
-import { generateWithSystem } from '../api/llm';
-import { executeFlow, type FlowExecutionResult } from './flow';
-import { createRollout, createAttempt, updateRollout } from '../db/queries';
+import type {
+  AgentDefinition,
+  ConversationTurn,
+  OutputContractResult,
+} from '../types/agent';
+import type { UserSimulation } from '../types/context';
+import type {
+  ExecutionSpan,
+  Attempt,
+  FlowCheckpoint,
+  PausedRun,
+  UpdateAttemptInput,
+} from '../types/evolution';
+import { generateWithSystem, type LLMCallUsage, type TokenCallback } from '../api/llm';
+import {
+  executeFlow,
+  resumeFlow,
+  replayFlow,
+  type FlowDebugHooks,
+  type FlowExecutionResult,
+  type SubAgentRunner,
+} from './flow';
+import { executeWithFunctionCalling } from './function-calling';
+import { describeSimulation, simulateUserTurn } from './user-simulator';
+import {
+  createRollout,
+  createAttempt,
+  createSpan,
+  getAttempt,
+  updateAttempt,
+  updateRollout,
+  updateSpan,
+} from '../db/queries';
+import { createPausedRun, deletePausedRun } from '../db/paused-run-queries';
 import { generateId } from '../utils/id';
+import { isCancelledError, throwIfCancelled } from '../utils/abort';
+import {
+  continueConversation,
+  formatConversation,
+  parseConversation,
+} from '../utils/conversation';
 import {
   recordAttemptCompleted,
   recordAttemptFailed,
 } from './training-signal/recorder';
+import { recallMemory, rememberExchange, withMemory, type RecallOptions } from './memory';
 
 export interface ExecutionInput {
   /** The test input/prompt to run the agent against */
   content: string;
   /** Optional context from session documents */
   context?: string;
+  /**
+   * A conversation to run instead of a single input. The agent replies to
+   * each user turn in order, seeing the turns before it; assistant turns
+   * given here are kept as written. `content` holds the conversation as
+   * text, which records store as the input.
+   */
+  conversation?: ConversationTurn[];
+  /**
+   * A simulated user to converse with instead; the transcript becomes the
+   * output. Takes precedence over `conversation`.
+   */
+  simulation?: UserSimulation;
 }
 
 export interface ExecutionResult {
@@ -49,9 +104,23 @@ export interface ExecutionResult {
     attemptId?: string;
     /** Number of steps executed (for flow-based agents) */
     stepsExecuted?: number;
+    /** Output contract check of the output step (for agents with a contract) */
+    outputContract?: OutputContractResult;
+    /** The conversation with the agent's replies (for conversation inputs) */
+    transcript?: ConversationTurn[];
   };
   /** Execution spans for credit assignment (trajectory mode) */
   spans?: ExecutionSpan[];
+  /**
+   * Set when the run paused at a human_input step. The output is empty
+   * until the run is resumed with resumeAgent.
+   */
+  pendingInput?: {
+    /** Saved run to resume; unset for untracked executions */
+    pausedRunId?: string;
+    stepId: string;
+    prompt: string;
+  };
 }
 
 /**
@@ -66,14 +135,28 @@ export interface ExecutionOptions {
   cycle?: number;
   /** Whether to create database records for tracking */
   createRecords?: boolean;
-  /** Maximum steps for flow execution */
+  /** Maximum steps for flow execution (model turns in function-calling mode) */
   maxSteps?: number;
+  /** Stream LLM output, called with the partial text of the running prompt */
+  onToken?: TokenCallback;
+  /**
+   * Cancels the execution. The rollout and attempt are marked cancelled and
+   * CancelledError is rethrown instead of returning a failed result.
+   */
+  signal?: AbortSignal;
+  /** Nest the execution's spans under this span (a parent flow's call_agent step) */
+  parentSpanId?: string;
+  /** Number of call_agent steps this execution is nested in */
+  callDepth?: number;
+  /** Pause the agent's flow at breakpoints (flow agents only) */
+  debug?: FlowDebugHooks;
 }
 
 /**
  * Execute an agent against a test input
  *
  * This function now supports:
+ * - Function calling: In 'function_calling' mode the model calls the agent's tools directly
  * - Flow-based execution: If the agent has a defined flow, it uses the flow executor
  * - Single prompt fallback: For agents without flows, uses direct LLM call
  * - Full span tracking: Records execution spans for trajectory-based credit assignment
@@ -84,73 +167,415 @@ export async function executeAgent(
   options: ExecutionOptions = {}
 ): Promise<ExecutionResult> {
   const startTime = Date.now();
-  const { lineageId, sessionId, cycle = 1, createRecords = false, maxSteps } = options;
+  const {
+    lineageId,
+    sessionId,
+    cycle = 1,
+    createRecords = false,
+    maxSteps,
+    onToken,
+    signal,
+    parentSpanId,
+    callDepth = 0,
+    debug,
+  } = options;
 
   // Create rollout and attempt records if tracking is enabled
-  let rolloutId: string | undefined;
-  let attemptId: string | undefined;
+  const { rolloutId, attemptId } = createExecutionRecords(
+    agent,
+    input.content,
+    createRecords ? lineageId : undefined,
+    cycle
+  );
+  const runAgent = applyMemory(agent, lineageId, input.content);
 
-  if (createRecords && lineageId) {
-    try {
-      const rollout = createRollout({
-        lineageId,
-        cycle,
+  const runTurn: TurnRunner = (content, conversation, turnParentSpanId) => {
+    if (runAgent.executionMode === 'function_calling' && runAgent.tools.length > 0) {
+      // Let the model decide which tools to call
+      return executeWithFunctionCalling(runAgent, content, attemptId!, {
+        sessionContext: input.context,
+        conversation,
+        maxSteps,
+        createSpans: createRecords,
+        parentSpanId: turnParentSpanId,
+        sessionId,
+        onToken,
+        signal,
       });
-      rolloutId = rollout.id;
-
-      const attempt = createAttempt({
-        rolloutId,
-        attemptNumber: 1,
-        agentSnapshot: {
-          agentId: agent.id,
-          version: agent.version,
-          systemPromptHash: hashString(agent.systemPrompt),
-          toolsHash: agent.tools ? hashString(JSON.stringify(agent.tools)) : '',
-          flowHash: agent.flow ? hashString(JSON.stringify(agent.flow)) : '',
-        },
-        input: input.content,
-        modelId: agent.parameters?.model ?? 'unknown',
-        parameters: {
-          temperature: agent.parameters?.temperature ?? 0.7,
-          maxTokens: agent.parameters?.maxTokens ?? 2048,
-          topP: agent.parameters?.topP,
-        },
+    }
+    if (runAgent.flow && runAgent.flow.length > 0) {
+      // Use flow-based execution
+      return executeFlow(runAgent, content, attemptId!, {
+        sessionContext: input.context,
+        conversation,
+        maxSteps,
+        createSpans: createRecords,
+        // Replays rerun one flow; conversation turns can't be replayed alone
+        checkpoints: !input.conversation && !input.simulation,
+        parentSpanId: turnParentSpanId,
+        sessionId,
+        onToken,
+        signal,
+        runSubAgent: createSubAgentRunner(input.context, options),
+        callDepth,
+        debug,
       });
-      attemptId = attempt.id;
-    } catch (error) {
-      console.warn('[Agent Executor] Failed to create tracking records:', error);
-      // Continue without tracking - non-critical
     }
-  } else {
-    // Generate IDs even without database records for flow executor
-    attemptId = generateId();
-  }
+    // Fall back to single prompt execution
+    return executeSinglePromptDirect(
+      runAgent,
+      { content, context: input.context },
+      attemptId!,
+      sessionId,
+      onToken,
+      signal,
+      turnParentSpanId,
+      conversation
+    );
+  };
+
+  const { conversation, simulation } = input;
+  const userTurns: UserTurnSource | undefined = simulation
+    ? async (transcript) => {
+        const message = await simulateUserTurn(simulation, transcript, {
+          sessionId,
+          signal,
+          lane: lineageId,
+        });
+        return message === null ? null : [{ role: 'user', content: message }];
+      }
+    : conversation && scriptedTurns(conversation);
+  const run = userTurns
+    ? () => runConversation(userTurns, runTurn, attemptId!, parentSpanId, createRecords)
+    : () => runTurn(input.content, [], parentSpanId);
+
+  return completeExecution(agent, input.content, run, {
+    startTime,
+    lineageId,
+    sessionId,
+    cycle,
+    createRecords,
+    rolloutId,
+    attemptId,
+    signal,
+  });
+}
+
+/**
+ * Continue an execution that paused at a human_input step, with the
+ * user's answer. `agent` must be the version that started the run. The
+ * paused run is removed once the execution finishes or pauses again; a
+ * cancelled resume keeps it so it can be answered again.
+ */
+export async function resumeAgent(
+  agent: AgentDefinition,
+  pausedRun: PausedRun,
+  answer: string,
+  options: Pick<ExecutionOptions, 'sessionId' | 'maxSteps' | 'onToken' | 'signal'> = {}
+): Promise<ExecutionResult> {
+  const { sessionId, maxSteps, onToken, signal } = options;
+  const trackingOptions: ExecutionOptions = {
+    lineageId: pausedRun.lineageId,
+    sessionId,
+    cycle: pausedRun.cycle,
+    createRecords: true,
+    signal,
+  };
+
+  const runAgent = applyMemory(agent, pausedRun.lineageId, pausedRun.input);
+
+  const result = await completeExecution(
+    agent,
+    pausedRun.input,
+    () =>
+      resumeFlow(runAgent, pausedRun.snapshot, pausedRun.attemptId, answer, {
+        maxSteps,
+        createSpans: true,
+        sessionId,
+        onToken,
+        signal,
+        runSubAgent: createSubAgentRunner(
+          pausedRun.snapshot.sessionContext,
+          trackingOptions
+        ),
+      }),
+    {
+      startTime: Date.now(),
+      lineageId: pausedRun.lineageId,
+      sessionId,
+      cycle: pausedRun.cycle,
+      createRecords: true,
+      rolloutId: pausedRun.rolloutId,
+      attemptId: pausedRun.attemptId,
+      signal,
+    }
+  );
 
   try {
-    let result: FlowExecutionResult;
+    deletePausedRun(pausedRun.id);
+  } catch (error) {
+    console.warn('[Agent Executor] Failed to remove paused run:', error);
+  }
+  return result;
+}
 
-    // Check if agent has a flow defined
-    if (agent.flow && agent.flow.length > 0) {
-      // Use flow-based execution
-      result = await executeFlow(agent, input.content, attemptId!, {
-        sessionContext: input.context,
+/**
+ * Rerun a recorded attempt from one of its checkpoints as a new attempt.
+ * The spans before the checkpoint are copied over rather than rerun, so
+ * only the checkpointed step and the ones after it call the model again.
+ * `agent` may be the version that made the attempt or an edited or evolved
+ * one. Conversation attempts can't be replayed.
+ */
+export async function replayAgent(
+  agent: AgentDefinition,
+  checkpoint: FlowCheckpoint,
+  options: Pick<
+    ExecutionOptions,
+    'lineageId' | 'sessionId' | 'cycle' | 'createRecords' | 'maxSteps' | 'onToken' | 'signal'
+  > = {}
+): Promise<ExecutionResult> {
+  const startTime = Date.now();
+  const { lineageId, sessionId, cycle = 1, createRecords = false, maxSteps, onToken, signal } =
+    options;
+
+  const original = getAttempt(checkpoint.attemptId);
+  if (!original) {
+    throw new Error(`Attempt ${checkpoint.attemptId} no longer exists`);
+  }
+  if (isConversationAttempt(original)) {
+    throw new Error('Conversation runs cannot be replayed from a step');
+  }
+
+  const { rolloutId, attemptId } = createExecutionRecords(
+    agent,
+    original.input,
+    createRecords ? lineageId : undefined,
+    cycle
+  );
+  const runAgent = applyMemory(agent, lineageId, original.input, {
+    excludeAttemptId: checkpoint.attemptId,
+  });
+
+  return completeExecution(
+    agent,
+    original.input,
+    () =>
+      replayFlow(runAgent, checkpoint, attemptId!, {
         maxSteps,
         createSpans: createRecords,
         sessionId,
-      });
-    } else {
-      // Fall back to single prompt execution
-      result = await executeSinglePromptDirect(agent, input, attemptId!, sessionId);
+        onToken,
+        signal,
+        runSubAgent: createSubAgentRunner(checkpoint.snapshot.sessionContext, options),
+      }),
+    {
+      startTime,
+      lineageId,
+      sessionId,
+      cycle,
+      createRecords,
+      rolloutId,
+      attemptId,
+      signal,
+    }
+  );
+}
+
+/**
+ * Whether an attempt ran a conversation. Its turns reran the flow one after
+ * another, so a single flow's checkpoints can't reproduce it.
+ */
+export function isConversationAttempt(attempt: Attempt): boolean {
+  return attempt.spans.some((span) => {
+    if (span.type !== 'reasoning') return false;
+    try {
+      return (JSON.parse(span.input) as { step?: unknown }).step === 'turn';
+    } catch {
+      return false;
     }
+  });
+}
+
+/**
+ * Runs the agent once: its reply to `content`, after the earlier turns of
+ * the conversation, with spans nested under `parentSpanId`
+ */
+type TurnRunner = (
+  content: string,
+  conversation: ConversationTurn[],
+  parentSpanId: string | undefined
+) => Promise<FlowExecutionResult>;
+
+/**
+ * A run's result, with the transcript when the input was a conversation
+ */
+type RunResult = FlowExecutionResult & { transcript?: ConversationTurn[] };
+
+/**
+ * The next turns of a conversation given the transcript so far, or null
+ * once it is over. The agent replies when the last new turn is the user's.
+ */
+type UserTurnSource = (transcript: ConversationTurn[]) => Promise<ConversationTurn[] | null>;
+
+/**
+ * A conversation script's turns, up to each user turn that has no
+ * assistant turn after it
+ */
+function scriptedTurns(conversation: ConversationTurn[]): UserTurnSource {
+  let position = 0;
+  return async () => {
+    if (position >= conversation.length) return null;
+
+    let end = position;
+    while (
+      end < conversation.length - 1 &&
+      !(conversation[end].role === 'user' && conversation[end + 1].role !== 'assistant')
+    ) {
+      end++;
+    }
+    const turns = conversation.slice(position, end + 1);
+    position = end + 1;
+    return turns;
+  };
+}
+
+/**
+ * Run a conversation: take turns from the source and reply to each user
+ * turn not already answered, in order. Each reply's spans nest under a
+ * reasoning span for the turn, so feedback on one turn can be traced to the
+ * steps that produced it. The output is the transcript as text. The run
+ * stops at the first failed turn; turns cannot pause for human input.
+ */
+async function runConversation(
+  userTurns: UserTurnSource,
+  runTurn: TurnRunner,
+  attemptId: string,
+  parentSpanId: string | undefined,
+  persistSpans: boolean
+): Promise<RunResult> {
+  const startTime = Date.now();
+  const transcript: ConversationTurn[] = [];
+  const spans: ExecutionSpan[] = [];
+  const contracts: { turn: number; result: OutputContractResult }[] = [];
+  let stepsExecuted = 0;
+  let error: string | undefined;
+
+  for (let turns = await userTurns(transcript); turns; turns = await userTurns(transcript)) {
+    transcript.push(...turns);
+    const turn = transcript[transcript.length - 1];
+    if (turn?.role !== 'user') continue;
+
+    // The reply becomes this turn of the transcript
+    const replyTurn = transcript.length;
+    const turnStart = Date.now();
+    const turnSpan = createSpan(
+      {
+        attemptId,
+        parentSpanId,
+        sequence: replyTurn,
+        type: 'reasoning',
+        input: JSON.stringify({ step: 'turn', turn: replyTurn, message: turn.content }),
+        output: '',
+        durationMs: 0,
+      },
+      persistSpans
+    );
+
+    const result = await runTurn(turn.content, transcript.slice(0, -1), turnSpan.id);
+    stepsExecuted += result.stepsExecuted;
+    if (result.suspended) {
+      error = 'Conversation turns cannot pause for human input';
+    } else if (!result.success) {
+      error = result.error ?? 'Unknown error';
+    }
+
+    turnSpan.output = error ? JSON.stringify({ error }) : result.output;
+    turnSpan.durationMs = Date.now() - turnStart;
+    if (persistSpans) {
+      updateSpan(turnSpan.id, { output: turnSpan.output, durationMs: turnSpan.durationMs });
+    }
+    spans.push(turnSpan, ...result.spans);
+    if (error) break;
+
+    transcript.push({ role: 'assistant', content: result.output });
+    if (result.outputContract) {
+      contracts.push({ turn: replyTurn, result: result.outputContract });
+    }
+  }
+
+  if (!error && transcript.length === 0) {
+    error = 'The conversation ended before its first turn';
+  }
+
+  return {
+    success: !error,
+    output: formatConversation(transcript),
+    spans,
+    error,
+    durationMs: Date.now() - startTime,
+    stepsExecuted,
+    transcript,
+    outputContract:
+      contracts.length > 0
+        ? {
+            passed: contracts.every(({ result }) => result.passed),
+            violations: contracts.flatMap(({ turn, result }) =>
+              result.violations.map((violation) => `Turn ${turn + 1}: ${violation}`)
+            ),
+            repairAttempts: contracts.reduce((sum, { result }) => sum + result.repairAttempts, 0),
+          }
+        : undefined,
+  };
+}
+
+/**
+ * Records an execution is tracked under
+ */
+interface ExecutionTracking {
+  startTime: number;
+  lineageId?: string;
+  sessionId?: string;
+  cycle: number;
+  createRecords: boolean;
+  rolloutId?: string;
+  attemptId?: string;
+  /** Cancels the memory update too; a cancelled run is not remembered */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run an execution and settle its records: rollout status, attempt usage
+ * and training signal, or a paused run when the flow waits for the user
+ */
+async function completeExecution(
+  agent: AgentDefinition,
+  inputContent: string,
+  run: () => Promise<RunResult>,
+  tracking: ExecutionTracking
+): Promise<ExecutionResult> {
+  const { startTime, lineageId, sessionId, createRecords, rolloutId, attemptId, signal } =
+    tracking;
+
+  try {
+    const result = await run();
 
     const executionTimeMs = Date.now() - startTime;
 
-    // Update rollout status if tracking
+    if (result.suspended) {
+      return suspendExecution(agent, inputContent, result, tracking, executionTimeMs);
+    }
+
+    const usage = summarizeSpanUsage(result.spans);
+
+    // Update rollout status and attempt usage if tracking
     if (createRecords && rolloutId) {
       try {
         updateRollout(rolloutId, {
           status: result.success ? 'completed' : 'failed',
         });
+        if (attemptId) {
+          updateAttempt(attemptId, usage);
+        }
       } catch {
         // Ignore update errors
       }
@@ -171,7 +596,7 @@ export async function executeAgent(
             toolsHash: agent.tools ? hashString(JSON.stringify(agent.tools)) : '',
             flowHash: agent.flow ? hashString(JSON.stringify(agent.flow)) : '',
           },
-          input: input.content,
+          input: inputContent,
           modelId: agent.parameters?.model ?? 'unknown',
           parameters: {
             temperature: agent.parameters?.temperature ?? 0.7,
@@ -179,6 +604,7 @@ export async function executeAgent(
             topP: agent.parameters?.topP,
           },
           durationMs: executionTimeMs,
+          ...usage,
           spans: result.spans || [],
           createdAt: Date.now(),
         };
@@ -188,6 +614,21 @@ export async function executeAgent(
       }
     }
 
+    // Remember the run for the lineage's later runs, unless it was cancelled
+    if (createRecords && lineageId && result.success) {
+      throwIfCancelled(signal);
+      try {
+        await rememberExchange(agent, lineageId, inputContent, result.output, {
+          attemptId,
+          sessionId,
+          signal,
+        });
+      } catch (memoryError) {
+        if (isCancelledError(memoryError)) throw memoryError;
+        console.warn('[Agent Executor] Failed to update agent memory:', memoryError);
+      }
+    }
+
     return {
       output: result.output,
       success: result.success,
@@ -195,16 +636,23 @@ export async function executeAgent(
       metadata: {
         agentId: agent.id,
         agentVersion: agent.version,
-        inputUsed: input.content,
+        inputUsed: inputContent,
         executionTimeMs,
         model: agent.parameters?.model,
         rolloutId,
         attemptId,
         stepsExecuted: result.stepsExecuted,
+        outputContract: result.outputContract,
+        transcript: result.transcript,
       },
       spans: result.spans,
     };
   } catch (error) {
+    if (isCancelledError(error)) {
+      markCancelled(rolloutId, createRecords ? attemptId : undefined);
+      throw error;
+    }
+
     const executionTimeMs = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -234,7 +682,7 @@ export async function executeAgent(
             toolsHash: agent.tools ? hashString(JSON.stringify(agent.tools)) : '',
             flowHash: agent.flow ? hashString(JSON.stringify(agent.flow)) : '',
           },
-          input: input.content,
+          input: inputContent,
           modelId: agent.parameters?.model ?? 'unknown',
           parameters: {
             temperature: agent.parameters?.temperature ?? 0.7,
@@ -258,7 +706,7 @@ export async function executeAgent(
       metadata: {
         agentId: agent.id,
         agentVersion: agent.version,
-        inputUsed: input.content,
+        inputUsed: inputContent,
         executionTimeMs,
         rolloutId,
         attemptId,
@@ -267,6 +715,156 @@ export async function executeAgent(
   }
 }
 
+/**
+ * Save a run that paused for human input so it can be resumed, even after
+ * a reload. Untracked runs (e.g. analysis runs) are not saved and simply
+ * end at the pause.
+ */
+function suspendExecution(
+  agent: AgentDefinition,
+  inputContent: string,
+  result: FlowExecutionResult,
+  tracking: ExecutionTracking,
+  executionTimeMs: number
+): ExecutionResult {
+  const suspension = result.suspended!;
+  const { lineageId, cycle, createRecords, rolloutId, attemptId } = tracking;
+  let pausedRunId: string | undefined;
+
+  if (createRecords && lineageId && attemptId) {
+    try {
+      if (rolloutId) {
+        updateRollout(rolloutId, { status: 'running' });
+      }
+      pausedRunId = createPausedRun({
+        lineageId,
+        cycle,
+        rolloutId,
+        attemptId,
+        agentId: agent.id,
+        agentVersion: agent.version,
+        input: inputContent,
+        prompt: suspension.prompt,
+        snapshot: suspension.snapshot,
+      }).id;
+    } catch (error) {
+      console.warn('[Agent Executor] Failed to save paused run:', error);
+    }
+  }
+
+  return {
+    output: '',
+    success: false,
+    metadata: {
+      agentId: agent.id,
+      agentVersion: agent.version,
+      inputUsed: inputContent,
+      executionTimeMs,
+      model: agent.parameters?.model,
+      rolloutId,
+      attemptId,
+      stepsExecuted: result.stepsExecuted,
+    },
+    spans: result.spans,
+    pendingInput: {
+      pausedRunId,
+      stepId: suspension.stepId,
+      prompt: suspension.prompt,
+    },
+  };
+}
+
+/**
+ * The agent to run, with what its lineage remembers added to the system
+ * prompt. Records keep the agent as defined, so hashes are unaffected.
+ */
+function applyMemory(
+  agent: AgentDefinition,
+  lineageId: string | undefined,
+  input: string,
+  options?: RecallOptions
+): AgentDefinition {
+  if (!lineageId || !agent.memory) return agent;
+  try {
+    return withMemory(agent, recallMemory(agent.memory, lineageId, input, options));
+  } catch (error) {
+    console.warn('[Agent Executor] Failed to recall agent memory:', error);
+    return agent;
+  }
+}
+
+/**
+ * Create the rollout and attempt an execution is tracked under. Without a
+ * lineage only an attempt ID is generated, for the flow executor's spans.
+ */
+function createExecutionRecords(
+  agent: AgentDefinition,
+  inputContent: string,
+  lineageId: string | undefined,
+  cycle: number
+): { rolloutId?: string; attemptId?: string } {
+  if (!lineageId) {
+    // Generate IDs even without database records for flow executor
+    return { attemptId: generateId() };
+  }
+
+  try {
+    const rollout = createRollout({
+      lineageId,
+      cycle,
+    });
+
+    const attempt = createAttempt({
+      rolloutId: rollout.id,
+      attemptNumber: 1,
+      agentSnapshot: {
+        agentId: agent.id,
+        version: agent.version,
+        systemPromptHash: hashString(agent.systemPrompt),
+        toolsHash: agent.tools ? hashString(JSON.stringify(agent.tools)) : '',
+        flowHash: agent.flow ? hashString(JSON.stringify(agent.flow)) : '',
+      },
+      input: inputContent,
+      modelId: agent.parameters?.model ?? 'unknown',
+      parameters: {
+        temperature: agent.parameters?.temperature ?? 0.7,
+        maxTokens: agent.parameters?.maxTokens ?? 2048,
+        topP: agent.parameters?.topP,
+      },
+    });
+    return { rolloutId: rollout.id, attemptId: attempt.id };
+  } catch (error) {
+    console.warn('[Agent Executor] Failed to create tracking records:', error);
+    // Continue without tracking - non-critical
+    return {};
+  }
+}
+
+/**
+ * Runs the agents of call_agent steps. Sub-agents get their own rollout in
+ * their lineage, linked to the calling step through parentSpanId.
+ */
+function createSubAgentRunner(
+  sessionContext: string | undefined,
+  options: ExecutionOptions
+): SubAgentRunner {
+  const { sessionId, cycle, createRecords, signal } = options;
+  return (subAgent, subInput, subOptions) =>
+    executeAgent(
+      subAgent,
+      { content: subInput, context: sessionContext },
+      {
+        lineageId: subAgent.lineageId,
+        sessionId,
+        cycle,
+        createRecords,
+        signal,
+        parentSpanId: subOptions.parentSpanId,
+        callDepth: subOptions.callDepth,
+      }
+    );
+}
+
 /**
  * Execute a single prompt directly (without flow executor)
  * Used for agents without defined flows
@@ -275,7 +873,11 @@ async function executeSinglePromptDirect(
   agent: AgentDefinition,
   input: ExecutionInput,
   attemptId: string,
-  sessionId?: string
+  sessionId?: string,
+  onToken?: TokenCallback,
+  signal?: AbortSignal,
+  parentSpanId?: string,
+  conversation?: ConversationTurn[]
 ): Promise<FlowExecutionResult> {
   const startTime = Date.now();
 
@@ -290,11 +892,20 @@ async function executeSinglePromptDirect(
     }
 
     // Execute using LLM
-    const output = await generateWithSystem(systemPrompt, userMessage, {
+    let usage: LLMCallUsage | undefined;
+    const prompt = continueConversation(conversation, userMessage);
+    const output = await generateWithSystem(systemPrompt, prompt, {
       temperature: agent.parameters?.temperature ?? 0.7,
       maxTokens: agent.parameters?.maxTokens ?? 2048,
       model: agent.parameters?.model,
       sessionId,
+      onToken,
+      signal,
+      lane: agent.lineageId,
+      role: 'agent',
+      onUsage: (callUsage) => {
+        usage = callUsage;
+      },
     });
 
     const durationMs = Date.now() - startTime;
@@ -303,12 +914,16 @@ async function executeSinglePromptDirect(
     const span: ExecutionSpan = {
       id: generateId(),
       attemptId,
+      parentSpanId,
       sequence: 0,
       type: 'llm_call',
       input: userMessage,
       output,
-      modelId: agent.parameters?.model,
+      modelId: usage?.model ?? agent.parameters?.model,
+      promptTokens: usage?.promptTokens,
+      completionTokens: usage?.completionTokens,
       durationMs,
+      estimatedCost: usage?.cost ?? undefined,
       createdAt: Date.now(),
     };
 
@@ -320,6 +935,8 @@ async function executeSinglePromptDirect(
       stepsExecuted: 1,
     };
   } catch (error) {
+    if (isCancelledError(error)) throw error;
+
     const durationMs = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
@@ -334,6 +951,50 @@ async function executeSinglePromptDirect(
   }
 }
 
+/**
+ * Mark the records of a cancelled execution so they are not mistaken for
+ * failures or left running
+ */
+function markCancelled(rolloutId?: string, attemptId?: string): void {
+  try {
+    if (rolloutId) {
+      updateRollout(rolloutId, { status: 'cancelled' });
+    }
+    if (attemptId) {
+      updateAttempt(attemptId, { status: 'cancelled' });
+    }
+  } catch {
+    // Ignore update errors
+  }
+}
+
+/**
+ * Total tokens and cost of the LLM calls in an execution.
+ * Fields stay undefined when no call reported usage.
+ */
+function summarizeSpanUsage(
+  spans: ExecutionSpan[] = []
+): Pick<UpdateAttemptInput, 'promptTokens' | 'completionTokens' | 'totalTokens' | 'estimatedCost'> {
+  const llmSpans = spans.filter(
+    (span) => span.type === 'llm_call' && span.promptTokens !== undefined
+  );
+  if (llmSpans.length === 0) return {};
+
+  const promptTokens = llmSpans.reduce((sum, span) => sum + (span.promptTokens ?? 0), 0);
+  const completionTokens = llmSpans.reduce((sum, span) => sum + (span.completionTokens ?? 0), 0);
+  const pricedSpans = llmSpans.filter((span) => span.estimatedCost !== undefined);
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimatedCost:
+      pricedSpans.length > 0
+        ? pricedSpans.reduce((sum, span) => sum + (span.estimatedCost ?? 0), 0)
+        : undefined,
+  };
+}
+
 /**
  * Simple string hash for deduplication
  */
@@ -351,15 +1012,25 @@ function hashString(str: string): string {
  * Generate a test input for agent execution
  *
  * @param need - The session need (what kind of agent is being trained)
- * @param inputPrompt - Optional explicit input prompt (the actual task/query for agents)
+ * @param inputPrompt - Optional explicit input prompt (the actual task/query for agents,
+ *   or a conversation script of `User:` and `Assistant:` turns)
+ * @param simulation - Optional simulated user, used instead of the input prompt
  * @returns ExecutionInput to pass to agents
  */
-export function generateDefaultTestInput(need: string, inputPrompt?: string | null): ExecutionInput {
+export function generateDefaultTestInput(
+  need: string,
+  inputPrompt?: string | null,
+  simulation?: UserSimulation | null
+): ExecutionInput {
+  if (simulation) {
+    return { content: describeSimulation(simulation), simulation };
+  }
+
   // If an explicit input prompt is provided, use it directly
   if (inputPrompt) {
-    return {
-      content: inputPrompt,
-    };
+    // A User:/Assistant: script runs as a conversation
+    const conversation = parseConversation(inputPrompt);
+    return conversation ? { content: inputPrompt, conversation } : { content: inputPrompt };
   }
 
   // Fallback: wrap the need in a generic request (legacy behavior)
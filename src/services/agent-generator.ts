@@ -154,6 +154,7 @@ export async function executeAgent(
   const output = await generateWithSystem(agent.systemPrompt, executionPrompt, {
     maxTokens: agent.parameters.maxTokens,
     temperature: agent.parameters.temperature,
+    role: 'agent',
   });
 
   const latencyMs = Date.now() - startTime;
@@ -0,0 +1,71 @@
+/**
+ * Session Budget
+ *
+ * Guards regeneration against a session's spending limit. The cost of the
+ * next cycle is estimated from the session's history: the average spend per
+ * artifact so far (trainer and agent calls included) times the number of
+ * lineages about to run.
+ */
+
+import { getArtifactCountBySession, getSession } from "../db/queries";
+import { getSessionUsage } from "../db/usage-queries";
+
+export interface BudgetCheck {
+  /** Whether the run fits in the budget (always true without a budget) */
+  allowed: boolean;
+  budgetUsd: number | null;
+  spentUsd: number;
+  /** Estimated cost of the run being checked */
+  estimatedUsd: number;
+  /** Why the run is blocked */
+  reason?: string;
+}
+
+/**
+ * Check whether running `lineageCount` lineages would exceed the session budget
+ */
+export function checkRegenerationBudget(
+  sessionId: string,
+  lineageCount: number
+): BudgetCheck {
+  const budgetUsd = getSession(sessionId)?.budgetUsd ?? null;
+  if (budgetUsd === null) {
+    return { allowed: true, budgetUsd, spentUsd: 0, estimatedUsd: 0 };
+  }
+
+  const spentUsd = getSessionUsage(sessionId).total.cost;
+  const artifactCount = getArtifactCountBySession(sessionId);
+  const estimatedUsd =
+    artifactCount > 0 ? (spentUsd / artifactCount) * lineageCount : 0;
+
+  if (spentUsd >= budgetUsd) {
+    return {
+      allowed: false,
+      budgetUsd,
+      spentUsd,
+      estimatedUsd,
+      reason: `Session budget of ${formatUsd(budgetUsd)} has been spent (${formatUsd(spentUsd)} used).`,
+    };
+  }
+  if (spentUsd + estimatedUsd > budgetUsd) {
+    return {
+      allowed: false,
+      budgetUsd,
+      spentUsd,
+      estimatedUsd,
+      reason: `Regenerating would exceed the session budget of ${formatUsd(budgetUsd)}: ${formatUsd(spentUsd)} spent, next cycle estimated at ${formatUsd(estimatedUsd)}.`,
+    };
+  }
+
+  return { allowed: true, budgetUsd, spentUsd, estimatedUsd };
+}
+
+/**
+ * Format a USD amount, keeping precision for sub-cent costs
+ */
+export function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) {
+    return `$${amount.toFixed(4)}`;
+  }
+  return `$${amount.toFixed(2)}`;
+}
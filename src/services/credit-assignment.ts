@@ -5,6 +5,9 @@
  * Supports two modes:
  * - Prompt-level credit: For single-call agents, assigns blame to prompt segments
  * - Trajectory credit: For multi-step agents, assigns blame to execution spans
+ *
+ * For conversations, spans inside a scored turn are judged by that turn's
+ * score rather than the overall one.
  */
 
 import type {
@@ -14,9 +17,15 @@ import type {
   TrajectoryCredit,
   BlameLevel,
   ExecutionSpan,
+  TurnFeedback,
 } from '../types/evolution';
 import type { AgentDefinition } from '../types/agent';
-import { llmClient, isLLMConfigured } from '../api/llm';
+import {
+  llmClient,
+  isLLMConfigured,
+  type JsonSchema,
+  type LLMCallContext,
+} from '../api/llm';
 
 // Aspect to prompt segment mapping
 const ASPECT_SEGMENT_PATTERNS: Record<string, RegExp[]> = {
@@ -151,13 +160,34 @@ function assignPromptCreditHeuristic(
   return credits;
 }
 
+const PROMPT_CREDIT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['assignments'],
+  properties: {
+    assignments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['segmentIndex', 'blame', 'reason'],
+        properties: {
+          segmentIndex: { type: 'integer', minimum: 0 },
+          blame: { type: 'string', enum: ['high', 'medium', 'low', 'none'] },
+          relatedAspect: { type: 'string', nullable: true },
+          reason: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
 /**
  * Uses LLM to assign credit to prompt segments
  */
 async function assignPromptCreditWithLLM(
   prompt: string,
   analysis: ScoreAnalysis,
-  _agent: AgentDefinition
+  _agent: AgentDefinition,
+  callContext: LLMCallContext
 ): Promise<PromptCredit[]> {
   const segments = segmentPrompt(prompt);
 
@@ -186,8 +216,8 @@ Analyze which segments relate to the feedback and assign blame levels:
 - "low": Segment weakly relates
 - "none": Segment is unrelated
 
-Return JSON array of assignments:
-[{"segmentIndex": 0, "blame": "high", "relatedAspect": "length", "reason": "Instructs verbose output"}]`;
+Return a JSON object with the assignments:
+{"assignments": [{"segmentIndex": 0, "blame": "high", "relatedAspect": "length", "reason": "Instructs verbose output"}]}`;
 
   const userPrompt = `System Prompt Segments:
 ${segmentList}
@@ -198,43 +228,106 @@ Comment: ${analysis.comment || '(no comment)'}
 Aspects:
 ${aspectList || '(no specific aspects)'}
 
-Which segments relate to the feedback? Return ONLY the JSON array.`;
-
-  try {
-    const response = await llmClient.chat(
-      [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      { maxTokens: 1024, temperature: 0.3 }
-    );
-
-    const jsonMatch = response.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      throw new Error('No JSON array in response');
-    }
+Which segments relate to the feedback? Return ONLY the JSON object.`;
 
-    const parsed = JSON.parse(jsonMatch[0]) as Array<{
+  const result = await llmClient.chatStructured<{
+    assignments: Array<{
       segmentIndex: number;
       blame: BlameLevel;
-      relatedAspect?: string;
+      relatedAspect?: string | null;
       reason: string;
     }>;
-
-    // Map back to full segments
-    return parsed
-      .filter((p) => p.segmentIndex >= 0 && p.segmentIndex < segments.length)
-      .map((p) => ({
-        segment: segments[p.segmentIndex],
-        segmentIndex: p.segmentIndex,
-        blame: p.blame,
-        relatedAspect: p.relatedAspect,
-        reason: p.reason,
-      }));
-  } catch (error) {
-    console.warn('LLM credit assignment failed:', error);
+  }>(
+    [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+    PROMPT_CREDIT_SCHEMA,
+    { callSite: 'credit-assignment', maxTokens: 1024, temperature: 0.3, ...callContext }
+  );
+
+  if (!result.ok) {
     return [];
   }
+
+  // Map back to full segments
+  return result.data.assignments
+    .filter((p) => p.segmentIndex < segments.length)
+    .map((p) => ({
+      segment: segments[p.segmentIndex],
+      segmentIndex: p.segmentIndex,
+      blame: p.blame,
+      relatedAspect: p.relatedAspect ?? undefined,
+      reason: p.reason,
+    }));
+}
+
+/**
+ * Order spans as the trajectory ran: by sequence, with nested spans (such
+ * as the steps of a parallel branch, which number from 0 under their
+ * branch span) right after their parent
+ */
+function orderSpansAsTrajectory(spans: ExecutionSpan[]): ExecutionSpan[] {
+  const ids = new Set(spans.map((s) => s.id));
+  const children = new Map<string | undefined, ExecutionSpan[]>();
+  for (const span of spans) {
+    const parent =
+      span.parentSpanId && ids.has(span.parentSpanId) ? span.parentSpanId : undefined;
+    children.set(parent, [...(children.get(parent) ?? []), span]);
+  }
+
+  const ordered: ExecutionSpan[] = [];
+  const visit = (parent: string | undefined) => {
+    const siblings = [...(children.get(parent) ?? [])].sort((a, b) => a.sequence - b.sequence);
+    for (const span of siblings) {
+      ordered.push(span);
+      visit(span.id);
+    }
+  };
+  visit(undefined);
+
+  return ordered;
+}
+
+/**
+ * The turn a conversation turn span replied to. The agent executor opens a
+ * reasoning span per reply with input `{"step":"turn","turn":n}`.
+ */
+function getSpanTurn(span: ExecutionSpan): number | undefined {
+  if (span.type !== 'reasoning') return undefined;
+  try {
+    const input = JSON.parse(span.input) as { step?: unknown; turn?: unknown };
+    return input.step === 'turn' && typeof input.turn === 'number' ? input.turn : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Scored turn feedback for each span that ran inside that turn, by span id
+ */
+function getTurnFeedbackBySpan(
+  spans: ExecutionSpan[],
+  turnFeedback: TurnFeedback[] = []
+): Map<string, TurnFeedback> {
+  const bySpan = new Map<string, TurnFeedback>();
+  const scored = turnFeedback.filter((feedback) => feedback.score !== undefined);
+  if (scored.length === 0) return bySpan;
+
+  const spansById = new Map(spans.map((span) => [span.id, span]));
+  for (const span of spans) {
+    let current: ExecutionSpan | undefined = span;
+    while (current) {
+      const turn = getSpanTurn(current);
+      if (turn !== undefined) {
+        const feedback = scored.find((f) => f.turn === turn);
+        if (feedback) bySpan.set(span.id, feedback);
+        break;
+      }
+      current = current.parentSpanId ? spansById.get(current.parentSpanId) : undefined;
+    }
+  }
+  return bySpan;
 }
 
 /**
@@ -246,20 +339,22 @@ function assignTrajectoryCreditHeuristic(
 ): TrajectoryCredit[] {
   const credits: TrajectoryCredit[] = [];
 
-  // Sort spans by sequence
-  const sortedSpans = [...spans].sort((a, b) => a.sequence - b.sequence);
+  const sortedSpans = orderSpansAsTrajectory(spans);
+  const turnFeedback = getTurnFeedbackBySpan(spans, analysis.turnFeedback);
 
   for (const span of sortedSpans) {
     let contribution = 0;
     let reason = 'Neutral contribution';
+    const feedback = turnFeedback.get(span.id);
+    const score = feedback?.score ?? analysis.score;
 
     // Analyze span based on type
     switch (span.type) {
       case 'llm_call':
         // LLM calls are usually central to output quality
-        contribution = analysis.score >= 5 ? 0.3 : -0.3;
+        contribution = score >= 5 ? 0.3 : -0.3;
         reason =
-          analysis.score >= 5
+          score >= 5
             ? 'LLM call contributed to acceptable output'
             : 'LLM call may have produced suboptimal content';
         break;
@@ -285,18 +380,18 @@ function assignTrajectoryCreditHeuristic(
 
       case 'reasoning':
         // Reasoning spans
-        contribution = analysis.score >= 5 ? 0.2 : -0.1;
+        contribution = score >= 5 ? 0.2 : -0.1;
         reason =
-          analysis.score >= 5
+          score >= 5
             ? 'Reasoning step contributed to output'
             : 'Reasoning may have led to suboptimal decisions';
         break;
 
       case 'output':
         // Output spans are highly relevant
-        contribution = analysis.score >= 5 ? 0.5 : -0.5;
+        contribution = score >= 5 ? 0.5 : -0.5;
         reason =
-          analysis.score >= 5
+          score >= 5
             ? 'Final output was acceptable'
             : 'Final output needs improvement';
         break;
@@ -317,6 +412,10 @@ function assignTrajectoryCreditHeuristic(
       }
     }
 
+    if (feedback?.comment) {
+      reason = `${reason} (turn ${feedback.turn + 1}: ${feedback.comment})`;
+    }
+
     // Clamp contribution to [-1, 1]
     contribution = Math.max(-1, Math.min(1, contribution));
 
@@ -337,7 +436,8 @@ function assignTrajectoryCreditHeuristic(
 export async function assignCredit(
   agent: AgentDefinition,
   analysis: ScoreAnalysis,
-  spans: ExecutionSpan[] = []
+  spans: ExecutionSpan[] = [],
+  callContext: LLMCallContext = {}
 ): Promise<{ mode: 'prompt' | 'trajectory'; credits: PromptCredit[] | TrajectoryCredit[] }> {
   // Use trajectory credit for multi-step agents (more than 1 LLM call)
   const llmCallCount = spans.filter((s) => s.type === 'llm_call').length;
@@ -353,7 +453,12 @@ export async function assignCredit(
 
   // Try LLM-based credit assignment first
   if (isLLMConfigured() && analysis.aspects.length > 0) {
-    credits = await assignPromptCreditWithLLM(agent.systemPrompt, analysis, agent);
+    credits = await assignPromptCreditWithLLM(
+      agent.systemPrompt,
+      analysis,
+      agent,
+      callContext
+    );
     if (credits.length > 0) {
       return { mode: 'prompt', credits };
     }
@@ -2,25 +2,31 @@
  * Evolution Pipeline Service
  *
  * Orchestrates the full Agent Lightning evolution pipeline:
- * 1. Analyze reward (score + comment)
+ * 1. Analyze reward (score + comment, and feedback on conversation turns)
  * 2. Assign credit to agent components
  * 3. Plan evolution changes
  * 4. Apply changes to create new agent version
  * 5. Record evolution for learning
  */
 
-import type { AgentDefinition } from "../types/agent";
+import type { AgentDefinition, StepModelParameters } from "../types/agent";
 import type {
   ScoreAnalysis,
   EvolutionPlan,
   EvolutionRecord,
   ExecutionSpan,
   CreateEvolutionRecordInput,
+  TurnFeedback,
 } from "../types/evolution";
 import type { ProgressEmitter } from "../types/progress";
+import type { LLMCallContext } from "../api/llm";
 import { analyzeReward, summarizeAnalysis } from "./reward-analyzer";
 import { assignCredit, summarizeCreditAssignment } from "./credit-assignment";
-import { createEvolutionPlan, summarizePlan } from "./evolution-planner";
+import {
+  createEvolutionPlan,
+  parseStepParameterTarget,
+  summarizePlan,
+} from "./evolution-planner";
 import { evolveAgent as applyEvolution } from "./agent-evolver";
 import {
   createEvolutionRecord,
@@ -31,7 +37,10 @@ import {
   findInsightByPattern,
   updateLearningInsight,
 } from "../db/queries";
+import { analyzeFlow, formatFlowDiagnostics } from "./flow/analyzer";
+import { getModelById, useModelStore } from "../store/model";
 import { generateId } from "../utils/id";
+import { throwIfCancelled } from "../utils/abort";
 import {
   recordAgentEvolved,
   recordEvolutionOutcome,
@@ -48,11 +57,18 @@ export interface EvolutionPipelineInput {
   stickyDirective?: string[];
   oneshotDirective?: string[];
   previousScore?: number;
+  /** Scores and comments on single turns of a conversation artifact */
+  turnFeedback?: TurnFeedback[];
   rolloutId?: string;
   attemptId?: string;
   spans?: ExecutionSpan[];
   sessionId: string;
   progressEmitter?: ProgressEmitter;
+  /**
+   * Cancels the pipeline. Stages check it before starting, so nothing is
+   * recorded once it is aborted.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -80,12 +96,16 @@ export async function runEvolutionPipeline(
     stickyDirective,
     oneshotDirective,
     previousScore,
+    turnFeedback = [],
     rolloutId,
     attemptId,
     spans = [],
     sessionId,
     progressEmitter,
+    signal,
   } = input;
+  // Queue this lineage's trainer calls in its own scheduler lane
+  const callContext: LLMCallContext = { signal, lane: agent.lineageId };
 
   console.log(
     `[Evolution Pipeline] Starting for agent ${agent.name} v${agent.version}`
@@ -95,15 +115,31 @@ export async function runEvolutionPipeline(
   );
 
   // Step 1: Analyze Reward
+  throwIfCancelled(signal);
   console.log("[Evolution Pipeline] Step 1: Analyzing reward...");
   progressEmitter?.stage("analyzing_reward", "Analyzing your feedback...");
-  const analysis = await analyzeReward(score, comment, previousScore ?? null);
+  // Turn feedback joins the comment so the analysis and the evolver see it
+  const feedbackComment = withTurnFeedback(comment, turnFeedback);
+  const rewardAnalysis = await analyzeReward(
+    score,
+    feedbackComment,
+    previousScore ?? null,
+    callContext
+  );
+  const analysis: ScoreAnalysis =
+    turnFeedback.length > 0 ? { ...rewardAnalysis, turnFeedback } : rewardAnalysis;
   console.log(`[Evolution Pipeline] ${summarizeAnalysis(analysis)}`);
 
   // Step 2: Assign Credit
+  throwIfCancelled(signal);
   console.log("[Evolution Pipeline] Step 2: Assigning credit...");
   progressEmitter?.stage("assigning_credit", "Identifying areas to improve...");
-  const { mode, credits } = await assignCredit(agent, analysis, spans);
+  const { mode, credits } = await assignCredit(
+    agent,
+    analysis,
+    spans,
+    callContext
+  );
   console.log(
     `[Evolution Pipeline] Credit mode: ${mode}, ${summarizeCreditAssignment(credits)}`
   );
@@ -119,6 +155,7 @@ export async function runEvolutionPipeline(
   );
 
   // Step 4: Plan Evolution
+  throwIfCancelled(signal);
   console.log("[Evolution Pipeline] Step 4: Planning evolution...");
   progressEmitter?.stage("planning_evolution", "Planning improvements...");
   const plan = await createEvolutionPlan(
@@ -126,27 +163,31 @@ export async function runEvolutionPipeline(
     analysis,
     credits,
     pastRecords,
-    insights
+    insights,
+    callContext
   );
   console.log(`[Evolution Pipeline] ${summarizePlan(plan)}`);
 
   // Step 5: Apply Evolution
+  throwIfCancelled(signal);
   console.log("[Evolution Pipeline] Step 5: Applying evolution...");
   progressEmitter?.stage("applying_evolution", "Applying changes to agent...");
   const evolvedAgent = await applyEvolution(
     agent,
     need,
     score,
-    comment ?? null,
+    feedbackComment ?? null,
     stickyDirective ?? null,
     oneshotDirective ?? null
   );
 
   // Apply additional changes from the plan that weren't handled by basic evolution
-  const finalAgent = applyPlanChanges(evolvedAgent, plan);
+  const finalAgent = applyPlanChanges(evolvedAgent, plan, agent);
   console.log(`[Evolution Pipeline] Created agent v${finalAgent.version}`);
 
   // Step 6: Record Evolution
+  // Last chance to cancel: from here on the evolution is persisted
+  throwIfCancelled(signal);
   console.log("[Evolution Pipeline] Step 6: Recording evolution...");
   progressEmitter?.stage("recording_evolution", "Saving evolution record...");
   const lineageId = agent.lineageId || `lineage-${agent.id}`;
@@ -230,15 +271,40 @@ export async function runEvolutionPipeline(
 }
 
 /**
- * Applies plan changes to the evolved agent
+ * The comment with a line for each piece of turn feedback, e.g.
+ * "Turn 4 (3/10): Ignored the question"
+ */
+function withTurnFeedback(
+  comment: string | undefined,
+  turnFeedback: TurnFeedback[]
+): string | undefined {
+  const lines = turnFeedback.map((feedback) => {
+    const score = feedback.score !== undefined ? ` (${feedback.score}/10)` : "";
+    return `Turn ${feedback.turn + 1}${score}: ${feedback.comment || "No comment"}`;
+  });
+  if (lines.length === 0) return comment;
+  return [comment, ...lines].filter(Boolean).join("\n");
+}
+
+/**
+ * Applies plan changes to the evolved agent. `planned` is the agent the
+ * plan was made for, whose step IDs the plan's step targets use.
  */
 function applyPlanChanges(
   agent: AgentDefinition,
-  plan: EvolutionPlan
+  plan: EvolutionPlan,
+  planned: AgentDefinition
 ): AgentDefinition {
   let modified = { ...agent };
 
   for (const change of plan.changes) {
+    const stepTarget =
+      change.component === "parameters" ? parseStepParameterTarget(change.target) : null;
+    if (stepTarget) {
+      modified = applyStepParameterChange(modified, planned, stepTarget, change);
+      continue;
+    }
+
     switch (change.component) {
       case "systemPrompt":
         if (change.changeType === "add" && change.after) {
@@ -301,7 +367,113 @@ function applyPlanChanges(
     .replace(/\n{3,}/g, "\n\n")
     .trim();
 
-  return modified;
+  return checkPlannedFlow(agent, modified);
+}
+
+/**
+ * Keep the step parameter changes only if the flow still passes the
+ * analyzer afterwards; otherwise keep the evolved agent's flow
+ */
+function checkPlannedFlow(
+  evolved: AgentDefinition,
+  modified: AgentDefinition
+): AgentDefinition {
+  if (modified.flow === evolved.flow) return modified;
+
+  const analysis = analyzeFlow(modified.flow);
+  if (analysis.valid) return modified;
+
+  const errors = analysis.diagnostics.filter((d) => d.severity === "error");
+  console.warn(
+    `[Evolution Pipeline] Step parameter changes break the flow, skipping them: ${formatFlowDiagnostics(errors)}`
+  );
+  return { ...modified, flow: evolved.flow };
+}
+
+/**
+ * Set or drop one model parameter override of a flow step. Major
+ * evolutions give steps new IDs, so a step the plan names that is gone is
+ * looked up by its name in the planned agent.
+ */
+function applyStepParameterChange(
+  agent: AgentDefinition,
+  planned: AgentDefinition,
+  target: { stepId: string; name: keyof StepModelParameters },
+  change: EvolutionPlan["changes"][number]
+): AgentDefinition {
+  const plannedStep = planned.flow.find((step) => step.id === target.stepId);
+  const step =
+    agent.flow.find((s) => s.id === target.stepId) ??
+    (plannedStep && agent.flow.find((s) => s.name === plannedStep.name));
+  if (!step) {
+    console.log(
+      `[Evolution Pipeline] Step parameter change skipped, no step ${target.stepId}: ${change.reason}`
+    );
+    return agent;
+  }
+
+  const overrides: StepModelParameters = { ...step.modelParameters };
+  if (change.changeType === "remove" || !change.after) {
+    delete overrides[target.name];
+  } else if (target.name === "model") {
+    const model = change.after.trim();
+    if (!isKnownModel(model)) {
+      console.log(
+        `[Evolution Pipeline] Step parameter change skipped, unknown model ${model}: ${change.reason}`
+      );
+      return agent;
+    }
+    overrides.model = model;
+  } else {
+    const value = Number(change.after.trim());
+    if (!isValidStepParameter(target.name, value)) {
+      console.log(
+        `[Evolution Pipeline] Step parameter change skipped, invalid ${target.name} ${change.after}: ${change.reason}`
+      );
+      return agent;
+    }
+    overrides[target.name] = value;
+  }
+
+  return {
+    ...agent,
+    flow: agent.flow.map((s) =>
+      s.id === step.id
+        ? {
+            ...s,
+            modelParameters: Object.keys(overrides).length > 0 ? overrides : undefined,
+          }
+        : s
+    ),
+  };
+}
+
+/**
+ * Whether a model can be called: one of AVAILABLE_MODELS or a model the
+ * user configured a route for
+ */
+function isKnownModel(model: string): boolean {
+  return (
+    getModelById(model) !== undefined ||
+    model in useModelStore.getState().modelRoutes
+  );
+}
+
+/**
+ * The ranges the flow analyzer accepts for numeric model parameters
+ */
+function isValidStepParameter(
+  name: Exclude<keyof StepModelParameters, "model">,
+  value: number
+): boolean {
+  switch (name) {
+    case "temperature":
+      return value >= 0 && value <= 2;
+    case "topP":
+      return value > 0 && value <= 1;
+    case "maxTokens":
+      return Number.isInteger(value) && value > 0;
+  }
 }
 
 /**
@@ -16,8 +16,13 @@ import type {
   EvolutionRecord,
   LearningInsight,
 } from '../types/evolution';
-import type { AgentDefinition } from '../types/agent';
-import { llmClient, isLLMConfigured } from '../api/llm';
+import type { AgentDefinition, AgentFlowStep, StepModelParameters } from '../types/agent';
+import {
+  llmClient,
+  isLLMConfigured,
+  type JsonSchema,
+  type LLMCallContext,
+} from '../api/llm';
 
 /**
  * Change templates for common issues
@@ -61,6 +66,35 @@ const CHANGE_TEMPLATES: Record<string, (aspect: string) => Partial<EvolutionChan
   }),
 };
 
+/** Step model parameters the planner may change */
+const STEP_PARAMETERS: (keyof StepModelParameters)[] = ['model', 'temperature', 'topP', 'maxTokens'];
+
+/**
+ * Plan target for one model parameter of a flow step, e.g.
+ * "step:classify.temperature", used with the 'parameters' component
+ */
+export function stepParameterTarget(stepId: string, name: keyof StepModelParameters): string {
+  return `step:${stepId}.${name}`;
+}
+
+/**
+ * The step and parameter a plan target names, or null for agent-level
+ * targets
+ */
+export function parseStepParameterTarget(
+  target: string
+): { stepId: string; name: keyof StepModelParameters } | null {
+  const match = target.match(/^step:(.+)\.(\w+)$/);
+  if (!match) return null;
+  const name = match[2] as keyof StepModelParameters;
+  return STEP_PARAMETERS.includes(name) ? { stepId: match[1], name } : null;
+}
+
+/** Steps whose LLM calls take per-step model parameters */
+function getModelParameterSteps(agent: AgentDefinition): AgentFlowStep[] {
+  return agent.flow.filter((step) => step.type === 'prompt' || step.type === 'tool');
+}
+
 /**
  * Generates instruction modifications based on aspect and sentiment
  */
@@ -210,6 +244,21 @@ function planFromPromptCredit(
       reason: 'Reduce temperature for more consistent output',
       confidence: 0.7,
     });
+
+    // Steps with their own temperature don't follow the agent's
+    for (const step of getModelParameterSteps(agent)) {
+      const temperature = step.modelParameters?.temperature;
+      if (temperature === undefined || temperature <= 0.3) continue;
+      changes.push({
+        component: 'parameters',
+        changeType: 'modify',
+        target: stepParameterTarget(step.id, 'temperature'),
+        before: String(temperature),
+        after: String(Math.max(0.3, temperature - 0.2)),
+        reason: `Reduce temperature of step "${step.name}" for more consistent output`,
+        confidence: 0.6,
+      });
+    }
   }
 
   return changes;
@@ -282,6 +331,44 @@ function planFromTrajectoryCredit(
   return changes;
 }
 
+const EVOLUTION_PLAN_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['changes', 'hypothesis'],
+  properties: {
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['component', 'changeType', 'target', 'reason'],
+        properties: {
+          component: {
+            type: 'string',
+            enum: ['systemPrompt', 'tools', 'flow', 'parameters'],
+          },
+          changeType: { type: 'string', enum: ['add', 'remove', 'modify'] },
+          target: { type: 'string' },
+          before: { type: 'string', nullable: true },
+          after: { type: 'string', nullable: true },
+          reason: { type: 'string' },
+          confidence: { type: 'number' },
+        },
+      },
+    },
+    hypothesis: { type: 'string' },
+    expectedImpact: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['aspect', 'direction'],
+        properties: {
+          aspect: { type: 'string' },
+          direction: { type: 'string', enum: ['improve', 'maintain'] },
+        },
+      },
+    },
+  },
+};
+
 /**
  * Uses LLM to generate an evolution plan
  */
@@ -289,7 +376,8 @@ async function planWithLLM(
   agent: AgentDefinition,
   analysis: ScoreAnalysis,
   credits: PromptCredit[] | TrajectoryCredit[],
-  existingChanges: EvolutionChange[]
+  existingChanges: EvolutionChange[],
+  callContext: LLMCallContext
 ): Promise<EvolutionPlan | null> {
   const isPromptCredit = credits.length > 0 && 'segment' in credits[0];
 
@@ -306,6 +394,15 @@ async function planWithLLM(
         .map((c) => `- [${c.contribution.toFixed(2)}] ${c.reason}`)
         .join('\n');
 
+  const stepParameters = getModelParameterSteps(agent)
+    .map((step) => {
+      const overrides = Object.entries(step.modelParameters ?? {})
+        .map(([name, value]) => `${name}=${value}`)
+        .join(', ');
+      return `- ${step.id} (${step.type} "${step.name}"): ${overrides || "agent's parameters"}`;
+    })
+    .join('\n');
+
   const existingChangesSummary =
     existingChanges.length > 0
       ? existingChanges
@@ -320,6 +417,7 @@ Guidelines:
 2. Avoid over-engineering - make minimal necessary changes
 3. Each change should address a specific issue
 4. Provide a testable hypothesis
+5. Flow steps can override the agent's model parameters: use component "parameters" with target "step:<stepId>.<model|temperature|topP|maxTokens>", e.g. a cheaper model for a simple classification step. changeType "remove" drops the override
 
 Return a JSON object:
 {
@@ -344,6 +442,10 @@ Return a JSON object:
 Current System Prompt (first 500 chars):
 ${agent.systemPrompt.substring(0, 500)}${agent.systemPrompt.length > 500 ? '...' : ''}
 
+Model Parameters: model=${agent.parameters.model}, temperature=${agent.parameters.temperature}, maxTokens=${agent.parameters.maxTokens}
+Step Model Parameters:
+${stepParameters || 'No prompt or tool steps'}
+
 Score: ${analysis.score}/10
 Comment: ${analysis.comment || '(none)'}
 Aspects: ${analysis.aspects.map((a) => `${a.aspect}(${a.sentiment})`).join(', ') || 'none'}
@@ -357,35 +459,30 @@ ${existingChangesSummary}
 
 Create an evolution plan. Return ONLY the JSON object.`;
 
-  try {
-    const response = await llmClient.chat(
-      [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      { maxTokens: 1024, temperature: 0.5 }
-    );
-
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON object in response');
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]) as EvolutionPlan;
+  const result = await llmClient.chatStructured<EvolutionPlan>(
+    [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+    EVOLUTION_PLAN_SCHEMA,
+    { callSite: 'evolution-planner', maxTokens: 1024, temperature: 0.5, ...callContext }
+  );
 
-    // Validate and sanitize
-    return {
-      changes: (parsed.changes || []).map((c) => ({
-        ...c,
-        confidence: Math.max(0, Math.min(1, c.confidence || 0.5)),
-      })),
-      hypothesis: parsed.hypothesis || 'Changes should improve agent performance',
-      expectedImpact: parsed.expectedImpact || [],
-    };
-  } catch (error) {
-    console.warn('LLM evolution planning failed:', error);
+  if (!result.ok) {
     return null;
   }
+
+  const plan = result.data;
+  return {
+    changes: plan.changes.map((c) => ({
+      ...c,
+      before: c.before ?? null,
+      after: c.after ?? null,
+      confidence: Math.max(0, Math.min(1, c.confidence || 0.5)),
+    })),
+    hypothesis: plan.hypothesis || 'Changes should improve agent performance',
+    expectedImpact: plan.expectedImpact || [],
+  };
 }
 
 /**
@@ -482,7 +579,8 @@ export async function createEvolutionPlan(
   analysis: ScoreAnalysis,
   credits: PromptCredit[] | TrajectoryCredit[],
   pastRecords: EvolutionRecord[] = [],
-  insights: LearningInsight[] = []
+  insights: LearningInsight[] = [],
+  callContext: LLMCallContext = {}
 ): Promise<EvolutionPlan> {
   // Determine credit mode
   const isPromptCredit = credits.length === 0 || 'segment' in credits[0];
@@ -506,7 +604,7 @@ export async function createEvolutionPlan(
   // Try LLM-enhanced planning
   let plan: EvolutionPlan | null = null;
   if (isLLMConfigured()) {
-    plan = await planWithLLM(agent, analysis, credits, baseChanges);
+    plan = await planWithLLM(agent, analysis, credits, baseChanges, callContext);
   }
 
   // Use base changes if LLM planning failed
@@ -0,0 +1,279 @@
+import { describe, it, expect } from 'vitest';
+import type { AgentFlowStep } from '../../../types/agent';
+import { analyzeFlow, formatFlowDiagnostics } from '../analyzer';
+
+function step(
+  id: string,
+  type: AgentFlowStep['type'],
+  connections: AgentFlowStep['connections'] = {},
+  config: Record<string, unknown> = {}
+): AgentFlowStep {
+  return {
+    id,
+    type,
+    name: id,
+    config,
+    position: { x: 0, y: 0 },
+    connections,
+  };
+}
+
+function codes(flow: AgentFlowStep[]) {
+  return analyzeFlow(flow).diagnostics.map((d) => `${d.severity}:${d.code}`);
+}
+
+describe('analyzeFlow', () => {
+  it('reports nothing for a well-formed flow', () => {
+    const flow = [
+      step('start', 'start', { next: 'draft' }),
+      step('draft', 'prompt', { next: 'out' }, { template: '{{input}}', outputVariable: 'draft' }),
+      step('out', 'output', {}, { template: 'Result: {{draft}}' }),
+    ];
+
+    expect(analyzeFlow(flow)).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('accepts an empty flow, which runs as a single prompt', () => {
+    expect(analyzeFlow([]).valid).toBe(true);
+  });
+
+  it('points misnamed config keys at the key the handler reads', () => {
+    const flow = [
+      step('start', 'start', { next: 'draft' }),
+      step('draft', 'prompt', { next: 'out' }, { promptTemplate: '{{input}}', outputFormat: 'json' }),
+      step('out', 'output'),
+    ];
+
+    const { valid, diagnostics } = analyzeFlow(flow);
+
+    expect(valid).toBe(true);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'ignored_config_key',
+        severity: 'warning',
+        stepId: 'draft',
+        message: 'Step "draft" sets "promptTemplate", which is ignored - did you mean "template"?',
+        hint: 'Rename "promptTemplate" to "template"',
+      }),
+      expect.objectContaining({
+        code: 'ignored_config_key',
+        message: 'Step "draft" sets "outputFormat", which prompt steps ignore',
+        hint: 'Prompt steps read: template, useSystemPrompt, outputVariable',
+      }),
+    ]);
+  });
+
+  it('errors on a cycle with no way out', () => {
+    const flow = [
+      step('start', 'start', { next: 'a' }),
+      step('a', 'prompt', { next: 'b' }),
+      step('b', 'prompt', { next: 'a', onError: 'out' }),
+      step('out', 'output'),
+    ];
+
+    const analysis = analyzeFlow(flow);
+
+    expect(analysis.valid).toBe(false);
+    expect(analysis.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: 'unbounded_cycle',
+        severity: 'error',
+        stepId: 'a',
+        message: 'Steps "a" → "b" form a cycle with no way out',
+      })
+    );
+  });
+
+  it('warns on a cycle a condition exits without a loop step', () => {
+    const flow = [
+      step('start', 'start', { next: 'draft' }),
+      step('draft', 'prompt', { next: 'check' }),
+      step('check', 'condition', { onTrue: 'out', onFalse: 'draft' }, { condition: 'lastOutput is not empty' }),
+      step('out', 'output'),
+    ];
+
+    expect(codes(flow)).toEqual(['warning:unbounded_cycle']);
+  });
+
+  it('accepts cycles that go through a loop step', () => {
+    const flow = [
+      step('start', 'start', { next: 'loop' }),
+      step('loop', 'loop', { onTrue: 'body', onFalse: 'out' }, { maxIterations: 3 }),
+      step('body', 'prompt', { next: 'loop' }, { template: 'Pass {{loopIndex}}' }),
+      step('out', 'output'),
+    ];
+
+    expect(codes(flow)).toEqual([]);
+  });
+
+  it('warns on variables no earlier step writes', () => {
+    const flow = [
+      step('start', 'start', { next: 'draft' }),
+      step('draft', 'prompt', { next: 'out' }, { template: 'Improve {{promptOutput.text}}' }),
+      step('out', 'output', {}, { template: '{{lastOutput}}' }),
+    ];
+
+    expect(analyzeFlow(flow).diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'undefined_variable',
+        severity: 'warning',
+        stepId: 'draft',
+        message: 'Step "draft" uses {{promptOutput}} before any step sets it',
+      }),
+    ]);
+  });
+
+  it('lints templates and reads variables from their expressions', () => {
+    const flow = [
+      step('start', 'start', { next: 'draft' }),
+      step('draft', 'prompt', { next: 'out' }, {
+        template: '{{#if input}}{{ input | shout }}{{/if}}',
+        outputVariable: 'draft',
+      }),
+      step('out', 'output', {}, { template: '{{#each sources as s}}{{s}}{{/each}} {{ draft | upper }}' }),
+    ];
+
+    const analysis = analyzeFlow(flow);
+
+    expect(analysis.valid).toBe(true);
+    expect(analysis.diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'invalid_template',
+        severity: 'warning',
+        stepId: 'draft',
+        message: 'Step "draft": Unknown filter "shout" in {{ input | shout }}, which will be left as written',
+      }),
+      expect.objectContaining({
+        code: 'undefined_variable',
+        stepId: 'out',
+        message: 'Step "out" uses {{sources}} before any step sets it',
+      }),
+    ]);
+  });
+
+  it('counts a variable as set when any path to the step writes it', () => {
+    const flow = [
+      step('start', 'start', { next: 'check' }, { variables: { tone: 'warm' } }),
+      step('check', 'condition', { onTrue: 'ask', onFalse: 'out' }, { condition: 'tone is empty' }),
+      step('ask', 'human_input', { next: 'out' }, { outputVariable: 'tone' }),
+      step('out', 'output', {}, { template: '{{tone}} {{humanInput}}' }),
+    ];
+
+    expect(codes(flow)).toEqual(['warning:undefined_variable']);
+    expect(formatFlowDiagnostics(analyzeFlow(flow).diagnostics)).toBe(
+      'Step "out" uses {{humanInput}} before any step sets it'
+    );
+  });
+
+  it('checks transform assignments and tracks the variables they read and write', () => {
+    const flow = [
+      step('start', 'start', { next: 'shape' }),
+      step('shape', 'transform', { next: 'bad' }, {
+        assignments: { items: 'split(input, ",")', count: 'len(items) + offset' },
+      }),
+      step('bad', 'transform', { next: 'out' }, {
+        assignments: { total: 'sum(items)', constructor: '1', n: 42 },
+      }),
+      step('out', 'output', {}, { template: '{{count}} {{total}}' }),
+    ];
+
+    const analysis = analyzeFlow(flow);
+
+    expect(analysis.valid).toBe(false);
+    expect(analysis.diagnostics.map((d) => [d.severity, d.code, d.stepId])).toEqual([
+      ['error', 'invalid_config', 'bad'],
+      ['error', 'invalid_config', 'bad'],
+      ['error', 'invalid_config', 'bad'],
+      ['warning', 'undefined_variable', 'shape'],
+    ]);
+    expect(analysis.diagnostics[3].message).toBe(
+      'Step "shape" uses {{offset}} before any step sets it'
+    );
+    expect(
+      codes([
+        step('start', 'start', { next: 'shape' }),
+        step('shape', 'transform', { next: 'out' }),
+        step('out', 'output'),
+      ])
+    ).toEqual(['error:missing_config']);
+  });
+
+  it('errors on human input inside a parallel branch and joins without a parallel step', () => {
+    const flow = [
+      step('start', 'start', { next: 'fan' }),
+      step('fan', 'parallel', { next: 'join', branches: ['ask', 'draft'] }),
+      step('ask', 'human_input', { next: 'join' }),
+      step('draft', 'prompt', { next: 'join' }),
+      step('join', 'join', { next: 'merge' }),
+      step('merge', 'join', { next: 'out' }),
+      step('out', 'output'),
+    ];
+
+    const analysis = analyzeFlow(flow);
+
+    expect(analysis.valid).toBe(false);
+    expect(analysis.diagnostics.map((d) => [d.code, d.stepId])).toEqual([
+      ['invalid_placement', 'merge'],
+      ['invalid_placement', 'ask'],
+    ]);
+  });
+
+  it('errors on duplicate step IDs', () => {
+    const flow = [
+      step('start', 'start', { next: 'out' }),
+      step('out', 'output'),
+      step('out', 'output'),
+    ];
+
+    expect(codes(flow)).toContain('error:duplicate_step_id');
+  });
+
+  it('warns on step policies that cannot work as written', () => {
+    const flow: AgentFlowStep[] = [
+      step('start', 'start', { next: 'search' }),
+      {
+        ...step('search', 'tool', { next: 'check' }, { toolName: 'search' }),
+        policy: { retries: -1, fallback: { type: 'model', model: 'claude-haiku' } },
+      },
+      {
+        ...step('check', 'condition', { onTrue: 'out', onFalse: 'out' }, { condition: 'lastOutput is empty' }),
+        policy: { timeoutMs: 0, fallback: { type: 'skip' } },
+      },
+      step('out', 'output'),
+    ];
+
+    const analysis = analyzeFlow(flow);
+
+    expect(analysis.valid).toBe(true);
+    expect(analysis.diagnostics.map((d) => d.message)).toEqual([
+      'Step "search" has invalid retries: -1',
+      'Step "search" falls back to another model, but tool steps don\'t call the agent\'s model',
+      'Step "check" has invalid timeoutMs: 0',
+      'Step "check" has a skip fallback but no next step to continue at',
+    ]);
+  });
+
+  it('reports step model parameters that cannot work as written', () => {
+    const flow: AgentFlowStep[] = [
+      step('start', 'start', { next: 'draft' }),
+      {
+        ...step('draft', 'prompt', { next: 'check' }, { template: '{{input}}' }),
+        modelParameters: { model: 'claude-haiku', temperature: 3, topP: 0 },
+      },
+      {
+        ...step('check', 'condition', { onTrue: 'out', onFalse: 'out' }, { condition: 'lastOutput is empty' }),
+        modelParameters: { maxTokens: 256 },
+      },
+      step('out', 'output'),
+    ];
+
+    const analysis = analyzeFlow(flow);
+
+    expect(analysis.valid).toBe(false);
+    expect(analysis.diagnostics.map((d) => d.message)).toEqual([
+      'Step "draft" has invalid temperature: 3',
+      'Step "draft" has invalid topP: 0',
+      'Step "check" sets model parameters, which condition steps ignore',
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkOutputContract,
+  describeOutputContract,
+  lintOutputContract,
+} from '../contract';
+
+describe('checkOutputContract', () => {
+  it('checks JSON output against a schema, ignoring a code fence', () => {
+    const contract = {
+      jsonSchema: {
+        type: 'object' as const,
+        required: ['title', 'tags'],
+        properties: { title: { type: 'string' as const }, tags: { type: 'array' as const } },
+      },
+    };
+
+    const passed = checkOutputContract('```json\n{"title": "Dune", "tags": []}\n```', contract);
+    expect(passed.violations).toEqual([]);
+    expect(passed.output).toBe('{"title": "Dune", "tags": []}');
+
+    expect(checkOutputContract('{"title": 3}', contract).violations).toEqual([
+      { rule: 'schema', message: '$.tags: is required' },
+      { rule: 'schema', message: '$.title: expected string, got number' },
+    ]);
+    expect(checkOutputContract('Dune', contract).violations).toEqual([
+      expect.objectContaining({ rule: 'json' }),
+    ]);
+  });
+
+  it('requires headings in order', () => {
+    const contract = { requiredHeadings: ['Summary', 'Next steps'] };
+
+    expect(checkOutputContract('# Summary\ntext\n## Next Steps\n- a', contract).violations).toEqual([]);
+    expect(checkOutputContract('## Next steps\n## Summary', contract).violations).toEqual([
+      { rule: 'headings', message: 'Heading "Next steps" is out of order' },
+    ]);
+    expect(checkOutputContract('Summary: none', contract).violations.map((v) => v.message)).toEqual([
+      'Missing heading "Summary"',
+      'Missing heading "Next steps"',
+    ]);
+  });
+
+  it('checks the pattern and word limits', () => {
+    const contract = { pattern: '^Answer:', minWords: 3, maxWords: 5 };
+
+    expect(checkOutputContract('Answer: yes it is', contract).violations).toEqual([]);
+    expect(checkOutputContract('yes', contract).violations.map((v) => v.rule)).toEqual(['pattern', 'words']);
+    expect(checkOutputContract('Answer: one two three four five', contract).violations).toEqual([
+      { rule: 'words', message: 'Output has 6 words; at most 5 allowed' },
+    ]);
+  });
+});
+
+describe('lintOutputContract', () => {
+  it('reports problems with the contract itself', () => {
+    expect(lintOutputContract({ pattern: '\\d+', minWords: 1, maxWords: 2 })).toEqual([]);
+    expect(
+      lintOutputContract({
+        pattern: '(',
+        jsonSchema: { properties: { id: { pattern: '[' } } },
+        minWords: 5,
+        maxWords: 2,
+      })
+    ).toEqual([
+      'Pattern /(/ is not a valid regular expression',
+      'Schema pattern at $.id is not a valid regular expression',
+      'minWords (5) is greater than maxWords (2)',
+    ]);
+  });
+});
+
+describe('describeOutputContract', () => {
+  it('lists the rules as sentences', () => {
+    expect(describeOutputContract({ jsonSchema: {}, requiredHeadings: ['A', 'B'], maxWords: 50 })).toEqual([
+      'Respond with valid JSON only',
+      'Include these Markdown headings, in this order: "A", "B"',
+      'Use at most 50 words',
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
 import type { AgentDefinition, AgentFlowStep } from '../../../types/agent';
+import type { FlowCheckpoint } from '../../../types/evolution';
 
 // Mock the LLM API
 vi.mock('../../../api/llm', () => ({
@@ -15,7 +16,17 @@ vi.mock('../../tools/executor', () => ({
 // Mock the database queries
 vi.mock('../../../db/queries', () => ({
   createSpan: vi.fn(),
+  getSpansByAttempt: vi.fn(),
   updateAttempt: vi.fn(),
+  updateSpan: vi.fn(),
+  getAgentById: vi.fn(),
+  getAgentVersion: vi.fn(),
+  getLatestAgentVersion: vi.fn(),
+}));
+
+// Mock the checkpoint store
+vi.mock('../../../db/checkpoint-queries', () => ({
+  createFlowCheckpoint: vi.fn(),
 }));
 
 // Import modules (mocks will be in place)
@@ -26,16 +37,23 @@ import {
   createSimpleFlow,
   createToolFlow,
   executeFlowWithRetry,
+  resumeFlow,
+  replayFlow,
 } from '../executor';
-import { generateWithSystem } from '../../../api/llm';
-import { updateAttempt, createSpan } from '../../../db/queries';
+import { generateWithSystem, generateText } from '../../../api/llm';
+import { updateAttempt, createSpan, getSpansByAttempt } from '../../../db/queries';
+import { createFlowCheckpoint } from '../../../db/checkpoint-queries';
 import { executeToolCall } from '../../tools/executor';
+import { CancelledError } from '../../../utils/abort';
 
 // Cast mocked functions for easier use
 const mockGenerateWithSystem = generateWithSystem as Mock;
+const mockGenerateText = generateText as Mock;
 const mockUpdateAttempt = updateAttempt as Mock;
 const mockCreateSpan = createSpan as Mock;
+const mockGetSpansByAttempt = getSpansByAttempt as Mock;
 const mockExecuteToolCall = executeToolCall as Mock;
+const mockCreateFlowCheckpoint = createFlowCheckpoint as Mock;
 
 // Helper to create a test agent
 function createTestAgent(overrides: Partial<AgentDefinition> = {}): AgentDefinition {
@@ -156,6 +174,26 @@ describe('Flow Executor', () => {
       expect(result.stepsExecuted).toBe(2);
     });
 
+    it('should run prompts whose braces are not template syntax', async () => {
+      const flow: AgentFlowStep[] = [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'prompt' } }),
+        createTestStep({
+          id: 'prompt',
+          type: 'prompt',
+          config: { template: 'Fill {{foo | bar}} and {{#section}} in: {{input}}' },
+          connections: { next: 'output' },
+        }),
+        createTestStep({ id: 'output', type: 'output' }),
+      ];
+
+      const result = await executeFlow(createTestAgent({ flow }), 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(mockGenerateWithSystem.mock.calls[0][1]).toBe(
+        'Fill {{foo | bar}} and {{#section}} in: Test input'
+      );
+    });
+
     it('should record spans for each step', async () => {
       const flow: AgentFlowStep[] = [
         createTestStep({
@@ -329,7 +367,7 @@ describe('Flow Executor', () => {
       expect(result.error).toContain('Unknown step type');
     });
 
-    it('should handle step not found in connections', async () => {
+    it('should refuse to run a flow with analyzer errors', async () => {
       const flow: AgentFlowStep[] = [
         createTestStep({
           id: 'start',
@@ -341,7 +379,12 @@ describe('Flow Executor', () => {
       const agent = createTestAgent({ flow });
       const result = await executeFlow(agent, 'Test input', 'attempt-123');
 
-      expect(result.error).toContain('Step not found');
+      expect(result.success).toBe(false);
+      expect(result.stepsExecuted).toBe(0);
+      expect(result.error).toBe(
+        'Flow has errors: Step "Test Step" has invalid next connection: nonexistent'
+      );
+      expect(mockCreateSpan).not.toHaveBeenCalled();
     });
 
     it('should include variables in result', async () => {
@@ -415,6 +458,52 @@ describe('Flow Executor', () => {
 
       expect(result.output).toBe('Previous context');
     });
+
+    it('should skip error handlers and leave the attempt alone when cancelled', async () => {
+      const controller = new AbortController();
+      mockGenerateWithSystem.mockImplementationOnce(async () => {
+        controller.abort();
+        throw new CancelledError();
+      });
+
+      const flow: AgentFlowStep[] = [
+        createTestStep({
+          id: 'start',
+          type: 'start',
+          connections: { next: 'prompt' },
+        }),
+        createTestStep({
+          id: 'prompt',
+          type: 'prompt',
+          config: {},
+          connections: { next: 'output', onError: 'error-output' },
+        }),
+        createTestStep({
+          id: 'output',
+          type: 'output',
+          config: { template: 'Success' },
+          connections: {},
+        }),
+        createTestStep({
+          id: 'error-output',
+          type: 'output',
+          config: { template: 'Error: {{error}}' },
+          connections: {},
+        }),
+      ];
+
+      const agent = createTestAgent({ flow });
+      await expect(
+        executeFlow(agent, 'Test input', 'attempt-123', { signal: controller.signal })
+      ).rejects.toBeInstanceOf(CancelledError);
+
+      expect(mockGenerateWithSystem).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ signal: controller.signal })
+      );
+      expect(mockUpdateAttempt).not.toHaveBeenCalled();
+    });
   });
 
   describe('executeSinglePrompt', () => {
@@ -458,6 +547,36 @@ describe('Flow Executor', () => {
       expect(result.spans.length).toBe(0);
     });
 
+    it('should record token usage and cost on the span', async () => {
+      mockGenerateWithSystem.mockImplementationOnce(async (_system, _user, options) => {
+        options.onUsage({
+          model: 'claude-sonnet',
+          promptTokens: 120,
+          completionTokens: 30,
+          totalTokens: 150,
+          cost: 0.0008,
+        });
+        return 'LLM response';
+      });
+
+      const agent = createTestAgent();
+      await executeSinglePrompt(agent, 'Test input', 'attempt-123');
+
+      expect(mockGenerateWithSystem).toHaveBeenCalledWith(
+        agent.systemPrompt,
+        'Test input',
+        expect.objectContaining({ role: 'agent' })
+      );
+      expect(mockCreateSpan).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'llm_call',
+          promptTokens: 120,
+          completionTokens: 30,
+          estimatedCost: 0.0008,
+        })
+      );
+    });
+
     it('should handle LLM errors', async () => {
       mockGenerateWithSystem.mockRejectedValueOnce(new Error('LLM API Error'));
 
@@ -673,6 +792,36 @@ describe('Flow Executor', () => {
     });
   });
 
+  describe('validateFlow with parallel steps', () => {
+    it('should error on parallel step without branches', () => {
+      const flow: AgentFlowStep[] = [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'fan-out' } }),
+        createTestStep({ id: 'fan-out', name: 'Fan Out', type: 'parallel', connections: { next: 'join' } }),
+        createTestStep({ id: 'join', type: 'join', config: { strategy: 'vote' }, name: 'Join' }),
+      ];
+
+      const result = validateFlow(flow);
+
+      expect(result.errors).toContain('Parallel step "Fan Out" has no branches');
+      expect(result.errors).toContain('Join step "Join" has unknown strategy: vote');
+    });
+  });
+
+  describe('validateFlow with call_agent steps', () => {
+    it('should error on call_agent step without an agent reference', () => {
+      const flow: AgentFlowStep[] = [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'research' } }),
+        createTestStep({ id: 'research', name: 'Research', type: 'call_agent', config: { version: 2 } }),
+      ];
+
+      const result = validateFlow(flow);
+
+      expect(result.errors).toContain(
+        'Call agent step "Research" has no agentId or lineageId configured'
+      );
+    });
+  });
+
   describe('createSimpleFlow', () => {
     it('should create a basic flow with start, prompt, and output', () => {
       const flow = createSimpleFlow();
@@ -949,6 +1098,190 @@ describe('Flow Executor', () => {
     });
   });
 
+  describe('Flow with parallel branches', () => {
+    function createParallelFlow(joinConfig: Record<string, unknown> = {}): AgentFlowStep[] {
+      return [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'fan-out' } }),
+        createTestStep({
+          id: 'fan-out',
+          type: 'parallel',
+          connections: { branches: ['draft-a', 'draft-b'], next: 'join' },
+        }),
+        createTestStep({
+          id: 'draft-a',
+          type: 'prompt',
+          config: { template: 'Angle A: {{input}}', outputVariable: 'draftA' },
+          connections: { next: 'join' },
+        }),
+        createTestStep({
+          id: 'draft-b',
+          type: 'prompt',
+          config: { template: 'Angle B: {{input}}', outputVariable: 'draftB' },
+          connections: { next: 'join' },
+        }),
+        createTestStep({
+          id: 'join',
+          type: 'join',
+          config: { outputVariable: 'merged', ...joinConfig },
+          connections: { next: 'output' },
+        }),
+        createTestStep({ id: 'output', type: 'output', config: { variable: 'merged' } }),
+      ];
+    }
+
+    it('runs branches concurrently and concatenates them at the join', async () => {
+      const releases: Array<() => void> = [];
+      mockGenerateWithSystem.mockImplementation(
+        (_system: string, prompt: string) =>
+          new Promise((resolve) => releases.push(() => resolve(`Draft for ${prompt}`)))
+      );
+
+      const agent = createTestAgent({ flow: createParallelFlow() });
+      const pending = executeFlow(agent, 'cats', 'attempt-123');
+
+      // Both branches are waiting on the model at the same time
+      await vi.waitFor(() => expect(releases).toHaveLength(2));
+      releases.forEach((release) => release());
+      const result = await pending;
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('Draft for Angle A: cats\n\nDraft for Angle B: cats');
+      expect(result.variables).toMatchObject({
+        draftA: 'Draft for Angle A: cats',
+        draftB: 'Draft for Angle B: cats',
+      });
+    });
+
+    it('keeps what each branch wrote over the stale copies of the others', async () => {
+      mockGenerateWithSystem.mockImplementation(async (_system: string, prompt: string) =>
+        prompt.startsWith('Seed') ? 'Seed draft' : `Draft for ${prompt}`
+      );
+
+      // draftA exists before the fan-out, so branch B carries a stale copy
+      const [start, ...rest] = createParallelFlow();
+      const flow = [
+        { ...start, connections: { next: 'seed' } },
+        createTestStep({
+          id: 'seed',
+          type: 'prompt',
+          config: { template: 'Seed {{input}}', outputVariable: 'draftA' },
+          connections: { next: 'fan-out' },
+        }),
+        ...rest,
+      ];
+
+      const result = await executeFlow(createTestAgent({ flow }), 'cats', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(result.variables).toMatchObject({
+        draftA: 'Draft for Angle A: cats',
+        draftB: 'Draft for Angle B: cats',
+      });
+    });
+
+    it('nests branch spans under one parent span per branch', async () => {
+      const agent = createTestAgent({ flow: createParallelFlow() });
+      const result = await executeFlow(agent, 'cats', 'attempt-123');
+
+      const branchSpans = result.spans.filter((s) => s.input.includes('"step":"parallel"'));
+      expect(branchSpans).toHaveLength(2);
+      for (const branchSpan of branchSpans) {
+        const children = result.spans.filter((s) => s.parentSpanId === branchSpan.id);
+        expect(children).toHaveLength(1);
+        expect(children[0].type).toBe('llm_call');
+        expect(branchSpan.output).toBe('LLM response');
+      }
+    });
+
+    it('keeps the candidate picked by the judge', async () => {
+      mockGenerateWithSystem
+        .mockResolvedValueOnce('First draft')
+        .mockResolvedValueOnce('Second draft');
+      mockGenerateText.mockResolvedValue('Candidate 2 is best');
+
+      const agent = createTestAgent({ flow: createParallelFlow({ strategy: 'judge' }) });
+      const result = await executeFlow(agent, 'cats', 'attempt-123');
+
+      expect(mockGenerateText.mock.calls[0][0]).toContain('Candidate 1:\nFirst draft');
+      expect(result.output).toBe('Second draft');
+      expect(result.variables?.judgeChoice).toBe(1);
+    });
+
+    it('merges with the surviving branch when the other fails', async () => {
+      mockGenerateWithSystem
+        .mockResolvedValueOnce('Only draft')
+        .mockRejectedValueOnce(new Error('Model unavailable'));
+
+      const agent = createTestAgent({ flow: createParallelFlow({ strategy: 'llm_merge' }) });
+      const result = await executeFlow(agent, 'cats', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('Only draft');
+      expect(mockGenerateWithSystem).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Flow with step model parameters', () => {
+    it('should call the model with the prompt step overrides', async () => {
+      const flow: AgentFlowStep[] = [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'classify' } }),
+        createTestStep({
+          id: 'classify',
+          type: 'prompt',
+          config: { template: 'Classify {{input}}' },
+          connections: { next: 'write' },
+          modelParameters: { model: 'claude-haiku', temperature: 0, topP: 0.5, maxTokens: 64 },
+        }),
+        createTestStep({
+          id: 'write',
+          type: 'prompt',
+          config: { template: 'Write about {{lastOutput}}' },
+          connections: { next: 'output' },
+        }),
+        createTestStep({ id: 'output', type: 'output' }),
+      ];
+
+      const result = await executeFlow(createTestAgent({ flow }), 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(mockGenerateWithSystem.mock.calls[0][2]).toMatchObject({
+        model: 'claude-haiku',
+        temperature: 0,
+        topP: 0.5,
+        maxTokens: 64,
+      });
+      expect(mockGenerateWithSystem.mock.calls[1][2]).toMatchObject({
+        model: 'claude-sonnet',
+        temperature: 0.7,
+        maxTokens: 1024,
+      });
+      expect(mockGenerateWithSystem.mock.calls[1][2].topP).toBeUndefined();
+      const classifySpan = mockCreateSpan.mock.calls.find(([input]) => input.input === 'Classify Test input');
+      expect(classifySpan?.[0].modelId).toBe('claude-haiku');
+    });
+
+    it('should pass the tool step overrides to the tool', async () => {
+      const flow: AgentFlowStep[] = [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'summarize' } }),
+        createTestStep({
+          id: 'summarize',
+          type: 'tool',
+          config: { toolName: 'summarize', args: { content: '{{input}}' } },
+          connections: { next: 'output' },
+          modelParameters: { model: 'claude-haiku', temperature: 0.1 },
+        }),
+        createTestStep({ id: 'output', type: 'output' }),
+      ];
+
+      await executeFlow(createTestAgent({ flow }), 'Test input', 'attempt-123');
+
+      expect(mockExecuteToolCall).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'summarize' }),
+        expect.objectContaining({ modelParameters: { model: 'claude-haiku', temperature: 0.1 } })
+      );
+    });
+  });
+
   describe('Flow with loops', () => {
     it('should iterate and exit loop', async () => {
       const flow: AgentFlowStep[] = [
@@ -986,6 +1319,583 @@ describe('Flow Executor', () => {
     });
   });
 
+  describe('Flow with human input', () => {
+    // start -> loop x2 -> ask -> draft -> loop -> output
+    function createReviewFlow(): AgentFlowStep[] {
+      return [
+        createTestStep({
+          id: 'start',
+          type: 'start',
+          connections: { next: 'loop' },
+        }),
+        createTestStep({
+          id: 'loop',
+          type: 'loop',
+          config: { maxIterations: 2 },
+          connections: { onTrue: 'ask', onFalse: 'output' },
+        }),
+        createTestStep({
+          id: 'ask',
+          type: 'human_input',
+          config: { prompt: 'Feedback on draft {{loopIndex}}?', outputVariable: 'feedback' },
+          connections: { next: 'draft' },
+        }),
+        createTestStep({
+          id: 'draft',
+          type: 'prompt',
+          config: { template: 'Draft {{loopIndex}}: {{feedback}}' },
+          connections: { next: 'loop' },
+        }),
+        createTestStep({
+          id: 'output',
+          type: 'output',
+          config: {},
+          connections: {},
+        }),
+      ];
+    }
+
+    it('pauses at the step without finishing the attempt', async () => {
+      const agent = createTestAgent({ flow: createReviewFlow() });
+      const result = await executeFlow(agent, 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(false);
+      expect(result.suspended).toMatchObject({
+        stepId: 'ask',
+        prompt: 'Feedback on draft 0?',
+      });
+      expect(result.suspended?.snapshot.loopState).toHaveProperty('loop');
+      expect(mockUpdateAttempt).not.toHaveBeenCalled();
+    });
+
+    it('resumes from a stored snapshot with loop state and spans intact', async () => {
+      mockGenerateWithSystem.mockImplementation(async (_system: string, prompt: string) => prompt);
+      const agent = createTestAgent({ flow: createReviewFlow() });
+
+      const first = await executeFlow(agent, 'Test input', 'attempt-123');
+      // Snapshots are stored as JSON between the pause and the answer
+      const stored = JSON.parse(JSON.stringify(first.suspended!.snapshot));
+
+      const second = await resumeFlow(agent, stored, 'attempt-123', 'Shorter');
+      expect(second.suspended).toMatchObject({
+        stepId: 'ask',
+        prompt: 'Feedback on draft 1?',
+      });
+      expect(second.suspended?.snapshot.variables['feedback']).toBe('Shorter');
+
+      const third = await resumeFlow(
+        agent,
+        JSON.parse(JSON.stringify(second.suspended!.snapshot)),
+        'attempt-123',
+        'Warmer'
+      );
+
+      expect(third.success).toBe(true);
+      expect(third.output).toBe('Draft 1: Warmer');
+      // start + 2x(loop + ask + draft) + loop(exit) + output
+      expect(third.stepsExecuted).toBe(9);
+      expect(third.spans.length).toBeGreaterThan(second.spans.length);
+      expect(third.spans.slice(0, second.spans.length)).toEqual(
+        JSON.parse(JSON.stringify(second.spans))
+      );
+      expect(mockUpdateAttempt).toHaveBeenCalledTimes(1);
+      expect(mockUpdateAttempt).toHaveBeenCalledWith(
+        'attempt-123',
+        expect.objectContaining({ status: 'succeeded' })
+      );
+    });
+
+    it('fails when the paused step is gone from the flow', async () => {
+      const agent = createTestAgent({ flow: createReviewFlow() });
+      const first = await executeFlow(agent, 'Test input', 'attempt-123');
+      const edited = createTestAgent({
+        flow: createReviewFlow().filter((step) => step.id !== 'ask'),
+      });
+
+      const result = await resumeFlow(edited, first.suspended!.snapshot, 'attempt-123', 'Ok');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Step not found: ask');
+    });
+  });
+
+  describe('Flow with step policies', () => {
+    function policyFlow(policy: AgentFlowStep['policy']): AgentFlowStep[] {
+      return [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'draft' } }),
+        createTestStep({
+          id: 'draft',
+          type: 'prompt',
+          name: 'Draft',
+          config: { template: '{{input}}', outputVariable: 'draft' },
+          connections: { next: 'output' },
+          policy,
+        }),
+        createTestStep({
+          id: 'output',
+          type: 'output',
+          config: { template: 'Result: {{draft}}' },
+        }),
+      ];
+    }
+
+    it('should retry a failing step and record each retry as a span', async () => {
+      mockGenerateWithSystem
+        .mockRejectedValueOnce(new Error('Rate limited'))
+        .mockRejectedValueOnce(new Error('Rate limited'))
+        .mockResolvedValueOnce('Third time lucky');
+
+      const agent = createTestAgent({ flow: policyFlow({ retries: 2, backoffMs: 0 }) });
+      const result = await executeFlow(agent, 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('Result: Third time lucky');
+      expect(mockGenerateWithSystem).toHaveBeenCalledTimes(3);
+
+      const retrySpans = result.spans.filter((s) => s.input.includes('"step":"retry"'));
+      expect(retrySpans.map((s) => JSON.parse(s.input).attempt)).toEqual([2, 3]);
+      expect(retrySpans[0].output).toBe('Rate limited');
+      // Spans stay in execution order
+      const sequences = result.spans.map((s) => s.sequence);
+      expect(sequences).toEqual([...sequences].sort((a, b) => a - b));
+    });
+
+    it('should fail the step once its retries are used up', async () => {
+      mockGenerateWithSystem.mockRejectedValue(new Error('Rate limited'));
+
+      const agent = createTestAgent({ flow: policyFlow({ retries: 1, backoffMs: 0 }) });
+      const result = await executeFlow(agent, 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Rate limited');
+      expect(mockGenerateWithSystem).toHaveBeenCalledTimes(2);
+    });
+
+    it('should time out a slow attempt by aborting its signal', async () => {
+      mockGenerateWithSystem.mockImplementation(
+        (_system: string, _prompt: string, options: { signal?: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            options.signal?.addEventListener('abort', () => reject(new CancelledError()));
+          })
+      );
+
+      const agent = createTestAgent({ flow: policyFlow({ timeoutMs: 10 }) });
+      const result = await executeFlow(agent, 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Step "Draft" timed out after 10ms');
+    });
+
+    it('should keep a timed-out attempt that ignores its signal out of the run', async () => {
+      let lateWrite: Promise<void> | undefined;
+      mockGenerateWithSystem
+        .mockImplementationOnce(() => {
+          const late = new Promise<string>((resolve) => setTimeout(() => resolve('Late draft'), 50));
+          lateWrite = late.then(() => undefined);
+          return late;
+        })
+        .mockResolvedValueOnce('Fresh draft');
+
+      const agent = createTestAgent({ flow: policyFlow({ retries: 1, backoffMs: 0, timeoutMs: 10 }) });
+      const result = await executeFlow(agent, 'Test input', 'attempt-123');
+      const spanCount = result.spans.length;
+
+      // Let the first attempt finish and write its output
+      await lateWrite;
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('Result: Fresh draft');
+      expect(result.variables?.draft).toBe('Fresh draft');
+      expect(result.spans).toHaveLength(spanCount);
+      expect(result.spans.filter((s) => s.input.includes('"step":"timeout"'))).toHaveLength(1);
+    });
+
+    it('should still cancel the run when the user aborts during a timed step', async () => {
+      const controller = new AbortController();
+      mockGenerateWithSystem.mockImplementation(
+        (_system: string, _prompt: string, options: { signal?: AbortSignal }) =>
+          new Promise((_resolve, reject) => {
+            options.signal?.addEventListener('abort', () => reject(new CancelledError()));
+            controller.abort();
+          })
+      );
+
+      const agent = createTestAgent({ flow: policyFlow({ retries: 2, timeoutMs: 1000 }) });
+      await expect(
+        executeFlow(agent, 'Test input', 'attempt-123', { signal: controller.signal })
+      ).rejects.toBeInstanceOf(CancelledError);
+      expect(mockGenerateWithSystem).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rerun the step on the fallback model', async () => {
+      mockGenerateWithSystem
+        .mockRejectedValueOnce(new Error('Model overloaded'))
+        .mockResolvedValueOnce('Fallback answer');
+
+      const agent = createTestAgent({
+        flow: policyFlow({ fallback: { type: 'model', model: 'claude-haiku' } }),
+      });
+      const result = await executeFlow(agent, 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('Result: Fallback answer');
+      expect(mockGenerateWithSystem.mock.calls[0][2].model).toBe('claude-sonnet');
+      expect(mockGenerateWithSystem.mock.calls[1][2].model).toBe('claude-haiku');
+      expect(agent.parameters.model).toBe('claude-sonnet');
+    });
+
+    it('should rerun a step with its own model on the fallback model', async () => {
+      mockGenerateWithSystem
+        .mockRejectedValueOnce(new Error('Model overloaded'))
+        .mockResolvedValueOnce('Fallback answer');
+
+      const flow = policyFlow({ fallback: { type: 'model', model: 'claude-haiku' } });
+      flow[1].modelParameters = { model: 'claude-opus', temperature: 0.2 };
+      const result = await executeFlow(createTestAgent({ flow }), 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(mockGenerateWithSystem.mock.calls[0][2].model).toBe('claude-opus');
+      expect(mockGenerateWithSystem.mock.calls[1][2]).toMatchObject({
+        model: 'claude-haiku',
+        temperature: 0.2,
+      });
+    });
+
+    it('should continue with the fallback value', async () => {
+      mockGenerateWithSystem.mockRejectedValue(new Error('Model overloaded'));
+
+      const agent = createTestAgent({
+        flow: policyFlow({ retries: 1, backoffMs: 0, fallback: { type: 'value', value: 'N/A' } }),
+      });
+      const result = await executeFlow(agent, 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('Result: N/A');
+      expect(result.spans).toContainEqual(
+        expect.objectContaining({ type: 'reasoning', output: 'N/A' })
+      );
+    });
+
+    it('should skip a failing step', async () => {
+      mockExecuteToolCall.mockRejectedValue(new Error('Search is down'));
+      const flow: AgentFlowStep[] = [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'search' } }),
+        createTestStep({
+          id: 'search',
+          type: 'tool',
+          config: { toolName: 'search', args: { query: '{{input}}' } },
+          connections: { next: 'output' },
+          policy: { fallback: { type: 'skip' } },
+        }),
+        createTestStep({ id: 'output', type: 'output', config: { template: 'Done: {{input}}' } }),
+      ];
+
+      const result = await executeFlow(createTestAgent({ flow }), 'Test input', 'attempt-123');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('Done: Test input');
+    });
+  });
+
+  describe('Flow checkpoints and replay', () => {
+    function createPipelineFlow(): AgentFlowStep[] {
+      return [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'outline' } }),
+        createTestStep({
+          id: 'outline',
+          type: 'prompt',
+          name: 'Outline',
+          config: { template: 'Outline {{input}}', outputVariable: 'outline' },
+          connections: { next: 'draft' },
+        }),
+        createTestStep({
+          id: 'draft',
+          type: 'prompt',
+          name: 'Draft',
+          config: { template: 'Draft from {{outline}}', outputVariable: 'draft' },
+          connections: { next: 'output' },
+        }),
+        createTestStep({
+          id: 'output',
+          type: 'output',
+          name: 'Output',
+          config: { template: '{{draft}}' },
+        }),
+      ];
+    }
+
+    // The checkpoint as it comes back from the database, spans left out
+    function storedCheckpoint(stepId: string): FlowCheckpoint {
+      const input = mockCreateFlowCheckpoint.mock.calls
+        .map(([checkpoint]) => checkpoint)
+        .find((checkpoint) => checkpoint.stepId === stepId);
+      return JSON.parse(
+        JSON.stringify({
+          ...input,
+          snapshot: { ...input.snapshot, spans: [] },
+          id: `checkpoint-${stepId}`,
+          createdAt: Date.now(),
+        })
+      );
+    }
+
+    beforeEach(() => {
+      mockGenerateWithSystem.mockImplementation(
+        async (_system: string, prompt: string) => `<${prompt}>`
+      );
+      // The spans table: every span created so far
+      mockGetSpansByAttempt.mockImplementation((attemptId: string) =>
+        mockCreateSpan.mock.results
+          .map((result) => result.value)
+          .filter((span) => span.attemptId === attemptId)
+      );
+    });
+
+    it('saves a checkpoint before each step of a persisted run', async () => {
+      const agent = createTestAgent({ flow: createPipelineFlow() });
+      await executeFlow(agent, 'cats', 'attempt-123');
+
+      expect(mockCreateFlowCheckpoint.mock.calls.map(([c]) => c.stepId)).toEqual([
+        'start',
+        'outline',
+        'draft',
+        'output',
+      ]);
+      const draft = storedCheckpoint('draft');
+      expect(draft).toMatchObject({ attemptId: 'attempt-123', stepName: 'Draft', sequence: 2 });
+      expect(draft.snapshot.variables['outline']).toBe('<Outline cats>');
+      expect(draft.snapshot.stepsExecuted).toBe(2);
+      expect(draft.spanIds).toHaveLength(2);
+    });
+
+    it('skips checkpoints when spans are not persisted', async () => {
+      const agent = createTestAgent({ flow: createPipelineFlow() });
+      await executeFlow(agent, 'cats', 'attempt-123', { createSpans: false });
+
+      expect(mockCreateFlowCheckpoint).not.toHaveBeenCalled();
+    });
+
+    it('skips checkpoints when the caller turns them off', async () => {
+      const agent = createTestAgent({ flow: createPipelineFlow() });
+      const result = await executeFlow(agent, 'cats', 'attempt-123', { checkpoints: false });
+
+      expect(result.success).toBe(true);
+      expect(mockCreateFlowCheckpoint).not.toHaveBeenCalled();
+    });
+
+    it('replays from a checkpoint without rerunning earlier steps', async () => {
+      const agent = createTestAgent({ flow: createPipelineFlow() });
+      await executeFlow(agent, 'cats', 'attempt-123');
+      const checkpoint = storedCheckpoint('draft');
+      mockGenerateWithSystem.mockClear();
+
+      const result = await replayFlow(agent, checkpoint, 'attempt-456');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('<Draft from <Outline cats>>');
+      expect(mockGenerateWithSystem).toHaveBeenCalledTimes(1);
+      expect(result.stepsExecuted).toBe(4);
+      expect(result.spans.every((span) => span.attemptId === 'attempt-456')).toBe(true);
+      const carried = checkpoint.spanIds.length;
+      expect(carried).toBe(2);
+      expect(result.spans[carried].sequence).toBe(checkpoint.sequence);
+    });
+
+    it('replays on an evolved version whose step IDs changed', async () => {
+      await executeFlow(createTestAgent({ flow: createPipelineFlow() }), 'cats', 'attempt-123');
+      const checkpoint = storedCheckpoint('draft');
+
+      const evolvedFlow = createPipelineFlow().map((step) => ({
+        ...step,
+        id: `v2-${step.id}`,
+        connections: { next: step.connections.next && `v2-${step.connections.next}` },
+      }));
+      evolvedFlow[2].config = { template: 'Better draft from {{outline}}', outputVariable: 'draft' };
+      const evolved = createTestAgent({ version: 2, flow: evolvedFlow });
+
+      const result = await replayFlow(evolved, checkpoint, 'attempt-456');
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('<Better draft from <Outline cats>>');
+    });
+
+    it('carries over nested branch spans with their nesting remapped', async () => {
+      const flow = [
+        createTestStep({ id: 'start', type: 'start', connections: { next: 'fan-out' } }),
+        createTestStep({
+          id: 'fan-out',
+          type: 'parallel',
+          connections: { branches: ['draft-a', 'draft-b'], next: 'join' },
+        }),
+        createTestStep({
+          id: 'draft-a',
+          type: 'prompt',
+          config: { template: 'Angle A: {{input}}' },
+          connections: { next: 'join' },
+        }),
+        createTestStep({
+          id: 'draft-b',
+          type: 'prompt',
+          config: { template: 'Angle B: {{input}}' },
+          connections: { next: 'join' },
+        }),
+        createTestStep({
+          id: 'join',
+          type: 'join',
+          config: { outputVariable: 'merged' },
+          connections: { next: 'polish' },
+        }),
+        createTestStep({
+          id: 'polish',
+          type: 'prompt',
+          name: 'Polish',
+          config: { template: 'Polish {{merged}}' },
+          connections: { next: 'output' },
+        }),
+        createTestStep({ id: 'output', type: 'output' }),
+      ];
+      const agent = createTestAgent({ flow });
+      const original = await executeFlow(agent, 'cats', 'attempt-123');
+      const checkpoint = storedCheckpoint('polish');
+
+      const result = await replayFlow(agent, checkpoint, 'attempt-456');
+
+      expect(result.success).toBe(true);
+      const carried = result.spans.slice(0, checkpoint.spanIds.length);
+      const originalById = new Map(original.spans.map((span) => [span.id, span]));
+      expect(carried.map((span) => span.input)).toEqual(
+        checkpoint.spanIds.map((id) => originalById.get(id)?.input)
+      );
+      const originalIds = new Set(original.spans.map((span) => span.id));
+      const replayIds = new Set(result.spans.map((span) => span.id));
+      for (const span of result.spans) {
+        expect(span.attemptId).toBe('attempt-456');
+        expect(originalIds.has(span.id)).toBe(false);
+        if (span.parentSpanId) {
+          expect(replayIds.has(span.parentSpanId)).toBe(true);
+        }
+      }
+      // Both branch spans kept their prompt span nested under them
+      const branchSpans = carried.filter((s) => s.input.includes('"step":"parallel"'));
+      expect(branchSpans).toHaveLength(2);
+      for (const branchSpan of branchSpans) {
+        expect(carried.filter((s) => s.parentSpanId === branchSpan.id)).toHaveLength(1);
+      }
+    });
+
+    it('fails when the checkpointed step is gone from the flow', async () => {
+      await executeFlow(createTestAgent({ flow: createPipelineFlow() }), 'cats', 'attempt-123');
+      const checkpoint = storedCheckpoint('draft');
+      const edited = createTestAgent({
+        flow: createPipelineFlow()
+          .filter((step) => step.id !== 'draft')
+          .map((step) => (step.id === 'outline' ? { ...step, connections: { next: 'output' } } : step)),
+      });
+
+      const result = await replayFlow(edited, checkpoint, 'attempt-456');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Step not found: Draft');
+    });
+  });
+
+  describe('Flow debugging', () => {
+    // start -> loop x2 -> draft -> loop -> output
+    function createDraftFlow(): AgentFlowStep[] {
+      return [
+        createTestStep({
+          id: 'start',
+          type: 'start',
+          connections: { next: 'loop' },
+        }),
+        createTestStep({
+          id: 'loop',
+          type: 'loop',
+          config: { maxIterations: 2 },
+          connections: { onTrue: 'draft', onFalse: 'output' },
+        }),
+        createTestStep({
+          id: 'draft',
+          type: 'prompt',
+          config: { template: 'Draft {{loopIndex}} about {{topic}}' },
+          connections: { next: 'loop' },
+        }),
+        createTestStep({
+          id: 'output',
+          type: 'output',
+          config: {},
+          connections: {},
+        }),
+      ];
+    }
+
+    it('pauses at breakpoints with the variables and loop state', async () => {
+      const onPause = vi.fn().mockResolvedValue({ action: 'continue' });
+      const agent = createTestAgent({ flow: createDraftFlow() });
+
+      const result = await executeFlow(agent, 'Test input', 'attempt-123', {
+        debug: { isBreakpoint: (stepId) => stepId === 'draft', onPause },
+      });
+
+      expect(result.success).toBe(true);
+      expect(onPause).toHaveBeenCalledTimes(2);
+      expect(onPause.mock.calls[1][0]).toMatchObject({
+        stepId: 'draft',
+        fromStepId: 'loop',
+        reason: 'breakpoint',
+        variables: { loopIndex: 1 },
+        loopState: { loop: { currentIndex: 2, maxIterations: 2 } },
+      });
+    });
+
+    it('pauses before every step while stepping', async () => {
+      const onPause = vi.fn().mockResolvedValue({ action: 'step' });
+      const agent = createTestAgent({ flow: createDraftFlow() });
+
+      const result = await executeFlow(agent, 'Test input', 'attempt-123', {
+        debug: { isBreakpoint: () => false, stepFromStart: true, onPause },
+      });
+
+      expect(result.success).toBe(true);
+      expect(onPause.mock.calls.map(([pause]) => pause.stepId)).toEqual([
+        'start', 'loop', 'draft', 'loop', 'draft', 'loop', 'output',
+      ]);
+      expect(onPause.mock.calls[0][0].fromStepId).toBeNull();
+    });
+
+    it('runs the step with variables edited while paused', async () => {
+      mockGenerateWithSystem.mockImplementation(async (_system, prompt) => prompt);
+      const agent = createTestAgent({ flow: createDraftFlow() });
+
+      const result = await executeFlow(agent, 'Test input', 'attempt-123', {
+        debug: {
+          isBreakpoint: (stepId) => stepId === 'loop',
+          onPause: async ({ variables }) =>
+            variables.loopIndex === undefined
+              ? { action: 'continue', variables: { topic: 'cats' } }
+              : { action: 'continue' },
+        },
+      });
+
+      expect(result.output).toBe('Draft 1 about cats');
+    });
+
+    it('cancels the run when stopped', async () => {
+      const agent = createTestAgent({ flow: createDraftFlow() });
+
+      await expect(
+        executeFlow(agent, 'Test input', 'attempt-123', {
+          debug: {
+            isBreakpoint: (stepId) => stepId === 'draft',
+            onPause: async () => ({ action: 'stop' }),
+          },
+        })
+      ).rejects.toBeInstanceOf(CancelledError);
+      expect(mockGenerateWithSystem).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Default Demo Flow Bug', () => {
     it('should NOT return test input as output when using default demo flow', async () => {
       // This tests the bug where "Please demonstrate your capabilities..." appears as artifact output
@@ -16,6 +16,10 @@ vi.mock("../../tools/executor", () => ({
 // Mock the database queries
 vi.mock("../../../db/queries", () => ({
   createSpan: vi.fn(),
+  updateSpan: vi.fn(),
+  getAgentById: vi.fn(),
+  getAgentVersion: vi.fn(),
+  getLatestAgentVersion: vi.fn(),
 }));
 
 // Import modules (mocks will be in place)
@@ -27,16 +31,24 @@ import {
   findStartStep,
   getNextStep,
   createFlowContext,
+  MAX_AGENT_CALL_DEPTH,
 } from "../handlers";
 import { generateWithSystem, generateText } from "../../../api/llm";
 import { executeToolCall } from "../../tools/executor";
-import { createSpan } from "../../../db/queries";
+import {
+  createSpan,
+  getAgentById,
+  getAgentVersion,
+} from "../../../db/queries";
+import type { ExecutionResult } from "../../agent-executor";
 
 // Cast mocked functions for easier use
 const mockGenerateWithSystem = generateWithSystem as Mock;
 const mockGenerateText = generateText as Mock;
 const mockExecuteToolCall = executeToolCall as Mock;
 const mockCreateSpan = createSpan as Mock;
+const mockGetAgentById = getAgentById as Mock;
+const mockGetAgentVersion = getAgentVersion as Mock;
 
 // Helper to create a test agent
 function createTestAgent(
@@ -118,7 +130,10 @@ describe("Flow Step Handlers", () => {
       expect(stepHandlers).toHaveProperty("prompt");
       expect(stepHandlers).toHaveProperty("tool");
       expect(stepHandlers).toHaveProperty("condition");
+      expect(stepHandlers).toHaveProperty("transform");
       expect(stepHandlers).toHaveProperty("loop");
+      expect(stepHandlers).toHaveProperty("call_agent");
+      expect(stepHandlers).toHaveProperty("human_input");
       expect(stepHandlers).toHaveProperty("output");
     });
   });
@@ -639,6 +654,101 @@ describe("Flow Step Handlers", () => {
     });
   });
 
+  describe("transform handler", () => {
+    it("should assign expression results to variables in order", async () => {
+      const step = createTestStep({
+        type: "transform",
+        config: {
+          assignments: {
+            items: 'split(lastOutput, "\\n")',
+            count: "len(items)",
+          },
+        },
+        connections: { next: "loop-step" },
+      });
+      const context = createTestContext();
+      context.variables["lastOutput"] = "a\nb\nc";
+
+      const result = await stepHandlers.transform(step, context);
+
+      expect(result.success).toBe(true);
+      expect(result.nextStepId).toBe("loop-step");
+      expect(result.output).toEqual({ items: ["a", "b", "c"], count: 3 });
+      expect(context.variables["items"]).toEqual(["a", "b", "c"]);
+      expect(context.variables["count"]).toBe(3);
+      expect(context.variables["lastOutput"]).toBe("a\nb\nc");
+    });
+
+    it("should record inputs and outputs in a reasoning span", async () => {
+      const step = createTestStep({
+        type: "transform",
+        config: { assignments: { names: 'map(people, "item.name")' } },
+      });
+      const context = createTestContext();
+      context.variables["people"] = [{ name: "Ada" }];
+
+      await stepHandlers.transform(step, context);
+
+      expect(mockCreateSpan).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "reasoning",
+          input: JSON.stringify({ step: "transform", inputs: { people: [{ name: "Ada" }] } }),
+          output: JSON.stringify({ names: ["Ada"] }),
+        }),
+        true
+      );
+      expect(context.spans).toHaveLength(1);
+    });
+
+    it("should fail without assignments", async () => {
+      const step = createTestStep({ type: "transform", config: {} });
+      const context = createTestContext();
+
+      const result = await stepHandlers.transform(step, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("assignments");
+    });
+
+    it("should refuse unsafe variable names", async () => {
+      const step = createTestStep({
+        type: "transform",
+        config: { assignments: { __proto__x: "1", constructor: "1" } },
+      });
+      const context = createTestContext();
+
+      const result = await stepHandlers.transform(step, context);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Cannot assign to "constructor"');
+    });
+
+    it("should route failed assignments to onError", async () => {
+      const step = createTestStep({
+        type: "transform",
+        config: { assignments: { first: "1", data: "jsonParse(lastOutput)" } },
+        connections: { next: "next", onError: "recover" },
+      });
+      const context = createTestContext({ sequence: 4 });
+      context.variables["lastOutput"] = "not json";
+
+      const result = await stepHandlers.transform(step, context);
+
+      expect(result.success).toBe(false);
+      expect(result.nextStepId).toBe("recover");
+      expect(result.sequence).toBe(5);
+      expect(result.error).toContain('Assignment "data" failed');
+      expect(context.variables["error"]).toBe(result.error);
+      expect(context.variables["first"]).toBe(1);
+      expect(mockCreateSpan).toHaveBeenCalledWith(
+        expect.objectContaining({
+          output: expect.stringContaining('"assigned":{"first":1}'),
+        }),
+        true
+      );
+    });
+  });
+
   describe("loop handler", () => {
     it("should iterate and continue to loop body", async () => {
       const step = createTestStep({
@@ -792,6 +902,221 @@ describe("Flow Step Handlers", () => {
       );
       expect(context.spans).toHaveLength(1);
     });
+
+    it("should repair output that breaks the output contract", async () => {
+      const step = createTestStep({ type: "output", config: { variable: "result" } });
+      const context = createTestContext({
+        agent: createTestAgent({
+          outputContract: { jsonSchema: { type: "object", required: ["title"] } },
+        }),
+      });
+      context.variables["result"] = "Here is the title: Dune";
+      mockGenerateWithSystem.mockResolvedValueOnce('```json\n{"title": "Dune"}\n```');
+
+      const result = await stepHandlers.output(step, context);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('{"title": "Dune"}');
+      expect(mockGenerateWithSystem.mock.calls[0][1]).toContain("Output is not valid JSON");
+      expect(context.outputContract).toEqual({ passed: true, violations: [], repairAttempts: 1 });
+      // Output, failed check, repair call, passed check
+      expect(context.spans.map((s) => [s.type, s.sequence])).toEqual([
+        ["output", 0],
+        ["reasoning", 1],
+        ["llm_call", 2],
+        ["reasoning", 3],
+      ]);
+      expect(result.sequence).toBe(4);
+    });
+
+    it("should keep failing output after the repair limit", async () => {
+      const step = createTestStep({ type: "output", config: { variable: "result" } });
+      const context = createTestContext({
+        agent: createTestAgent({
+          outputContract: { requiredHeadings: ["Summary"], maxRepairAttempts: 1 },
+        }),
+      });
+      context.variables["result"] = "No headings here";
+      mockGenerateWithSystem.mockResolvedValueOnce("Still no headings");
+
+      const result = await stepHandlers.output(step, context);
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe("Still no headings");
+      expect(mockGenerateWithSystem).toHaveBeenCalledTimes(1);
+      expect(context.outputContract).toEqual({
+        passed: false,
+        violations: ['Missing heading "Summary"'],
+        repairAttempts: 1,
+      });
+    });
+
+    it("should reject an invalid output contract", async () => {
+      const step = createTestStep({ type: "output", config: { variable: "result" } });
+      const context = createTestContext({
+        agent: createTestAgent({ outputContract: { pattern: "(" } }),
+      });
+      context.variables["result"] = "text";
+
+      await expect(stepHandlers.output(step, context)).rejects.toThrow("Invalid output contract");
+    });
+  });
+
+  describe("call_agent handler", () => {
+    function subAgentResult(
+      overrides: Partial<ExecutionResult> = {}
+    ): ExecutionResult {
+      return {
+        output: "Research notes",
+        success: true,
+        metadata: {
+          agentId: "analyst-2",
+          agentVersion: 2,
+          inputUsed: "",
+          executionTimeMs: 5,
+          attemptId: "child-attempt",
+        },
+        ...overrides,
+      };
+    }
+
+    it("runs the resolved agent on the interpolated input", async () => {
+      const analyst = createTestAgent({ id: "analyst-2", version: 2 });
+      mockGetAgentVersion.mockReturnValue(analyst);
+      const runSubAgent = vi.fn().mockResolvedValue(subAgentResult());
+      const step = createTestStep({
+        type: "call_agent",
+        config: {
+          lineageId: "lineage-analytical",
+          version: 2,
+          input: "Research: {{topic}}",
+          outputVariable: "research",
+        },
+        connections: { next: "write" },
+      });
+      const context = createTestContext({ runSubAgent, callDepth: 1 });
+      context.variables["topic"] = "tides";
+
+      const result = await stepHandlers.call_agent(step, context);
+
+      expect(mockGetAgentVersion).toHaveBeenCalledWith(
+        "lineage-analytical",
+        2
+      );
+      expect(runSubAgent).toHaveBeenCalledWith(
+        { ...analyst, lineageId: "lineage-analytical" },
+        "Research: tides",
+        { parentSpanId: context.spans[0].id, callDepth: 2 }
+      );
+      expect(result).toMatchObject({
+        success: true,
+        output: "Research notes",
+        nextStepId: "write",
+      });
+      expect(context.variables["research"]).toBe("Research notes");
+      expect(JSON.parse(context.spans[0].output)).toMatchObject({
+        attemptId: "child-attempt",
+        success: true,
+      });
+    });
+
+    it("routes a failed sub-agent run to onError", async () => {
+      mockGetAgentById.mockReturnValue(
+        createTestAgent({ id: "analyst-2", name: "Analyst" })
+      );
+      const runSubAgent = vi
+        .fn()
+        .mockResolvedValue(
+          subAgentResult({ output: "", success: false, error: "Timed out" })
+        );
+      const step = createTestStep({
+        type: "call_agent",
+        config: { agentId: "analyst-2" },
+        connections: { next: "write", onError: "fallback" },
+      });
+      const context = createTestContext({ runSubAgent });
+
+      const result = await stepHandlers.call_agent(step, context);
+
+      expect(result.success).toBe(false);
+      expect(result.nextStepId).toBe("fallback");
+      expect(context.variables["error"]).toBe(
+        'Agent "Analyst" failed: Timed out'
+      );
+    });
+
+    it("refuses to nest calls past the depth limit", async () => {
+      const runSubAgent = vi.fn();
+      const step = createTestStep({
+        type: "call_agent",
+        config: { agentId: "analyst-2" },
+      });
+      const context = createTestContext({
+        runSubAgent,
+        callDepth: MAX_AGENT_CALL_DEPTH,
+      });
+
+      const result = await stepHandlers.call_agent(step, context);
+
+      expect(runSubAgent).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.nextStepId).toBeNull();
+      expect(result.error).toContain("depth limit");
+    });
+  });
+
+  describe("human_input handler", () => {
+    it("suspends on itself with the interpolated prompt", async () => {
+      const step = createTestStep({
+        id: "ask",
+        type: "human_input",
+        config: { prompt: "Which tone for {{topic}}?" },
+        connections: { next: "write" },
+      });
+      const context = createTestContext({ sequence: 4 });
+      context.variables["topic"] = "the launch post";
+
+      const result = await stepHandlers.human_input(step, context);
+
+      expect(result).toMatchObject({
+        nextStepId: "ask",
+        sequence: 4,
+        success: true,
+        suspend: { prompt: "Which tone for the launch post?" },
+      });
+      expect(context.spans).toHaveLength(0);
+    });
+
+    it("stores the answer and moves on when resumed", async () => {
+      const step = createTestStep({
+        id: "ask",
+        type: "human_input",
+        config: { prompt: "Which tone?", outputVariable: "tone" },
+        connections: { next: "write" },
+      });
+      const context = createTestContext({ humanResponse: "Playful" });
+
+      const result = await stepHandlers.human_input(step, context);
+
+      expect(result).toMatchObject({
+        output: "Playful",
+        nextStepId: "write",
+        success: true,
+      });
+      expect(result.suspend).toBeUndefined();
+      expect(context.variables["tone"]).toBe("Playful");
+      expect(context.humanResponse).toBeUndefined();
+      expect(context.spans[0].output).toBe("Playful");
+    });
+
+    it("cannot pause inside a called agent", async () => {
+      const step = createTestStep({ type: "human_input" });
+      const context = createTestContext({ callDepth: 1 });
+
+      await expect(stepHandlers.human_input(step, context)).rejects.toThrow(
+        "called agent"
+      );
+    });
   });
 });
 
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { getTemplateVariables, lintTemplate, renderTemplate, TemplateError } from '../template';
+
+describe('renderTemplate', () => {
+  it('substitutes paths and leaves unset ones as written', () => {
+    expect(renderTemplate('{{ user.name }} has {{items.1}}', { user: { name: 'Ada' }, items: ['a', 'b'] })).toBe(
+      'Ada has b'
+    );
+    expect(renderTemplate('Reply as {"ok": {{flag}}}', {})).toBe('Reply as {"ok": {{flag}}}');
+  });
+
+  it('applies filters left to right', () => {
+    const variables = { name: 'ada', tags: ['x', 'y'], data: { a: 1 }, long: 'abcdefghij' };
+
+    expect(renderTemplate('{{ name | upper }}', variables)).toBe('ADA');
+    expect(renderTemplate('{{ tags | join(" / ") | upper }}', variables)).toBe('X / Y');
+    expect(renderTemplate('{{ data | json(2) }}', variables)).toBe('{\n  "a": 1\n}');
+    expect(renderTemplate('{{ long | truncate(4) }}', variables)).toBe('abcd...');
+    expect(renderTemplate('{{ long | truncate(20) }}', variables)).toBe('abcdefghij');
+  });
+
+  it('falls back to default values for missing or empty variables', () => {
+    expect(renderTemplate('Tone: {{ tone | default("neutral") }}', {})).toBe('Tone: neutral');
+    expect(renderTemplate('{{ tone | default(fallback) }}', { tone: '', fallback: 'warm' })).toBe('warm');
+    expect(renderTemplate('{{ tone | default("neutral") }}', { tone: 'dry' })).toBe('dry');
+    // A filtered variable that stays unset renders as nothing
+    expect(renderTemplate('[{{ tone | upper }}]', {})).toBe('[]');
+  });
+
+  it('renders conditionals', () => {
+    const template = '{{#if score >= 7}}good{{else if score >= 4}}ok{{else}}poor{{/if}}';
+
+    expect(renderTemplate(template, { score: 8 })).toBe('good');
+    expect(renderTemplate(template, { score: 5 })).toBe('ok');
+    expect(renderTemplate(template, { score: 1 })).toBe('poor');
+    expect(renderTemplate('{{#if items}}some{{else}}none{{/if}}', { items: [] })).toBe('none');
+  });
+
+  it('loops over arrays with loop details and an empty case', () => {
+    const template = [
+      'Sources:',
+      '{{#each results as result}}',
+      '{{loop.number}}. {{result.title}}{{#if loop.last}}.{{/if}}',
+      '{{else}}',
+      'none',
+      '{{/each}}',
+      'End',
+    ].join('\n');
+
+    expect(renderTemplate(template, { results: [{ title: 'A' }, { title: 'B' }] })).toBe(
+      'Sources:\n1. A\n2. B.\nEnd'
+    );
+    expect(renderTemplate(template, { results: [] })).toBe('Sources:\nnone\nEnd');
+    expect(renderTemplate('{{#each xs}}{{item}},{{/each}}', { xs: [1, 2] })).toBe('1,2,');
+  });
+
+  it('keeps escaped braces', () => {
+    expect(renderTemplate('Write \\{{name}} for {{name}}', { name: 'Ada' })).toBe('Write {{name}} for Ada');
+  });
+
+  it('never runs code', () => {
+    expect(renderTemplate('{{ constructor }}', {})).toBe('{{ constructor }}');
+    expect(renderTemplate('{{ constructor.constructor("return 1")() }}', {})).toBe(
+      '{{ constructor.constructor("return 1")() }}'
+    );
+    expect(renderTemplate('{{#if window}}yes{{else}}no{{/if}}', {})).toBe('no');
+  });
+
+  it('throws on unbalanced blocks', () => {
+    expect(() => renderTemplate('{{#if a}}open', {})).toThrow(TemplateError);
+    expect(() => renderTemplate('{{#each xs}}{{/if}}', {})).toThrow('expected {{/each}}');
+  });
+
+  it('leaves unknown filters and stray block tags as written', () => {
+    expect(renderTemplate('{{ name | shout }} {{foo | bar}}', { name: 'a' })).toBe(
+      '{{ name | shout }} {{foo | bar}}'
+    );
+    expect(renderTemplate('{{#section}}\n{{name}}\n{{/section}} {{/if}}', { name: 'a' })).toBe(
+      '{{#section}}\na\n{{/section}} {{/if}}'
+    );
+  });
+});
+
+describe('lintTemplate', () => {
+  it('accepts valid templates', () => {
+    expect(lintTemplate('{{#each xs as x}}{{ x | upper }}{{/each}} {{ input }}')).toEqual([]);
+  });
+
+  it('reports syntax errors, unknown filters and invalid expressions', () => {
+    expect(lintTemplate('{{#if a}}')).toEqual([
+      expect.objectContaining({ code: 'syntax', severity: 'error' }),
+    ]);
+    expect(lintTemplate('{{ a | shout }}')).toEqual([
+      expect.objectContaining({ code: 'unknown_filter', severity: 'warning' }),
+    ]);
+    expect(lintTemplate('{{#section}} {{/if}}').map((i) => [i.code, i.severity])).toEqual([
+      ['invalid_expression', 'warning'],
+      ['invalid_expression', 'warning'],
+    ]);
+    expect(lintTemplate('{{#if a >}}x{{/if}} {{ b c }}').map((i) => [i.code, i.severity])).toEqual([
+      ['invalid_expression', 'error'],
+      ['invalid_expression', 'warning'],
+    ]);
+  });
+
+  it('reports unknown variables once, not counting loop names', () => {
+    const issues = lintTemplate('{{#each items}}{{item}} {{loop.index}} {{tone}}{{/each}} {{tone}}', {
+      variables: ['items'],
+    });
+
+    expect(issues).toEqual([
+      expect.objectContaining({ code: 'unknown_variable', message: 'Unknown variable "tone" in {{tone}}' }),
+    ]);
+  });
+});
+
+describe('getTemplateVariables', () => {
+  it('lists the variables a template reads', () => {
+    expect(
+      getTemplateVariables(
+        '{{#if score > min}}{{#each results as r}}{{r.title | default(fallback)}}{{/each}}{{/if}} {{user.name}}'
+      )
+    ).toEqual(['score', 'min', 'results', 'fallback', 'user']);
+  });
+});
@@ -0,0 +1,934 @@
+/**
+ * Static Flow Analyzer
+ *
+ * Checks an agent flow without running it and reports typed diagnostics.
+ * Errors describe flows the executor cannot run correctly and block
+ * execution; warnings describe flows that run but probably not as intended.
+ *
+ * Checks:
+ * - Structure: start and output steps, duplicate IDs, unknown step types
+ * - Connections: targets that don't exist, missing branches and bodies
+ * - Reachability: steps no path from the start step reaches
+ * - Cycles: loops in the graph that don't pass through a `loop` step
+ * - Variables: `{{name}}` references no earlier step writes
+ * - Templates: syntax errors, unknown filters and invalid expressions
+ * - Config: required keys, unknown values, and keys the handlers ignore
+ */
+
+import type { AgentFlowStep } from "../../types/agent";
+import {
+  getExpressionVariables,
+  validateExpression,
+} from "../../utils/safeExpressionEvaluator";
+import {
+  buildStepMap,
+  findStartStep,
+  isAssignableName,
+  JOIN_STRATEGIES,
+  type JoinStrategy,
+} from "./handlers";
+import { getTemplateVariables, lintTemplate } from "./template";
+
+export type FlowDiagnosticSeverity = "error" | "warning";
+
+export type FlowDiagnosticCode =
+  | "multiple_starts"
+  | "missing_output"
+  | "duplicate_step_id"
+  | "unknown_step_type"
+  | "invalid_connection"
+  | "missing_connection"
+  | "unreachable_step"
+  | "unbounded_cycle"
+  | "undefined_variable"
+  | "missing_config"
+  | "invalid_config"
+  | "ignored_config_key"
+  | "invalid_placement"
+  | "invalid_template";
+
+/**
+ * One problem found in a flow
+ */
+export interface FlowDiagnostic {
+  code: FlowDiagnosticCode;
+  severity: FlowDiagnosticSeverity;
+  message: string;
+  /** The step the problem is on, when it belongs to one */
+  stepId?: string;
+  /** How to fix it */
+  hint?: string;
+}
+
+export interface FlowAnalysis {
+  /** No error diagnostics: the flow can be executed */
+  valid: boolean;
+  diagnostics: FlowDiagnostic[];
+}
+
+type StepType = AgentFlowStep["type"];
+
+/**
+ * Config keys each handler reads
+ */
+const STEP_CONFIG_KEYS: Record<StepType, readonly string[]> = {
+  start: ["variables"],
+  prompt: ["template", "useSystemPrompt", "outputVariable"],
+  tool: ["toolName", "args", "parameters", "inputMapping", "outputVariable"],
+  condition: ["condition"],
+  transform: ["assignments"],
+  loop: ["maxIterations", "itemsVariable", "itemVariable"],
+  parallel: [],
+  join: ["strategy", "variable", "outputVariable", "separator", "prompt"],
+  call_agent: ["agentId", "lineageId", "version", "input", "outputVariable"],
+  human_input: ["prompt", "outputVariable"],
+  output: ["template", "variable"],
+};
+
+/** Free-form notes allowed on any step */
+const DESCRIPTIVE_CONFIG_KEYS = ["description"];
+
+/**
+ * Misspellings seen in generated flows, keyed by step type
+ */
+const CONFIG_KEY_ALIASES: Partial<Record<StepType, Record<string, string>>> = {
+  prompt: { promptTemplate: "template", prompt: "template" },
+  condition: { expression: "condition", conditionExpression: "condition" },
+  output: { outputTemplate: "template", outputVariable: "variable" },
+  call_agent: { inputTemplate: "input" },
+  human_input: { question: "prompt" },
+};
+
+/** Variables every run starts with */
+const BUILTIN_VARIABLES = ["input", "sessionContext", "conversation"];
+
+/**
+ * Analyze a flow. An empty flow is valid: the agent runs as a single prompt.
+ */
+export function analyzeFlow(steps: AgentFlowStep[]): FlowAnalysis {
+  const diagnostics: FlowDiagnostic[] = [];
+  if (steps.length === 0) {
+    return { valid: true, diagnostics };
+  }
+
+  const stepMap = buildStepMap(steps);
+  const startStep = findStartStep(steps);
+
+  checkStructure(steps, diagnostics);
+  for (const step of steps) {
+    checkConnections(step, stepMap, diagnostics);
+    checkConfig(step, stepMap, diagnostics);
+    checkPolicy(step, diagnostics);
+    checkModelParameters(step, diagnostics);
+    checkTemplates(step, diagnostics);
+  }
+
+  const reachable = new Set<string>();
+  if (startStep) {
+    collectReachable(startStep.id, stepMap, reachable);
+  }
+  for (const step of steps) {
+    if (!reachable.has(step.id) && step.type !== "start") {
+      diagnostics.push({
+        code: "unreachable_step",
+        severity: "warning",
+        message: `Step "${step.name}" is unreachable`,
+        stepId: step.id,
+        hint: "Connect it from an earlier step or remove it",
+      });
+    }
+  }
+
+  const reachableSteps = steps.filter((s) => reachable.has(s.id));
+  checkCycles(reachableSteps, stepMap, diagnostics);
+  checkParallelBranches(reachableSteps, stepMap, diagnostics);
+  if (startStep) {
+    checkVariables(startStep, reachableSteps, diagnostics);
+  }
+
+  return {
+    valid: !diagnostics.some((d) => d.severity === "error"),
+    diagnostics,
+  };
+}
+
+/**
+ * Join diagnostic messages into one line, e.g. for an error result
+ */
+export function formatFlowDiagnostics(diagnostics: FlowDiagnostic[]): string {
+  return diagnostics.map((d) => d.message).join("; ");
+}
+
+// ============ Structure ============
+
+function checkStructure(
+  steps: AgentFlowStep[],
+  diagnostics: FlowDiagnostic[]
+): void {
+  const startSteps = steps.filter((s) => s.type === "start");
+  if (startSteps.length > 1) {
+    diagnostics.push({
+      code: "multiple_starts",
+      severity: "warning",
+      message: `Flow has ${startSteps.length} start steps - only "${startSteps[0].name}" runs`,
+      stepId: startSteps[1].id,
+      hint: "Keep a single start step",
+    });
+  }
+
+  if (!steps.some((s) => s.type === "output")) {
+    diagnostics.push({
+      code: "missing_output",
+      severity: "warning",
+      message: "Flow has no output step - may not return a result",
+      hint: "End the flow with an output step",
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const step of steps) {
+    if (seen.has(step.id)) {
+      diagnostics.push({
+        code: "duplicate_step_id",
+        severity: "error",
+        message: `Step "${step.name}" reuses the ID ${step.id}`,
+        stepId: step.id,
+        hint: "Give every step a unique ID",
+      });
+    }
+    seen.add(step.id);
+
+    if (!(step.type in STEP_CONFIG_KEYS)) {
+      diagnostics.push({
+        code: "unknown_step_type",
+        severity: "error",
+        message: `Unknown step type "${step.type}" on step "${step.name}"`,
+        stepId: step.id,
+        hint: `Use one of: ${Object.keys(STEP_CONFIG_KEYS).join(", ")}`,
+      });
+    }
+  }
+}
+
+// ============ Connections ============
+
+type ConnectionKind = "next" | "onTrue" | "onFalse" | "onError" | "branch";
+
+interface Connection {
+  kind: ConnectionKind;
+  targetId: string;
+}
+
+function getConnections(step: AgentFlowStep): Connection[] {
+  const { next, onTrue, onFalse, onError, branches } = step.connections;
+  const connections: Connection[] = [];
+  if (next) connections.push({ kind: "next", targetId: next });
+  if (onTrue) connections.push({ kind: "onTrue", targetId: onTrue });
+  if (onFalse) connections.push({ kind: "onFalse", targetId: onFalse });
+  if (onError) connections.push({ kind: "onError", targetId: onError });
+  for (const branch of branches ?? []) {
+    connections.push({ kind: "branch", targetId: branch });
+  }
+  return connections;
+}
+
+function checkConnections(
+  step: AgentFlowStep,
+  stepMap: Map<string, AgentFlowStep>,
+  diagnostics: FlowDiagnostic[]
+): void {
+  for (const { kind, targetId } of getConnections(step)) {
+    if (!stepMap.has(targetId)) {
+      diagnostics.push({
+        code: "invalid_connection",
+        severity: "error",
+        message: `Step "${step.name}" has invalid ${kind} connection: ${targetId}`,
+        stepId: step.id,
+        hint: "Point it at an existing step or remove the connection",
+      });
+    }
+  }
+
+  const { connections } = step;
+  if (step.type === "condition" && !connections.onTrue && !connections.onFalse) {
+    diagnostics.push({
+      code: "missing_connection",
+      severity: "warning",
+      message: `Condition step "${step.name}" has no branch connections`,
+      stepId: step.id,
+      hint: "Connect onTrue and onFalse",
+    });
+  }
+  if (step.type === "loop" && !connections.onTrue) {
+    diagnostics.push({
+      code: "missing_connection",
+      severity: "warning",
+      message: `Loop step "${step.name}" has no body connection (onTrue)`,
+      stepId: step.id,
+      hint: connections.next
+        ? "Loops run their body from onTrue - move the next connection there"
+        : "Connect the first step of the loop body to onTrue",
+    });
+  }
+  if (step.type === "parallel") {
+    if (!connections.branches || connections.branches.length === 0) {
+      diagnostics.push({
+        code: "missing_connection",
+        severity: "error",
+        message: `Parallel step "${step.name}" has no branches`,
+        stepId: step.id,
+        hint: "Add the first step of each branch to branches",
+      });
+    }
+    const join = connections.next ? stepMap.get(connections.next) : undefined;
+    if (join?.type !== "join") {
+      diagnostics.push({
+        code: "missing_connection",
+        severity: "warning",
+        message: `Parallel step "${step.name}" does not continue to a join step`,
+        stepId: step.id,
+        hint: "Set next to the join step that collects the branches",
+      });
+    }
+  }
+}
+
+function collectReachable(
+  stepId: string,
+  stepMap: Map<string, AgentFlowStep>,
+  reachable: Set<string>
+): void {
+  const step = stepMap.get(stepId);
+  if (!step || reachable.has(stepId)) return;
+  reachable.add(stepId);
+  for (const { targetId } of getConnections(step)) {
+    collectReachable(targetId, stepMap, reachable);
+  }
+}
+
+// ============ Config ============
+
+function checkConfig(
+  step: AgentFlowStep,
+  stepMap: Map<string, AgentFlowStep>,
+  diagnostics: FlowDiagnostic[]
+): void {
+  const knownKeys = STEP_CONFIG_KEYS[step.type];
+  if (!knownKeys) return;
+
+  const { config } = step;
+  const missing = (message: string, hint: string) =>
+    diagnostics.push({
+      code: "missing_config",
+      severity: "error",
+      message,
+      stepId: step.id,
+      hint,
+    });
+
+  if (step.type === "tool" && !config.toolName) {
+    missing(
+      `Tool step "${step.name}" has no toolName configured`,
+      "Set toolName to one of the agent's tools"
+    );
+  }
+  if (step.type === "condition" && !config.condition) {
+    missing(
+      `Condition step "${step.name}" has no condition configured`,
+      'Set condition, e.g. "lastOutput contains \\"yes\\""'
+    );
+  }
+  if (step.type === "transform") {
+    checkAssignments(step, diagnostics);
+  }
+  if (step.type === "call_agent" && !config.agentId && !config.lineageId) {
+    missing(
+      `Call agent step "${step.name}" has no agentId or lineageId configured`,
+      "Set agentId, or lineageId with an optional version"
+    );
+  }
+  if (
+    step.type === "join" &&
+    config.strategy !== undefined &&
+    !JOIN_STRATEGIES.includes(config.strategy as JoinStrategy)
+  ) {
+    diagnostics.push({
+      code: "invalid_config",
+      severity: "error",
+      message: `Join step "${step.name}" has unknown strategy: ${String(config.strategy)}`,
+      stepId: step.id,
+      hint: `Use one of: ${JOIN_STRATEGIES.join(", ")}`,
+    });
+  }
+  if (
+    step.type === "loop" &&
+    config.maxIterations !== undefined &&
+    !(typeof config.maxIterations === "number" && config.maxIterations > 0)
+  ) {
+    diagnostics.push({
+      code: "invalid_config",
+      severity: "warning",
+      message: `Loop step "${step.name}" has invalid maxIterations: ${String(config.maxIterations)}`,
+      stepId: step.id,
+      hint: "Use a positive number; the loop falls back to 10 iterations",
+    });
+  }
+  if (step.type === "join" && !isParallelTarget(step.id, stepMap)) {
+    diagnostics.push({
+      code: "invalid_placement",
+      severity: "error",
+      message: `Join step "${step.name}" does not follow a parallel step`,
+      stepId: step.id,
+      hint: "Set it as the next connection of the parallel step",
+    });
+  }
+
+  const aliases = CONFIG_KEY_ALIASES[step.type] ?? {};
+  for (const key of Object.keys(config)) {
+    if (knownKeys.includes(key) || DESCRIPTIVE_CONFIG_KEYS.includes(key)) {
+      continue;
+    }
+    const alias = aliases[key];
+    diagnostics.push({
+      code: "ignored_config_key",
+      severity: "warning",
+      message: alias
+        ? `Step "${step.name}" sets "${key}", which is ignored - did you mean "${alias}"?`
+        : `Step "${step.name}" sets "${key}", which ${step.type} steps ignore`,
+      stepId: step.id,
+      hint: alias
+        ? `Rename "${key}" to "${alias}"`
+        : knownKeys.length > 0
+          ? `${capitalize(step.type)} steps read: ${knownKeys.join(", ")}`
+          : `${capitalize(step.type)} steps take no config`,
+    });
+  }
+}
+
+function checkAssignments(step: AgentFlowStep, diagnostics: FlowDiagnostic[]): void {
+  const { assignments } = step.config;
+  if (
+    !assignments ||
+    typeof assignments !== "object" ||
+    Array.isArray(assignments) ||
+    Object.keys(assignments).length === 0
+  ) {
+    diagnostics.push({
+      code: "missing_config",
+      severity: "error",
+      message: `Transform step "${step.name}" has no assignments configured`,
+      stepId: step.id,
+      hint: 'Set assignments, e.g. { "items": "split(lastOutput, \\"\\n\\")" }',
+    });
+    return;
+  }
+
+  const invalid = (message: string, hint: string) =>
+    diagnostics.push({
+      code: "invalid_config",
+      severity: "error",
+      message,
+      stepId: step.id,
+      hint,
+    });
+
+  for (const [name, expression] of Object.entries(assignments)) {
+    if (!isAssignableName(name)) {
+      invalid(
+        `Transform step "${step.name}" assigns to invalid variable name "${name}"`,
+        "Use letters, digits and underscores, not starting with a digit"
+      );
+    }
+    if (typeof expression !== "string") {
+      invalid(
+        `Transform step "${step.name}" assignment "${name}" is not an expression string`,
+        'Write the value as an expression, e.g. "split(lastOutput, \\",\\")"'
+      );
+      continue;
+    }
+    const validation = validateExpression(expression);
+    if (!validation.valid) {
+      invalid(
+        `Transform step "${step.name}" assignment "${name}" is invalid: ${validation.error}`,
+        "Fix the expression syntax"
+      );
+    }
+  }
+}
+
+function isParallelTarget(
+  stepId: string,
+  stepMap: Map<string, AgentFlowStep>
+): boolean {
+  for (const step of stepMap.values()) {
+    if (step.type === "parallel" && step.connections.next === stepId) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).replace(/_/g, " ");
+}
+
+// ============ Policies ============
+
+/** Step types whose handler calls the agent's model */
+const MODEL_STEP_TYPES: AgentFlowStep["type"][] = ["prompt", "join"];
+
+/**
+ * Check a step's retry, timeout and fallback policy. A bad policy only
+ * changes how failures of the step are handled, so these are warnings.
+ */
+function checkPolicy(step: AgentFlowStep, diagnostics: FlowDiagnostic[]): void {
+  const { policy } = step;
+  if (!policy) return;
+
+  const invalid = (message: string, hint: string) =>
+    diagnostics.push({
+      code: "invalid_config",
+      severity: "warning",
+      message,
+      stepId: step.id,
+      hint,
+    });
+
+  if (
+    policy.retries !== undefined &&
+    !(Number.isInteger(policy.retries) && policy.retries >= 0)
+  ) {
+    invalid(
+      `Step "${step.name}" has invalid retries: ${String(policy.retries)}`,
+      "Use a whole number of extra attempts, e.g. 2"
+    );
+  }
+  if (
+    policy.backoffMs !== undefined &&
+    !(typeof policy.backoffMs === "number" && policy.backoffMs >= 0)
+  ) {
+    invalid(
+      `Step "${step.name}" has invalid backoffMs: ${String(policy.backoffMs)}`,
+      "Use a number of milliseconds, 0 or more"
+    );
+  }
+  if (
+    policy.timeoutMs !== undefined &&
+    !(typeof policy.timeoutMs === "number" && policy.timeoutMs > 0)
+  ) {
+    invalid(
+      `Step "${step.name}" has invalid timeoutMs: ${String(policy.timeoutMs)}`,
+      "Use a positive number of milliseconds, or remove it for no timeout"
+    );
+  }
+
+  const { fallback } = policy;
+  if (!fallback) return;
+
+  if (!["model", "value", "skip"].includes(fallback.type)) {
+    invalid(
+      `Step "${step.name}" has unknown fallback: ${String(fallback.type)}`,
+      "Use a model, value or skip fallback"
+    );
+  } else if (fallback.type === "model") {
+    if (!fallback.model) {
+      invalid(
+        `Step "${step.name}" has a model fallback without a model`,
+        "Set the model to rerun the step on"
+      );
+    } else if (!MODEL_STEP_TYPES.includes(step.type)) {
+      invalid(
+        `Step "${step.name}" falls back to another model, but ${step.type} steps don't call the agent's model`,
+        "Use a value or skip fallback instead"
+      );
+    }
+  } else if (!step.connections.next && step.type !== "output") {
+    invalid(
+      `Step "${step.name}" has a ${fallback.type} fallback but no next step to continue at`,
+      "Connect a next step, or the run ends when the fallback is used"
+    );
+  }
+}
+
+// ============ Model parameters ============
+
+/** Step types whose LLM calls take the step's model parameters */
+export const MODEL_PARAMETER_STEP_TYPES: AgentFlowStep["type"][] = ["prompt", "tool"];
+
+/**
+ * Check a step's model and sampling overrides. Out-of-range values are
+ * errors, since every call of the step would fail at the provider.
+ */
+function checkModelParameters(
+  step: AgentFlowStep,
+  diagnostics: FlowDiagnostic[]
+): void {
+  const { modelParameters } = step;
+  if (!modelParameters) return;
+
+  if (!MODEL_PARAMETER_STEP_TYPES.includes(step.type)) {
+    diagnostics.push({
+      code: "ignored_config_key",
+      severity: "warning",
+      message: `Step "${step.name}" sets model parameters, which ${step.type} steps ignore`,
+      stepId: step.id,
+      hint: "Set model parameters on prompt and tool steps",
+    });
+    return;
+  }
+
+  const invalid = (message: string, hint: string) =>
+    diagnostics.push({
+      code: "invalid_config",
+      severity: "error",
+      message,
+      stepId: step.id,
+      hint,
+    });
+  const { model, temperature, topP, maxTokens } = modelParameters;
+
+  if (model !== undefined && !(typeof model === "string" && model.trim())) {
+    invalid(
+      `Step "${step.name}" has an empty model override`,
+      "Set a model ID, or remove it to use the agent's model"
+    );
+  }
+  if (
+    temperature !== undefined &&
+    !(typeof temperature === "number" && temperature >= 0 && temperature <= 2)
+  ) {
+    invalid(
+      `Step "${step.name}" has invalid temperature: ${String(temperature)}`,
+      "Use a number from 0 to 2"
+    );
+  }
+  if (
+    topP !== undefined &&
+    !(typeof topP === "number" && topP > 0 && topP <= 1)
+  ) {
+    invalid(
+      `Step "${step.name}" has invalid topP: ${String(topP)}`,
+      "Use a number above 0 and at most 1"
+    );
+  }
+  if (
+    maxTokens !== undefined &&
+    !(Number.isInteger(maxTokens) && maxTokens > 0)
+  ) {
+    invalid(
+      `Step "${step.name}" has invalid maxTokens: ${String(maxTokens)}`,
+      "Use a whole number of tokens, e.g. 1024"
+    );
+  }
+}
+
+// ============ Cycles ============
+
+/**
+ * Report strongly connected groups of steps that loop without a `loop`
+ * step. Those repeat until the step limit unless something else exits
+ * them; with no exit at all, the run always ends at the limit.
+ */
+function checkCycles(
+  steps: AgentFlowStep[],
+  stepMap: Map<string, AgentFlowStep>,
+  diagnostics: FlowDiagnostic[]
+): void {
+  for (const component of findCycles(steps, stepMap)) {
+    if (component.some((s) => s.type === "loop")) continue;
+
+    const ids = new Set(component.map((s) => s.id));
+    const hasExit = component.some(
+      (step) =>
+        getConnections(step).some(
+          ({ kind, targetId }) => kind !== "onError" && !ids.has(targetId)
+        ) ||
+        // A condition with one branch unset ends the flow on that branch
+        (step.type === "condition" &&
+          (!step.connections.onTrue || !step.connections.onFalse))
+    );
+    const names = component.map((s) => `"${s.name}"`).join(" → ");
+
+    diagnostics.push({
+      code: "unbounded_cycle",
+      severity: hasExit ? "warning" : "error",
+      message: hasExit
+        ? `Steps ${names} form a cycle that bypasses a loop step`
+        : `Steps ${names} form a cycle with no way out`,
+      stepId: component[0].id,
+      hint: hasExit
+        ? "It can repeat until the step limit - route it through a loop step to bound it"
+        : "Add a loop or condition step that leaves the cycle",
+    });
+  }
+}
+
+/**
+ * Strongly connected components with a cycle in them (Tarjan's algorithm),
+ * each in flow order
+ */
+function findCycles(
+  steps: AgentFlowStep[],
+  stepMap: Map<string, AgentFlowStep>
+): AgentFlowStep[][] {
+  const order = new Map(steps.map((s, i) => [s.id, i]));
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: AgentFlowStep[][] = [];
+  let counter = 0;
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    const step = stepMap.get(id)!;
+    for (const { targetId } of getConnections(step)) {
+      if (!order.has(targetId)) continue;
+      if (!index.has(targetId)) {
+        visit(targetId);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(targetId)!));
+      } else if (onStack.has(targetId)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(targetId)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+
+      const selfLoop = getConnections(step).some((c) => c.targetId === id);
+      if (component.length > 1 || selfLoop) {
+        cycles.push(
+          component
+            .sort((a, b) => order.get(a)! - order.get(b)!)
+            .map((memberId) => stepMap.get(memberId)!)
+        );
+      }
+    }
+  };
+
+  for (const step of steps) {
+    if (!index.has(step.id)) visit(step.id);
+  }
+  return cycles.sort(
+    (a, b) => order.get(a[0].id)! - order.get(b[0].id)!
+  );
+}
+
+// ============ Parallel branches ============
+
+/**
+ * Branches run with their own context and can't pause for the user
+ */
+function checkParallelBranches(
+  steps: AgentFlowStep[],
+  stepMap: Map<string, AgentFlowStep>,
+  diagnostics: FlowDiagnostic[]
+): void {
+  for (const step of steps) {
+    if (step.type !== "parallel") continue;
+
+    const branchSteps = new Set<string>();
+    const pending = [...(step.connections.branches ?? [])];
+    while (pending.length > 0) {
+      const id = pending.pop()!;
+      const branchStep = stepMap.get(id);
+      if (!branchStep || branchStep.type === "join" || branchSteps.has(id)) {
+        continue;
+      }
+      branchSteps.add(id);
+      pending.push(...getConnections(branchStep).map((c) => c.targetId));
+    }
+
+    for (const id of branchSteps) {
+      const branchStep = stepMap.get(id)!;
+      if (branchStep.type === "human_input") {
+        diagnostics.push({
+          code: "invalid_placement",
+          severity: "error",
+          message: `Human input step "${branchStep.name}" runs inside a parallel branch`,
+          stepId: branchStep.id,
+          hint: `Move it before or after parallel step "${step.name}"`,
+        });
+      }
+    }
+  }
+}
+
+// ============ Variables ============
+
+/**
+ * Variables a step writes when it runs
+ */
+function getWrittenVariables(step: AgentFlowStep): string[] {
+  const outputVariable = step.config.outputVariable as string | undefined;
+  switch (step.type) {
+    case "start":
+      return Object.keys(
+        (step.config.variables as Record<string, unknown> | undefined) ?? {}
+      );
+    case "prompt":
+    case "call_agent":
+      return [outputVariable || "lastOutput", "lastOutput", "error"];
+    case "tool":
+      return [
+        outputVariable || "lastToolResult",
+        "lastToolResult",
+        "lastToolSuccess",
+        "error",
+      ];
+    case "condition":
+      return ["error"];
+    case "transform":
+      return [...Object.keys(getAssignments(step)), "error"];
+    case "loop":
+      return [
+        "loopIndex",
+        (step.config.itemVariable as string | undefined) || "item",
+      ];
+    case "join":
+      return [
+        "branches",
+        "judgeChoice",
+        outputVariable || "lastOutput",
+        "lastOutput",
+        "error",
+      ];
+    case "human_input":
+      return [outputVariable || "humanInput", "lastOutput"];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Variables a step reads: `{{name}}` references anywhere in its config,
+ * plus the loop's items variable and the variables of transform expressions
+ */
+function getReadVariables(step: AgentFlowStep): string[] {
+  const names = new Set<string>();
+  collectReferences(step.config, names);
+  if (step.type === "loop" && typeof step.config.itemsVariable === "string") {
+    names.add(step.config.itemsVariable);
+  }
+  // Later assignments may read what earlier ones in the same step wrote
+  if (step.type === "transform") {
+    const assigned = new Set<string>();
+    for (const [name, expression] of Object.entries(getAssignments(step))) {
+      if (typeof expression === "string" && validateExpression(expression).valid) {
+        getExpressionVariables(expression)
+          .filter((variable) => !assigned.has(variable))
+          .forEach((variable) => names.add(variable));
+      }
+      assigned.add(name);
+    }
+  }
+  // The join prompt also sees the branch values
+  if (step.type === "join") {
+    names.delete("candidates");
+    names.delete("branches");
+  }
+  return [...names];
+}
+
+function getAssignments(step: AgentFlowStep): Record<string, unknown> {
+  const { assignments } = step.config;
+  return assignments && typeof assignments === "object" && !Array.isArray(assignments)
+    ? (assignments as Record<string, unknown>)
+    : {};
+}
+
+function collectReferences(value: unknown, names: Set<string>): void {
+  for (const template of collectTemplates(value)) {
+    getTemplateVariables(template).forEach((name) => names.add(name));
+  }
+}
+
+/**
+ * Config strings that use template syntax
+ */
+function collectTemplates(value: unknown, templates: string[] = []): string[] {
+  if (typeof value === "string") {
+    if (value.includes("{{")) templates.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectTemplates(item, templates));
+  } else if (value && typeof value === "object") {
+    Object.values(value).forEach((item) => collectTemplates(item, templates));
+  }
+  return templates;
+}
+
+// ============ Templates ============
+
+function checkTemplates(step: AgentFlowStep, diagnostics: FlowDiagnostic[]): void {
+  for (const template of collectTemplates(step.config)) {
+    for (const issue of lintTemplate(template)) {
+      diagnostics.push({
+        code: "invalid_template",
+        severity: issue.severity,
+        message: `Step "${step.name}": ${issue.message}`,
+        stepId: step.id,
+        hint: issue.hint,
+      });
+    }
+  }
+}
+
+/**
+ * Find references to variables that no path from the start step writes
+ * before the step runs
+ */
+function checkVariables(
+  startStep: AgentFlowStep,
+  steps: AgentFlowStep[],
+  diagnostics: FlowDiagnostic[]
+): void {
+  // Variables that may be set when each step starts
+  const available = new Map<string, Set<string>>(
+    steps.map((s) => [s.id, new Set<string>()])
+  );
+  BUILTIN_VARIABLES.forEach((name) => available.get(startStep.id)?.add(name));
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const step of steps) {
+      const before = available.get(step.id)!;
+      const after = new Set([...before, ...getWrittenVariables(step)]);
+      for (const { targetId } of getConnections(step)) {
+        const target = available.get(targetId);
+        if (!target) continue;
+        for (const name of after) {
+          if (!target.has(name)) {
+            target.add(name);
+            changed = true;
+          }
+        }
+      }
+    }
+  }
+
+  for (const step of steps) {
+    const before = available.get(step.id)!;
+    for (const name of getReadVariables(step)) {
+      if (before.has(name)) continue;
+      diagnostics.push({
+        code: "undefined_variable",
+        severity: "warning",
+        message: `Step "${step.name}" uses {{${name}}} before any step sets it`,
+        stepId: step.id,
+        hint: `Set outputVariable to "${name}" on an earlier step, or use one of: ${[...before].sort().join(", ")}`,
+      });
+    }
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Output Contracts
+ *
+ * Checks a flow's final output against the agent's output contract: a JSON
+ * schema, required Markdown headings, a regular expression and word limits.
+ * The output step asks the model to repair output that fails the check.
+ */
+
+import type { AgentOutputContract } from "../../types/agent";
+import { validateAgainstSchema, type JsonSchema } from "../../api/structured";
+
+/** Repair rounds when the contract leaves maxRepairAttempts unset */
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+export type ContractRule = "json" | "schema" | "headings" | "pattern" | "words";
+
+export interface ContractViolation {
+  rule: ContractRule;
+  message: string;
+}
+
+export interface ContractCheck {
+  violations: ContractViolation[];
+  /** The output as checked; JSON output loses its Markdown code fence */
+  output: string;
+}
+
+/**
+ * Check an output against a contract
+ */
+export function checkOutputContract(
+  output: string,
+  contract: AgentOutputContract
+): ContractCheck {
+  const violations: ContractViolation[] = [];
+  let checked = output;
+
+  if (contract.jsonSchema) {
+    checked = stripCodeFence(output);
+    try {
+      const value: unknown = JSON.parse(checked);
+      for (const message of validateAgainstSchema(value, contract.jsonSchema)) {
+        violations.push({ rule: "schema", message });
+      }
+    } catch (error) {
+      violations.push({
+        rule: "json",
+        message: `Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      });
+    }
+  }
+
+  if (contract.requiredHeadings && contract.requiredHeadings.length > 0) {
+    for (const message of checkHeadings(checked, contract.requiredHeadings)) {
+      violations.push({ rule: "headings", message });
+    }
+  }
+
+  if (contract.pattern && !new RegExp(contract.pattern).test(checked)) {
+    violations.push({
+      rule: "pattern",
+      message: `Output does not match /${contract.pattern}/`,
+    });
+  }
+
+  const words = countWords(checked);
+  if (contract.minWords !== undefined && words < contract.minWords) {
+    violations.push({
+      rule: "words",
+      message: `Output has ${words} words; at least ${contract.minWords} required`,
+    });
+  }
+  if (contract.maxWords !== undefined && words > contract.maxWords) {
+    violations.push({
+      rule: "words",
+      message: `Output has ${words} words; at most ${contract.maxWords} allowed`,
+    });
+  }
+
+  return { violations, output: checked };
+}
+
+/**
+ * The contract's rules as sentences, for repair prompts and display
+ */
+export function describeOutputContract(contract: AgentOutputContract): string[] {
+  const rules: string[] = [];
+
+  if (contract.jsonSchema) {
+    rules.push(
+      Object.keys(contract.jsonSchema).length === 0
+        ? "Respond with valid JSON only"
+        : `Respond with JSON only, matching this JSON Schema: ${JSON.stringify(contract.jsonSchema)}`
+    );
+  }
+  if (contract.requiredHeadings && contract.requiredHeadings.length > 0) {
+    rules.push(
+      `Include these Markdown headings, in this order: ${contract.requiredHeadings
+        .map((heading) => `"${heading}"`)
+        .join(", ")}`
+    );
+  }
+  if (contract.pattern) {
+    rules.push(`Match the regular expression /${contract.pattern}/`);
+  }
+  if (contract.minWords !== undefined && contract.maxWords !== undefined) {
+    rules.push(`Use between ${contract.minWords} and ${contract.maxWords} words`);
+  } else if (contract.minWords !== undefined) {
+    rules.push(`Use at least ${contract.minWords} words`);
+  } else if (contract.maxWords !== undefined) {
+    rules.push(`Use at most ${contract.maxWords} words`);
+  }
+
+  return rules;
+}
+
+/**
+ * Problems with a contract itself, such as an invalid regular expression.
+ * Output steps refuse to run contracts with problems.
+ */
+export function lintOutputContract(contract: AgentOutputContract): string[] {
+  const problems: string[] = [];
+
+  if (contract.pattern !== undefined && !isValidRegExp(contract.pattern)) {
+    problems.push(`Pattern /${contract.pattern}/ is not a valid regular expression`);
+  }
+  if (contract.jsonSchema) {
+    problems.push(...lintSchema(contract.jsonSchema, "$"));
+  }
+  if (
+    contract.minWords !== undefined &&
+    contract.maxWords !== undefined &&
+    contract.minWords > contract.maxWords
+  ) {
+    problems.push(
+      `minWords (${contract.minWords}) is greater than maxWords (${contract.maxWords})`
+    );
+  }
+  if (contract.maxRepairAttempts !== undefined && contract.maxRepairAttempts < 0) {
+    problems.push("maxRepairAttempts cannot be negative");
+  }
+
+  return problems;
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Models often wrap JSON in a ```json fence; the contract checks the JSON
+ */
+function stripCodeFence(output: string): string {
+  const trimmed = output.trim();
+  const fenced = trimmed.match(/^```[\w-]*[ \t]*\n([\s\S]*?)\n?```$/);
+  return fenced ? fenced[1].trim() : trimmed;
+}
+
+/**
+ * Required headings missing from the output or out of order
+ */
+function checkHeadings(output: string, required: string[]): string[] {
+  const headings = output
+    .split("\n")
+    .map((line) => line.match(/^ {0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/)?.[1])
+    .filter((heading): heading is string => heading !== undefined)
+    .map(normalizeHeading);
+
+  const problems: string[] = [];
+  let position = -1;
+  for (const heading of required) {
+    const wanted = normalizeHeading(heading);
+    const next = headings.indexOf(wanted, position + 1);
+    if (next !== -1) {
+      position = next;
+    } else if (headings.includes(wanted)) {
+      problems.push(`Heading "${heading}" is out of order`);
+    } else {
+      problems.push(`Missing heading "${heading}"`);
+    }
+  }
+  return problems;
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/^#+\s*/, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function lintSchema(schema: JsonSchema, path: string): string[] {
+  const problems: string[] = [];
+  if (schema.pattern !== undefined && !isValidRegExp(schema.pattern)) {
+    problems.push(`Schema pattern at ${path} is not a valid regular expression`);
+  }
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    problems.push(...lintSchema(property, `${path}.${key}`));
+  }
+  if (schema.items) {
+    problems.push(...lintSchema(schema.items, `${path}[]`));
+  }
+  return problems;
+}
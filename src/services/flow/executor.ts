@@ -3,20 +3,45 @@
  *
  * Executes agent flows by following step connections and executing
  * each step type with the appropriate handler. Provides full
- * observability through execution spans.
+ * observability through execution spans, and a debug mode that pauses
+ * before steps so their variables can be inspected and edited.
  */
 
-import type { AgentDefinition, AgentFlowStep } from "../../types/agent";
-import type { ExecutionSpan } from "../../types/evolution";
-import { generateWithSystem } from "../../api/llm";
-import { createSpan, updateAttempt } from "../../db/queries";
+import type {
+  AgentDefinition,
+  AgentFlowStep,
+  ConversationTurn,
+  OutputContractResult,
+} from "../../types/agent";
+import type {
+  ExecutionSpan,
+  FlowCheckpoint,
+  FlowSnapshot,
+} from "../../types/evolution";
+import {
+  generateWithSystem,
+  type LLMCallUsage,
+  type TokenCallback,
+} from "../../api/llm";
+import { createSpan, getSpansByAttempt, updateAttempt } from "../../db/queries";
+import { createFlowCheckpoint } from "../../db/checkpoint-queries";
+import { CancelledError, delay, isCancelledError } from "../../utils/abort";
+import { continueConversation } from "../../utils/conversation";
 import {
   stepHandlers,
   buildStepMap,
   findStartStep,
   createFlowContext,
+  restoreFlowContext,
+  snapshotFlowContext,
+  formatValue,
+  type FlowContext,
+  type LoopState,
   type StepHandler,
+  type SubAgentRunner,
 } from "./handlers";
+import { analyzeFlow, formatFlowDiagnostics } from "./analyzer";
+import { runStepWithPolicy } from "./policy";
 
 /**
  * Result of executing a complete flow
@@ -36,6 +61,23 @@ export interface FlowExecutionResult {
   stepsExecuted: number;
   /** Final variables state */
   variables?: Record<string, unknown>;
+  /** How the output fared against the agent's output contract, if it has one */
+  outputContract?: OutputContractResult;
+  /**
+   * Set when the run paused at a human_input step; pass the snapshot and
+   * the user's answer to resumeFlow to continue
+   */
+  suspended?: FlowSuspension;
+}
+
+/**
+ * Where and why a run paused
+ */
+export interface FlowSuspension {
+  stepId: string;
+  /** Question for the user */
+  prompt: string;
+  snapshot: FlowSnapshot;
 }
 
 /**
@@ -46,12 +88,71 @@ export interface FlowExecutionOptions {
   maxSteps?: number;
   /** Optional session context to include */
   sessionContext?: string;
+  /** Earlier turns of the conversation the input continues */
+  conversation?: ConversationTurn[];
   /** Whether to create spans in the database */
   createSpans?: boolean;
+  /**
+   * Save a checkpoint before each top-level step so the run can be replayed
+   * (default true; only runs that create spans save them)
+   */
+  checkpoints?: boolean;
   /** Parent span ID for nesting */
   parentSpanId?: string;
   /** Session ID for debug logging */
   sessionId?: string;
+  /** Stream LLM output from prompt steps as it is generated */
+  onToken?: TokenCallback;
+  /**
+   * Cancels the run between steps and aborts in-flight LLM and tool calls.
+   * A cancelled run throws CancelledError instead of returning a result.
+   */
+  signal?: AbortSignal;
+  /** Runs the agents of call_agent steps; without it those steps fail */
+  runSubAgent?: SubAgentRunner;
+  /** Number of call_agent steps this flow is nested in */
+  callDepth?: number;
+  /**
+   * Run in debug mode: pause before steps with a breakpoint, and before
+   * every step while stepping. Only the top-level walk pauses; parallel
+   * branches and called agents run through.
+   */
+  debug?: FlowDebugHooks;
+}
+
+/**
+ * A debug run paused before a step
+ */
+export interface FlowDebugPause {
+  /** The step about to run */
+  stepId: string;
+  /** The step the run came from; null before the first step */
+  fromStepId: string | null;
+  reason: "breakpoint" | "step";
+  /** Copy of the variables as the step will see them */
+  variables: Record<string, unknown>;
+  /** Copy of the state of the loops in progress, by loop step ID */
+  loopState: Record<string, LoopState>;
+  stepsExecuted: number;
+}
+
+/**
+ * How a paused debug run goes on: run to the next breakpoint, run one step
+ * and pause again, or stop (the run throws CancelledError). `variables`
+ * are set before the step runs.
+ */
+export interface FlowDebugCommand {
+  action: "continue" | "step" | "stop";
+  variables?: Record<string, unknown>;
+}
+
+export interface FlowDebugHooks {
+  /** Asked before every step, so breakpoints can change during the run */
+  isBreakpoint: (stepId: string) => boolean;
+  /** Pause before the first step */
+  stepFromStart?: boolean;
+  /** Called when the run pauses; the run waits for the command */
+  onPause: (pause: FlowDebugPause) => Promise<FlowDebugCommand>;
 }
 
 /** Default maximum steps to prevent infinite loops */
@@ -66,6 +167,8 @@ const DEFAULT_MAX_STEPS = 100;
  * - Executing steps in order following connections
  * - Recording spans for observability
  * - Handling max steps limit
+ * - Refusing flows with analyzer errors (see analyzeFlow)
+ * - Pausing at human_input steps (see resumeFlow)
  * - Falling back to single prompt if no flow defined
  */
 export async function executeFlow(
@@ -75,7 +178,6 @@ export async function executeFlow(
   options: FlowExecutionOptions = {}
 ): Promise<FlowExecutionResult> {
   const startTime = Date.now();
-  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
 
   // Check if agent has a valid flow
   if (!agent.flow || agent.flow.length === 0) {
@@ -97,6 +199,19 @@ export async function executeFlow(
     };
   }
 
+  // Refuse flows the analyzer knows will misbehave
+  const flowErrors = getFlowErrors(agent.flow);
+  if (flowErrors) {
+    return {
+      success: false,
+      output: "",
+      spans: [],
+      error: flowErrors,
+      durationMs: Date.now() - startTime,
+      stepsExecuted: 0,
+    };
+  }
+
   const hasOutputStep = agent.flow.some((s) => s.type === "output");
   if (!hasOutputStep) {
     console.warn(
@@ -110,20 +225,429 @@ export async function executeFlow(
   // Create execution context
   const context = createFlowContext(agent, input, attemptId, {
     sessionContext: options.sessionContext,
+    conversation: options.conversation,
     parentSpanId: options.parentSpanId,
     sessionId: options.sessionId,
     createSpans: options.createSpans,
+    onToken: options.onToken,
+    signal: options.signal,
+    runSubAgent: options.runSubAgent,
+    callDepth: options.callDepth,
+  });
+
+  return runFlow(startStep, stepMap, context, options, { startTime });
+}
+
+/**
+ * Continue a run that paused at a human_input step, with the user's answer
+ *
+ * The snapshot's spans and variables carry over, so the result covers the
+ * whole run. `agent` should be the version that started the run.
+ */
+export async function resumeFlow(
+  agent: AgentDefinition,
+  snapshot: FlowSnapshot,
+  attemptId: string,
+  answer: string,
+  options: FlowExecutionOptions = {}
+): Promise<FlowExecutionResult> {
+  const startTime = Date.now();
+  const stepMap = buildStepMap(agent.flow ?? []);
+  const step = stepMap.get(snapshot.stepId);
+  if (!step) {
+    return {
+      success: false,
+      output: "",
+      spans: snapshot.spans,
+      error: `Step not found: ${snapshot.stepId}`,
+      durationMs: Date.now() - startTime,
+      stepsExecuted: snapshot.stepsExecuted,
+    };
+  }
+
+  const context = restoreFlowContext(agent, snapshot, attemptId, {
+    sessionId: options.sessionId,
+    createSpans: options.createSpans,
+    onToken: options.onToken,
+    signal: options.signal,
+    runSubAgent: options.runSubAgent,
+    callDepth: options.callDepth,
+  });
+  context.humanResponse = answer;
+
+  return runFlow(step, stepMap, context, options, {
+    startTime,
+    stepsExecuted: snapshot.stepsExecuted,
+  });
+}
+
+/**
+ * Rerun an attempt from one of its checkpoints: the checkpointed step and
+ * everything after it run again, starting from the variables the step saw
+ *
+ * `agent` may be an edited or evolved version of the one that made the
+ * checkpoint; the step is looked up by ID, then by name. The spans the
+ * checkpoint lists (the ones recorded before the step) are copied onto
+ * `attemptId` and carry over into the result.
+ */
+export async function replayFlow(
+  agent: AgentDefinition,
+  checkpoint: FlowCheckpoint,
+  attemptId: string,
+  options: FlowExecutionOptions = {}
+): Promise<FlowExecutionResult> {
+  const startTime = Date.now();
+  const snapshot: FlowSnapshot = {
+    ...checkpoint.snapshot,
+    spans: carryOverSpans(
+      loadCheckpointSpans(checkpoint),
+      attemptId,
+      options.createSpans ?? true
+    ),
+  };
+  const flow = agent.flow ?? [];
+  const fail = (error: string): FlowExecutionResult => ({
+    success: false,
+    output: "",
+    spans: snapshot.spans,
+    error,
+    durationMs: Date.now() - startTime,
+    stepsExecuted: snapshot.stepsExecuted,
+  });
+
+  const step = findCheckpointStep(flow, checkpoint);
+  if (!step) {
+    return fail(`Step not found: ${checkpoint.stepName}`);
+  }
+  const flowErrors = getFlowErrors(flow);
+  if (flowErrors) {
+    return fail(flowErrors);
+  }
+
+  const context = restoreFlowContext(agent, snapshot, attemptId, {
+    sessionId: options.sessionId,
+    createSpans: options.createSpans,
+    onToken: options.onToken,
+    signal: options.signal,
+    runSubAgent: options.runSubAgent,
+    callDepth: options.callDepth,
+  });
+
+  return runFlow(step, buildStepMap(flow), context, options, {
+    startTime,
+    stepsExecuted: snapshot.stepsExecuted,
   });
+}
+
+/**
+ * The spans a checkpoint lists, read back from its attempt in their order
+ */
+function loadCheckpointSpans(checkpoint: FlowCheckpoint): ExecutionSpan[] {
+  const byId = new Map(
+    getSpansByAttempt(checkpoint.attemptId).map((span) => [span.id, span])
+  );
+  return checkpoint.spanIds.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Copy the spans an attempt recorded before a checkpoint onto a replay's
+ * attempt under new IDs, keeping their nesting
+ */
+function carryOverSpans(
+  spans: ExecutionSpan[],
+  attemptId: string,
+  persist: boolean
+): ExecutionSpan[] {
+  const byId = new Map(spans.map((span) => [span.id, span]));
+  const copies = new Map<string, ExecutionSpan>();
+
+  const copy = (span: ExecutionSpan): ExecutionSpan => {
+    const existing = copies.get(span.id);
+    if (existing) return existing;
+
+    const parent = span.parentSpanId ? byId.get(span.parentSpanId) : undefined;
+    const spanCopy = createSpan(
+      {
+        attemptId,
+        parentSpanId: parent ? copy(parent).id : span.parentSpanId,
+        sequence: span.sequence,
+        type: span.type,
+        input: span.input,
+        output: span.output,
+        modelId: span.modelId,
+        promptTokens: span.promptTokens,
+        completionTokens: span.completionTokens,
+        toolName: span.toolName,
+        toolArgs: span.toolArgs,
+        toolResult: span.toolResult,
+        toolError: span.toolError,
+        durationMs: span.durationMs,
+        estimatedCost: span.estimatedCost,
+      },
+      persist
+    );
+    copies.set(span.id, spanCopy);
+    return spanCopy;
+  };
+
+  return spans.map(copy);
+}
+
+function findCheckpointStep(
+  flow: AgentFlowStep[],
+  checkpoint: FlowCheckpoint
+): AgentFlowStep | undefined {
+  const byId = flow.find((s) => s.id === checkpoint.stepId);
+  if (byId) return byId;
+
+  // Evolved versions get new step IDs; names usually survive
+  const byName = flow.filter((s) => s.name === checkpoint.stepName);
+  return byName.length === 1 ? byName[0] : undefined;
+}
+
+/**
+ * The analyzer's errors for a flow as one message, if it has any
+ */
+function getFlowErrors(flow: AgentFlowStep[]): string | undefined {
+  const analysis = analyzeFlow(flow);
+  if (analysis.valid) return undefined;
+
+  const errors = analysis.diagnostics.filter((d) => d.severity === "error");
+  return `Flow has errors: ${formatFlowDiagnostics(errors)}`;
+}
+
+/**
+ * Record the state before a top-level step, so the attempt can be replayed
+ * from that step (see replayFlow). Failing to save one doesn't stop the run.
+ */
+function saveCheckpoint(
+  context: FlowContext,
+  step: AgentFlowStep,
+  stepsExecuted: number
+): void {
+  try {
+    createFlowCheckpoint({
+      attemptId: context.attemptId,
+      stepId: step.id,
+      stepName: step.name,
+      sequence: context.sequence,
+      snapshot: snapshotFlowContext(context, step.id, stepsExecuted),
+      spanIds: context.spans.map((span) => span.id),
+    });
+  } catch (error) {
+    console.warn("[Flow] Failed to save checkpoint:", error);
+  }
+}
+
+/**
+ * Walk a flow from `startStep` and turn the walk into a result: the shared
+ * part of starting, resuming and replaying a run
+ */
+async function runFlow(
+  startStep: AgentFlowStep,
+  stepMap: Map<string, AgentFlowStep>,
+  context: FlowContext,
+  options: FlowExecutionOptions,
+  run: { startTime: number; stepsExecuted?: number }
+): Promise<FlowExecutionResult> {
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const previousSteps = run.stepsExecuted ?? 0;
+
+  // Parallel branches walk the same step map with their own context
+  context.runBranch = async (startStepId, branchContext, joinStepId) => {
+    const branchStart = stepMap.get(startStepId);
+    if (!branchStart) {
+      return {
+        success: false,
+        output: "",
+        error: `Step not found: ${startStepId}`,
+        stepsExecuted: 0,
+      };
+    }
+
+    const branch = await runSteps(branchStart, stepMap, branchContext, {
+      maxSteps,
+      signal: options.signal,
+      stopAtStepId: joinStepId,
+    });
+    if (branch.cancelled) {
+      throw new CancelledError();
+    }
+
+    const hitLimit =
+      !branch.suspension &&
+      branch.currentStep !== null &&
+      branch.currentStep.id !== joinStepId;
+    const error =
+      branch.error ??
+      (branch.suspension
+        ? "Parallel branches cannot wait for human input"
+        : undefined) ??
+      (hitLimit
+        ? `Branch exceeded maximum steps limit (${maxSteps})`
+        : undefined);
+    return {
+      success: !error,
+      output: branch.lastOutput,
+      error,
+      stepsExecuted: branch.stepsExecuted,
+    };
+  };
 
   // Execute flow
+  const walk = await runSteps(startStep, stepMap, context, {
+    maxSteps: maxSteps - previousSteps,
+    signal: options.signal,
+    debug: options.debug,
+    // Persisted runs can be replayed; branch steps have no checkpoints
+    onStep:
+      context.createSpans && options.checkpoints !== false
+        ? (step, walked) => saveCheckpoint(context, step, previousSteps + walked)
+        : undefined,
+  });
+  const { currentStep } = walk;
+  const stepsExecuted = previousSteps + walk.stepsExecuted;
+  let lastError = walk.error;
+
+  // Leave the attempt for the caller to mark as cancelled
+  if (walk.cancelled) {
+    throw new CancelledError();
+  }
+
+  // The attempt stays running until the run is resumed
+  if (walk.suspension) {
+    return {
+      success: false,
+      output: "",
+      spans: context.spans,
+      durationMs: Date.now() - run.startTime,
+      stepsExecuted,
+      variables: context.variables,
+      suspended: {
+        ...walk.suspension,
+        snapshot: snapshotFlowContext(
+          context,
+          walk.suspension.stepId,
+          stepsExecuted
+        ),
+      },
+    };
+  }
+
+  // Check if we hit the max steps limit
+  if (stepsExecuted >= maxSteps && currentStep !== null) {
+    lastError = lastError || `Flow exceeded maximum steps limit (${maxSteps})`;
+  }
+
+  // Determine final output
+  const finalOutput = formatValue(walk.lastOutput);
+
+  // Calculate duration
+  const durationMs = Date.now() - run.startTime;
+
+  // Update attempt if we have spans
+  if (context.spans.length > 0) {
+    try {
+      updateAttempt(context.attemptId, {
+        output: finalOutput,
+        // If there was any error, the attempt failed
+        status: lastError ? "failed" : "succeeded",
+        error: lastError,
+        durationMs,
+      });
+    } catch {
+      // Ignore update errors
+    }
+  }
+
+  return {
+    // Success = no error occurred during execution
+    // Previously this was `!lastError || currentStep === null` which incorrectly
+    // marked errored flows as successful when they terminated (currentStep === null)
+    success: !lastError,
+    output: finalOutput,
+    spans: context.spans,
+    error: lastError,
+    durationMs,
+    stepsExecuted,
+    variables: context.variables,
+    outputContract: context.outputContract,
+  };
+}
+
+/**
+ * Result of walking a sequence of steps
+ */
+interface StepRunResult {
+  lastOutput: unknown;
+  error?: string;
+  stepsExecuted: number;
+  /** Where the walk stopped: null when the steps ran to the end */
+  currentStep: AgentFlowStep | null;
+  cancelled: boolean;
+  /** Set when a step paused the walk to wait for the user */
+  suspension?: { stepId: string; prompt: string };
+}
+
+/**
+ * Execute steps from `startStep`, following connections until a step ends
+ * the flow, an unhandled error occurs, the step limit is hit, or the walk
+ * reaches `stopAtStepId` (the join step, for parallel branches). `onStep`
+ * is called before each step with the number of steps walked so far;
+ * `debug` may pause the walk before it.
+ */
+async function runSteps(
+  startStep: AgentFlowStep,
+  stepMap: Map<string, AgentFlowStep>,
+  context: FlowContext,
+  options: {
+    maxSteps: number;
+    signal?: AbortSignal;
+    stopAtStepId?: string;
+    onStep?: (step: AgentFlowStep, stepsExecuted: number) => void;
+    debug?: FlowDebugHooks;
+  }
+): Promise<StepRunResult> {
   let currentStep: AgentFlowStep | null = startStep;
   let stepsExecuted = 0;
   // Don't initialize lastOutput to input - that could leak internal test prompts
   // The start step will properly set it via context.variables if needed
   let lastOutput: unknown = "";
   let lastError: string | undefined;
+  let cancelled = false;
+  let suspension: StepRunResult["suspension"];
+  let stepping = options.debug?.stepFromStart ?? false;
+  let fromStepId: string | null = null;
+
+  while (currentStep !== null && stepsExecuted < options.maxSteps) {
+    if (options.signal?.aborted) {
+      cancelled = true;
+      break;
+    }
+    if (currentStep.id === options.stopAtStepId) {
+      break;
+    }
+
+    const atBreakpoint = options.debug?.isBreakpoint(currentStep.id) ?? false;
+    if (options.debug && (stepping || atBreakpoint)) {
+      const command = await options.debug.onPause({
+        stepId: currentStep.id,
+        fromStepId,
+        reason: atBreakpoint ? "breakpoint" : "step",
+        variables: { ...context.variables },
+        loopState: Object.fromEntries(
+          [...context.loopState].map(([id, state]) => [id, { ...state }])
+        ),
+        stepsExecuted,
+      });
+      if (command.action === "stop" || options.signal?.aborted) {
+        cancelled = true;
+        break;
+      }
+      Object.assign(context.variables, command.variables);
+      stepping = command.action === "step";
+    }
 
-  while (currentStep !== null && stepsExecuted < maxSteps) {
     stepsExecuted++;
 
     // Get handler for this step type
@@ -135,14 +659,23 @@ export async function executeFlow(
 
     // Capture current step for error handling
     const stepToExecute = currentStep;
+    options.onStep?.(stepToExecute, stepsExecuted - 1);
+    fromStepId = stepToExecute.id;
 
     try {
-      // Execute the step
-      const result = await handler(stepToExecute, context);
+      // Execute the step under its retry, timeout and fallback policy
+      const result = await runStepWithPolicy(stepToExecute, handler, context);
 
       // Update context sequence
       context.sequence = result.sequence;
 
+      if (result.suspend) {
+        // The step runs for real once the answer arrives
+        stepsExecuted--;
+        suspension = { stepId: stepToExecute.id, prompt: result.suspend.prompt };
+        break;
+      }
+
       // Track output
       if (result.output !== null && result.output !== undefined) {
         lastOutput = result.output;
@@ -171,6 +704,11 @@ export async function executeFlow(
         }
       }
     } catch (error) {
+      if (isCancelledError(error)) {
+        cancelled = true;
+        break;
+      }
+
       lastError =
         error instanceof Error ? error.message : "Unknown execution error";
 
@@ -191,43 +729,13 @@ export async function executeFlow(
     }
   }
 
-  // Check if we hit the max steps limit
-  if (stepsExecuted >= maxSteps && currentStep !== null) {
-    lastError = lastError || `Flow exceeded maximum steps limit (${maxSteps})`;
-  }
-
-  // Determine final output
-  const finalOutput = formatOutput(lastOutput);
-
-  // Calculate duration
-  const durationMs = Date.now() - startTime;
-
-  // Update attempt if we have spans
-  if (context.spans.length > 0) {
-    try {
-      updateAttempt(attemptId, {
-        output: finalOutput,
-        // If there was any error, the attempt failed
-        status: lastError ? "failed" : "succeeded",
-        error: lastError,
-        durationMs,
-      });
-    } catch {
-      // Ignore update errors
-    }
-  }
-
   return {
-    // Success = no error occurred during execution
-    // Previously this was `!lastError || currentStep === null` which incorrectly
-    // marked errored flows as successful when they terminated (currentStep === null)
-    success: !lastError,
-    output: finalOutput,
-    spans: context.spans,
+    lastOutput,
     error: lastError,
-    durationMs,
     stepsExecuted,
-    variables: context.variables,
+    currentStep,
+    cancelled,
+    suspension,
   };
 }
 
@@ -253,12 +761,24 @@ export async function executeSinglePrompt(
     }
 
     // Execute LLM call
-    const output = await generateWithSystem(agent.systemPrompt, userMessage, {
-      temperature: agent.parameters?.temperature ?? 0.7,
-      maxTokens: agent.parameters?.maxTokens ?? 2048,
-      model: agent.parameters?.model,
-      sessionId: options.sessionId,
-    });
+    let usage: LLMCallUsage | undefined;
+    const output = await generateWithSystem(
+      agent.systemPrompt,
+      continueConversation(options.conversation, userMessage),
+      {
+        temperature: agent.parameters?.temperature ?? 0.7,
+        maxTokens: agent.parameters?.maxTokens ?? 2048,
+        model: agent.parameters?.model,
+        sessionId: options.sessionId,
+        onToken: options.onToken,
+        signal: options.signal,
+        lane: agent.lineageId,
+        role: "agent",
+        onUsage: (callUsage) => {
+          usage = callUsage;
+        },
+      }
+    );
 
     const durationMs = Date.now() - startTime;
 
@@ -272,8 +792,11 @@ export async function executeSinglePrompt(
         type: "llm_call",
         input: userMessage,
         output: output,
-        modelId: agent.parameters?.model,
+        modelId: usage?.model ?? agent.parameters?.model,
+        promptTokens: usage?.promptTokens,
+        completionTokens: usage?.completionTokens,
         durationMs,
+        estimatedCost: usage?.cost ?? undefined,
       });
       spans.push(span);
     }
@@ -297,6 +820,8 @@ export async function executeSinglePrompt(
       stepsExecuted: 1,
     };
   } catch (error) {
+    if (isCancelledError(error)) throw error;
+
     const durationMs = Date.now() - startTime;
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
@@ -341,137 +866,27 @@ export async function executeSinglePrompt(
 }
 
 /**
- * Validate a flow for common issues
+ * Validate a flow for common issues, as message lists
+ *
+ * See analyzeFlow for the typed diagnostics behind them.
  */
 export function validateFlow(steps: AgentFlowStep[]): {
   valid: boolean;
   errors: string[];
   warnings: string[];
 } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  const stepMap = buildStepMap(steps);
-
-  // Check for start step
-  const startStep = findStartStep(steps);
-  if (!startStep) {
-    errors.push("Flow must have a start step");
-  }
-
-  // Check for output step
-  const hasOutput = steps.some((s) => s.type === "output");
-  if (!hasOutput) {
-    warnings.push("Flow has no output step - may not return a result");
-  }
-
-  // Check all connections are valid
-  for (const step of steps) {
-    const connections = step.connections;
-    if (connections.next && !stepMap.has(connections.next)) {
-      errors.push(
-        `Step "${step.name}" has invalid next connection: ${connections.next}`
-      );
-    }
-    if (connections.onTrue && !stepMap.has(connections.onTrue)) {
-      errors.push(
-        `Step "${step.name}" has invalid onTrue connection: ${connections.onTrue}`
-      );
-    }
-    if (connections.onFalse && !stepMap.has(connections.onFalse)) {
-      errors.push(
-        `Step "${step.name}" has invalid onFalse connection: ${connections.onFalse}`
-      );
-    }
-    if (connections.onError && !stepMap.has(connections.onError)) {
-      errors.push(
-        `Step "${step.name}" has invalid onError connection: ${connections.onError}`
-      );
-    }
-
-    // Type-specific validation
-    if (
-      step.type === "condition" &&
-      !connections.onTrue &&
-      !connections.onFalse
-    ) {
-      warnings.push(`Condition step "${step.name}" has no branch connections`);
-    }
-    if (step.type === "loop" && !connections.onTrue) {
-      warnings.push(`Loop step "${step.name}" has no body connection (onTrue)`);
-    }
-    if (step.type === "tool" && !step.config.toolName) {
-      errors.push(`Tool step "${step.name}" has no toolName configured`);
-    }
-  }
-
-  // Check for unreachable steps
-  const reachable = new Set<string>();
-  if (startStep) {
-    collectReachableSteps(startStep, stepMap, reachable);
-  }
-  for (const step of steps) {
-    if (!reachable.has(step.id) && step.type !== "start") {
-      warnings.push(`Step "${step.name}" is unreachable`);
-    }
-  }
-
+  const { valid, diagnostics } = analyzeFlow(steps);
   return {
-    valid: errors.length === 0,
-    errors,
-    warnings,
+    valid,
+    errors: diagnostics
+      .filter((d) => d.severity === "error")
+      .map((d) => d.message),
+    warnings: diagnostics
+      .filter((d) => d.severity === "warning")
+      .map((d) => d.message),
   };
 }
 
-/**
- * Collect all reachable steps from a starting step
- */
-function collectReachableSteps(
-  step: AgentFlowStep,
-  stepMap: Map<string, AgentFlowStep>,
-  visited: Set<string>
-): void {
-  if (visited.has(step.id)) {
-    return;
-  }
-  visited.add(step.id);
-
-  const connections = [
-    step.connections.next,
-    step.connections.onTrue,
-    step.connections.onFalse,
-    step.connections.onError,
-  ];
-
-  for (const conn of connections) {
-    if (conn) {
-      const nextStep = stepMap.get(conn);
-      if (nextStep) {
-        collectReachableSteps(nextStep, stepMap, visited);
-      }
-    }
-  }
-}
-
-/**
- * Format an output value to a string
- */
-function formatOutput(value: unknown): string {
-  if (typeof value === "string") {
-    return value;
-  }
-  if (value === null || value === undefined) {
-    return "";
-  }
-  if (typeof value === "object") {
-    try {
-      return JSON.stringify(value, null, 2);
-    } catch {
-      return String(value);
-    }
-  }
-  return String(value);
-}
-
 /**
  * Execute a flow with retry capability
  */
@@ -493,13 +908,14 @@ export async function executeFlowWithRetry(
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     // Add delay between retries
     if (attempt > 0) {
-      await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+      await delay(retryDelayMs, options.signal);
     }
 
     try {
       const result = await executeFlow(agent, input, attemptId, options);
 
-      if (result.success) {
+      // A paused run is waiting for the user, not failing
+      if (result.success || result.suspended) {
         return result;
       }
 
@@ -507,10 +923,14 @@ export async function executeFlowWithRetry(
       lastError = result.error;
 
       // Don't retry on certain error types
-      if (result.error?.includes("maximum steps limit")) {
+      if (
+        result.error?.includes("maximum steps limit") ||
+        result.error?.startsWith("Flow has errors")
+      ) {
         break;
       }
     } catch (error) {
+      if (isCancelledError(error)) throw error;
       lastError = error instanceof Error ? error.message : "Unknown error";
     }
   }
@@ -2,20 +2,59 @@
  * Flow Step Handlers
  *
  * Implements handlers for each step type in the agent flow:
- * - start: Initialize context with input
+ * - start: Initialize context with input (and the earlier conversation turns)
  * - prompt: Call LLM with template interpolation
  * - tool: Execute tool via tool executor
  * - condition: Evaluate condition and branch
+ * - transform: Assign variables from expressions, without calling the model
  * - loop: Handle loop iteration
- * - output: Terminal step, finalize output
+ * - parallel: Run several branches concurrently
+ * - join: Merge the branches of the preceding parallel step
+ * - call_agent: Run another agent as a sub-step
+ * - human_input: Pause the run until the user answers a question
+ * - output: Terminal step, finalize output and enforce the output contract
  */
 
-import type { AgentDefinition, AgentFlowStep } from "../../types/agent";
-import type { ExecutionSpan } from "../../types/evolution";
+import type {
+  AgentDefinition,
+  AgentFlowStep,
+  AgentOutputContract,
+  ConversationTurn,
+  OutputContractResult,
+  StepModelParameters,
+} from "../../types/agent";
+import type { ExecutionSpan, FlowSnapshot } from "../../types/evolution";
+import type { ExecutionResult } from "../agent-executor";
 import { executeToolCall, type ToolCall } from "../tools/executor";
-import { generateWithSystem, generateText } from "../../api/llm";
-import { createSpan } from "../../db/queries";
-import { safeEvaluateCondition } from "../../utils/safeExpressionEvaluator";
+import {
+  generateWithSystem,
+  generateText,
+  type ChatOptions,
+  type LLMCallUsage,
+  type TokenCallback,
+} from "../../api/llm";
+import {
+  createSpan,
+  updateSpan,
+  getAgentById,
+  getAgentVersion,
+  getLatestAgentVersion,
+} from "../../db/queries";
+import {
+  getExpressionVariables,
+  safeEvaluate,
+  safeEvaluateCondition,
+} from "../../utils/safeExpressionEvaluator";
+import { renderTemplate } from "./template";
+import {
+  checkOutputContract,
+  describeOutputContract,
+  lintOutputContract,
+  DEFAULT_MAX_REPAIR_ATTEMPTS,
+  type ContractViolation,
+} from "./contract";
+import { isCancelledError } from "../../utils/abort";
+import { continueConversation, formatConversation } from "../../utils/conversation";
 
 /**
  * Context maintained during flow execution
@@ -27,6 +66,11 @@ export interface FlowContext {
   input: string;
   /** Optional context from session */
   sessionContext?: string;
+  /**
+   * Earlier turns of the conversation the input continues. Prompt steps
+   * that use the system prompt send them before their prompt.
+   */
+  conversation?: ConversationTurn[];
   /** Session ID for debug logging */
   sessionId?: string;
   /** The attempt ID for span tracking */
@@ -43,12 +87,89 @@ export interface FlowContext {
   loopState: Map<string, LoopState>;
   /** Whether to persist spans to the database */
   createSpans: boolean;
+  /** Streaming callback for prompt step output */
+  onToken?: TokenCallback;
+  /** Aborts in-flight LLM and tool calls when the run is cancelled */
+  signal?: AbortSignal;
+  /** Runs the branches of parallel steps; provided by executeFlow */
+  runBranch?: BranchRunner;
+  /** Results of the last parallel step, waiting for its join step */
+  branchResults?: BranchResult[];
+  /** Runs the agents of call_agent steps; provided by executeAgent */
+  runSubAgent?: SubAgentRunner;
+  /** Number of call_agent steps this run is nested in (0 when unset) */
+  callDepth?: number;
+  /** User's answer for the human_input step a resumed run continues at */
+  humanResponse?: string;
+  /** Set by the output step when the agent has an output contract */
+  outputContract?: OutputContractResult;
 }
 
+/**
+ * Outcome of running one branch of a parallel step
+ */
+export interface BranchOutcome {
+  success: boolean;
+  /** Output of the last step the branch ran */
+  output: unknown;
+  error?: string;
+  stepsExecuted: number;
+}
+
+/**
+ * Runs a branch from its first step until it reaches the join step or ends
+ */
+export type BranchRunner = (
+  startStepId: string,
+  context: FlowContext,
+  joinStepId?: string
+) => Promise<BranchOutcome>;
+
+/**
+ * A finished branch, as seen by the join step
+ */
+export interface BranchResult extends BranchOutcome {
+  /** First step of the branch */
+  stepId: string;
+  /** Variables at the end of the branch */
+  variables: Record<string, unknown>;
+  /** Variables the branch added or changed, relative to the parallel step */
+  changedVariables: Record<string, unknown>;
+  /** Span the branch's steps are nested under */
+  spanId: string;
+}
+
+/**
+ * How a join step combines its branches:
+ * - concat: join the branch values in branch order
+ * - judge: ask the model which branch value is best and keep that one
+ * - llm_merge: ask the model to merge the branch values into one
+ */
+export type JoinStrategy = "concat" | "judge" | "llm_merge";
+
+export const JOIN_STRATEGIES: readonly JoinStrategy[] = [
+  "concat",
+  "judge",
+  "llm_merge",
+];
+
+/**
+ * Runs another agent for a call_agent step, nesting its spans under
+ * `parentSpanId`
+ */
+export type SubAgentRunner = (
+  agent: AgentDefinition,
+  input: string,
+  options: { parentSpanId: string; callDepth: number }
+) => Promise<ExecutionResult>;
+
+/** Deepest chain of call_agent steps allowed, so agents cannot recurse forever */
+export const MAX_AGENT_CALL_DEPTH = 3;
+
 /**
  * State for tracking loop execution
  */
-interface LoopState {
+export interface LoopState {
   /** Current iteration index */
   currentIndex: number;
   /** Maximum iterations allowed */
@@ -73,6 +194,8 @@ export interface StepResult {
   success: boolean;
   /** Error message if failed */
   error?: string;
+  /** Set when the run must pause here until the user answers `prompt` */
+  suspend?: { prompt: string };
 }
 
 /**
@@ -91,10 +214,37 @@ export const stepHandlers: Record<AgentFlowStep["type"], StepHandler> = {
   prompt: handlePromptStep,
   tool: handleToolStep,
   condition: handleConditionStep,
+  transform: handleTransformStep,
   loop: handleLoopStep,
+  parallel: handleParallelStep,
+  join: handleJoinStep,
+  call_agent: handleCallAgentStep,
+  human_input: handleHumanInputStep,
   output: handleOutputStep,
 };
 
+const DEFAULT_JUDGE_PROMPT = `Pick the best of these candidate responses to the request below.
+
+Request:
+{{input}}
+
+{{candidates}}
+
+Reply with only the number of the best candidate.`;
+
+const DEFAULT_MERGE_PROMPT = `Merge these candidate responses to the request below into a single response that keeps the strongest parts of each.
+
+Request:
+{{input}}
+
+{{candidates}}
+
+Reply with only the merged response.`;
+
+const DEFAULT_HUMAN_INPUT_PROMPT = `Please review the work so far and reply to continue.
+
+{{lastOutput}}`;
+
 /**
  * Handle start step - Initialize context with input
  */
@@ -107,6 +257,7 @@ async function handleStartStep(
   // Initialize variables with input
   context.variables["input"] = context.input;
   context.variables["sessionContext"] = context.sessionContext || "";
+  context.variables["conversation"] = formatConversation(context.conversation ?? []);
 
   // Handle any initial variable assignments from config
   const initialVars = step.config.variables as
@@ -140,7 +291,8 @@ async function handleStartStep(
 }
 
 /**
- * Handle prompt step - Call LLM with template interpolation
+ * Handle prompt step - Call LLM with template interpolation, on the step's
+ * model parameters where it overrides the agent's
  */
 async function handlePromptStep(
   step: AgentFlowStep,
@@ -175,21 +327,23 @@ async function handlePromptStep(
     }
 
     // Execute LLM call
+    let usage: LLMCallUsage | undefined;
+    const options = agentCallOptions(
+      context,
+      (callUsage) => {
+        usage = callUsage;
+      },
+      step.modelParameters
+    );
     let output: string;
     if (useSystemPrompt !== false && context.agent.systemPrompt) {
-      output = await generateWithSystem(context.agent.systemPrompt, prompt, {
-        temperature: context.agent.parameters?.temperature ?? 0.7,
-        maxTokens: context.agent.parameters?.maxTokens ?? 2048,
-        model: context.agent.parameters?.model,
-        sessionId: context.sessionId,
-      });
+      output = await generateWithSystem(
+        context.agent.systemPrompt,
+        continueConversation(context.conversation, prompt),
+        options
+      );
     } else {
-      output = await generateText(prompt, {
-        temperature: context.agent.parameters?.temperature ?? 0.7,
-        maxTokens: context.agent.parameters?.maxTokens ?? 2048,
-        model: context.agent.parameters?.model,
-        sessionId: context.sessionId,
-      });
+      output = await generateText(prompt, options);
     }
 
     // Store output in variable
@@ -206,8 +360,11 @@ async function handlePromptStep(
         type: "llm_call",
         input: prompt,
         output: output,
-        modelId: context.agent.parameters?.model,
+        modelId: usage?.model ?? options.model,
+        promptTokens: usage?.promptTokens,
+        completionTokens: usage?.completionTokens,
         durationMs: Date.now() - startTime,
+        estimatedCost: usage?.cost ?? undefined,
       },
       context.createSpans
     );
@@ -220,6 +377,9 @@ async function handlePromptStep(
       success: true,
     };
   } catch (error) {
+    // A cancelled run must not be routed to onError
+    if (isCancelledError(error)) throw error;
+
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
 
@@ -328,8 +488,11 @@ async function handleToolStep(
       parentSpanId: context.parentSpanId,
       startSequence: context.sequence,
       createSpans: context.createSpans,
+      signal: context.signal,
+      modelParameters: step.modelParameters,
       context: {
         agentId: context.agent.id,
+        lineageId: context.agent.lineageId,
       },
     });
 
@@ -367,6 +530,8 @@ async function handleToolStep(
       error: result.result.error,
     };
   } catch (error) {
+    if (isCancelledError(error)) throw error;
+
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
 
@@ -499,6 +664,113 @@ async function handleConditionStep(
   }
 }
 
+/**
+ * Handle transform step - Assign variables from expressions
+ *
+ * `assignments` maps variable names to expressions for the safe expression
+ * evaluator, run in order so later ones can use earlier results:
+ *   { "tags": "split(lastOutput, \",\")", "count": "len(tags)" }
+ */
+async function handleTransformStep(
+  step: AgentFlowStep,
+  context: FlowContext
+): Promise<StepResult> {
+  const startTime = Date.now();
+  const assignments = (step.config.assignments ?? {}) as Record<string, unknown>;
+
+  // Values the expressions read from earlier steps, for the span
+  const inputs: Record<string, unknown> = {};
+  const outputs: Record<string, unknown> = {};
+
+  try {
+    const entries = Object.entries(assignments);
+    if (entries.length === 0) {
+      throw new Error("Transform step requires assignments in config");
+    }
+
+    for (const [name, expression] of entries) {
+      if (!isAssignableName(name)) {
+        throw new Error(`Cannot assign to "${name}"`);
+      }
+      if (typeof expression !== "string") {
+        throw new Error(`Assignment "${name}" must be an expression string`);
+      }
+      for (const read of getExpressionVariables(expression)) {
+        if (!hasOwn(outputs, read) && !hasOwn(inputs, read)) {
+          inputs[read] = context.variables[read];
+        }
+      }
+      try {
+        outputs[name] = safeEvaluate(expression, context.variables);
+      } catch (error) {
+        throw new Error(
+          `Assignment "${name}" failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      context.variables[name] = outputs[name];
+    }
+
+    context.spans.push(
+      createSpan(
+        {
+          attemptId: context.attemptId,
+          parentSpanId: context.parentSpanId,
+          sequence: context.sequence,
+          type: "reasoning",
+          input: JSON.stringify({ step: "transform", inputs }),
+          output: JSON.stringify(outputs),
+          durationMs: Date.now() - startTime,
+        },
+        context.createSpans
+      )
+    );
+
+    return {
+      output: outputs,
+      nextStepId: step.connections.next || null,
+      sequence: context.sequence + 1,
+      success: true,
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    context.spans.push(
+      createSpan(
+        {
+          attemptId: context.attemptId,
+          parentSpanId: context.parentSpanId,
+          sequence: context.sequence,
+          type: "reasoning",
+          input: JSON.stringify({ step: "transform", inputs }),
+          output: JSON.stringify({ error: errorMessage, assigned: outputs }),
+          durationMs: Date.now() - startTime,
+        },
+        context.createSpans
+      )
+    );
+
+    if (step.connections.onError) {
+      context.variables["error"] = errorMessage;
+      return {
+        output: null,
+        nextStepId: step.connections.onError,
+        sequence: context.sequence + 1,
+        success: false,
+        error: errorMessage,
+      };
+    }
+
+    return {
+      output: null,
+      nextStepId: null,
+      sequence: context.sequence + 1,
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
 /**
  * Handle loop step - Handle loop iteration
  */
@@ -603,6 +875,460 @@ async function handleLoopStep(
   }
 }
 
+/**
+ * Handle parallel step - Run each branch concurrently
+ *
+ * Each branch starts at one of `connections.branches` and runs until it
+ * reaches the join step (`connections.next`) or ends. Branches work on a
+ * copy of the variables and their spans nest under one parent span per
+ * branch. The results wait in the context for the join step.
+ */
+async function handleParallelStep(
+  step: AgentFlowStep,
+  context: FlowContext
+): Promise<StepResult> {
+  const branches = step.connections.branches ?? [];
+  const joinStepId = step.connections.next;
+  const runBranch = context.runBranch;
+
+  if (branches.length === 0) {
+    throw new Error("Parallel step requires at least one branch");
+  }
+  if (!runBranch) {
+    throw new Error("Parallel steps can only run inside executeFlow");
+  }
+
+  // What each branch starts from, so the join only merges what it changed
+  const snapshot = { ...context.variables };
+
+  const runs = await Promise.all(
+    branches.map(async (branchStepId, index) => {
+      const startTime = Date.now();
+      const branchSpan = createSpan(
+        {
+          attemptId: context.attemptId,
+          parentSpanId: context.parentSpanId,
+          sequence: context.sequence + index,
+          type: "reasoning",
+          input: JSON.stringify({
+            step: "parallel",
+            branch: index,
+            start: branchStepId,
+          }),
+          output: "",
+          durationMs: 0,
+        },
+        context.createSpans
+      );
+
+      const branchContext = createBranchContext(context, branchSpan.id);
+      const outcome = await runBranch(branchStepId, branchContext, joinStepId);
+
+      // Record what the branch produced on its parent span
+      branchSpan.output = outcome.success
+        ? formatValue(outcome.output)
+        : JSON.stringify({ error: outcome.error });
+      branchSpan.durationMs = Date.now() - startTime;
+      if (context.createSpans) {
+        updateSpan(branchSpan.id, {
+          output: branchSpan.output,
+          durationMs: branchSpan.durationMs,
+        });
+      }
+
+      const result: BranchResult = {
+        ...outcome,
+        stepId: branchStepId,
+        variables: branchContext.variables,
+        changedVariables: diffVariables(snapshot, branchContext.variables),
+        spanId: branchSpan.id,
+      };
+      return { result, spans: [branchSpan, ...branchContext.spans] };
+    })
+  );
+
+  for (const run of runs) {
+    context.spans.push(...run.spans);
+  }
+  const results = runs.map((run) => run.result);
+  context.branchResults = results;
+
+  const sequence = context.sequence + branches.length;
+
+  if (results.every((r) => !r.success)) {
+    const errorMessage = `All parallel branches failed: ${results
+      .map((r) => r.error)
+      .join("; ")}`;
+
+    if (step.connections.onError) {
+      context.variables["error"] = errorMessage;
+      return {
+        output: null,
+        nextStepId: step.connections.onError,
+        sequence,
+        success: false,
+        error: errorMessage,
+      };
+    }
+
+    return {
+      output: null,
+      nextStepId: null,
+      sequence,
+      success: false,
+      error: errorMessage,
+    };
+  }
+
+  return {
+    output: results.map((r) => r.output),
+    nextStepId: joinStepId || null,
+    sequence,
+    success: true,
+  };
+}
+
+/**
+ * Handle join step - Merge the branches of the preceding parallel step
+ *
+ * Variables that successful branches added or changed are copied back
+ * (later branches win when two change the same one). The value taken from
+ * each branch is `config.variable`, or the branch output when unset;
+ * `config.strategy` decides how the values are combined.
+ */
+async function handleJoinStep(
+  step: AgentFlowStep,
+  context: FlowContext
+): Promise<StepResult> {
+  const startTime = Date.now();
+  const results = context.branchResults;
+
+  if (!results) {
+    throw new Error("Join step must follow a parallel step");
+  }
+  context.branchResults = undefined;
+
+  const strategy = (step.config.strategy as JoinStrategy | undefined) ?? "concat";
+  if (!JOIN_STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown join strategy: ${strategy}`);
+  }
+  const variable = step.config.variable as string | undefined;
+  const outputVariable = step.config.outputVariable as string | undefined;
+  const separator = (step.config.separator as string | undefined) ?? "\n\n";
+
+  const succeeded = results.filter((r) => r.success);
+  for (const result of succeeded) {
+    Object.assign(context.variables, result.changedVariables);
+  }
+  const candidates = succeeded.map((r) =>
+    variable ? r.variables[variable] : r.output
+  );
+  context.variables["branches"] = candidates;
+
+  try {
+    let output: unknown;
+
+    // A single surviving branch needs no judging or merging
+    if (strategy === "concat" || candidates.length <= 1) {
+      output =
+        candidates.length === 1
+          ? candidates[0]
+          : candidates.map(formatValue).join(separator);
+
+      const span = createSpan(
+        {
+          attemptId: context.attemptId,
+          parentSpanId: context.parentSpanId,
+          sequence: context.sequence,
+          type: "reasoning",
+          input: JSON.stringify({
+            step: "join",
+            strategy,
+            branches: results.length,
+            succeeded: succeeded.length,
+          }),
+          output: formatValue(output),
+          durationMs: Date.now() - startTime,
+        },
+        context.createSpans
+      );
+      context.spans.push(span);
+    } else {
+      const template =
+        (step.config.prompt as string | undefined) ??
+        (strategy === "judge" ? DEFAULT_JUDGE_PROMPT : DEFAULT_MERGE_PROMPT);
+      const prompt = interpolate(template, {
+        ...context.variables,
+        candidates: formatCandidates(candidates),
+      });
+
+      let usage: LLMCallUsage | undefined;
+      const options = agentCallOptions(context, (callUsage) => {
+        usage = callUsage;
+      });
+      let reply: string;
+      if (strategy === "judge") {
+        // The judge compares candidates; the agent's persona would bias it
+        reply = await generateText(prompt, { ...options, onToken: undefined });
+        const choice = parseJudgeChoice(reply, candidates.length);
+        context.variables["judgeChoice"] = choice;
+        output = candidates[choice];
+      } else {
+        reply = context.agent.systemPrompt
+          ? await generateWithSystem(context.agent.systemPrompt, prompt, options)
+          : await generateText(prompt, options);
+        output = reply;
+      }
+
+      const span = createSpan(
+        {
+          attemptId: context.attemptId,
+          parentSpanId: context.parentSpanId,
+          sequence: context.sequence,
+          type: "llm_call",
+          input: prompt,
+          output: reply,
+          modelId: usage?.model ?? context.agent.parameters?.model,
+          promptTokens: usage?.promptTokens,
+          completionTokens: usage?.completionTokens,
+          durationMs: Date.now() - startTime,
+          estimatedCost: usage?.cost ?? undefined,
+        },
+        context.createSpans
+      );
+      context.spans.push(span);
+    }
+
+    const varName = outputVariable || "lastOutput";
+    context.variables[varName] = output;
+    context.variables["lastOutput"] = output;
+
+    return {
+      output,
+      nextStepId: step.connections.next || null,
+      sequence: context.sequence + 1,
+      success: true,
+    };
+  } catch (error) {
+    if (isCancelledError(error)) throw error;
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    const span = createSpan(
+      {
+        attemptId: context.attemptId,
+        parentSpanId: context.parentSpanId,
+        sequence: context.sequence,
+        type: strategy === "concat" ? "reasoning" : "llm_call",
+        input: JSON.stringify(step.config),
+        output: "",
+        durationMs: Date.now() - startTime,
+      },
+      context.createSpans
+    );
+    context.spans.push(span);
+
+    if (step.connections.onError) {
+      context.variables["error"] = errorMessage;
+      return {
+        output: null,
+        nextStepId: step.connections.onError,
+        sequence: context.sequence + 1,
+        success: false,
+        error: errorMessage,
+      };
+    }
+
+    return {
+      output: null,
+      nextStepId: null,
+      sequence: context.sequence + 1,
+      success: false,
+      error: errorMessage,
+    };
+  }
+}
+
+/**
+ * Handle call_agent step - Run another agent as a sub-step
+ *
+ * The agent is `config.agentId`, or `config.lineageId` at `config.version`
+ * (the latest version when unset). It runs through executeAgent on the
+ * interpolated `config.input` (the flow input when unset) and its spans
+ * nest under this step's span.
+ */
+async function handleCallAgentStep(
+  step: AgentFlowStep,
+  context: FlowContext
+): Promise<StepResult> {
+  const startTime = Date.now();
+  const outputVariable = step.config.outputVariable as string | undefined;
+  const runSubAgent = context.runSubAgent;
+  const callDepth = context.callDepth ?? 0;
+
+  if (!runSubAgent) {
+    throw new Error("call_agent steps can only run inside executeAgent");
+  }
+
+  const callSpan = createSpan(
+    {
+      attemptId: context.attemptId,
+      parentSpanId: context.parentSpanId,
+      sequence: context.sequence,
+      type: "reasoning",
+      input: JSON.stringify({
+        step: "call_agent",
+        agentId: step.config.agentId,
+        lineageId: step.config.lineageId,
+        version: step.config.version,
+      }),
+      output: "",
+      durationMs: 0,
+    },
+    context.createSpans
+  );
+  context.spans.push(callSpan);
+
+  const finishSpan = (output: string) => {
+    callSpan.output = output;
+    callSpan.durationMs = Date.now() - startTime;
+    if (context.createSpans) {
+      updateSpan(callSpan.id, {
+        output: callSpan.output,
+        durationMs: callSpan.durationMs,
+      });
+    }
+  };
+
+  let errorMessage: string;
+  try {
+    if (callDepth >= MAX_AGENT_CALL_DEPTH) {
+      throw new Error(
+        `Agent call depth limit reached (${MAX_AGENT_CALL_DEPTH})`
+      );
+    }
+
+    const agent = resolveCalledAgent(step);
+    const template = step.config.input as string | undefined;
+    const input = template
+      ? interpolate(template, context.variables)
+      : String(context.variables["input"] ?? context.input);
+
+    const result = await runSubAgent(agent, input, {
+      parentSpanId: callSpan.id,
+      callDepth: callDepth + 1,
+    });
+
+    finishSpan(
+      JSON.stringify({
+        agentId: result.metadata.agentId,
+        agentVersion: result.metadata.agentVersion,
+        attemptId: result.metadata.attemptId,
+        success: result.success,
+        output: result.output,
+        error: result.error,
+      })
+    );
+
+    if (result.success) {
+      const varName = outputVariable || "lastOutput";
+      context.variables[varName] = result.output;
+      context.variables["lastOutput"] = result.output;
+
+      return {
+        output: result.output,
+        nextStepId: step.connections.next || null,
+        sequence: context.sequence + 1,
+        success: true,
+      };
+    }
+    errorMessage = `Agent "${agent.name}" failed: ${result.error ?? "Unknown error"}`;
+  } catch (error) {
+    if (isCancelledError(error)) throw error;
+
+    errorMessage = error instanceof Error ? error.message : "Unknown error";
+    finishSpan(JSON.stringify({ error: errorMessage }));
+  }
+
+  if (step.connections.onError) {
+    context.variables["error"] = errorMessage;
+    return {
+      output: null,
+      nextStepId: step.connections.onError,
+      sequence: context.sequence + 1,
+      success: false,
+      error: errorMessage,
+    };
+  }
+
+  return {
+    output: null,
+    nextStepId: null,
+    sequence: context.sequence + 1,
+    success: false,
+    error: errorMessage,
+  };
+}
+
+/**
+ * Handle human_input step - Pause the run until the user answers
+ *
+ * The first time the step runs it asks the executor to suspend with the
+ * interpolated `config.prompt`. When the run is resumed, the answer is in
+ * `context.humanResponse` and is stored in `config.outputVariable`.
+ */
+async function handleHumanInputStep(
+  step: AgentFlowStep,
+  context: FlowContext
+): Promise<StepResult> {
+  const template =
+    (step.config.prompt as string | undefined) ?? DEFAULT_HUMAN_INPUT_PROMPT;
+  const outputVariable = step.config.outputVariable as string | undefined;
+  const prompt = interpolate(template, context.variables);
+  const answer = context.humanResponse;
+
+  if (answer === undefined) {
+    // Only the top-level run is saved and resumed
+    if ((context.callDepth ?? 0) > 0) {
+      throw new Error("human_input steps cannot run inside a called agent");
+    }
+    return {
+      output: null,
+      nextStepId: step.id,
+      sequence: context.sequence,
+      success: true,
+      suspend: { prompt },
+    };
+  }
+  context.humanResponse = undefined;
+
+  const varName = outputVariable || "humanInput";
+  context.variables[varName] = answer;
+  context.variables["lastOutput"] = answer;
+
+  const span = createSpan(
+    {
+      attemptId: context.attemptId,
+      parentSpanId: context.parentSpanId,
+      sequence: context.sequence,
+      type: "reasoning",
+      input: JSON.stringify({ step: "human_input", prompt }),
+      output: answer,
+      durationMs: 0,
+    },
+    context.createSpans
+  );
+  context.spans.push(span);
+
+  return {
+    output: answer,
+    nextStepId: step.connections.next || null,
+    sequence: context.sequence + 1,
+    success: true,
+  };
+}
+
 /**
  * Handle output step - Terminal step, finalize output
  */
@@ -645,6 +1371,21 @@ async function handleOutputStep(
   );
   context.spans.push(span);
 
+  const contract = context.agent.outputContract;
+  if (contract) {
+    const enforced = await enforceOutputContract(
+      formatValue(output),
+      contract,
+      context
+    );
+    return {
+      output: enforced.output,
+      nextStepId: null,
+      sequence: enforced.sequence,
+      success: true,
+    };
+  }
+
   return {
     output,
     nextStepId: null, // Terminal step
@@ -653,30 +1394,287 @@ async function handleOutputStep(
   };
 }
 
+/**
+ * Check the output against the agent's output contract and ask the model
+ * to repair it while it fails, up to the contract's repair limit. Checks are
+ * recorded as reasoning spans and repairs as LLM calls after the output
+ * span. Output that still fails is kept; the result says it failed.
+ */
+async function enforceOutputContract(
+  output: string,
+  contract: AgentOutputContract,
+  context: FlowContext
+): Promise<{ output: string; sequence: number }> {
+  const problems = lintOutputContract(contract);
+  if (problems.length > 0) {
+    throw new Error(`Invalid output contract: ${problems.join("; ")}`);
+  }
+
+  const maxRepairs = contract.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  let sequence = context.sequence + 1;
+  let current = output;
+  let repairAttempts = 0;
+
+  for (;;) {
+    const check = checkOutputContract(current, contract);
+    current = check.output;
+    context.spans.push(
+      createSpan(
+        {
+          attemptId: context.attemptId,
+          parentSpanId: context.parentSpanId,
+          sequence: sequence++,
+          type: "reasoning",
+          input: JSON.stringify({ step: "output_contract", repairAttempts }),
+          output: JSON.stringify({
+            passed: check.violations.length === 0,
+            violations: check.violations,
+          }),
+          durationMs: 0,
+        },
+        context.createSpans
+      )
+    );
+
+    if (check.violations.length === 0 || repairAttempts >= maxRepairs) {
+      context.outputContract = {
+        passed: check.violations.length === 0,
+        violations: check.violations.map((v) => v.message),
+        repairAttempts,
+      };
+      return { output: current, sequence };
+    }
+
+    repairAttempts++;
+    const startTime = Date.now();
+    const prompt = buildRepairPrompt(current, check.violations, contract, context);
+    let usage: LLMCallUsage | undefined;
+    const options = agentCallOptions(context, (callUsage) => {
+      usage = callUsage;
+    });
+
+    let repaired: string;
+    try {
+      repaired = context.agent.systemPrompt
+        ? await generateWithSystem(context.agent.systemPrompt, prompt, options)
+        : await generateText(prompt, options);
+    } catch (error) {
+      if (isCancelledError(error)) throw error;
+      // Keep the failing output rather than failing the run
+      console.warn("[Flow] Output repair failed:", error);
+      context.outputContract = {
+        passed: false,
+        violations: check.violations.map((v) => v.message),
+        repairAttempts,
+      };
+      return { output: current, sequence };
+    }
+
+    context.spans.push(
+      createSpan(
+        {
+          attemptId: context.attemptId,
+          parentSpanId: context.parentSpanId,
+          sequence: sequence++,
+          type: "llm_call",
+          input: prompt,
+          output: repaired,
+          modelId: usage?.model ?? context.agent.parameters?.model,
+          promptTokens: usage?.promptTokens,
+          completionTokens: usage?.completionTokens,
+          durationMs: Date.now() - startTime,
+          estimatedCost: usage?.cost ?? undefined,
+        },
+        context.createSpans
+      )
+    );
+    current = repaired;
+  }
+}
+
+function buildRepairPrompt(
+  output: string,
+  violations: ContractViolation[],
+  contract: AgentOutputContract,
+  context: FlowContext
+): string {
+  return `Your response to the request below breaks its required output format. Rewrite it so it follows every rule, keeping its content.
+
+Request:
+${context.input}
+
+Rules:
+${describeOutputContract(contract).map((rule) => `- ${rule}`).join("\n")}
+
+Problems:
+${violations.map((v) => `- ${v.message}`).join("\n")}
+
+Response:
+${output}
+
+Reply with only the corrected response.`;
+}
+
 // ============ Helper Functions ============
 
 /**
- * Interpolate variables into a template string
- * Supports {{variableName}} and {{variableName.property}} syntax
+ * Whether a transform step may assign a variable of this name
  */
-export function interpolate(
-  template: string,
-  variables: Record<string, unknown>
-): string {
-  return template.replace(/\{\{([^}]+)\}\}/g, (match, path) => {
-    const trimmedPath = path.trim();
-    const value = getNestedValue(variables, trimmedPath);
+export function isAssignableName(name: string): boolean {
+  return (
+    /^[A-Za-z_$][\w$]*$/.test(name) &&
+    !["__proto__", "constructor", "prototype"].includes(name)
+  );
+}
 
-    if (value === undefined || value === null) {
-      return match; // Keep original if not found
+function hasOwn(record: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+/**
+ * LLM options for calls made on the agent's behalf, with a step's
+ * overrides of the agent's parameters
+ */
+function agentCallOptions(
+  context: FlowContext,
+  onUsage: (usage: LLMCallUsage) => void,
+  overrides: StepModelParameters = {}
+): ChatOptions {
+  return {
+    temperature: overrides.temperature ?? context.agent.parameters?.temperature ?? 0.7,
+    maxTokens: overrides.maxTokens ?? context.agent.parameters?.maxTokens ?? 2048,
+    model: overrides.model ?? context.agent.parameters?.model,
+    topP: overrides.topP,
+    sessionId: context.sessionId,
+    onToken: context.onToken,
+    signal: context.signal,
+    lane: context.agent.lineageId,
+    role: "agent",
+    onUsage,
+  };
+}
+
+/**
+ * Context for one branch of a parallel step: a copy of the variables, its
+ * own span sequence under the branch span, and no streaming since
+ * concurrent branches would interleave their tokens
+ */
+function createBranchContext(
+  context: FlowContext,
+  branchSpanId: string
+): FlowContext {
+  return {
+    ...context,
+    variables: { ...context.variables },
+    sequence: 0,
+    parentSpanId: branchSpanId,
+    spans: [],
+    loopState: new Map(),
+    branchResults: undefined,
+    onToken: undefined,
+  };
+}
+
+/**
+ * Variables in `after` that are new or hold a different value than in
+ * `before`
+ */
+function diffVariables(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): Record<string, unknown> {
+  const changed: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(after)) {
+    if (!(key in before) || before[key] !== value) {
+      changed[key] = value;
     }
+  }
+  return changed;
+}
 
-    if (typeof value === "object") {
-      return JSON.stringify(value);
+/**
+ * Look up the agent a call_agent step names, with its lineage set
+ */
+function resolveCalledAgent(step: AgentFlowStep): AgentDefinition {
+  const agentId = step.config.agentId as string | undefined;
+  const lineageId = step.config.lineageId as string | undefined;
+  const version = step.config.version as number | undefined;
+
+  if (agentId) {
+    const agent = getAgentById(agentId);
+    if (!agent) {
+      throw new Error(`Agent not found: ${agentId}`);
     }
+    return agent;
+  }
 
-    return String(value);
-  });
+  if (!lineageId) {
+    throw new Error("call_agent step requires agentId or lineageId in config");
+  }
+
+  const agent =
+    version !== undefined
+      ? getAgentVersion(lineageId, version)
+      : getLatestAgentVersion(lineageId);
+  if (!agent) {
+    throw new Error(
+      version !== undefined
+        ? `Agent not found: lineage ${lineageId} version ${version}`
+        : `No agent found for lineage ${lineageId}`
+    );
+  }
+  return { ...agent, lineageId };
+}
+
+/**
+ * Number branch values for judge and merge prompts
+ */
+function formatCandidates(candidates: unknown[]): string {
+  return candidates
+    .map((candidate, i) => `Candidate ${i + 1}:\n${formatValue(candidate)}`)
+    .join("\n\n");
+}
+
+/**
+ * Index of the candidate a judge picked; the first one if the reply
+ * names none
+ */
+function parseJudgeChoice(reply: string, count: number): number {
+  const match = reply.match(/\d+/);
+  const choice = match ? Number(match[0]) - 1 : 0;
+  return choice >= 0 && choice < count ? choice : 0;
+}
+
+/**
+ * Format a step value as text
+ */
+export function formatValue(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "object") {
+    try {
+      return JSON.stringify(value, null, 2);
+    } catch {
+      return String(value);
+    }
+  }
+  return String(value);
+}
+
+/**
+ * Interpolate variables into a template string
+ * Supports {{variableName}}, {{variableName.property}}, filters, #if and
+ * #each blocks; see template.ts for the full language
+ */
+export function interpolate(
+  template: string,
+  variables: Record<string, unknown>
+): string {
+  return renderTemplate(template, variables);
 }
 
 /**
@@ -829,6 +1827,21 @@ export function findStartStep(steps: AgentFlowStep[]): AgentFlowStep | null {
   return steps.length > 0 ? steps[0] : null;
 }
 
+/**
+ * Options for creating a flow context
+ */
+export interface FlowContextOptions {
+  sessionContext?: string;
+  conversation?: ConversationTurn[];
+  parentSpanId?: string;
+  sessionId?: string;
+  createSpans?: boolean;
+  onToken?: TokenCallback;
+  signal?: AbortSignal;
+  runSubAgent?: SubAgentRunner;
+  callDepth?: number;
+}
+
 /**
  * Create an initial flow context
  */
@@ -836,17 +1849,13 @@ export function createFlowContext(
   agent: AgentDefinition,
   input: string,
   attemptId: string,
-  options: {
-    sessionContext?: string;
-    parentSpanId?: string;
-    sessionId?: string;
-    createSpans?: boolean;
-  } = {}
+  options: FlowContextOptions = {}
 ): FlowContext {
   return {
     agent,
     input,
     sessionContext: options.sessionContext,
+    conversation: options.conversation,
     sessionId: options.sessionId,
     attemptId,
     variables: {},
@@ -855,5 +1864,54 @@ export function createFlowContext(
     spans: [],
     loopState: new Map(),
     createSpans: options.createSpans ?? true,
+    onToken: options.onToken,
+    signal: options.signal,
+    runSubAgent: options.runSubAgent,
+    callDepth: options.callDepth,
+  };
+}
+
+/**
+ * Capture the serializable part of a context so the run can continue at
+ * `stepId` later, possibly after a page reload
+ */
+export function snapshotFlowContext(
+  context: FlowContext,
+  stepId: string,
+  stepsExecuted: number
+): FlowSnapshot {
+  return {
+    stepId,
+    input: context.input,
+    sessionContext: context.sessionContext,
+    conversation: context.conversation,
+    variables: { ...context.variables },
+    loopState: Object.fromEntries(context.loopState),
+    sequence: context.sequence,
+    parentSpanId: context.parentSpanId,
+    spans: [...context.spans],
+    stepsExecuted,
   };
 }
+
+/**
+ * Rebuild a context from a snapshot
+ */
+export function restoreFlowContext(
+  agent: AgentDefinition,
+  snapshot: FlowSnapshot,
+  attemptId: string,
+  options: Omit<FlowContextOptions, "sessionContext" | "conversation" | "parentSpanId"> = {}
+): FlowContext {
+  const context = createFlowContext(agent, snapshot.input, attemptId, {
+    ...options,
+    sessionContext: snapshot.sessionContext,
+    conversation: snapshot.conversation,
+    parentSpanId: snapshot.parentSpanId,
+  });
+  context.variables = { ...snapshot.variables };
+  context.loopState = new Map(Object.entries(snapshot.loopState));
+  context.sequence = snapshot.sequence;
+  context.spans = [...snapshot.spans];
+  return context;
+}
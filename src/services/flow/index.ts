@@ -3,12 +3,12 @@
  *
  * This module provides the flow execution engine for agent definitions.
  * Agents can define multi-step flows with conditions, loops, tool calls,
- * and LLM prompts. This engine executes those flows and provides full
+ * parallel branches, sub-agent calls and LLM prompts. This engine executes those flows and provides full
  * observability through execution spans.
  *
  * Usage:
  * ```typescript
- * import { executeFlow, validateFlow } from './services/flow';
+ * import { executeFlow, analyzeFlow } from './services/flow';
  *
  * // Execute an agent's flow
  * const result = await executeFlow(agent, input, attemptId, {
@@ -23,10 +23,10 @@
  *   console.error('Error:', result.error);
  * }
  *
- * // Validate a flow before execution
- * const validation = validateFlow(agent.flow);
- * if (!validation.valid) {
- *   console.error('Flow errors:', validation.errors);
+ * // Check a flow before execution (executeFlow refuses flows with errors)
+ * const analysis = analyzeFlow(agent.flow);
+ * for (const diagnostic of analysis.diagnostics) {
+ *   console.warn(diagnostic.severity, diagnostic.message, diagnostic.hint);
  * }
  * ```
  */
@@ -34,13 +34,59 @@
 // Core execution
 export {
   executeFlow,
+  resumeFlow,
+  replayFlow,
   executeSinglePrompt,
   executeFlowWithRetry,
   validateFlow,
   type FlowExecutionResult,
   type FlowExecutionOptions,
+  type FlowSuspension,
+  type FlowDebugPause,
+  type FlowDebugCommand,
+  type FlowDebugHooks,
 } from './executor';
 
+// Static analysis
+export {
+  analyzeFlow,
+  formatFlowDiagnostics,
+  type FlowAnalysis,
+  type FlowDiagnostic,
+  type FlowDiagnosticCode,
+  type FlowDiagnosticSeverity,
+} from './analyzer';
+
+// Templates
+export {
+  renderTemplate,
+  lintTemplate,
+  getTemplateVariables,
+  TemplateError,
+  TEMPLATE_FILTERS,
+  type TemplateFilter,
+  type TemplateIssue,
+  type TemplateIssueCode,
+  type LintTemplateOptions,
+} from './template';
+
+// Output contracts
+export {
+  checkOutputContract,
+  describeOutputContract,
+  lintOutputContract,
+  DEFAULT_MAX_REPAIR_ATTEMPTS,
+  type ContractCheck,
+  type ContractRule,
+  type ContractViolation,
+} from './contract';
+
+// Step retry, timeout and fallback policies
+export {
+  runStepWithPolicy,
+  DEFAULT_RETRY_BACKOFF_MS,
+} from './policy';
+
 // Flow builders
 export {
   createSimpleFlow,
@@ -56,7 +102,15 @@ export {
   buildStepMap,
   findStartStep,
   createFlowContext,
+  snapshotFlowContext,
+  restoreFlowContext,
+  JOIN_STRATEGIES,
+  MAX_AGENT_CALL_DEPTH,
   type FlowContext,
+  type LoopState,
   type StepResult,
   type StepHandler,
+  type BranchResult,
+  type JoinStrategy,
+  type SubAgentRunner,
 } from './handlers';
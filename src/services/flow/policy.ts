@@ -0,0 +1,236 @@
+/**
+ * Step Policies
+ *
+ * Runs a step under its retry, timeout and fallback policy. Each retry and
+ * fallback leaves a reasoning span next to the spans of the attempts
+ * themselves, so a trace shows why a step ran more than once.
+ */
+
+import type { AgentFlowStep, AgentStepFallback } from "../../types/agent";
+import { createSpan } from "../../db/queries";
+import { delay, isCancelledError } from "../../utils/abort";
+import type { FlowContext, StepHandler, StepResult } from "./handlers";
+
+export const DEFAULT_RETRY_BACKOFF_MS = 1000;
+
+/**
+ * Run `step` with `handler`, honoring `step.policy`. Steps without a policy
+ * run exactly as the handler would on its own.
+ */
+export async function runStepWithPolicy(
+  step: AgentFlowStep,
+  handler: StepHandler,
+  context: FlowContext
+): Promise<StepResult> {
+  const policy = step.policy;
+  if (!policy) return handler(step, context);
+
+  const retries = Math.max(0, Math.floor(policy.retries ?? 0));
+  const backoffMs = Math.max(0, policy.backoffMs ?? DEFAULT_RETRY_BACKOFF_MS);
+
+  let result = await runAttempt(step, handler, context, policy.timeoutMs);
+
+  for (let retry = 1; retry <= retries && !result.success; retry++) {
+    context.sequence = result.sequence;
+    await delay(backoffMs * 2 ** (retry - 1), context.signal);
+    recordPolicySpan(
+      context,
+      { step: "retry", stepId: step.id, attempt: retry + 1, maxAttempts: retries + 1 },
+      result.error ?? ""
+    );
+    result = await runAttempt(step, handler, context, policy.timeoutMs);
+  }
+
+  if (result.success || !policy.fallback) return result;
+
+  context.sequence = result.sequence;
+  return runFallback(step, handler, context, policy.fallback, result, policy.timeoutMs);
+}
+
+async function runFallback(
+  step: AgentFlowStep,
+  handler: StepHandler,
+  context: FlowContext,
+  fallback: AgentStepFallback,
+  failed: StepResult,
+  timeoutMs?: number
+): Promise<StepResult> {
+  switch (fallback.type) {
+    case "model": {
+      recordPolicySpan(
+        context,
+        { step: "fallback", stepId: step.id, fallback: "model", model: fallback.model },
+        failed.error ?? ""
+      );
+
+      // Switch the step's own model too, or it would win over the agent's
+      const agent = context.agent;
+      context.agent = {
+        ...agent,
+        parameters: { ...agent.parameters, model: fallback.model },
+      };
+      const fallbackStep = step.modelParameters
+        ? { ...step, modelParameters: { ...step.modelParameters, model: fallback.model } }
+        : step;
+      try {
+        return await runAttempt(fallbackStep, handler, context, timeoutMs);
+      } finally {
+        context.agent = agent;
+      }
+    }
+
+    case "value": {
+      const outputVariable = step.config.outputVariable as string | undefined;
+      if (outputVariable) {
+        context.variables[outputVariable] = fallback.value;
+      }
+      context.variables["lastOutput"] = fallback.value;
+
+      recordPolicySpan(
+        context,
+        { step: "fallback", stepId: step.id, fallback: "value", error: failed.error },
+        typeof fallback.value === "string" ? fallback.value : JSON.stringify(fallback.value)
+      );
+
+      return {
+        output: fallback.value,
+        nextStepId: step.connections.next || null,
+        sequence: context.sequence,
+        success: true,
+      };
+    }
+
+    case "skip":
+      recordPolicySpan(
+        context,
+        { step: "fallback", stepId: step.id, fallback: "skip" },
+        failed.error ?? ""
+      );
+
+      return {
+        output: null,
+        nextStepId: step.connections.next || null,
+        sequence: context.sequence,
+        success: true,
+      };
+
+    default:
+      return failed;
+  }
+}
+
+/**
+ * One attempt at the step. Thrown errors become failed results so they can
+ * be retried; cancellation still propagates. With a timeout, the handler
+ * gets its own signal that is aborted when the time runs out, and its own
+ * context that is only taken over if it finishes in time: a handler that
+ * ignores the signal can't write to the run after it lost the race.
+ */
+async function runAttempt(
+  step: AgentFlowStep,
+  handler: StepHandler,
+  context: FlowContext,
+  timeoutMs?: number
+): Promise<StepResult> {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return handler(step, context).catch((error) => failAttempt(step, context, error));
+  }
+
+  const outerSignal = context.signal;
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (outerSignal?.aborted) controller.abort();
+  outerSignal?.addEventListener("abort", onAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      resolve("timeout");
+    }, timeoutMs);
+  });
+
+  const attemptContext: FlowContext = {
+    ...context,
+    signal: controller.signal,
+    variables: { ...context.variables },
+    spans: [],
+    loopState: new Map(context.loopState),
+  };
+  try {
+    const attempt = handler(step, attemptContext).catch((error) => {
+      // The handler noticed our abort rather than a user cancel
+      if (isCancelledError(error) && !outerSignal?.aborted) return "timeout" as const;
+      throw error;
+    });
+    // Racing also covers handlers that never look at the signal
+    const outcome = await Promise.race([attempt, timedOut]);
+    if (outcome !== "timeout") {
+      adoptAttempt(context, attemptContext);
+      return outcome;
+    }
+  } catch (error) {
+    adoptAttempt(context, attemptContext);
+    return failAttempt(step, context, error);
+  } finally {
+    clearTimeout(timer);
+    outerSignal?.removeEventListener("abort", onAbort);
+  }
+
+  const message = `Step "${step.name}" timed out after ${timeoutMs}ms`;
+  recordPolicySpan(context, { step: "timeout", stepId: step.id, timeoutMs }, message);
+  return failedResult(step, context, message);
+}
+
+/**
+ * Take over the state an attempt that finished in time left on its context
+ */
+function adoptAttempt(context: FlowContext, attempt: FlowContext): void {
+  context.variables = attempt.variables;
+  context.spans.push(...attempt.spans);
+  context.sequence = attempt.sequence;
+  context.loopState = attempt.loopState;
+  context.branchResults = attempt.branchResults;
+  context.humanResponse = attempt.humanResponse;
+  context.outputContract = attempt.outputContract;
+}
+
+function failAttempt(step: AgentFlowStep, context: FlowContext, error: unknown): StepResult {
+  if (isCancelledError(error)) throw error;
+  const message = error instanceof Error ? error.message : "Unknown execution error";
+  return failedResult(step, context, message);
+}
+
+function failedResult(step: AgentFlowStep, context: FlowContext, message: string): StepResult {
+  if (step.connections.onError) {
+    context.variables["error"] = message;
+  }
+  return {
+    output: null,
+    nextStepId: step.connections.onError || null,
+    sequence: context.sequence,
+    success: false,
+    error: message,
+  };
+}
+
+function recordPolicySpan(
+  context: FlowContext,
+  input: Record<string, unknown>,
+  output: string
+): void {
+  const span = createSpan(
+    {
+      attemptId: context.attemptId,
+      parentSpanId: context.parentSpanId,
+      sequence: context.sequence,
+      type: "reasoning",
+      input: JSON.stringify(input),
+      output,
+      durationMs: 0,
+    },
+    context.createSpans
+  );
+  context.spans.push(span);
+  context.sequence++;
+}
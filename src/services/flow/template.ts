@@ -0,0 +1,666 @@
+/**
+ * Templates
+ *
+ * The template language of prompts, tool arguments, agent inputs and
+ * outputs. `{{path}}` inserts a variable, as it always has; on top of that:
+ *
+ *   {{ name | upper }}                 filters, applied left to right
+ *   {{ summary | truncate(200) }}      filter arguments are literals or variables
+ *   {{ tone | default("neutral") }}    a fallback for missing or empty values
+ *   {{#if score >= 7}}..{{else if score >= 4}}..{{else}}..{{/if}}
+ *   {{#each results as result}}{{loop.number}}. {{result.title}}{{else}}none{{/each}}
+ *   \{{ kept as written }}             a backslash escapes the braces
+ *
+ * Every expression goes through the safe expression evaluator, so a template
+ * can read variables but never run code. A reference without filters to a
+ * variable that isn't set is left as written, and so are tags with unknown
+ * filters or blocks, so prompts that happen to contain braces render as
+ * before.
+ */
+
+import {
+  getExpressionVariables,
+  safeEvaluate,
+  validateExpression,
+} from "../../utils/safeExpressionEvaluator";
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+export type TemplateFilter = (value: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * Filters available in `{{ value | filter }}`
+ */
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  upper: (value) => stringify(value).toUpperCase(),
+  lower: (value) => stringify(value).toLowerCase(),
+  truncate: (value, length = 100, suffix = "...") => {
+    const text = stringify(value);
+    const max = Number(length);
+    return text.length > max ? text.slice(0, max).trimEnd() + String(suffix) : text;
+  },
+  json: (value, indent) =>
+    JSON.stringify(value ?? null, null, typeof indent === "number" ? indent : undefined),
+  join: (value, separator = ", ") =>
+    Array.isArray(value) ? value.map(stringify).join(String(separator)) : value,
+  default: (value, fallback = "") =>
+    value === undefined || value === null || value === "" ? fallback : value,
+};
+
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | {
+      type: "output";
+      /** The tag as written, rendered when the expression can't be */
+      source: string;
+      expression: string;
+      filters: FilterCall[];
+      /** Why the tag couldn't be parsed */
+      invalid?: string;
+    }
+  | {
+      type: "if";
+      branches: { condition: string; body: TemplateNode[] }[];
+      otherwise: TemplateNode[];
+    }
+  | {
+      type: "each";
+      expression: string;
+      itemName: string;
+      body: TemplateNode[];
+      /** Rendered when there is nothing to iterate */
+      otherwise: TemplateNode[];
+    };
+
+/**
+ * Render a template against flow variables
+ *
+ * @throws TemplateError for unbalanced blocks
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, unknown>
+): string {
+  return renderNodes(parseTemplate(template), variables);
+}
+
+// ============ Lexing ============
+
+type Segment =
+  | { kind: "text"; text: string }
+  | { kind: "tag"; content: string; source: string };
+
+const BLOCK_TAG = /^(#if\b|#each\b|\/if$|\/each$|else\b)/;
+
+/** Paths looked up directly, like `items.0` or `step-1`, which aren't expressions */
+const SIMPLE_PATH = /^[A-Za-z_$][\w$-]*(\.[\w$-]+)*$/;
+
+function lex(template: string): Segment[] {
+  const segments: Segment[] = [];
+  let text = "";
+  let pos = 0;
+
+  while (pos < template.length) {
+    const open = template.indexOf("{{", pos);
+    if (open === -1) {
+      text += template.slice(pos);
+      break;
+    }
+
+    // \{{ is a literal {{
+    if (open > 0 && template[open - 1] === "\\") {
+      text += template.slice(pos, open - 1) + "{{";
+      pos = open + 2;
+      continue;
+    }
+
+    const close = findTagEnd(template, open + 2);
+    if (close === -1) {
+      text += template.slice(pos, open + 2);
+      pos = open + 2;
+      continue;
+    }
+
+    text += template.slice(pos, open);
+    segments.push({ kind: "text", text });
+    text = "";
+    segments.push({
+      kind: "tag",
+      content: template.slice(open + 2, close).trim(),
+      source: template.slice(open, close + 2),
+    });
+    pos = close + 2;
+  }
+
+  segments.push({ kind: "text", text });
+  stripStandaloneBlockLines(segments);
+  return segments;
+}
+
+/**
+ * Index of the `}}` closing a tag, skipping quoted strings
+ */
+function findTagEnd(template: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < template.length; i++) {
+    const char = template[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "}" && template[i + 1] === "}") {
+      return i;
+    } else if (char === "\n") {
+      // Tags don't span lines; this brace pair is text
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * A block tag alone on its line takes the line with it, so blocks can be
+ * laid out one tag per line without leaving blank lines in the output
+ */
+function stripStandaloneBlockLines(segments: Segment[]): void {
+  // Decide on the text as written: stripping one tag's line changes its neighbours'
+  const standalone = segments.map((segment, i) => {
+    if (segment.kind !== "tag" || !BLOCK_TAG.test(segment.content)) return false;
+    const before = segments[i - 1];
+    const after = segments[i + 1];
+    if (before?.kind !== "text" || after?.kind !== "text") return false;
+
+    const lineStart = i === 1 ? /(^|\n)[ \t]*$/ : /\n[ \t]*$/;
+    const lineEnd = i === segments.length - 2 ? /^[ \t]*(\r?\n|$)/ : /^[ \t]*\r?\n/;
+    return lineStart.test(before.text) && lineEnd.test(after.text);
+  });
+
+  standalone.forEach((isStandalone, i) => {
+    if (!isStandalone) return;
+    const before = segments[i - 1] as { kind: "text"; text: string };
+    const after = segments[i + 1] as { kind: "text"; text: string };
+    before.text = before.text.replace(/[ \t]*$/, "");
+    after.text = after.text.replace(/^[ \t]*(\r?\n)?/, "");
+  });
+}
+
+// ============ Parsing ============
+
+interface OpenBlock {
+  kind: "if" | "each";
+  source: string;
+}
+
+/**
+ * Parse a template into nodes
+ *
+ * @throws TemplateError for unbalanced blocks
+ */
+function parseTemplate(template: string): TemplateNode[] {
+  const segments = lex(template);
+  let index = 0;
+
+  const parseUntil = (block: OpenBlock | null): { nodes: TemplateNode[]; end: string } => {
+    const nodes: TemplateNode[] = [];
+
+    while (index < segments.length) {
+      const segment = segments[index++];
+      if (segment.kind === "text") {
+        if (segment.text) nodes.push({ type: "text", text: segment.text });
+        continue;
+      }
+
+      const { content, source } = segment;
+
+      if (content.startsWith("#if ") || content === "#if") {
+        nodes.push(parseIf(content.slice(3).trim(), source));
+      } else if (content.startsWith("#each ") || content === "#each") {
+        nodes.push(parseEach(content.slice(5).trim(), source));
+      } else if (content === "/if" || content === "/each" || /^else\b/.test(content)) {
+        const kind = content.startsWith("/") ? content.slice(1) : null;
+        if (!block) {
+          nodes.push(literalTag(source, "no block is open for it to close"));
+          continue;
+        }
+        if (kind && kind !== block.kind) {
+          throw new TemplateError(`${source} closes ${block.source}; expected {{/${block.kind}}}`);
+        }
+        return { nodes, end: content };
+      } else if (content.startsWith("#") || content.startsWith("/")) {
+        nodes.push(literalTag(source, "unknown block; use #if or #each"));
+      } else {
+        nodes.push(parseOutput(content, source));
+      }
+    }
+
+    if (block) {
+      throw new TemplateError(`${block.source} is never closed with {{/${block.kind}}}`);
+    }
+    return { nodes, end: "" };
+  };
+
+  const parseIf = (condition: string, source: string): TemplateNode => {
+    if (!condition) throw new TemplateError(`${source} needs a condition`);
+
+    const block: OpenBlock = { kind: "if", source };
+    const branches = [{ condition, body: [] as TemplateNode[] }];
+    let otherwise: TemplateNode[] = [];
+
+    let { nodes, end } = parseUntil(block);
+    branches[0].body = nodes;
+    while (end.startsWith("else if")) {
+      const branch = { condition: end.slice(7).trim(), body: [] as TemplateNode[] };
+      if (!branch.condition) throw new TemplateError(`{{${end}}} needs a condition`);
+      ({ nodes, end } = parseUntil(block));
+      branch.body = nodes;
+      branches.push(branch);
+    }
+    if (end === "else") {
+      ({ nodes, end } = parseUntil(block));
+      otherwise = nodes;
+    }
+    if (end !== "/if") {
+      throw new TemplateError(`Unexpected {{${end}}} in ${source}`);
+    }
+
+    return { type: "if", branches, otherwise };
+  };
+
+  const parseEach = (content: string, source: string): TemplateNode => {
+    const match = content.match(/^(.+?)\s+as\s+([A-Za-z_$][\w$]*)$/);
+    const expression = match ? match[1].trim() : content;
+    if (!expression) throw new TemplateError(`${source} needs something to iterate`);
+
+    const block: OpenBlock = { kind: "each", source };
+    let { nodes, end } = parseUntil(block);
+    const body = nodes;
+    let otherwise: TemplateNode[] = [];
+    if (end === "else") {
+      ({ nodes, end } = parseUntil(block));
+      otherwise = nodes;
+    }
+    if (end !== "/each") {
+      throw new TemplateError(`Unexpected {{${end}}} in ${source}`);
+    }
+
+    return { type: "each", expression, itemName: match ? match[2] : "item", body, otherwise };
+  };
+
+  return parseUntil(null).nodes;
+}
+
+/**
+ * A tag that isn't understood, rendered as written
+ */
+function literalTag(source: string, invalid: string): TemplateNode {
+  return { type: "output", source, expression: "", filters: [], invalid };
+}
+
+function parseOutput(content: string, source: string): TemplateNode {
+  const [expression, ...filterSources] = splitTopLevel(content, "|");
+  const filters: FilterCall[] = [];
+
+  for (const filterSource of filterSources) {
+    const match = filterSource.trim().match(/^([A-Za-z_]\w*)\s*(?:\((.*)\))?$/s);
+    if (!match) {
+      return {
+        type: "output",
+        source,
+        expression: expression.trim(),
+        filters,
+        invalid: `"${filterSource.trim()}" is not a filter`,
+      };
+    }
+    const args = match[2]?.trim() ? splitTopLevel(match[2], ",").map((arg) => arg.trim()) : [];
+    filters.push({ name: match[1], args });
+  }
+
+  return { type: "output", source, expression: expression.trim(), filters };
+}
+
+/**
+ * Split on `separator` outside quotes and parentheses. A `|` next to
+ * another `|` is the `||` operator, not a filter pipe.
+ */
+function splitTopLevel(text: string, separator: "|" | ","): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      if (separator === "|" && (text[i + 1] === "|" || text[i - 1] === "|")) continue;
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// ============ Rendering ============
+
+function renderNodes(nodes: TemplateNode[], scope: Record<string, unknown>): string {
+  let output = "";
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.text;
+        break;
+
+      case "output":
+        output += renderOutput(node, scope);
+        break;
+
+      case "if": {
+        const branch = node.branches.find((b) => isTruthy(evaluateOr(b.condition, scope, false)));
+        output += renderNodes(branch ? branch.body : node.otherwise, scope);
+        break;
+      }
+
+      case "each": {
+        const items = evaluateOr(node.expression, scope, undefined);
+        if (!Array.isArray(items) || items.length === 0) {
+          output += renderNodes(node.otherwise, scope);
+          break;
+        }
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, {
+            ...scope,
+            [node.itemName]: item,
+            loop: {
+              index,
+              number: index + 1,
+              first: index === 0,
+              last: index === items.length - 1,
+              length: items.length,
+            },
+          });
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function renderOutput(
+  node: Extract<TemplateNode, { type: "output" }>,
+  scope: Record<string, unknown>
+): string {
+  if (node.invalid) return node.source;
+
+  const filters: { apply: TemplateFilter; args: string[] }[] = [];
+  for (const filter of node.filters) {
+    const apply = getFilter(filter.name);
+    // Likely braces meant literally, like a "{{ a | b }}" placeholder
+    if (!apply) return node.source;
+    filters.push({ apply, args: filter.args });
+  }
+
+  let value: unknown;
+  try {
+    value = evaluate(node.expression, scope);
+    if (filters.length === 0) {
+      return value === undefined || value === null ? node.source : stringify(value);
+    }
+    for (const { apply, args } of filters) {
+      value = apply(value, ...args.map((arg) => evaluate(arg, scope)));
+    }
+  } catch {
+    // Not an expression after all, e.g. JSON braces in a prompt
+    return node.source;
+  }
+
+  return value === undefined || value === null ? "" : stringify(value);
+}
+
+function evaluate(expression: string, scope: Record<string, unknown>): unknown {
+  if (SIMPLE_PATH.test(expression)) {
+    return getPath(scope, expression);
+  }
+  return safeEvaluate(expression, scope);
+}
+
+function evaluateOr(expression: string, scope: Record<string, unknown>, fallback: unknown): unknown {
+  try {
+    return evaluate(expression, scope);
+  } catch (error) {
+    console.warn(`[Template] Could not evaluate "${expression}":`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Look up a dot path, reading own properties only
+ */
+function getPath(scope: Record<string, unknown>, path: string): unknown {
+  let current: unknown = scope;
+  for (const part of path.split(".")) {
+    if (
+      current === null ||
+      typeof current !== "object" ||
+      !Object.prototype.hasOwnProperty.call(current, part)
+    ) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function getFilter(name: string): TemplateFilter | undefined {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_FILTERS, name)
+    ? TEMPLATE_FILTERS[name]
+    : undefined;
+}
+
+/**
+ * Like JavaScript truthiness, except that empty lists are false
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+// ============ Linting ============
+
+export type TemplateIssueCode =
+  | "syntax"
+  | "unknown_filter"
+  | "invalid_expression"
+  | "unknown_variable";
+
+/**
+ * One problem found in a template
+ */
+export interface TemplateIssue {
+  code: TemplateIssueCode;
+  severity: "error" | "warning";
+  message: string;
+  hint?: string;
+}
+
+export interface LintTemplateOptions {
+  /** Variables the template may read; unset skips the unknown variable check */
+  variables?: Iterable<string>;
+}
+
+/**
+ * Check a template without rendering it. Errors are templates that fail to
+ * render; warnings render, but probably not as intended.
+ */
+export function lintTemplate(
+  template: string,
+  options: LintTemplateOptions = {}
+): TemplateIssue[] {
+  const issues: TemplateIssue[] = [];
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template);
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error;
+    return [{ code: "syntax", severity: "error", message: error.message }];
+  }
+
+  const known = options.variables ? new Set(options.variables) : null;
+  const reported = new Set<string>();
+
+  walkExpressions(nodes, (expression, use, locals) => {
+    if (use.kind === "filter") {
+      if (!getFilter(use.name)) {
+        issues.push({
+          code: "unknown_filter",
+          severity: "warning",
+          message: `Unknown filter "${use.name}" in ${use.source}, which will be left as written`,
+          hint: `Use one of: ${Object.keys(TEMPLATE_FILTERS).join(", ")}`,
+        });
+      }
+      return;
+    }
+    if (use.kind === "invalid") {
+      issues.push({
+        code: "invalid_expression",
+        severity: "warning",
+        message: `${use.source} is not a valid template expression (${use.reason}) and will be left as written`,
+        hint: "Escape it as \\{{ if the braces are meant literally",
+      });
+      return;
+    }
+
+    const names = readVariables(expression);
+    if (!names) {
+      const { error } = validateExpression(expression);
+      issues.push({
+        code: "invalid_expression",
+        // Outputs fall back to the tag as written; blocks to false or no items
+        severity: use.kind === "output" ? "warning" : "error",
+        message: `${use.source} is not a valid template expression: ${error}`,
+        hint:
+          use.kind === "output" ? "Escape it as \\{{ if the braces are meant literally" : undefined,
+      });
+      return;
+    }
+
+    if (!known) return;
+    for (const name of names) {
+      if (known.has(name) || locals.has(name) || reported.has(name)) continue;
+      reported.add(name);
+      issues.push({
+        code: "unknown_variable",
+        severity: "warning",
+        message: `Unknown variable "${name}" in ${use.source}`,
+        hint: known.size > 0 ? `Known variables: ${[...known].sort().join(", ")}` : undefined,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Variables a template reads, not counting the names its loops bind.
+ * Templates that don't parse read nothing.
+ */
+export function getTemplateVariables(template: string): string[] {
+  let nodes: TemplateNode[];
+  try {
+    nodes = parseTemplate(template);
+  } catch {
+    return [];
+  }
+
+  const names = new Set<string>();
+  walkExpressions(nodes, (expression, use, locals) => {
+    if (use.kind === "filter" || use.kind === "invalid") return;
+    for (const name of readVariables(expression) ?? []) {
+      if (!locals.has(name)) names.add(name);
+    }
+  });
+  return [...names];
+}
+
+type ExpressionUse =
+  | { kind: "output" | "if" | "each"; source: string }
+  | { kind: "filter"; name: string; source: string }
+  | { kind: "invalid"; reason: string; source: string };
+
+/**
+ * Visit every expression in the nodes with the loop names in scope there
+ */
+function walkExpressions(
+  nodes: TemplateNode[],
+  visit: (expression: string, use: ExpressionUse, locals: Set<string>) => void,
+  locals: Set<string> = new Set()
+): void {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "output":
+        if (node.invalid) {
+          visit("", { kind: "invalid", reason: node.invalid, source: node.source }, locals);
+          break;
+        }
+        visit(node.expression, { kind: "output", source: node.source }, locals);
+        for (const filter of node.filters) {
+          visit("", { kind: "filter", name: filter.name, source: node.source }, locals);
+          filter.args.forEach((arg) => visit(arg, { kind: "output", source: node.source }, locals));
+        }
+        break;
+
+      case "if":
+        for (const branch of node.branches) {
+          visit(branch.condition, { kind: "if", source: `{{#if ${branch.condition}}}` }, locals);
+          walkExpressions(branch.body, visit, locals);
+        }
+        walkExpressions(node.otherwise, visit, locals);
+        break;
+
+      case "each":
+        visit(node.expression, { kind: "each", source: `{{#each ${node.expression}}}` }, locals);
+        walkExpressions(node.body, visit, new Set([...locals, node.itemName, "loop"]));
+        walkExpressions(node.otherwise, visit, locals);
+        break;
+    }
+  }
+}
+
+/**
+ * Root variables of an expression, or null when it isn't valid
+ */
+function readVariables(expression: string): string[] | null {
+  if (SIMPLE_PATH.test(expression)) {
+    return [expression.split(".")[0]];
+  }
+  if (!validateExpression(expression).valid) return null;
+  return getExpressionVariables(expression);
+}
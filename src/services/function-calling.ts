@@ -0,0 +1,248 @@
+/**
+ * Function-Calling Executor
+ *
+ * Runs an agent in native function-calling mode: the agent's tools are sent
+ * to the model as function definitions and the model decides which ones to
+ * call. Tool results are fed back until the model answers without calling
+ * a tool, or the step limit is reached.
+ *
+ * Every model turn is recorded as an `llm_call` span, and every tool call
+ * as a `tool_call` span followed by a `tool_result` span.
+ */
+
+import type { AgentDefinition, ConversationTurn } from "../types/agent";
+import type { ExecutionSpan } from "../types/evolution";
+import {
+  completeChat,
+  type ChatMessage,
+  type ChatToolCall,
+  type TokenCallback,
+} from "../api/llm";
+import { createSpan } from "../db/queries";
+import { isCancelledError, throwIfCancelled } from "../utils/abort";
+import {
+  buildToolDefinitions,
+  executeToolCall,
+  formatToolResultsForLLM,
+  parseToolCalls,
+  type ToolCallResult,
+} from "./tools";
+import type { FlowExecutionResult } from "./flow";
+
+/**
+ * Options for function-calling execution
+ */
+export interface FunctionCallingOptions {
+  /** Maximum number of model turns before giving up */
+  maxSteps?: number;
+  /** Optional session context to include */
+  sessionContext?: string;
+  /** Earlier turns of the conversation the input continues */
+  conversation?: ConversationTurn[];
+  /** Whether to create spans in the database */
+  createSpans?: boolean;
+  /** Parent span ID for nesting */
+  parentSpanId?: string;
+  /** Session ID for debug logging */
+  sessionId?: string;
+  /** Called with the final answer once the model stops calling tools */
+  onToken?: TokenCallback;
+  /** Aborts the loop; a cancelled run throws CancelledError */
+  signal?: AbortSignal;
+}
+
+/** Default maximum model turns */
+const DEFAULT_MAX_STEPS = 10;
+
+/**
+ * Execute an agent by letting the model call its tools in a multi-turn loop
+ */
+export async function executeWithFunctionCalling(
+  agent: AgentDefinition,
+  input: string,
+  attemptId: string,
+  options: FunctionCallingOptions = {}
+): Promise<FlowExecutionResult> {
+  const startTime = Date.now();
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const createSpans = options.createSpans ?? false;
+  const tools = buildToolDefinitions(agent);
+  const spans: ExecutionSpan[] = [];
+  let sequence = 0;
+
+  const userContent = options.sessionContext
+    ? `Context:\n${options.sessionContext}\n\n${input}`
+    : input;
+  const messages: ChatMessage[] = [
+    { role: "system", content: agent.systemPrompt },
+    ...(options.conversation ?? []),
+    { role: "user", content: userContent },
+  ];
+
+  for (let step = 1; step <= maxSteps; step++) {
+    throwIfCancelled(options.signal);
+    const turnStart = Date.now();
+    const lastMessage = messages[messages.length - 1];
+
+    let completion;
+    try {
+      completion = await completeChat(messages, {
+        model: agent.parameters?.model,
+        temperature: agent.parameters?.temperature,
+        maxTokens: agent.parameters?.maxTokens,
+        sessionId: options.sessionId,
+        tools,
+        signal: options.signal,
+        lane: agent.lineageId,
+        role: "agent",
+      });
+    } catch (error) {
+      if (isCancelledError(error)) throw error;
+      return {
+        success: false,
+        output: "",
+        spans,
+        error: error instanceof Error ? error.message : "Unknown LLM error",
+        durationMs: Date.now() - startTime,
+        stepsExecuted: step,
+      };
+    }
+
+    spans.push(
+      createSpan(
+        {
+          attemptId,
+          parentSpanId: options.parentSpanId,
+          sequence: sequence++,
+          type: "llm_call",
+          input: lastMessage.content,
+          output:
+            completion.toolCalls.length > 0
+              ? JSON.stringify(completion.toolCalls)
+              : completion.content,
+          modelId: completion.usage?.model ?? agent.parameters?.model,
+          promptTokens: completion.usage?.promptTokens,
+          completionTokens: completion.usage?.completionTokens,
+          durationMs: Date.now() - turnStart,
+          estimatedCost: completion.usage?.cost ?? undefined,
+        },
+        createSpans
+      )
+    );
+
+    // No tool calls means the model has produced its final answer
+    if (completion.toolCalls.length === 0) {
+      options.onToken?.({
+        delta: completion.content,
+        content: completion.content,
+      });
+      return {
+        success: true,
+        output: completion.content,
+        spans,
+        durationMs: Date.now() - startTime,
+        stepsExecuted: step,
+      };
+    }
+
+    messages.push({
+      role: "assistant",
+      content: completion.content,
+      tool_calls: completion.toolCalls,
+    });
+
+    const results: ToolCallResult[] = [];
+    for (const call of completion.toolCalls) {
+      const result = await runToolCall(call, agent, attemptId, {
+        parentSpanId: options.parentSpanId,
+        sequence: sequence++,
+        createSpans,
+        sessionId: options.sessionId,
+        signal: options.signal,
+      });
+      if (result.span) {
+        spans.push(result.span);
+      }
+
+      spans.push(
+        createSpan(
+          {
+            attemptId,
+            parentSpanId: result.spanId ?? options.parentSpanId,
+            sequence: sequence++,
+            type: "tool_result",
+            input: call.id,
+            output: result.result.success
+              ? JSON.stringify(result.result.output)
+              : `Error: ${result.result.error}`,
+            toolName: result.toolCall.name,
+            toolResult: result.result.output,
+            toolError: result.result.error,
+            durationMs: 0,
+          },
+          createSpans
+        )
+      );
+      results.push(result);
+    }
+
+    messages.push(
+      ...(formatToolResultsForLLM(results, "openai") as ChatMessage[])
+    );
+  }
+
+  return {
+    success: false,
+    output: "",
+    spans,
+    error: `Function calling exceeded maximum steps limit (${maxSteps})`,
+    durationMs: Date.now() - startTime,
+    stepsExecuted: maxSteps,
+  };
+}
+
+/**
+ * Execute one tool call requested by the model. Calls whose arguments are
+ * not valid JSON are reported back to the model instead of being run.
+ */
+async function runToolCall(
+  call: ChatToolCall,
+  agent: AgentDefinition,
+  attemptId: string,
+  options: {
+    parentSpanId?: string;
+    sequence: number;
+    createSpans: boolean;
+    sessionId?: string;
+    signal?: AbortSignal;
+  }
+): Promise<ToolCallResult> {
+  let toolCall;
+  try {
+    [toolCall] = parseToolCalls({ tool_calls: [call] });
+  } catch {
+    return {
+      toolCall: { id: call.id, name: call.function.name, arguments: {} },
+      result: {
+        success: false,
+        output: null,
+        error: `Invalid JSON arguments: ${call.function.arguments}`,
+      },
+      allowed: true,
+    };
+  }
+
+  return executeToolCall(toolCall, {
+    agent,
+    attemptId,
+    parentSpanId: options.parentSpanId,
+    startSequence: options.sequence,
+    createSpans: options.createSpans,
+    signal: options.signal,
+    context: {
+      agentId: agent.id,
+      lineageId: agent.lineageId,
+      sessionId: options.sessionId,
+    },
+  });
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { AgentDefinition, AgentMemoryConfig, AgentMemoryEntry } from '../../../types/agent';
+import { generateWithSystem } from '../../../api/llm';
+import { CancelledError } from '../../../utils/abort';
+import { recallMemory, rememberExchange, withMemory } from '../memory';
+
+// Keep the lineage's memory in an array instead of the database
+const store: AgentMemoryEntry[] = [];
+
+vi.mock('../../../db/memory-queries', () => ({
+  addMemoryEntries: vi.fn((lineageId: string, entries: Pick<AgentMemoryEntry, 'role' | 'content' | 'attemptId'>[]) => {
+    const saved = entries.map((entry) => ({
+      ...entry,
+      id: `memory-${store.length + 1}-${Math.random()}`,
+      lineageId,
+      createdAt: store.length,
+    }));
+    store.push(...saved);
+    return saved;
+  }),
+  getMemoryEntries: vi.fn((lineageId: string) => store.filter((entry) => entry.lineageId === lineageId)),
+  deleteMemoryEntries: vi.fn((ids: string[]) => {
+    const remaining = store.filter((entry) => !ids.includes(entry.id));
+    store.splice(0, store.length, ...remaining);
+  }),
+}));
+
+vi.mock('../../../api/llm', () => ({
+  generateWithSystem: vi.fn(),
+}));
+
+function createAgent(memory: AgentMemoryConfig): AgentDefinition {
+  return {
+    id: 'agent-1',
+    lineageId: 'lineage-1',
+    name: 'Memory Agent',
+    description: 'Remembers',
+    version: 1,
+    systemPrompt: 'You are helpful.',
+    tools: [],
+    flow: [],
+    memory,
+    parameters: { model: 'test-model', temperature: 0.7, maxTokens: 1000 },
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+async function rememberRuns(agent: AgentDefinition, runs: [string, string][]) {
+  for (const [input, output] of runs) {
+    await rememberExchange(agent, 'lineage-1', input, output, { attemptId: `attempt-${input}` });
+  }
+}
+
+describe('agent memory', () => {
+  beforeEach(() => {
+    store.length = 0;
+    vi.mocked(generateWithSystem).mockReset();
+  });
+
+  it('does nothing for agents without memory', async () => {
+    const agent = createAgent({ type: 'none', config: {} });
+    await rememberRuns(agent, [['hi', 'hello']]);
+
+    expect(store).toEqual([]);
+    expect(recallMemory(agent.memory, 'lineage-1', 'hi')).toBeNull();
+  });
+
+  it('recalls the most recent messages in buffer memory', async () => {
+    const agent = createAgent({ type: 'buffer', config: { maxMessages: 4 } });
+    expect(recallMemory(agent.memory, 'lineage-1', 'q4')).toBeNull();
+
+    await rememberRuns(agent, [
+      ['q1', 'a1'],
+      ['q2', 'a2'],
+      ['q3', 'a3'],
+    ]);
+
+    const recall = recallMemory(agent.memory, 'lineage-1', 'q4');
+    expect(recall?.messages.map((m) => m.content)).toEqual(['q2', 'a2', 'q3', 'a3']);
+    expect(store.map((m) => m.attemptId)).toContain('attempt-q1');
+  });
+
+  it('keeps buffer memory within the token budget without orphaned answers', async () => {
+    const agent = createAgent({ type: 'buffer', config: { maxTokens: 12 } });
+    await rememberRuns(agent, [
+      ['q1', 'a1'],
+      ['q2', 'x'.repeat(48)],
+    ]);
+
+    // The long answer fills the budget; its question does not fit, so it is skipped too
+    expect(recallMemory(agent.memory, 'lineage-1', 'q3')).toBeNull();
+  });
+
+  it('folds older messages into a rolling summary', async () => {
+    const agent = createAgent({ type: 'summary', config: { maxMessages: 4 } });
+    vi.mocked(generateWithSystem)
+      .mockResolvedValueOnce('User asked q1 and q2.')
+      .mockResolvedValueOnce('User asked q1 to q4.');
+
+    await rememberRuns(agent, [
+      ['q1', 'a1'],
+      ['q2', 'a2'],
+    ]);
+    expect(generateWithSystem).not.toHaveBeenCalled();
+
+    await rememberRuns(agent, [['q3', 'a3']]);
+    expect(generateWithSystem).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(generateWithSystem).mock.calls[0][1]).toContain('User: q1');
+    expect(vi.mocked(generateWithSystem).mock.calls[0][2]).toMatchObject({
+      model: 'test-model',
+      lane: 'lineage-1',
+      role: 'agent',
+    });
+
+    await rememberRuns(agent, [['q4', 'a4'], ['q5', 'a5']]);
+    expect(vi.mocked(generateWithSystem).mock.calls[1][1]).toContain('Current summary:\nUser asked q1 and q2.');
+
+    const recall = recallMemory(agent.memory, 'lineage-1', 'q6');
+    expect(recall?.summary).toBe('User asked q1 to q4.');
+    expect(recall?.messages.map((m) => m.content)).toEqual(['q5', 'a5']);
+    expect(store.filter((m) => m.role === 'summary')).toHaveLength(1);
+  });
+
+  it('keeps messages when the summary call fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const agent = createAgent({ type: 'summary', config: { maxMessages: 2 } });
+    vi.mocked(generateWithSystem).mockRejectedValue(new Error('offline'));
+
+    await rememberRuns(agent, [
+      ['q1', 'a1'],
+      ['q2', 'a2'],
+    ]);
+
+    expect(store.map((m) => m.content)).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('forgets the exchange when the summary call is cancelled', async () => {
+    const agent = createAgent({ type: 'summary', config: { maxMessages: 2 } });
+    await rememberRuns(agent, [['q1', 'a1']]);
+    const controller = new AbortController();
+    vi.mocked(generateWithSystem).mockImplementation(async () => {
+      controller.abort();
+      throw new CancelledError();
+    });
+
+    await expect(
+      rememberExchange(agent, 'lineage-1', 'q2', 'a2', { signal: controller.signal })
+    ).rejects.toThrow(CancelledError);
+
+    expect(vi.mocked(generateWithSystem).mock.calls[0][2]).toMatchObject({
+      signal: controller.signal,
+    });
+    expect(store.map((m) => m.content)).toEqual(['q1', 'a1']);
+  });
+
+  it('recalls the most related exchanges in vector memory', async () => {
+    const agent = createAgent({ type: 'vector', config: { maxMessages: 2 } });
+    await rememberRuns(agent, [
+      ['Draft a poem about the ocean', 'Waves roll in...'],
+      ['Which database suits offline apps?', 'SQLite works well offline.'],
+      ['Name three colors', 'Red, green, blue'],
+    ]);
+
+    const recall = recallMemory(agent.memory, 'lineage-1', 'Compare SQLite with another database');
+    expect(recall?.messages.map((m) => m.content)).toEqual([
+      'Which database suits offline apps?',
+      'SQLite works well offline.',
+    ]);
+    expect(recallMemory(agent.memory, 'lineage-1', 'zebra')).toBeNull();
+  });
+
+  it('leaves out an excluded attempt', async () => {
+    const agent = createAgent({ type: 'buffer', config: {} });
+    await rememberRuns(agent, [
+      ['q1', 'a1'],
+      ['q2', 'a2'],
+    ]);
+
+    const recall = recallMemory(agent.memory, 'lineage-1', 'q2', { excludeAttemptId: 'attempt-q2' });
+    expect(recall?.messages.map((m) => m.content)).toEqual(['q1', 'a1']);
+  });
+
+  it('adds recalled memory to the system prompt', async () => {
+    const agent = createAgent({ type: 'buffer', config: {} });
+    await rememberRuns(agent, [['My name is Ada', 'Nice to meet you, Ada']]);
+
+    const prompt = withMemory(agent, recallMemory(agent.memory, 'lineage-1', 'Who am I?')).systemPrompt;
+    expect(prompt).toContain('You are helpful.\n\n## Memory');
+    expect(prompt).toContain('### Recent messages\nUser: My name is Ada\n\nAssistant: Nice to meet you, Ada');
+    expect(withMemory(agent, null)).toBe(agent);
+  });
+});
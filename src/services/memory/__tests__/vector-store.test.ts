@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { searchDocuments, tokenizeText } from '../vector-store';
+
+describe('tokenizeText', () => {
+  it('lowercases words and drops stop words and single characters', () => {
+    expect(tokenizeText('The Café menu, in 2 parts: a-la-carte!')).toEqual(['café', 'menu', 'parts', 'la', 'carte']);
+  });
+});
+
+describe('searchDocuments', () => {
+  const documents = [
+    'Write a haiku about autumn leaves',
+    'Summarize the quarterly sales report',
+    'Translate the sales report into French',
+    'Plan a trip to Kyoto in autumn',
+  ];
+
+  it('ranks documents by similarity and leaves out unrelated ones', () => {
+    const results = searchDocuments('quarterly sales report', documents, 5);
+
+    expect(results.map((r) => r.index)).toEqual([1, 2]);
+    expect(results[0].score).toBeGreaterThan(0);
+    expect(results[0].score).toBeLessThanOrEqual(1);
+  });
+
+  it('weighs rare words above common ones and prefers later documents on ties', () => {
+    expect(searchDocuments('autumn', documents, 5).map((r) => r.index)).toEqual([3, 0]);
+    expect(searchDocuments('haiku autumn', documents, 1).map((r) => r.index)).toEqual([0]);
+  });
+
+  it('returns nothing for queries without content words', () => {
+    expect(searchDocuments('the and of', documents, 5)).toEqual([]);
+    expect(searchDocuments('sales', [], 5)).toEqual([]);
+  });
+});
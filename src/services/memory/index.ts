@@ -0,0 +1,21 @@
+/**
+ * Agent Memory Service
+ *
+ * Buffer, summary and vector memory for agents, kept per lineage across
+ * runs. The executor recalls memory before a run and remembers the run
+ * once it succeeds.
+ */
+
+export {
+  recallMemory,
+  rememberExchange,
+  withMemory,
+  formatMemory,
+  getMemoryLimits,
+  DEFAULT_MEMORY_LIMITS,
+  MAX_STORED_MESSAGES,
+} from './memory';
+export type { MemoryType, MemoryLimits, MemoryRecall, RecallOptions, RememberOptions } from './memory';
+
+export { searchDocuments, tokenizeText } from './vector-store';
+export type { ScoredDocument } from './vector-store';
@@ -0,0 +1,296 @@
+/**
+ * Agent Memory
+ *
+ * Runs the memory an agent's AgentMemoryConfig declares. Every tracked,
+ * successful run of a lineage adds its input and output to the lineage's
+ * memory, and later runs recall from it according to the memory type:
+ * - buffer: the most recent messages
+ * - summary: a rolling LLM summary of older messages plus the recent ones
+ * - vector: the earlier exchanges most similar to the new input, ranked by
+ *   local TF-IDF vectors (no embedding service; `embeddingModel` is unused)
+ *
+ * Recalled memory is added to the agent's system prompt for the run, so flow
+ * prompt steps that skip the system prompt do not see it.
+ */
+
+import type { AgentDefinition, AgentMemoryConfig, AgentMemoryEntry } from '../../types/agent';
+import { generateWithSystem } from '../../api/llm';
+import { isCancelledError, throwIfCancelled } from '../../utils/abort';
+import {
+  addMemoryEntries,
+  deleteMemoryEntries,
+  getMemoryEntries,
+} from '../../db/memory-queries';
+import { searchDocuments } from './vector-store';
+
+export type MemoryType = Exclude<AgentMemoryConfig['type'], 'none'>;
+
+export interface MemoryLimits {
+  maxMessages: number;
+  maxTokens: number;
+}
+
+/**
+ * Limits used when the memory config leaves them unset. For vector memory
+ * maxMessages counts recalled messages, two per earlier exchange.
+ */
+export const DEFAULT_MEMORY_LIMITS: Record<MemoryType, MemoryLimits> = {
+  buffer: { maxMessages: 20, maxTokens: 2000 },
+  summary: { maxMessages: 10, maxTokens: 2000 },
+  vector: { maxMessages: 6, maxTokens: 1500 },
+};
+
+/** Messages kept per lineage; the oldest are dropped beyond this */
+export const MAX_STORED_MESSAGES = 500;
+
+/**
+ * What a run remembers, ready to add to the system prompt
+ */
+export interface MemoryRecall {
+  type: MemoryType;
+  /** Summary of older messages (summary memory) */
+  summary?: string;
+  /** Recalled messages, oldest first */
+  messages: AgentMemoryEntry[];
+}
+
+export function getMemoryLimits(memory: AgentMemoryConfig): MemoryLimits {
+  const defaults = DEFAULT_MEMORY_LIMITS[memory.type === 'none' ? 'buffer' : memory.type];
+  return {
+    maxMessages: memory.config.maxMessages ?? defaults.maxMessages,
+    maxTokens: memory.config.maxTokens ?? defaults.maxTokens,
+  };
+}
+
+export interface RecallOptions {
+  /** Leave out what this attempt added, e.g. when replaying it */
+  excludeAttemptId?: string;
+}
+
+/**
+ * Recall a lineage's memory for a new input. Returns null for agents without
+ * memory and while the lineage has nothing to remember.
+ */
+export function recallMemory(
+  memory: AgentMemoryConfig,
+  lineageId: string,
+  input: string,
+  options: RecallOptions = {}
+): MemoryRecall | null {
+  if (memory.type === 'none') return null;
+
+  const entries = getMemoryEntries(lineageId).filter(
+    (entry) => !options.excludeAttemptId || entry.attemptId !== options.excludeAttemptId
+  );
+  const messages = entries.filter((entry) => entry.role !== 'summary');
+  const limits = getMemoryLimits(memory);
+
+  let recall: MemoryRecall;
+  switch (memory.type) {
+    case 'buffer':
+      recall = { type: 'buffer', messages: takeRecent(messages, limits) };
+      break;
+    case 'summary': {
+      const summary = entries.filter((entry) => entry.role === 'summary').pop()?.content;
+      const budget = { ...limits, maxTokens: limits.maxTokens - estimateTokens(summary ?? '') };
+      recall = { type: 'summary', summary, messages: takeRecent(messages, budget) };
+      break;
+    }
+    case 'vector':
+      recall = { type: 'vector', messages: findRelated(messages, input, limits) };
+      break;
+  }
+
+  return recall.summary || recall.messages.length > 0 ? recall : null;
+}
+
+/**
+ * The agent with recalled memory added to its system prompt
+ */
+export function withMemory(agent: AgentDefinition, recall: MemoryRecall | null): AgentDefinition {
+  if (!recall) return agent;
+  const block = formatMemory(recall);
+  return {
+    ...agent,
+    systemPrompt: agent.systemPrompt ? `${agent.systemPrompt}\n\n${block}` : block,
+  };
+}
+
+export function formatMemory(recall: MemoryRecall): string {
+  const sections = [
+    '## Memory',
+    'Notes from your earlier runs. Use them where they help with the current input.',
+  ];
+  if (recall.summary) {
+    sections.push(`### Summary\n${recall.summary}`);
+  }
+  if (recall.messages.length > 0) {
+    const heading = recall.type === 'vector' ? 'Related earlier runs' : 'Recent messages';
+    sections.push(`### ${heading}\n${formatMessages(recall.messages)}`);
+  }
+  return sections.join('\n\n');
+}
+
+export interface RememberOptions {
+  attemptId?: string;
+  sessionId?: string;
+  /** Cancels the summary update; the exchange is then forgotten again */
+  signal?: AbortSignal;
+}
+
+/**
+ * Add a finished run to the lineage's memory. Summary memory then folds its
+ * older messages into the summary once they exceed the limits; if the
+ * summary call fails the messages are kept and folded on a later run.
+ */
+export async function rememberExchange(
+  agent: AgentDefinition,
+  lineageId: string,
+  input: string,
+  output: string,
+  options: RememberOptions = {}
+): Promise<void> {
+  if (agent.memory.type === 'none') return;
+  throwIfCancelled(options.signal);
+
+  const added = addMemoryEntries(lineageId, [
+    { role: 'user', content: input, attemptId: options.attemptId },
+    { role: 'assistant', content: output, attemptId: options.attemptId },
+  ]);
+
+  const entries = getMemoryEntries(lineageId);
+  const messages = entries.filter((entry) => entry.role !== 'summary');
+  if (messages.length > MAX_STORED_MESSAGES) {
+    deleteMemoryEntries(
+      messages.slice(0, messages.length - MAX_STORED_MESSAGES).map((entry) => entry.id)
+    );
+  }
+
+  if (agent.memory.type === 'summary') {
+    try {
+      await foldIntoSummary(agent, lineageId, options);
+    } catch (error) {
+      if (isCancelledError(error)) {
+        deleteMemoryEntries(added.map((entry) => entry.id));
+      }
+      throw error;
+    }
+  }
+}
+
+async function foldIntoSummary(
+  agent: AgentDefinition,
+  lineageId: string,
+  { sessionId, signal }: RememberOptions
+): Promise<void> {
+  const limits = getMemoryLimits(agent.memory);
+  const entries = getMemoryEntries(lineageId);
+  const summaries = entries.filter((entry) => entry.role === 'summary');
+  const messages = entries.filter((entry) => entry.role !== 'summary');
+
+  const tokens = messages.reduce((sum, entry) => sum + estimateTokens(entry.content), 0);
+  if (messages.length <= limits.maxMessages && tokens <= limits.maxTokens) return;
+
+  // Keep the newest half as messages, rounded down to whole exchanges
+  const keep = Math.max(2, Math.floor(limits.maxMessages / 4) * 2);
+  const folded = messages.slice(0, Math.max(0, messages.length - keep));
+  if (folded.length === 0) return;
+
+  const previous = summaries[summaries.length - 1]?.content;
+  const prompt = [
+    previous ? `Current summary:\n${previous}` : 'There is no summary yet.',
+    `Messages to add:\n${formatMessages(folded)}`,
+  ].join('\n\n');
+
+  let summary: string;
+  try {
+    summary = await generateWithSystem(SUMMARY_SYSTEM_PROMPT, prompt, {
+      model: agent.parameters?.model,
+      temperature: 0.2,
+      maxTokens: Math.max(256, Math.floor(limits.maxTokens / 2)),
+      sessionId,
+      lane: lineageId,
+      role: 'agent',
+      signal,
+    });
+  } catch (error) {
+    if (isCancelledError(error)) throw error;
+    console.warn('[Agent Memory] Failed to update summary:', error);
+    return;
+  }
+
+  deleteMemoryEntries([...summaries, ...folded].map((entry) => entry.id));
+  addMemoryEntries(lineageId, [{ role: 'summary', content: summary.trim() }]);
+}
+
+const SUMMARY_SYSTEM_PROMPT = `You keep the memory of an AI agent across its runs.
+Merge the new messages into the current summary. Keep facts, user preferences, decisions and open questions that later runs may need; drop small talk and repetition.
+Respond with the updated summary only, as short plain-text notes.`;
+
+/**
+ * The newest messages within the limits, oldest first, starting at a user
+ * message so no answer is recalled without its question
+ */
+function takeRecent(messages: AgentMemoryEntry[], limits: MemoryLimits): AgentMemoryEntry[] {
+  const recent: AgentMemoryEntry[] = [];
+  let tokens = 0;
+
+  for (let i = messages.length - 1; i >= 0 && recent.length < limits.maxMessages; i--) {
+    tokens += estimateTokens(messages[i].content);
+    if (tokens > limits.maxTokens) break;
+    recent.unshift(messages[i]);
+  }
+
+  while (recent.length > 0 && recent[0].role !== 'user') {
+    recent.shift();
+  }
+  return recent;
+}
+
+/**
+ * The earlier exchanges most similar to the input within the limits, in the
+ * order they happened
+ */
+function findRelated(
+  messages: AgentMemoryEntry[],
+  input: string,
+  limits: MemoryLimits
+): AgentMemoryEntry[] {
+  const exchanges: AgentMemoryEntry[][] = [];
+  messages.forEach((entry, index) => {
+    const next = messages[index + 1];
+    if (entry.role === 'user' && next?.role === 'assistant') {
+      exchanges.push([entry, next]);
+    }
+  });
+
+  const ranked = searchDocuments(
+    input,
+    exchanges.map((exchange) => exchange.map((entry) => entry.content).join('\n')),
+    Math.floor(limits.maxMessages / 2)
+  );
+
+  const chosen: number[] = [];
+  let tokens = 0;
+  for (const { index } of ranked) {
+    const size = exchanges[index].reduce((sum, entry) => sum + estimateTokens(entry.content), 0);
+    if (tokens + size > limits.maxTokens) continue;
+    tokens += size;
+    chosen.push(index);
+  }
+
+  return chosen.sort((a, b) => a - b).flatMap((index) => exchanges[index]);
+}
+
+function formatMessages(messages: AgentMemoryEntry[]): string {
+  return messages
+    .map((entry) => `${entry.role === 'user' ? 'User' : 'Assistant'}: ${entry.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Estimate token count (rough approximation: ~4 chars per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,94 @@
+/**
+ * Local Vector Store
+ *
+ * Lexical vectors for vector memory: TF-IDF weights over the words of each
+ * document, compared by cosine similarity. Good enough to find earlier runs
+ * about the same subject, and needs no embedding service.
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for',
+  'from', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'me', 'my', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their',
+  'then', 'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+  'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+export interface ScoredDocument {
+  /** Position of the document in the searched list */
+  index: number;
+  /** Cosine similarity to the query, in (0, 1] */
+  score: number;
+}
+
+/**
+ * Lowercased words of a text, without stop words and single characters
+ */
+export function tokenizeText(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (word) => word.length > 1 && !STOP_WORDS.has(word)
+  );
+}
+
+/**
+ * Rank documents by similarity to a query, best first. Documents sharing
+ * no words with the query are left out; ties go to the later document.
+ */
+export function searchDocuments(
+  query: string,
+  documents: string[],
+  limit: number
+): ScoredDocument[] {
+  if (documents.length === 0 || limit <= 0) return [];
+
+  const documentTerms = documents.map(countTerms);
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documentTerms) {
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  // Smoothed so terms in every document still count a little
+  const idf = (term: string) =>
+    Math.log((documents.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+
+  const queryVector = weigh(countTerms(query), idf);
+  if (queryVector.size === 0) return [];
+
+  return documentTerms
+    .map((terms, index) => ({ index, score: cosine(queryVector, weigh(terms, idf)) }))
+    .filter((scored) => scored.score > 0)
+    .sort((a, b) => b.score - a.score || b.index - a.index)
+    .slice(0, limit);
+}
+
+function countTerms(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of tokenizeText(text)) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function weigh(counts: Map<string, number>, idf: (term: string) => number): Map<string, number> {
+  let total = 0;
+  counts.forEach((count) => (total += count));
+
+  const vector = new Map<string, number>();
+  counts.forEach((count, term) => vector.set(term, (count / total) * idf(term)));
+  return vector;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((weight, term) => (dot += weight * (b.get(term) ?? 0)));
+  if (dot === 0) return 0;
+
+  const norm = (vector: Map<string, number>) => {
+    let sum = 0;
+    vector.forEach((weight) => (sum += weight * weight));
+    return Math.sqrt(sum);
+  };
+  return dot / (norm(a) * norm(b));
+}
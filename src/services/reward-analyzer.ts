@@ -11,7 +11,12 @@ import type {
   Sentiment,
   Trend,
 } from '../types/evolution';
-import { llmClient, isLLMConfigured } from '../api/llm';
+import {
+  llmClient,
+  isLLMConfigured,
+  type JsonSchema,
+  type LLMCallContext,
+} from '../api/llm';
 
 // Common feedback aspects with associated keywords
 const ASPECT_KEYWORDS: Record<string, string[]> = {
@@ -226,12 +231,33 @@ function extractAspectsFromKeywords(comment: string): FeedbackAspect[] {
   return aspects;
 }
 
+const ASPECTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['aspects'],
+  properties: {
+    aspects: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['aspect', 'sentiment', 'confidence'],
+        properties: {
+          aspect: { type: 'string' },
+          sentiment: { type: 'string', enum: ['positive', 'negative', 'neutral'] },
+          quote: { type: 'string', nullable: true },
+          confidence: { type: 'number' },
+        },
+      },
+    },
+  },
+};
+
 /**
  * Extracts feedback aspects using LLM (primary method)
  */
 async function extractAspectsWithLLM(
   comment: string,
-  score: number
+  score: number,
+  callContext: LLMCallContext
 ): Promise<FeedbackAspect[]> {
   const prompt = `Analyze this user feedback for an AI agent output and extract specific aspects being commented on.
 
@@ -245,42 +271,36 @@ For each aspect, determine:
 3. A relevant quote from the comment (if applicable)
 4. Confidence level (0-1)
 
-Return as JSON array:
-[{"aspect": "length", "sentiment": "negative", "quote": "too long", "confidence": 0.9}]
-
-If no specific aspects are mentioned, return an empty array [].
-Return ONLY the JSON array, no other text.`;
+Return as JSON object:
+{"aspects": [{"aspect": "length", "sentiment": "negative", "quote": "too long", "confidence": 0.9}]}
 
-  try {
-    const response = await llmClient.chat(
-      [{ role: 'user', content: prompt }],
-      { maxTokens: 512, temperature: 0.3 }
-    );
+If no specific aspects are mentioned, return {"aspects": []}.
+Return ONLY the JSON object, no other text.`;
 
-    // Parse JSON response
-    const cleaned = response.trim();
-    const jsonMatch = cleaned.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      return [];
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]) as Array<{
+  const result = await llmClient.chatStructured<{
+    aspects: Array<{
       aspect: string;
-      sentiment: string;
-      quote?: string;
+      sentiment: Sentiment;
+      quote?: string | null;
       confidence: number;
     }>;
-
-    return parsed.map((p) => ({
-      aspect: p.aspect.toLowerCase(),
-      sentiment: (p.sentiment as Sentiment) || 'neutral',
-      quote: p.quote,
-      confidence: Math.max(0, Math.min(1, p.confidence)),
-    }));
-  } catch (error) {
-    console.warn('LLM aspect extraction failed:', error);
+  }>([{ role: 'user', content: prompt }], ASPECTS_SCHEMA, {
+    callSite: 'reward-analyzer',
+    maxTokens: 512,
+    temperature: 0.3,
+    ...callContext,
+  });
+
+  if (!result.ok) {
     return [];
   }
+
+  return result.data.aspects.map((p) => ({
+    aspect: p.aspect.toLowerCase(),
+    sentiment: p.sentiment,
+    quote: p.quote ?? undefined,
+    confidence: Math.max(0, Math.min(1, p.confidence)),
+  }));
 }
 
 /**
@@ -289,7 +309,8 @@ Return ONLY the JSON array, no other text.`;
 export async function analyzeReward(
   score: number,
   comment: string | null | undefined,
-  previousScore: number | null = null
+  previousScore: number | null = null,
+  callContext: LLMCallContext = {}
 ): Promise<ScoreAnalysis> {
   // Calculate trend
   const { trend, delta } = calculateTrend(score, previousScore);
@@ -308,7 +329,7 @@ export async function analyzeReward(
   if (comment && comment.trim()) {
     // Try LLM-based extraction first
     if (isLLMConfigured()) {
-      const llmAspects = await extractAspectsWithLLM(comment, score);
+      const llmAspects = await extractAspectsWithLLM(comment, score, callContext);
       if (llmAspects.length > 0) {
         analysis.aspects = llmAspects;
         return analysis;
@@ -14,11 +14,12 @@ import { toolRegistry } from '../registry';
 
 // Mock the LLM module
 vi.mock('../../../api/llm', () => ({
+  chatStructured: vi.fn(),
   generateWithSystem: vi.fn(),
   isLLMConfigured: vi.fn(() => true),
 }));
 
-import { generateWithSystem, isLLMConfigured } from '../../../api/llm';
+import { chatStructured, generateWithSystem, isLLMConfigured } from '../../../api/llm';
 
 describe('Built-in Tools', () => {
   beforeEach(() => {
@@ -59,15 +60,15 @@ describe('Built-in Tools', () => {
     });
 
     it('should return knowledge results for valid query', async () => {
-      const mockResponse = JSON.stringify({
+      const mockResponse = {
         query: 'artificial intelligence',
         summary: 'AI is a field of computer science.',
         details: ['Detail 1', 'Detail 2'],
         relatedTopics: ['Machine Learning'],
         confidence: 'high',
         caveat: null,
-      });
-      (generateWithSystem as Mock).mockResolvedValue(mockResponse);
+      };
+      (chatStructured as Mock).mockResolvedValue({ ok: true, data: mockResponse, attempts: 1 });
 
       const result = await knowledgeQueryTool.execute({
         args: { query: 'artificial intelligence' },
@@ -79,6 +80,21 @@ describe('Built-in Tools', () => {
       expect(result.metadata?.source).toBe('llm-knowledge');
     });
 
+    it('should return error when the response does not match the schema', async () => {
+      (chatStructured as Mock).mockResolvedValue({
+        ok: false,
+        error: '$.summary: is required',
+        attempts: 3,
+      });
+
+      const result = await knowledgeQueryTool.execute({
+        args: { query: 'artificial intelligence' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('$.summary: is required');
+    });
+
     it('should return error for empty query', async () => {
       const result = await knowledgeQueryTool.execute({
         args: { query: '' },
@@ -107,15 +123,15 @@ describe('Built-in Tools', () => {
     });
 
     it('should delegate to knowledge_query and add note', async () => {
-      const mockResponse = JSON.stringify({
+      const mockResponse = {
         query: 'test',
         summary: 'Test summary',
         details: [],
         relatedTopics: [],
         confidence: 'medium',
         caveat: null,
-      });
-      (generateWithSystem as Mock).mockResolvedValue(mockResponse);
+      };
+      (chatStructured as Mock).mockResolvedValue({ ok: true, data: mockResponse, attempts: 1 });
 
       const result = await webSearchTool.execute({
         args: { query: 'test' },
@@ -206,13 +222,13 @@ describe('Built-in Tools', () => {
     });
 
     it('should return analysis from LLM', async () => {
-      const mockResponse = JSON.stringify({
+      const mockResponse = {
         summary: 'Data analysis complete.',
         insights: ['Insight 1', 'Insight 2'],
         statistics: { count: 10, avg: 5.5 },
         recommendations: ['Recommendation 1'],
-      });
-      (generateWithSystem as Mock).mockResolvedValue(mockResponse);
+      };
+      (chatStructured as Mock).mockResolvedValue({ ok: true, data: mockResponse, attempts: 1 });
 
       const result = await analyzeDataTool.execute({
         args: { data: 'some sample data for analysis' },
@@ -237,13 +253,13 @@ describe('Built-in Tools', () => {
     });
 
     it('should include analysis type in metadata', async () => {
-      const mockResponse = JSON.stringify({
+      const mockResponse = {
         summary: 'Sentiment analysis',
         insights: [],
         statistics: { positive: 0.8, neutral: 0.15, negative: 0.05 },
         recommendations: [],
-      });
-      (generateWithSystem as Mock).mockResolvedValue(mockResponse);
+      };
+      (chatStructured as Mock).mockResolvedValue({ ok: true, data: mockResponse, attempts: 1 });
 
       const result = await analyzeDataTool.execute({
         args: { data: 'I love this product!', type: 'sentiment' },
@@ -264,7 +280,7 @@ describe('Built-in Tools', () => {
         { idea: 'Idea 1', rationale: 'Reason 1', feasibility: 'high', innovationScore: 0.9 },
         { idea: 'Idea 2', rationale: 'Reason 2', feasibility: 'medium', innovationScore: 0.7 },
       ];
-      (generateWithSystem as Mock).mockResolvedValue(JSON.stringify(mockIdeas));
+      (chatStructured as Mock).mockResolvedValue({ ok: true, data: { ideas: mockIdeas }, attempts: 1 });
 
       const result = await brainstormTool.execute({
         args: { topic: 'productivity apps' },
@@ -449,5 +465,21 @@ describe('Built-in Tools', () => {
       expect(output.compressionRatio).toBeDefined();
       expect(parseFloat(output.compressionRatio)).toBeGreaterThan(0);
     });
+
+    it('should call the model with the calling step overrides', async () => {
+      (generateWithSystem as Mock).mockResolvedValue('Short summary.');
+
+      await summarizeTool.execute({
+        args: { content: 'test content' },
+        modelParameters: { model: 'claude-haiku', temperature: 0, topP: 0.5 },
+      });
+
+      expect((generateWithSystem as Mock).mock.calls[0][2]).toMatchObject({
+        model: 'claude-haiku',
+        temperature: 0,
+        topP: 0.5,
+        maxTokens: 512,
+      });
+    });
   });
 });
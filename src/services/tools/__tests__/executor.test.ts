@@ -5,11 +5,13 @@ import {
   executeToolCallsParallel,
   parseToolCalls,
   formatToolResultsForLLM,
+  toToolDefinition,
+  buildToolDefinitions,
   type ToolCall,
 } from "../executor";
 import { toolRegistry, type ToolImplementation } from "../registry";
 import { createSpan } from "../../../db/queries";
-import type { AgentDefinition } from "../../../types/agent";
+import type { AgentDefinition, AgentTool } from "../../../types/agent";
 
 // Mock the createSpan function from db/queries
 vi.mock("../../../db/queries", () => ({
@@ -503,4 +505,60 @@ describe("Tool Executor", () => {
       expect(formatted[0].type).toBe("tool_result");
     });
   });
+
+  describe("toToolDefinition()", () => {
+    const searchTool: AgentTool = {
+      id: "tool-1",
+      name: "Search",
+      description: "Search the web",
+      type: "builtin",
+      config: { builtinName: "web_search" },
+      parameters: [
+        { name: "query", type: "string", description: "Query", required: true },
+        { name: "limit", type: "Number", description: "Max results", required: false },
+        { name: "filters", type: "map", description: "Filters", required: false },
+      ],
+    };
+
+    it("should use the builtin name as the function name", () => {
+      const definition = toToolDefinition(searchTool);
+
+      expect(definition.type).toBe("function");
+      expect(definition.function.name).toBe("web_search");
+      expect(definition.function.description).toBe("Search the web");
+    });
+
+    it("should fall back to the tool name without a builtin name", () => {
+      const definition = toToolDefinition({ ...searchTool, config: {} });
+
+      expect(definition.function.name).toBe("Search");
+    });
+
+    it("should build a JSON schema from the parameters", () => {
+      const definition = toToolDefinition(searchTool);
+
+      expect(definition.function.parameters).toEqual({
+        type: "object",
+        properties: {
+          query: { type: "string", description: "Query" },
+          limit: { type: "number", description: "Max results" },
+          filters: { type: "string", description: "Filters" },
+        },
+        required: ["query"],
+      });
+    });
+
+    it("should build definitions for every agent tool", () => {
+      const agent = {
+        tools: [searchTool, { ...searchTool, id: "tool-2", config: {} }],
+      } as AgentDefinition;
+
+      const definitions = buildToolDefinitions(agent);
+
+      expect(definitions.map((d) => d.function.name)).toEqual([
+        "web_search",
+        "Search",
+      ]);
+    });
+  });
 });
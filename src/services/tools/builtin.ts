@@ -14,12 +14,51 @@
  */
 
 import { toolRegistry, type ToolImplementation, type ToolResult, type ToolExecutionParams } from './registry';
-import { generateWithSystem, isLLMConfigured } from '../../api/llm';
+import {
+  chatStructured,
+  generateWithSystem,
+  isLLMConfigured,
+  type ChatOptions,
+  type JsonSchema,
+} from '../../api/llm';
+
+/**
+ * Scheduling and cancellation options shared by every LLM call a tool makes,
+ * plus the calling step's model parameters. Spread after the tool's own
+ * temperature and maxTokens so the step's overrides win.
+ */
+function toolCallOptions(
+  params: ToolExecutionParams
+): Pick<ChatOptions, 'signal' | 'priority' | 'lane' | 'model' | 'temperature' | 'topP' | 'maxTokens'> {
+  const { model, temperature, topP, maxTokens } = params.modelParameters ?? {};
+  return {
+    signal: params.signal,
+    priority: 'tool',
+    lane: params.context?.lineageId,
+    ...(model !== undefined && { model }),
+    ...(temperature !== undefined && { temperature }),
+    ...(topP !== undefined && { topP }),
+    ...(maxTokens !== undefined && { maxTokens }),
+  };
+}
 
 // ============================================================================
 // Knowledge Query Tool (replaces web_search)
 // ============================================================================
 
+const KNOWLEDGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['query', 'summary', 'details', 'confidence'],
+  properties: {
+    query: { type: 'string' },
+    summary: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+    relatedTopics: { type: 'array', items: { type: 'string' } },
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'] },
+    caveat: { type: 'string', nullable: true },
+  },
+};
+
 /**
  * Knowledge query tool - queries LLM's training knowledge
  * Since we don't have external search APIs, this uses the LLM's knowledge base
@@ -71,17 +110,24 @@ Return a JSON object with these exact fields:
 Return ONLY valid JSON, no markdown code blocks or explanation.`;
 
     try {
-      const response = await generateWithSystem(systemPrompt, query, {
-        temperature: 0.3,
-        maxTokens: 1024,
-      });
-
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('Invalid response format from LLM');
+      const structured = await chatStructured(
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: query },
+        ],
+        KNOWLEDGE_SCHEMA,
+        {
+          callSite: 'tool:knowledge_query',
+          temperature: 0.3,
+          maxTokens: 1024,
+          ...toolCallOptions(params),
+        }
+      );
+      if (!structured.ok) {
+        throw new Error(`Invalid response format from LLM: ${structured.error}`);
       }
 
-      const result = JSON.parse(jsonMatch[0]);
+      const result = structured.data;
 
       return {
         success: true,
@@ -127,6 +173,26 @@ const webSearchTool: ToolImplementation = {
 // Brainstorm Tool (LLM-powered)
 // ============================================================================
 
+const BRAINSTORM_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['ideas'],
+  properties: {
+    ideas: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['idea', 'rationale'],
+        properties: {
+          idea: { type: 'string' },
+          rationale: { type: 'string' },
+          feasibility: { type: 'string', enum: ['high', 'medium', 'low'] },
+          innovationScore: { type: 'number' },
+        },
+      },
+    },
+  },
+};
+
 const brainstormTool: ToolImplementation = {
   name: 'brainstorm',
   description: 'Generate creative ideas and suggestions for a given topic or problem',
@@ -168,23 +234,30 @@ Style to apply: ${style}
 - practical: Feasible, implementable solutions
 - innovative: Cutting-edge, technology-forward ideas
 
-Return ONLY a valid JSON array in this exact format (no markdown):
-[{"idea": "...", "rationale": "...", "feasibility": "high", "innovationScore": 0.8}]`;
+Return ONLY a valid JSON object in this exact format (no markdown):
+{"ideas": [{"idea": "...", "rationale": "...", "feasibility": "high", "innovationScore": 0.8}]}`;
 
     const userPrompt = `Generate ${count} ${style} ideas for: ${topic}`;
 
     try {
-      const response = await generateWithSystem(systemPrompt, userPrompt, {
-        temperature: 0.8,
-        maxTokens: 1024,
-      });
-
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('Invalid response format from LLM');
+      const structured = await chatStructured<{ ideas: unknown[] }>(
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        BRAINSTORM_SCHEMA,
+        {
+          callSite: 'tool:brainstorm',
+          temperature: 0.8,
+          maxTokens: 1024,
+          ...toolCallOptions(params),
+        }
+      );
+      if (!structured.ok) {
+        throw new Error(`Invalid response format from LLM: ${structured.error}`);
       }
 
-      const ideas = JSON.parse(jsonMatch[0]);
+      const { ideas } = structured.data;
 
       return {
         success: true,
@@ -217,6 +290,17 @@ Return ONLY a valid JSON array in this exact format (no markdown):
 // Analyze Data Tool (LLM-powered)
 // ============================================================================
 
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['summary', 'insights'],
+  properties: {
+    summary: { type: 'string' },
+    insights: { type: 'array', items: { type: 'string' } },
+    statistics: { type: 'object' },
+    recommendations: { type: 'array', items: { type: 'string' } },
+  },
+};
+
 const analyzeDataTool: ToolImplementation = {
   name: 'analyze_data',
   description: 'Analyze data and return insights, statistics, or patterns',
@@ -266,17 +350,24 @@ Return ONLY valid JSON, no markdown or explanation.`;
     const userPrompt = `Analyze this data (${analysisType} analysis):\n\n${dataStr.substring(0, 4000)}`;
 
     try {
-      const response = await generateWithSystem(systemPrompt, userPrompt, {
-        temperature: 0.3,
-        maxTokens: 1024,
-      });
-
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('Invalid response format from LLM');
+      const structured = await chatStructured(
+        [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        ANALYSIS_SCHEMA,
+        {
+          callSite: 'tool:analyze_data',
+          temperature: 0.3,
+          maxTokens: 1024,
+          ...toolCallOptions(params),
+        }
+      );
+      if (!structured.ok) {
+        throw new Error(`Invalid response format from LLM: ${structured.error}`);
       }
 
-      const analysis = JSON.parse(jsonMatch[0]);
+      const analysis = structured.data;
 
       return {
         success: true,
@@ -352,6 +443,7 @@ Return ONLY the summary text, no preamble or explanation.`;
       const response = await generateWithSystem(systemPrompt, content.substring(0, 8000), {
         temperature: 0.3,
         maxTokens: 512,
+        ...toolCallOptions(params),
       });
 
       const summary = response.trim();
@@ -408,7 +500,7 @@ const formatMarkdownTool: ToolImplementation = {
 
     // Complex formats ('document', 'auto') - use LLM for intelligent structuring
     if (isLLMConfigured()) {
-      return formatWithLLM(content, format, args);
+      return formatWithLLM(content, format, args, toolCallOptions(params));
     }
 
     // Fallback to simple document format if LLM not configured
@@ -454,7 +546,8 @@ function formatSimple(
 async function formatWithLLM(
   content: string,
   format: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  callOptions: ReturnType<typeof toolCallOptions>
 ): Promise<ToolResult> {
   const startTime = Date.now();
   const title = (args.title as string) || 'Document';
@@ -475,6 +568,7 @@ Return ONLY the formatted markdown, no explanation.`;
     const response = await generateWithSystem(systemPrompt, content, {
       temperature: 0.2,
       maxTokens: 2048,
+      ...callOptions,
     });
 
     return {
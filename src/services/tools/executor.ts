@@ -8,7 +8,13 @@
 import { toolRegistry, type ToolResult } from "./registry";
 import { createSpan } from "../../db/queries";
 import { generateId } from "../../utils/id";
-import type { AgentDefinition } from "../../types/agent";
+import { throwIfCancelled } from "../../utils/abort";
+import type {
+  AgentDefinition,
+  AgentTool,
+  StepModelParameters,
+} from "../../types/agent";
+import type { ChatToolDefinition } from "../../api/llm";
 
 import type { ExecutionSpan } from "../../types/evolution";
 
@@ -58,8 +64,13 @@ export interface ExecuteToolCallsOptions {
   /** Context to pass to tools */
   context?: {
     agentId?: string;
+    lineageId?: string;
     sessionId?: string;
   };
+  /** Cancels the run; rejects with CancelledError instead of returning a result */
+  signal?: AbortSignal;
+  /** Model and sampling for LLM-backed tools, from the calling flow step */
+  modelParameters?: StepModelParameters;
 }
 
 /**
@@ -106,9 +117,13 @@ export async function executeToolCall(
     parentSpanId,
     createSpans = true,
     context,
+    signal,
+    modelParameters,
   } = options;
   const startTime = Date.now();
 
+  throwIfCancelled(signal);
+
   // Check if tool is allowed
   const allowed = isToolAllowed(toolCall.name, agent);
 
@@ -201,11 +216,17 @@ export async function executeToolCall(
     args: toolCall.arguments,
     context: {
       agentId: context?.agentId ?? agent?.id,
+      lineageId: context?.lineageId ?? agent?.lineageId,
       attemptId,
       sessionId: context?.sessionId,
     },
+    signal,
+    modelParameters,
   });
 
+  // A tool that stopped because of the cancel reports a failure; don't record it
+  throwIfCancelled(signal);
+
   // Create execution span
   let span: ExecutionSpan | undefined;
   if (attemptId) {
@@ -397,3 +418,55 @@ export function formatToolResultsForLLM(
       : `Error: ${r.result.error}`,
   }));
 }
+
+/**
+ * JSON Schema types accepted for tool parameters; anything else is sent as a string
+ */
+const JSON_SCHEMA_TYPES = new Set([
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "array",
+  "object",
+]);
+
+/**
+ * Convert an agent tool into an OpenAI-style function definition so it can
+ * be offered to the model for native function calling
+ */
+export function toToolDefinition(tool: AgentTool): ChatToolDefinition {
+  const properties: Record<string, { type: string; description: string }> =
+    {};
+  const required: string[] = [];
+
+  for (const param of tool.parameters) {
+    const type = param.type.toLowerCase();
+    properties[param.name] = {
+      type: JSON_SCHEMA_TYPES.has(type) ? type : "string",
+      description: param.description,
+    };
+    if (param.required) {
+      required.push(param.name);
+    }
+  }
+
+  return {
+    type: "function",
+    function: {
+      // Builtin tools are registered (and permission-checked) by builtin name
+      name: tool.config.builtinName || tool.name,
+      description: tool.description,
+      parameters: { type: "object", properties, required },
+    },
+  };
+}
+
+/**
+ * Build function definitions for every tool available to an agent
+ */
+export function buildToolDefinitions(
+  agent: AgentDefinition
+): ChatToolDefinition[] {
+  return agent.tools.map(toToolDefinition);
+}
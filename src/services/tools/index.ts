@@ -44,6 +44,8 @@ export {
   executeToolCallsParallel,
   parseToolCalls,
   formatToolResultsForLLM,
+  toToolDefinition,
+  buildToolDefinitions,
   type ToolCall,
   type ToolCallResult,
   type ExecuteToolCallsOptions,
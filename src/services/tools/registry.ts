@@ -6,6 +6,8 @@
  * that get executed at runtime.
  */
 
+import type { StepModelParameters } from '../../types/agent';
+
 /**
  * Result of a tool execution
  */
@@ -32,9 +34,15 @@ export interface ToolExecutionParams {
   /** Optional context about the current execution */
   context?: {
     agentId?: string;
+    /** Lineage of the running agent; its LLM calls share the lineage's scheduler lane */
+    lineageId?: string;
     attemptId?: string;
     sessionId?: string;
   };
+  /** Aborted when the run is cancelled; long-running tools should stop */
+  signal?: AbortSignal;
+  /** Overrides for the model and sampling of the tool's LLM calls */
+  modelParameters?: StepModelParameters;
 }
 
 /**
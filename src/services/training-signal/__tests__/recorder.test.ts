@@ -434,6 +434,22 @@ describe('Training Signal Recorder', () => {
         ])
       );
     });
+
+    it('should mark manual edits by their source', () => {
+      const fromAgent = createTestAgent();
+      const toAgent = createTestAgent({ version: 2 });
+
+      recorder.recordAgentEvolved(fromAgent, toAgent, [], 'Manual flow edit', undefined, 'manual');
+
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO training_events'),
+        expect.arrayContaining([expect.stringContaining('source:manual')])
+      );
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO payload_blobs'),
+        expect.arrayContaining([expect.stringContaining('"source":"manual"')])
+      );
+    });
   });
 
   // ============ Execution Events Tests ============
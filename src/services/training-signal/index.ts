@@ -35,6 +35,7 @@ export {
   recordAgentCreated,
   recordAgentEvolved,
 } from './recorder';
+export type { AgentEvolutionSource } from './recorder';
 
 // Execution events
 export {
@@ -240,6 +240,11 @@ export function recordAgentCreated(
   );
 }
 
+/**
+ * Who made a new agent version: the evolution pipeline or a person editing it
+ */
+export type AgentEvolutionSource = 'evolver' | 'manual';
+
 /**
  * Records when an agent is evolved from one version to another.
  */
@@ -248,9 +253,11 @@ export function recordAgentEvolved(
   toAgent: AgentDefinition,
   changes: EvolutionChange[],
   hypothesis: string,
-  sessionId?: string
+  sessionId?: string,
+  source: AgentEvolutionSource = 'evolver'
 ): string {
   const payload = {
+    source,
     fromAgentId: fromAgent.id,
     fromVersion: fromAgent.version,
     toAgentId: toAgent.id,
@@ -269,7 +276,7 @@ export function recordAgentEvolved(
       lineageId: toAgent.lineageId,
       sessionId,
     },
-    ['lifecycle:evolved']
+    ['lifecycle:evolved', `source:${source}`]
   );
 }
 
@@ -0,0 +1,82 @@
+/**
+ * User Simulator
+ *
+ * Plays the user of a conversational agent so multi-turn behavior can be
+ * trained without typing every turn. An LLM takes a session's persona and
+ * goal (a UserSimulation) and writes the user's messages one at a time; the
+ * agent executor answers each of them. The conversation ends after the
+ * simulation's turn limit, when an agent reply contains the stop phrase, or
+ * when the simulated user says it is done.
+ */
+
+import { generateWithSystem, type LLMCallContext } from '../api/llm';
+import type { ConversationTurn } from '../types/agent';
+import type { UserSimulation } from '../types/context';
+import { formatConversation } from '../utils/conversation';
+
+/** The simulated user's whole reply once its goal is met or abandoned */
+export const SIMULATION_DONE = '[DONE]';
+
+/** Turn limit for new simulations */
+export const DEFAULT_SIMULATION_TURNS = 3;
+
+export interface SimulateUserOptions extends LLMCallContext {
+  sessionId?: string;
+}
+
+/**
+ * The simulated user's next message after the transcript so far, or null
+ * when the conversation is over
+ */
+export async function simulateUserTurn(
+  simulation: UserSimulation,
+  transcript: ConversationTurn[],
+  options: SimulateUserOptions = {}
+): Promise<string | null> {
+  const sent = transcript.filter((turn) => turn.role === 'user').length;
+  if (sent >= simulation.maxTurns) return null;
+
+  const lastTurn = transcript[transcript.length - 1];
+  if (
+    simulation.stopPhrase &&
+    lastTurn?.role === 'assistant' &&
+    lastTurn.content.toLowerCase().includes(simulation.stopPhrase.toLowerCase())
+  ) {
+    return null;
+  }
+
+  const prompt =
+    transcript.length === 0
+      ? 'Write your first message.'
+      : `The conversation so far:\n\n${formatConversation(transcript)}\n\nWrite your next message.`;
+
+  const reply = await generateWithSystem(buildSimulatorPrompt(simulation), prompt, {
+    temperature: 0.7,
+    sessionId: options.sessionId,
+    signal: options.signal,
+    lane: options.lane,
+  });
+
+  // Models sometimes label the message the way the transcript does
+  const message = reply.trim().replace(/^user\s*:\s*/i, '');
+  return message && !message.includes(SIMULATION_DONE) ? message : null;
+}
+
+/**
+ * A simulation as text, for records that store a run's input
+ */
+export function describeSimulation(simulation: UserSimulation): string {
+  return [
+    `Simulated user: ${simulation.name}`,
+    `Persona: ${simulation.persona}`,
+    `Goal: ${simulation.goal}`,
+  ].join('\n');
+}
+
+function buildSimulatorPrompt(simulation: UserSimulation): string {
+  return `You are playing a user talking to an AI assistant, to test how well it helps.
+Persona: ${simulation.persona}
+Goal: ${simulation.goal}
+
+Write only the user's next message, in the persona's voice: no labels, quotes or stage directions. Pursue the goal over several messages as a real user would, reacting to what the assistant said. When the goal is met, or the user would give up, reply with ${SIMULATION_DONE} alone.`;
+}
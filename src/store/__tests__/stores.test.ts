@@ -589,6 +589,57 @@ describe("useLineageStore", () => {
     });
   });
 
+  describe("setTurnFeedback", () => {
+    beforeEach(() => {
+      act(() => {
+        useLineageStore
+          .getState()
+          .createInitialLineages("session-1", [
+            { label: "A" as const, strategyTag: "test", content: "Test" },
+          ]);
+      });
+    });
+
+    it("ignores turn feedback until the artifact is scored", () => {
+      const lineageId = useLineageStore.getState().lineages[0].id;
+
+      act(() => {
+        useLineageStore.getState().setTurnFeedback(lineageId, 1, { score: 3 });
+      });
+
+      expect(useLineageStore.getState().lineages[0].currentEvaluation).toBeNull();
+    });
+
+    it("merges feedback per turn and drops empty entries", () => {
+      const lineageId = useLineageStore.getState().lineages[0].id;
+
+      act(() => {
+        const store = useLineageStore.getState();
+        store.setScore(lineageId, 6);
+        store.setTurnFeedback(lineageId, 3, { score: 4 });
+        store.setTurnFeedback(lineageId, 1, { score: 9 });
+        store.setTurnFeedback(lineageId, 3, { comment: "Too long" });
+      });
+
+      expect(
+        useLineageStore.getState().lineages[0].currentEvaluation?.turnFeedback
+      ).toEqual([
+        { turn: 1, score: 9 },
+        { turn: 3, score: 4, comment: "Too long" },
+      ]);
+
+      act(() => {
+        useLineageStore
+          .getState()
+          .setTurnFeedback(lineageId, 1, { score: undefined });
+      });
+
+      expect(
+        useLineageStore.getState().lineages[0].currentEvaluation?.turnFeedback
+      ).toEqual([{ turn: 3, score: 4, comment: "Too long" }]);
+    });
+  });
+
   describe("setDirective", () => {
     beforeEach(() => {
       act(() => {
@@ -735,3 +786,48 @@ describe("useLineageStore", () => {
     });
   });
 });
+
+describe("useProgressStore", () => {
+  let useProgressStore: typeof import("../../store/progress").useProgressStore;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    const module = await import("../../store/progress");
+    useProgressStore = module.useProgressStore;
+  });
+
+  it("only hands out an abort signal for cancellable operations", () => {
+    useProgressStore.getState().startOperation("session_creation", []);
+    expect(useProgressStore.getState().getAbortSignal()).toBeUndefined();
+
+    useProgressStore.getState().cancelOperation();
+    expect(useProgressStore.getState().currentOperation?.cancelled).toBeUndefined();
+  });
+
+  it("aborts the signal and marks unfinished items cancelled", () => {
+    const { startOperation, completeItem, completeOperation } =
+      useProgressStore.getState();
+    startOperation(
+      "regeneration",
+      [
+        { id: "A", label: "Lineage A" },
+        { id: "B", label: "Lineage B" },
+      ],
+      { cancellable: true }
+    );
+    const signal = useProgressStore.getState().getAbortSignal();
+
+    useProgressStore.getState().cancelOperation();
+    expect(signal?.aborted).toBe(true);
+    expect(useProgressStore.getState().currentOperation?.stageLabel).toBe(
+      "Cancelling..."
+    );
+
+    completeItem("A");
+    completeOperation();
+
+    const op = useProgressStore.getState().currentOperation;
+    expect(op?.stageLabel).toBe("Cancelled");
+    expect(op?.items.map((i) => i.status)).toEqual(["completed", "cancelled"]);
+  });
+});
@@ -1,6 +1,13 @@
 import { create } from 'zustand';
-import type { AgentDefinition } from '../types/agent';
+import type { AgentDefinition, AgentFlowStep } from '../types/agent';
 import * as queries from '../db/queries';
+import { analyzeFlow, formatFlowDiagnostics } from '../services/flow/analyzer';
+import { recordAgentEvolved } from '../services/training-signal/recorder';
+import { diffFlows } from '../utils/flowEditing';
+import { generateId } from '../utils/id';
+
+/** Hypothesis recorded for versions saved from the flow editor */
+const MANUAL_FLOW_EDIT = 'Manual flow edit';
 
 interface AgentState {
   // Map lineage ID -> agent definition
@@ -14,6 +21,7 @@ interface AgentState {
   updateAgent: (lineageId: string, updates: Partial<AgentDefinition>) => void;
   setAgent: (lineageId: string, agent: AgentDefinition) => void;
   createAgent: (lineageId: string, agent: AgentDefinition) => AgentDefinition;
+  saveFlowEdit: (lineageId: string, flow: AgentFlowStep[], sessionId?: string) => AgentDefinition;
   getAgentHistory: (lineageId: string) => AgentDefinition[];
 }
 
@@ -101,6 +109,45 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     return savedAgent;
   },
 
+  saveFlowEdit: (lineageId: string, flow: AgentFlowStep[], sessionId?: string) => {
+    const currentAgent = get().getAgentForLineage(lineageId);
+    if (!currentAgent) {
+      throw new Error(`No agent for lineage ${lineageId}`);
+    }
+
+    const analysis = analyzeFlow(flow);
+    if (!analysis.valid) {
+      throw new Error(
+        `Flow has errors: ${formatFlowDiagnostics(analysis.diagnostics.filter((d) => d.severity === 'error'))}`
+      );
+    }
+
+    // An edit is a new version, like an evolution, so runs stay attributable
+    const savedAgent = get().createAgent(lineageId, {
+      ...currentAgent,
+      id: generateId(),
+      version: currentAgent.version + 1,
+      flow,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    });
+
+    try {
+      recordAgentEvolved(
+        currentAgent,
+        savedAgent,
+        diffFlows(currentAgent.flow, flow, MANUAL_FLOW_EDIT),
+        MANUAL_FLOW_EDIT,
+        sessionId,
+        'manual'
+      );
+    } catch (recordError) {
+      console.warn('Failed to record manual flow edit:', recordError);
+    }
+
+    return savedAgent;
+  },
+
   getAgentHistory: (lineageId: string) => {
     return queries.getAgentHistory(lineageId);
   },
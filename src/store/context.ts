@@ -1,5 +1,12 @@
 import { create } from 'zustand';
-import type { ContextDocument, ContextExample, TestCase, SessionContext } from '../types/context';
+import type {
+  ContextDocument,
+  ContextExample,
+  TestCase,
+  UserSimulation,
+  SessionContext,
+} from '../types/context';
+import * as simulationQueries from '../db/simulation-queries';
 import { generateId } from '../utils/id';
 
 interface ContextState {
@@ -7,6 +14,7 @@ interface ContextState {
   documents: ContextDocument[];
   examples: ContextExample[];
   testCases: TestCase[];
+  userSimulations: UserSimulation[];
   isLoading: boolean;
   error: string | null;
 
@@ -18,6 +26,10 @@ interface ContextState {
   removeExample: (id: string) => void;
   addTestCase: (testCase: Omit<TestCase, 'id' | 'createdAt'>) => void;
   removeTestCase: (id: string) => void;
+  addUserSimulation: (simulation: Omit<UserSimulation, 'id' | 'isActive' | 'createdAt'>) => void;
+  removeUserSimulation: (id: string) => void;
+  /** Run the session's agents against this simulated user, or pass null to stop */
+  setActiveUserSimulation: (sessionId: string, id: string | null) => void;
   getContext: () => SessionContext;
 }
 
@@ -25,18 +37,19 @@ export const useContextStore = create<ContextState>((set, get) => ({
   documents: [],
   examples: [],
   testCases: [],
+  userSimulations: [],
   isLoading: false,
   error: null,
 
-  loadContext: (_sessionId: string) => {
+  loadContext: (sessionId: string) => {
     try {
       set({ isLoading: true });
-      // For now, initialize with empty arrays (no DB persistence yet)
-      // In the future, this would load from SQLite using _sessionId
+      // Documents, examples and test cases are not persisted yet
       set({
         documents: [],
         examples: [],
         testCases: [],
+        userSimulations: simulationQueries.getUserSimulations(sessionId),
         isLoading: false,
         error: null,
       });
@@ -96,8 +109,43 @@ export const useContextStore = create<ContextState>((set, get) => ({
     }));
   },
 
+  addUserSimulation: (simulation) => {
+    try {
+      const newSimulation = simulationQueries.createUserSimulation(simulation);
+      set((state) => ({
+        userSimulations: [...state.userSimulations, newSimulation],
+      }));
+    } catch (e) {
+      set({ error: (e as Error).message });
+    }
+  },
+
+  removeUserSimulation: (id: string) => {
+    try {
+      simulationQueries.deleteUserSimulation(id);
+      set((state) => ({
+        userSimulations: state.userSimulations.filter((sim) => sim.id !== id),
+      }));
+    } catch (e) {
+      set({ error: (e as Error).message });
+    }
+  },
+
+  setActiveUserSimulation: (sessionId: string, id: string | null) => {
+    try {
+      simulationQueries.setActiveUserSimulation(sessionId, id);
+      set((state) => ({
+        userSimulations: state.userSimulations.map((sim) =>
+          sim.sessionId === sessionId ? { ...sim, isActive: sim.id === id } : sim
+        ),
+      }));
+    } catch (e) {
+      set({ error: (e as Error).message });
+    }
+  },
+
   getContext: () => {
-    const { documents, examples, testCases } = get();
-    return { documents, examples, testCases };
+    const { documents, examples, testCases, userSimulations } = get();
+    return { documents, examples, testCases, userSimulations };
   },
 }));
@@ -1,17 +1,31 @@
 import { create } from "zustand";
 import type { Lineage, LineageWithArtifact, LineageLabel } from "../types";
 import type { AgentDefinition } from "../types/agent";
-import type { ExecutionSpan } from "../types/evolution";
+import type { ExecutionSpan, PausedRun, TurnFeedback } from "../types/evolution";
 import type { ProgressEmitter } from "../types/progress";
 import * as queries from "../db/queries";
+import {
+  deletePausedRun,
+  getPausedRun,
+  getPausedRunsBySession,
+} from "../db/paused-run-queries";
+import { getFlowCheckpointForSpan } from "../db/checkpoint-queries";
+import { getActiveUserSimulation } from "../db/simulation-queries";
 import {
   executeAgentWithFallback,
   generateDefaultTestInput,
+  isConversationAttempt,
+  replayAgent,
+  resumeAgent,
   type ExecutionInput,
   type ExecutionOptions,
+  type ExecutionResult,
 } from "../services/agent-executor";
 import { runEvolutionPipeline } from "../services/evolution-pipeline";
+import { checkRegenerationBudget } from "../services/budget";
 import { generateId } from "../utils/id";
+import { isCancelledError, throwIfCancelled } from "../utils/abort";
+import { useStreamingStore, streamToLineage } from "./streaming";
 import {
   recordAgentCreated,
   recordArtifactScored,
@@ -26,8 +40,43 @@ interface RegenerateWithAgentsOptions {
   previousScore: number;
 }
 
+/**
+ * Save the output of an agent run as the lineage's artifact for a cycle.
+ * Returns null when the run paused at a human_input step: the lineage keeps
+ * its previous artifact until the user answers and the run completes.
+ */
+function saveExecutionArtifact(
+  lineageId: string,
+  cycle: number,
+  agent: AgentDefinition,
+  result: ExecutionResult,
+  extraMetadata: Record<string, unknown> = {}
+) {
+  if (result.pendingInput) return null;
+
+  return queries.createArtifact(lineageId, cycle, result.output, {
+    agentId: agent.id,
+    agentVersion: agent.version,
+    executionSuccess: result.success,
+    error: result.error,
+    executionTimeMs: result.metadata.executionTimeMs,
+    inputUsed: result.metadata.inputUsed,
+    ...extraMetadata,
+    rolloutId: result.metadata.rolloutId,
+    attemptId: result.metadata.attemptId,
+    stepsExecuted: result.metadata.stepsExecuted,
+    spanCount: result.spans?.length ?? 0,
+    outputContract: result.metadata.outputContract,
+    transcript: result.metadata.transcript,
+  });
+}
+
 interface LineageState {
   lineages: LineageWithArtifact[];
+  /** Runs waiting at a human_input step for the user's answer */
+  pausedRuns: PausedRun[];
+  /** The paused run currently being resumed */
+  resumingRunId: string | null;
   isLoading: boolean;
   isRegenerating: boolean;
   error: string | null;
@@ -60,6 +109,15 @@ interface LineageState {
   toggleLock: (lineageId: string) => void;
   setScore: (lineageId: string, score: number) => void;
   setComment: (lineageId: string, comment: string) => void;
+  /**
+   * Score or comment on one assistant turn of a conversation artifact,
+   * once the artifact itself is scored. Empty feedback removes the entry.
+   */
+  setTurnFeedback: (
+    lineageId: string,
+    turn: number,
+    feedback: Omit<TurnFeedback, "turn">
+  ) => void;
   addDirective: (
     lineageId: string,
     type: "sticky" | "oneshot",
@@ -87,7 +145,8 @@ interface LineageState {
     sessionId: string,
     need: string,
     getAgentForLineage: (lineageId: string) => AgentDefinition | undefined,
-    progressEmitter?: ProgressEmitter
+    progressEmitter?: ProgressEmitter,
+    signal?: AbortSignal
   ) => Promise<void>;
   canRegenerate: () => boolean;
   getUnlockedLineages: () => LineageWithArtifact[];
@@ -99,12 +158,25 @@ interface LineageState {
     need: string,
     getAgentForLineage: (lineageId: string) => AgentDefinition | undefined
   ) => Promise<void>;
+
+  // Rerun a recorded attempt from the step that produced `span`
+  replayFromSpan: (
+    lineageId: string,
+    span: ExecutionSpan,
+    getAgentForLineage: (lineageId: string) => AgentDefinition | undefined
+  ) => Promise<void>;
+
+  // Human input
+  answerPausedRun: (pausedRunId: string, answer: string) => Promise<void>;
+  discardPausedRun: (pausedRunId: string) => void;
 }
 
 export type { RegenerateWithAgentsOptions };
 
 export const useLineageStore = create<LineageState>((set, get) => ({
   lineages: [],
+  pausedRuns: [],
+  resumingRunId: null,
   isLoading: false,
   isRegenerating: false,
   error: null,
@@ -127,7 +199,12 @@ export const useLineageStore = create<LineageState>((set, get) => ({
           };
         }
       );
-      set({ lineages: lineagesWithArtifacts, isLoading: false, error: null });
+      set({
+        lineages: lineagesWithArtifacts,
+        pausedRuns: getPausedRunsBySession(sessionId),
+        isLoading: false,
+        error: null,
+      });
     } catch (e) {
       set({ error: (e as Error).message, isLoading: false });
     }
@@ -172,7 +249,8 @@ export const useLineageStore = create<LineageState>((set, get) => ({
         testInput ||
         generateDefaultTestInput(
           session?.need || "Demonstrate your capabilities",
-          session?.inputPrompt
+          session?.inputPrompt,
+          getActiveUserSimulation(sessionId)
         );
 
       // Update stage to executing agents
@@ -216,22 +294,11 @@ export const useLineageStore = create<LineageState>((set, get) => ({
           );
 
           // Create artifact with execution output and span metadata
-          const artifact = queries.createArtifact(
+          const artifact = saveExecutionArtifact(
             lineage.id,
             1,
-            result.output,
-            {
-              agentId: config.agent.id,
-              agentVersion: config.agent.version,
-              executionSuccess: result.success,
-              error: result.error,
-              executionTimeMs: result.metadata.executionTimeMs,
-              inputUsed: result.metadata.inputUsed,
-              rolloutId: result.metadata.rolloutId,
-              attemptId: result.metadata.attemptId,
-              stepsExecuted: result.metadata.stepsExecuted,
-              spanCount: result.spans?.length ?? 0,
-            }
+            config.agent,
+            result
           );
 
           // Mark this agent as complete
@@ -241,12 +308,16 @@ export const useLineageStore = create<LineageState>((set, get) => ({
             ...lineage,
             currentArtifact: artifact,
             currentEvaluation: null,
-            cycle: 1,
+            cycle: artifact ? 1 : 0,
           };
         })
       );
 
-      set({ lineages: lineagesWithArtifacts, isLoading: false });
+      set({
+        lineages: lineagesWithArtifacts,
+        pausedRuns: getPausedRunsBySession(sessionId),
+        isLoading: false,
+      });
     } catch (e) {
       set({ error: (e as Error).message, isLoading: false });
     }
@@ -262,7 +333,8 @@ export const useLineageStore = create<LineageState>((set, get) => ({
         testInput ||
         generateDefaultTestInput(
           session?.need || "Demonstrate your capabilities",
-          session?.inputPrompt
+          session?.inputPrompt,
+          getActiveUserSimulation(sessionId)
         );
 
       // Create lineage
@@ -298,28 +370,23 @@ export const useLineageStore = create<LineageState>((set, get) => ({
       );
 
       // Create artifact with execution output and span metadata
-      const artifact = queries.createArtifact(lineage.id, 1, result.output, {
-        agentId: config.agent.id,
-        agentVersion: config.agent.version,
-        executionSuccess: result.success,
-        error: result.error,
-        executionTimeMs: result.metadata.executionTimeMs,
-        inputUsed: result.metadata.inputUsed,
-        rolloutId: result.metadata.rolloutId,
-        attemptId: result.metadata.attemptId,
-        stepsExecuted: result.metadata.stepsExecuted,
-        spanCount: result.spans?.length ?? 0,
-      });
+      const artifact = saveExecutionArtifact(
+        lineage.id,
+        1,
+        config.agent,
+        result
+      );
 
       const newLineage: LineageWithArtifact = {
         ...lineage,
         currentArtifact: artifact,
         currentEvaluation: null,
-        cycle: 1,
+        cycle: artifact ? 1 : 0,
       };
 
       set((state) => ({
         lineages: [...state.lineages, newLineage],
+        pausedRuns: getPausedRunsBySession(sessionId),
         isLoading: false,
       }));
     } catch (e) {
@@ -421,6 +488,31 @@ export const useLineageStore = create<LineageState>((set, get) => ({
     }));
   },
 
+  setTurnFeedback: (lineageId, turn, feedback) => {
+    const lineage = get().lineages.find((l) => l.id === lineageId);
+    if (!lineage?.currentEvaluation) return;
+
+    const existing = lineage.currentEvaluation.turnFeedback ?? [];
+    const entry = {
+      ...existing.find((f) => f.turn === turn),
+      ...feedback,
+      turn,
+    };
+    const turnFeedback = [
+      ...existing.filter((f) => f.turn !== turn),
+      ...(entry.score !== undefined || entry.comment ? [entry] : []),
+    ].sort((a, b) => a.turn - b.turn);
+
+    queries.updateEvaluation(lineage.currentEvaluation.id, { turnFeedback });
+    set((state) => ({
+      lineages: state.lineages.map((l) =>
+        l.id === lineageId && l.currentEvaluation
+          ? { ...l, currentEvaluation: { ...l.currentEvaluation, turnFeedback } }
+          : l
+      ),
+    }));
+  },
+
   addDirective: (
     lineageId: string,
     type: "sticky" | "oneshot",
@@ -516,6 +608,12 @@ export const useLineageStore = create<LineageState>((set, get) => ({
     const unlockedLineages = get().getUnlockedLineages();
     if (unlockedLineages.length === 0) return;
 
+    const budget = checkRegenerationBudget(sessionId, unlockedLineages.length);
+    if (!budget.allowed) {
+      set({ error: budget.reason });
+      return;
+    }
+
     set({ isRegenerating: true });
 
     try {
@@ -564,13 +662,23 @@ export const useLineageStore = create<LineageState>((set, get) => ({
     const unlockedLineages = get().getUnlockedLineages();
     if (unlockedLineages.length === 0) return;
 
+    const budget = checkRegenerationBudget(sessionId, unlockedLineages.length);
+    if (!budget.allowed) {
+      set({ error: budget.reason });
+      return;
+    }
+
     set({ isRegenerating: true });
 
     try {
       const currentCycle = queries.getCurrentCycle(sessionId);
       const nextCycle = currentCycle + 1;
       const session = queries.getSession(sessionId);
-      const testInput = generateDefaultTestInput(need, session?.inputPrompt);
+      const testInput = generateDefaultTestInput(
+        need,
+        session?.inputPrompt,
+        getActiveUserSimulation(sessionId)
+      );
 
       const updatedLineages = await Promise.all(
         get().lineages.map(async (lineage) => {
@@ -602,6 +710,7 @@ export const useLineageStore = create<LineageState>((set, get) => ({
             lineageId: lineage.id,
             cycle: nextCycle,
             createRecords: true,
+            onToken: streamToLineage(lineage.id),
           };
           const result = await executeAgentWithFallback(
             evolvedAgent,
@@ -610,23 +719,15 @@ export const useLineageStore = create<LineageState>((set, get) => ({
           );
 
           // Create artifact with execution output and span metadata
-          const artifact = queries.createArtifact(
+          const artifact = saveExecutionArtifact(
             lineage.id,
             nextCycle,
-            result.output,
-            {
-              agentId: evolvedAgent.id,
-              agentVersion: evolvedAgent.version,
-              executionSuccess: result.success,
-              error: result.error,
-              executionTimeMs: result.metadata.executionTimeMs,
-              inputUsed: result.metadata.inputUsed,
-              rolloutId: result.metadata.rolloutId,
-              attemptId: result.metadata.attemptId,
-              stepsExecuted: result.metadata.stepsExecuted,
-              spanCount: result.spans?.length ?? 0,
-            }
+            evolvedAgent,
+            result
           );
+          useStreamingStore.getState().clearOutput(lineage.id);
+
+          if (!artifact) return { ...lineage, directiveOneshot: null };
 
           return {
             ...lineage,
@@ -638,23 +739,44 @@ export const useLineageStore = create<LineageState>((set, get) => ({
         })
       );
 
-      set({ lineages: updatedLineages, isRegenerating: false });
+      set({
+        lineages: updatedLineages,
+        pausedRuns: getPausedRunsBySession(sessionId),
+        isRegenerating: false,
+      });
     } catch (e) {
+      useStreamingStore.getState().clearAll();
       set({ error: (e as Error).message, isRegenerating: false });
     }
   },
 
-  regenerateWithFullPipeline: async (sessionId, need, getAgentForLineage, progressEmitter) => {
+  regenerateWithFullPipeline: async (
+    sessionId,
+    need,
+    getAgentForLineage,
+    progressEmitter,
+    signal
+  ) => {
     const unlockedLineages = get().getUnlockedLineages();
     if (unlockedLineages.length === 0) return;
 
+    const budget = checkRegenerationBudget(sessionId, unlockedLineages.length);
+    if (!budget.allowed) {
+      set({ error: budget.reason });
+      return;
+    }
+
     set({ isRegenerating: true });
 
     try {
       const currentCycle = queries.getCurrentCycle(sessionId);
       const nextCycle = currentCycle + 1;
       const session = queries.getSession(sessionId);
-      const testInput = generateDefaultTestInput(need, session?.inputPrompt);
+      const testInput = generateDefaultTestInput(
+        need,
+        session?.inputPrompt,
+        getActiveUserSimulation(sessionId)
+      );
 
       const updatedLineages = await Promise.all(
         get().lineages.map(async (lineage) => {
@@ -663,11 +785,6 @@ export const useLineageStore = create<LineageState>((set, get) => ({
           // Signal that this lineage is being processed
           progressEmitter?.itemProgress(lineage.label, "analyzing_reward");
 
-          // Clear oneshot directive after use
-          if (lineage.directiveOneshot) {
-            queries.clearOneshotDirective(lineage.id);
-          }
-
           // Get current agent for this lineage
           const currentAgent = getAgentForLineage(lineage.id);
           if (!currentAgent) {
@@ -682,105 +799,150 @@ export const useLineageStore = create<LineageState>((set, get) => ({
           // Generate rollout and attempt IDs for tracking
           const rolloutId = generateId();
           const attemptId = generateId();
+          let evolutionRecordId: string | undefined;
+          let savedAgentId: string | undefined;
 
-          // First, execute the CURRENT agent to get execution spans for credit assignment
-          // This allows us to analyze what the current agent did wrong
-          let currentExecutionSpans: ExecutionSpan[] = [];
           try {
-            const currentExecution = await executeAgentWithFallback(
-              { ...currentAgent, lineageId: lineage.id },
+            // First, execute the CURRENT agent to get execution spans for credit assignment
+            // This allows us to analyze what the current agent did wrong
+            let currentExecutionSpans: ExecutionSpan[] = [];
+            // A simulated user would say something new; replay the scored
+            // transcript's user turns so the spans match the turns scored
+            const transcript = lineage.currentArtifact?.metadata?.transcript;
+            const analysisInput: ExecutionInput =
+              testInput.simulation && transcript
+                ? {
+                    content: testInput.content,
+                    conversation: transcript.filter((turn) => turn.role === "user"),
+                  }
+                : testInput;
+            try {
+              const currentExecution = await executeAgentWithFallback(
+                { ...currentAgent, lineageId: lineage.id },
+                analysisInput,
+                {
+                  lineageId: lineage.id,
+                  cycle: lineage.cycle,
+                  createRecords: false, // Don't create records for analysis run
+                  signal,
+                }
+              );
+              currentExecutionSpans = currentExecution.spans ?? [];
+            } catch (error) {
+              if (isCancelledError(error)) throw error;
+              // If execution fails, continue without spans
+              console.warn(
+                `[Pipeline] Could not get spans for lineage ${lineage.id}`
+              );
+            }
+
+            // Run the full evolution pipeline with spans for trajectory credit assignment
+            const pipelineResult = await runEvolutionPipeline({
+              agent: { ...currentAgent, lineageId: lineage.id },
+              need,
+              score: previousScore,
+              comment,
+              stickyDirective: lineage.directiveSticky ?? undefined,
+              oneshotDirective: lineage.directiveOneshot ?? undefined,
+              previousScore: lineage.cycle > 1 ? previousScore : undefined,
+              turnFeedback: lineage.currentEvaluation?.turnFeedback,
+              rolloutId,
+              attemptId,
+              spans: currentExecutionSpans, // Pass spans for trajectory-based credit assignment
+              sessionId,
+              progressEmitter, // Pass emitter to pipeline for stage updates
+              signal,
+            });
+            evolutionRecordId = pipelineResult.evolutionRecord.id;
+
+            console.log(`[Pipeline] ${lineage.label}: ${pipelineResult.summary}`);
+            if (currentExecutionSpans.length > 1) {
+              console.log(
+                `[Pipeline] ${lineage.label}: Used trajectory credit (${currentExecutionSpans.length} spans)`
+              );
+            }
+
+            // Save the new version before running it: the run's records
+            // point at it. A cancel deletes it again below.
+            savedAgentId = queries.createAgent(
+              pipelineResult.evolvedAgent,
+              lineage.id
+            ).id;
+
+            // Update progress: executing evolved agent
+            progressEmitter?.itemProgress(lineage.label, "executing_evolved");
+
+            // Execute evolved agent with full tracking, streaming into the card
+            const executionOptions: ExecutionOptions = {
+              lineageId: lineage.id,
+              cycle: nextCycle,
+              createRecords: true,
+              onToken: streamToLineage(lineage.id),
+              signal,
+            };
+            const result = await executeAgentWithFallback(
+              pipelineResult.evolvedAgent,
               testInput,
-              {
-                lineageId: lineage.id,
-                cycle: lineage.cycle,
-                createRecords: false, // Don't create records for analysis run
-              }
-            );
-            currentExecutionSpans = currentExecution.spans ?? [];
-          } catch {
-            // If execution fails, continue without spans
-            console.warn(
-              `[Pipeline] Could not get spans for lineage ${lineage.id}`
+              executionOptions
             );
-          }
 
-          // Run the full evolution pipeline with spans for trajectory credit assignment
-          const pipelineResult = await runEvolutionPipeline({
-            agent: { ...currentAgent, lineageId: lineage.id },
-            need,
-            score: previousScore,
-            comment,
-            stickyDirective: lineage.directiveSticky ?? undefined,
-            oneshotDirective: lineage.directiveOneshot ?? undefined,
-            previousScore: lineage.cycle > 1 ? previousScore : undefined,
-            rolloutId,
-            attemptId,
-            spans: currentExecutionSpans, // Pass spans for trajectory-based credit assignment
-            sessionId,
-            progressEmitter, // Pass emitter to pipeline for stage updates
-          });
+            // Past this point the cycle is kept; a cancel up to here drops it
+            throwIfCancelled(signal);
+
+            // Clear oneshot directive after use
+            if (lineage.directiveOneshot) {
+              queries.clearOneshotDirective(lineage.id);
+            }
 
-          console.log(`[Pipeline] ${lineage.label}: ${pipelineResult.summary}`);
-          if (currentExecutionSpans.length > 1) {
-            console.log(
-              `[Pipeline] ${lineage.label}: Used trajectory credit (${currentExecutionSpans.length} spans)`
+            // Create artifact with execution output and full metadata
+            const artifact = saveExecutionArtifact(
+              lineage.id,
+              nextCycle,
+              pipelineResult.evolvedAgent,
+              result,
+              { evolutionRecordId: pipelineResult.evolutionRecord.id }
             );
-          }
 
-          // Save evolved agent to database
-          queries.createAgent(pipelineResult.evolvedAgent, lineage.id);
+            useStreamingStore.getState().clearOutput(lineage.id);
 
-          // Update progress: executing evolved agent
-          progressEmitter?.itemProgress(lineage.label, "executing_evolved");
+            // Mark this lineage as complete
+            progressEmitter?.itemComplete(lineage.label);
 
-          // Execute evolved agent with full tracking
-          const executionOptions: ExecutionOptions = {
-            lineageId: lineage.id,
-            cycle: nextCycle,
-            createRecords: true,
-          };
-          const result = await executeAgentWithFallback(
-            pipelineResult.evolvedAgent,
-            testInput,
-            executionOptions
-          );
-
-          // Create artifact with execution output and full metadata
-          const artifact = queries.createArtifact(
-            lineage.id,
-            nextCycle,
-            result.output,
-            {
-              agentId: pipelineResult.evolvedAgent.id,
-              agentVersion: pipelineResult.evolvedAgent.version,
-              executionSuccess: result.success,
-              error: result.error,
-              executionTimeMs: result.metadata.executionTimeMs,
-              inputUsed: result.metadata.inputUsed,
-              evolutionRecordId: pipelineResult.evolutionRecord.id,
-              rolloutId: result.metadata.rolloutId,
-              attemptId: result.metadata.attemptId,
-              stepsExecuted: result.metadata.stepsExecuted,
-              spanCount: result.spans?.length ?? 0,
-            }
-          );
+            // The run waits for the user; its artifact is saved on resume
+            if (!artifact) return { ...lineage, directiveOneshot: null };
 
-          // Mark this lineage as complete
-          progressEmitter?.itemComplete(lineage.label);
+            return {
+              ...lineage,
+              directiveOneshot: null,
+              currentArtifact: artifact,
+              currentEvaluation: null,
+              cycle: nextCycle,
+            };
+          } catch (error) {
+            if (!isCancelledError(error)) throw error;
 
-          return {
-            ...lineage,
-            directiveOneshot: null,
-            currentArtifact: artifact,
-            currentEvaluation: null,
-            cycle: nextCycle,
-          };
+            // Drop the version and its evolution so the cycle never happened
+            if (savedAgentId) {
+              queries.deleteAgent(savedAgentId);
+            }
+            if (evolutionRecordId) {
+              queries.deleteEvolutionRecord(evolutionRecordId);
+            }
+            useStreamingStore.getState().clearOutput(lineage.id);
+            progressEmitter?.itemCancelled(lineage.label);
+            return lineage;
+          }
         })
       );
 
-      set({ lineages: updatedLineages, isRegenerating: false });
+      set({
+        lineages: updatedLineages,
+        pausedRuns: getPausedRunsBySession(sessionId),
+        isRegenerating: false,
+      });
     } catch (e) {
       console.error("[Pipeline] Evolution failed:", e);
+      useStreamingStore.getState().clearAll();
       set({ error: (e as Error).message, isRegenerating: false });
     }
   },
@@ -788,6 +950,7 @@ export const useLineageStore = create<LineageState>((set, get) => ({
   canRegenerate: () => {
     const unlockedLineages = get().getUnlockedLineages();
     if (unlockedLineages.length === 0) return false;
+    if (get().pausedRuns.length > 0) return false;
     return unlockedLineages.every((l) => l.currentEvaluation !== null);
   },
 
@@ -805,6 +968,12 @@ export const useLineageStore = create<LineageState>((set, get) => ({
     const lineage = get().lineages.find((l) => l.id === lineageId);
     if (!lineage) return;
 
+    const budget = checkRegenerationBudget(lineage.sessionId, 1);
+    if (!budget.allowed) {
+      set({ error: budget.reason });
+      return;
+    }
+
     set({ isRegenerating: true });
 
     try {
@@ -819,12 +988,17 @@ export const useLineageStore = create<LineageState>((set, get) => ({
 
       // Execute current agent (no evolution)
       const nextCycle = lineage.cycle + 1;
-      const testInput = generateDefaultTestInput(need, session?.inputPrompt);
+      const testInput = generateDefaultTestInput(
+        need,
+        session?.inputPrompt,
+        getActiveUserSimulation(lineage.sessionId)
+      );
 
       const executionOptions: ExecutionOptions = {
         lineageId: lineage.id,
         cycle: nextCycle,
         createRecords: true,
+        onToken: streamToLineage(lineage.id),
       };
       const result = await executeAgentWithFallback(
         currentAgent,
@@ -833,40 +1007,183 @@ export const useLineageStore = create<LineageState>((set, get) => ({
       );
 
       // Create artifact with same agent version
-      const artifact = queries.createArtifact(
+      const artifact = saveExecutionArtifact(
         lineage.id,
         nextCycle,
-        result.output,
-        {
-          agentId: currentAgent.id,
-          agentVersion: currentAgent.version,
-          executionSuccess: result.success,
-          error: result.error,
-          executionTimeMs: result.metadata.executionTimeMs,
-          inputUsed: result.metadata.inputUsed,
-          rolloutId: result.metadata.rolloutId,
-          attemptId: result.metadata.attemptId,
-          stepsExecuted: result.metadata.stepsExecuted,
-          spanCount: result.spans?.length ?? 0,
-        }
+        currentAgent,
+        result
       );
 
+      useStreamingStore.getState().clearOutput(lineageId);
+
       // Update only the affected lineage
       set((state) => ({
-        lineages: state.lineages.map((l) =>
-          l.id === lineageId
-            ? {
-                ...l,
-                currentArtifact: artifact,
-                currentEvaluation: null,
-                cycle: nextCycle,
-              }
-            : l
-        ),
+        lineages: artifact
+          ? state.lineages.map((l) =>
+              l.id === lineageId
+                ? {
+                    ...l,
+                    currentArtifact: artifact,
+                    currentEvaluation: null,
+                    cycle: nextCycle,
+                  }
+                : l
+            )
+          : state.lineages,
+        pausedRuns: getPausedRunsBySession(lineage.sessionId),
+        isRegenerating: false,
+      }));
+    } catch (e) {
+      useStreamingStore.getState().clearOutput(lineageId);
+      set({ error: (e as Error).message, isRegenerating: false });
+    }
+  },
+
+  replayFromSpan: async (lineageId, span, getAgentForLineage) => {
+    const lineage = get().lineages.find((l) => l.id === lineageId);
+    if (!lineage) return;
+
+    const attempt = queries.getAttempt(span.attemptId);
+    if (attempt && isConversationAttempt(attempt)) {
+      set({ error: "Conversation runs cannot be replayed from a step" });
+      return;
+    }
+
+    const checkpoint = getFlowCheckpointForSpan(span.attemptId, span.sequence);
+    if (!checkpoint) {
+      set({ error: "This run has no checkpoint to replay from" });
+      return;
+    }
+
+    const budget = checkRegenerationBudget(lineage.sessionId, 1);
+    if (!budget.allowed) {
+      set({ error: budget.reason });
+      return;
+    }
+
+    set({ isRegenerating: true });
+
+    try {
+      // Replays run the lineage's current agent, which may have evolved
+      const currentAgent = getAgentForLineage(lineageId);
+      if (!currentAgent) {
+        throw new Error(`No agent found for lineage ${lineageId}`);
+      }
+
+      const nextCycle = lineage.cycle + 1;
+      const result = await replayAgent(currentAgent, checkpoint, {
+        lineageId: lineage.id,
+        sessionId: lineage.sessionId,
+        cycle: nextCycle,
+        createRecords: true,
+        onToken: streamToLineage(lineage.id),
+      });
+
+      const artifact = saveExecutionArtifact(
+        lineage.id,
+        nextCycle,
+        currentAgent,
+        result,
+        { replayOfAttemptId: checkpoint.attemptId, replayFromStep: checkpoint.stepName }
+      );
+
+      useStreamingStore.getState().clearOutput(lineageId);
+
+      set((state) => ({
+        lineages: artifact
+          ? state.lineages.map((l) =>
+              l.id === lineageId
+                ? {
+                    ...l,
+                    currentArtifact: artifact,
+                    currentEvaluation: null,
+                    cycle: nextCycle,
+                  }
+                : l
+            )
+          : state.lineages,
+        pausedRuns: getPausedRunsBySession(lineage.sessionId),
         isRegenerating: false,
       }));
     } catch (e) {
+      useStreamingStore.getState().clearOutput(lineageId);
       set({ error: (e as Error).message, isRegenerating: false });
     }
   },
+
+  // ============ Human Input ============
+
+  answerPausedRun: async (pausedRunId, answer) => {
+    const pausedRun = getPausedRun(pausedRunId);
+    if (!pausedRun) return;
+    const lineage = get().lineages.find((l) => l.id === pausedRun.lineageId);
+    if (!lineage) return;
+
+    set({ resumingRunId: pausedRunId });
+
+    try {
+      const agent = queries.getAgentById(pausedRun.agentId);
+      if (!agent) {
+        throw new Error(`Agent ${pausedRun.agentId} no longer exists`);
+      }
+
+      // Continue the flow from the human_input step that paused it
+      const result = await resumeAgent(agent, pausedRun, answer, {
+        sessionId: lineage.sessionId,
+        onToken: streamToLineage(lineage.id),
+      });
+
+      // The run may pause again at a later human_input step
+      const artifact = saveExecutionArtifact(
+        lineage.id,
+        pausedRun.cycle,
+        agent,
+        result
+      );
+
+      useStreamingStore.getState().clearOutput(lineage.id);
+
+      set((state) => ({
+        lineages: artifact
+          ? state.lineages.map((l) =>
+              l.id === lineage.id
+                ? {
+                    ...l,
+                    currentArtifact: artifact,
+                    currentEvaluation: null,
+                    cycle: pausedRun.cycle,
+                  }
+                : l
+            )
+          : state.lineages,
+        pausedRuns: getPausedRunsBySession(lineage.sessionId),
+        resumingRunId: null,
+      }));
+    } catch (e) {
+      useStreamingStore.getState().clearOutput(lineage.id);
+      set({ error: (e as Error).message, resumingRunId: null });
+    }
+  },
+
+  discardPausedRun: (pausedRunId) => {
+    const pausedRun = getPausedRun(pausedRunId);
+    if (!pausedRun) return;
+
+    // Close out the run's records so they don't look like they're still going
+    queries.updateAttempt(pausedRun.attemptId, {
+      status: "cancelled",
+      error: "Discarded while waiting for human input",
+    });
+    if (pausedRun.rolloutId) {
+      queries.updateRollout(pausedRun.rolloutId, {
+        status: "cancelled",
+        completedAt: Date.now(),
+      });
+    }
+    deletePausedRun(pausedRunId);
+
+    set((state) => ({
+      pausedRuns: state.pausedRuns.filter((r) => r.id !== pausedRunId),
+    }));
+  },
 }));
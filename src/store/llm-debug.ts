@@ -6,22 +6,35 @@
  */
 
 import { create } from 'zustand';
-import type { LLMDebugEntry } from '../types/llm-debug';
+import type {
+  LLMDebugEntry,
+  StructuredCallStats,
+  StructuredOutcome,
+} from '../types/llm-debug';
 
 const MAX_ENTRIES = 100;
 
 interface LLMDebugState {
   entries: LLMDebugEntry[];
+  // Structured-output outcomes keyed by call site
+  structuredStats: Record<string, StructuredCallStats>;
 
   // Actions
   addEntry: (entry: LLMDebugEntry) => void;
   clearEntries: () => void;
   getEntriesBySession: (sessionId: string) => LLMDebugEntry[];
   getErrorCount: (sessionId?: string) => number;
+  recordStructuredOutcome: (
+    callSite: string,
+    outcome: StructuredOutcome,
+    error?: string
+  ) => void;
+  clearStructuredStats: () => void;
 }
 
 export const useLLMDebugStore = create<LLMDebugState>((set, get) => ({
   entries: [],
+  structuredStats: {},
 
   addEntry: (entry) => {
     set((state) => ({
@@ -43,6 +56,31 @@ export const useLLMDebugStore = create<LLMDebugState>((set, get) => ({
       : get().entries;
     return entries.filter((e) => e.status === 'error').length;
   },
+
+  recordStructuredOutcome: (callSite, outcome, error) => {
+    set((state) => {
+      const stats = state.structuredStats[callSite] ?? {
+        calls: 0,
+        repaired: 0,
+        fallbacks: 0,
+      };
+      return {
+        structuredStats: {
+          ...state.structuredStats,
+          [callSite]: {
+            calls: stats.calls + 1,
+            repaired: stats.repaired + (outcome === 'repaired' ? 1 : 0),
+            fallbacks: stats.fallbacks + (outcome === 'fallback' ? 1 : 0),
+            lastError: outcome === 'fallback' ? error : stats.lastError,
+          },
+        },
+      };
+    });
+  },
+
+  clearStructuredStats: () => {
+    set({ structuredStats: {} });
+  },
 }));
 
 // Generate unique ID for debug entries
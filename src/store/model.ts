@@ -1,5 +1,8 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import type { ProviderAdapterId } from "../api/providers/types";
+import type { CassetteMode } from "../types/cassette";
+import type { ModelPricing, TokenUsage } from "../types/usage";
 
 export interface ModelInfo {
   id: string;
@@ -7,9 +10,29 @@ export interface ModelInfo {
   provider: string;
   tier: "high-end" | "standard" | "economy";
   description: string;
+  /** Adapter used to reach the model (defaults to "litellm") */
+  adapter?: ProviderAdapterId;
+  /** Base URL for this model, overriding the adapter's default */
+  baseUrl?: string;
+  /** Model name sent to the provider (defaults to `id`) */
+  apiModel?: string;
+  /** List price used to estimate spend; unpriced models are tracked without cost */
+  pricing?: ModelPricing;
+  /** Requests allowed in flight at once (defaults to the scheduler's cap) */
+  maxConcurrent?: number;
 }
 
-// Available models from LiteLLM
+/**
+ * User-configured routing for a model, overriding its `ModelInfo` defaults.
+ * Also lets users route model IDs that are not in AVAILABLE_MODELS.
+ */
+export interface ModelRoute {
+  adapter: ProviderAdapterId;
+  baseUrl?: string;
+  apiModel?: string;
+}
+
+// Available models (routed through LiteLLM unless an adapter is declared)
 export const AVAILABLE_MODELS: ModelInfo[] = [
   // High-end models
   {
@@ -18,6 +41,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "Anthropic",
     tier: "high-end",
     description: "Best for complex reasoning and nuanced content generation",
+    pricing: { inputPerMillion: 3, outputPerMillion: 15 },
   },
   {
     id: "azure/gpt-5-chat",
@@ -25,6 +49,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "OpenAI",
     tier: "high-end",
     description: "Latest OpenAI model with advanced capabilities",
+    pricing: { inputPerMillion: 1.25, outputPerMillion: 10 },
   },
   {
     id: "google/gemini-2.5-pro",
@@ -32,6 +57,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "Google",
     tier: "high-end",
     description: "Google's most capable model, excellent for long context",
+    pricing: { inputPerMillion: 1.25, outputPerMillion: 10 },
   },
   {
     id: "azure/gpt-4o",
@@ -39,6 +65,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "OpenAI",
     tier: "high-end",
     description: "Fast and capable, great for most tasks",
+    pricing: { inputPerMillion: 2.5, outputPerMillion: 10 },
   },
   {
     id: "azure/o1-mini",
@@ -46,6 +73,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "OpenAI",
     tier: "high-end",
     description: "Specialized for deep reasoning and complex problems",
+    pricing: { inputPerMillion: 1.1, outputPerMillion: 4.4 },
   },
   // Standard models
   {
@@ -54,6 +82,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "OpenAI",
     tier: "standard",
     description: "Balanced performance and cost",
+    pricing: { inputPerMillion: 0.25, outputPerMillion: 2 },
   },
   {
     id: "google/gemini-2.5-flash",
@@ -61,6 +90,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "Google",
     tier: "standard",
     description: "Fast responses with good quality",
+    pricing: { inputPerMillion: 0.3, outputPerMillion: 2.5 },
   },
   {
     id: "azure/gpt-4o-mini",
@@ -68,6 +98,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "OpenAI",
     tier: "standard",
     description: "Cost-effective for simpler tasks",
+    pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 },
   },
   // Economy models
   {
@@ -76,6 +107,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "OpenAI",
     tier: "economy",
     description: "Fastest and most economical",
+    pricing: { inputPerMillion: 0.05, outputPerMillion: 0.4 },
   },
   {
     id: "google/gemini-2.0-flash-001",
@@ -83,6 +115,40 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "Google",
     tier: "economy",
     description: "Quick responses for basic tasks",
+    pricing: { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  },
+  // Direct provider models (no LiteLLM proxy)
+  {
+    id: "anthropic-direct/claude-sonnet-4-5",
+    name: "Claude Sonnet 4.5 (direct)",
+    provider: "Anthropic",
+    tier: "high-end",
+    description: "Anthropic Messages API with your own Anthropic key",
+    adapter: "anthropic",
+    apiModel: "claude-sonnet-4-5",
+    pricing: { inputPerMillion: 3, outputPerMillion: 15 },
+  },
+  {
+    id: "openai-direct/gpt-4o",
+    name: "GPT-4o (direct)",
+    provider: "OpenAI",
+    tier: "high-end",
+    description: "OpenAI API with your own OpenAI key",
+    adapter: "openai",
+    apiModel: "gpt-4o",
+    pricing: { inputPerMillion: 2.5, outputPerMillion: 10 },
+  },
+  {
+    id: "local/llama3.1",
+    name: "Llama 3.1 (local)",
+    provider: "Local",
+    tier: "economy",
+    description: "Local OpenAI-compatible server such as Ollama or llama.cpp",
+    adapter: "openai-compatible",
+    apiModel: "llama3.1",
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    // Local servers usually process one request at a time
+    maxConcurrent: 1,
   },
   // Mock models
   {
@@ -91,19 +157,55 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: "Training Camp",
     tier: "economy",
     description: "Simulated model for keyless demos",
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
   },
 ];
 
 const DEFAULT_MODEL =
   import.meta.env.VITE_LITELLM_MODEL || "anthropic/claude-4-5-sonnet-aws";
 
+const GATEWAY_DEFAULTS = {
+  providerKeys: {},
+  providerBaseUrls: {},
+  modelRoutes: {},
+  cassetteMode: "off" as CassetteMode,
+};
+
+// Set or remove (when value is null/empty) a key in a record
+function withOptionalEntry<T extends Record<string, unknown>>(
+  record: T,
+  key: keyof T,
+  value: T[keyof T] | null
+): T {
+  const next = { ...record };
+  if (value === null || value === "") {
+    delete next[key];
+  } else {
+    next[key] = value;
+  }
+  return next;
+}
+
 interface ModelState {
   apiKey: string | null;
   apiBaseUrl: string | null;
   trainerModelId: string;
   agentModelId: string;
+  /** API keys for adapters other than LiteLLM (which uses apiKey) */
+  providerKeys: Partial<Record<ProviderAdapterId, string>>;
+  /** Base URLs for adapters other than LiteLLM (which uses apiBaseUrl) */
+  providerBaseUrls: Partial<Record<ProviderAdapterId, string>>;
+  /** Per-model routing overrides keyed by model ID */
+  modelRoutes: Record<string, ModelRoute>;
+  /** Record LLM responses, or replay recorded ones instead of calling providers */
+  cassetteMode: CassetteMode;
   setApiKey: (key: string | null) => void;
   setApiBaseUrl: (url: string | null) => void;
+  setProviderKey: (adapter: ProviderAdapterId, key: string | null) => void;
+  setProviderBaseUrl: (adapter: ProviderAdapterId, url: string | null) => void;
+  setModelRoute: (modelId: string, route: ModelRoute | null) => void;
+  setCassetteMode: (mode: CassetteMode) => void;
+  getModelRoute: (modelId: string) => ModelRoute;
   setTrainerModel: (modelId: string) => void;
   setAgentModel: (modelId: string) => void;
   getTrainerModel: () => ModelInfo | undefined;
@@ -117,6 +219,10 @@ export const useModelStore = create<ModelState>()(
       apiBaseUrl: null,
       trainerModelId: DEFAULT_MODEL,
       agentModelId: DEFAULT_MODEL,
+      providerKeys: {},
+      providerBaseUrls: {},
+      modelRoutes: {},
+      cassetteMode: "off",
 
       setApiKey: (key: string | null) => {
         set({ apiKey: key });
@@ -126,6 +232,36 @@ export const useModelStore = create<ModelState>()(
         set({ apiBaseUrl: url });
       },
 
+      setProviderKey: (adapter, key) => {
+        set((state) => ({
+          providerKeys: withOptionalEntry(state.providerKeys, adapter, key),
+        }));
+      },
+
+      setProviderBaseUrl: (adapter, url) => {
+        set((state) => ({
+          providerBaseUrls: withOptionalEntry(
+            state.providerBaseUrls,
+            adapter,
+            url
+          ),
+        }));
+      },
+
+      setModelRoute: (modelId, route) => {
+        set((state) => ({
+          modelRoutes: withOptionalEntry(state.modelRoutes, modelId, route),
+        }));
+      },
+
+      setCassetteMode: (mode) => {
+        set({ cassetteMode: mode });
+      },
+
+      getModelRoute: (modelId) => {
+        return resolveModelRoute(modelId, get().modelRoutes);
+      },
+
       setTrainerModel: (modelId: string) => {
         set({ trainerModelId: modelId });
       },
@@ -144,7 +280,7 @@ export const useModelStore = create<ModelState>()(
     }),
     {
       name: "training-camp-model",
-      version: 3,
+      version: 5,
       migrate: (persistedState: unknown, version: number) => {
         if (version === 0) {
           // Migration from old single-model format
@@ -154,6 +290,7 @@ export const useModelStore = create<ModelState>()(
             apiBaseUrl: null,
             trainerModelId: oldState.selectedModelId || DEFAULT_MODEL,
             agentModelId: oldState.selectedModelId || DEFAULT_MODEL,
+            ...GATEWAY_DEFAULTS,
           };
         }
         if (version === 1) {
@@ -163,6 +300,7 @@ export const useModelStore = create<ModelState>()(
             ...oldState,
             apiKey: null,
             apiBaseUrl: null,
+            ...GATEWAY_DEFAULTS,
           };
         }
         if (version === 2) {
@@ -171,6 +309,21 @@ export const useModelStore = create<ModelState>()(
           return {
             ...oldState,
             apiBaseUrl: null,
+            ...GATEWAY_DEFAULTS,
+          };
+        }
+        if (version === 3) {
+          // Migration from v3 (LiteLLM only, no provider routing)
+          return {
+            ...(persistedState as ModelState),
+            ...GATEWAY_DEFAULTS,
+          };
+        }
+        if (version === 4) {
+          // Migration from v4 (no cassette mode)
+          return {
+            ...(persistedState as ModelState),
+            cassetteMode: "off",
           };
         }
         return persistedState as ModelState;
@@ -188,3 +341,36 @@ export function getModelById(id: string): ModelInfo | undefined {
 export function getModelsByTier(tier: ModelInfo["tier"]): ModelInfo[] {
   return AVAILABLE_MODELS.filter((m) => m.tier === tier);
 }
+
+/**
+ * Estimated USD cost of a call, or null when the model has no price
+ */
+export function estimateCost(modelId: string, usage: TokenUsage): number | null {
+  const pricing = getModelById(modelId)?.pricing;
+  if (!pricing) return null;
+
+  return (
+    (usage.promptTokens * pricing.inputPerMillion +
+      usage.completionTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Routing for a model: user override, then the model's declared adapter,
+ * then LiteLLM
+ */
+export function resolveModelRoute(
+  modelId: string,
+  modelRoutes: Record<string, ModelRoute> = {}
+): ModelRoute {
+  const override = modelRoutes[modelId];
+  if (override) return override;
+
+  const model = getModelById(modelId);
+  return {
+    adapter: model?.adapter ?? "litellm",
+    baseUrl: model?.baseUrl,
+    apiModel: model?.apiModel,
+  };
+}
@@ -17,25 +17,32 @@ import { generateId } from "../utils/id";
 
 interface ProgressState {
   currentOperation: OperationProgress | null;
+  /** Aborts the current operation; only set for cancellable operations */
+  abortController: AbortController | null;
 
   // Actions
   startOperation: (
     type: OperationType,
-    items: Pick<ProgressItem, "id" | "label">[]
+    items: Pick<ProgressItem, "id" | "label">[],
+    options?: { cancellable?: boolean }
   ) => string;
   updateStage: (stage: ProgressStage, stageLabel: string) => void;
   updateItem: (itemId: string, update: Partial<ProgressItem>) => void;
   completeItem: (itemId: string) => void;
   failItem: (itemId: string, error: string) => void;
+  cancelItem: (itemId: string) => void;
   completeOperation: () => void;
   failOperation: (error: string) => void;
+  cancelOperation: () => void;
   clearOperation: () => void;
+  getAbortSignal: () => AbortSignal | undefined;
 }
 
 export const useProgressStore = create<ProgressState>((set, get) => ({
   currentOperation: null,
+  abortController: null,
 
-  startOperation: (type, items) => {
+  startOperation: (type, items, options = {}) => {
     const operationId = generateId();
     const progressItems: ProgressItem[] = items.map((item) => ({
       ...item,
@@ -53,7 +60,9 @@ export const useProgressStore = create<ProgressState>((set, get) => ({
         stageLabel: "Starting...",
         items: progressItems,
         startedAt: Date.now(),
+        cancellable: options.cancellable,
       },
+      abortController: options.cancellable ? new AbortController() : null,
     });
 
     return operationId;
@@ -61,7 +70,8 @@ export const useProgressStore = create<ProgressState>((set, get) => ({
 
   updateStage: (stage, stageLabel) => {
     const op = get().currentOperation;
-    if (!op) return;
+    // Stages still reported while work winds down must not hide "Cancelling..."
+    if (!op || op.cancelled) return;
 
     set({
       currentOperation: {
@@ -122,10 +132,41 @@ export const useProgressStore = create<ProgressState>((set, get) => ({
     });
   },
 
+  cancelItem: (itemId) => {
+    const op = get().currentOperation;
+    if (!op) return;
+
+    set({
+      currentOperation: {
+        ...op,
+        items: op.items.map((item) =>
+          item.id === itemId ? { ...item, status: "cancelled" as const } : item
+        ),
+      },
+    });
+  },
+
   completeOperation: () => {
     const op = get().currentOperation;
     if (!op) return;
 
+    // Keep a cancelled operation on screen so the user can see what stopped
+    if (op.cancelled) {
+      set({
+        currentOperation: {
+          ...op,
+          stageLabel: "Cancelled",
+          items: op.items.map((item) =>
+            item.status === "pending" || item.status === "in_progress"
+              ? { ...item, status: "cancelled" as const }
+              : item
+          ),
+        },
+        abortController: null,
+      });
+      return;
+    }
+
     set({
       currentOperation: {
         ...op,
@@ -158,9 +199,27 @@ export const useProgressStore = create<ProgressState>((set, get) => ({
     });
   },
 
+  cancelOperation: () => {
+    const op = get().currentOperation;
+    if (!op || !op.cancellable || op.cancelled || op.currentStage === "complete") {
+      return;
+    }
+
+    get().abortController?.abort();
+    set({
+      currentOperation: {
+        ...op,
+        cancelled: true,
+        stageLabel: "Cancelling...",
+      },
+    });
+  },
+
   clearOperation: () => {
-    set({ currentOperation: null });
+    set({ currentOperation: null, abortController: null });
   },
+
+  getAbortSignal: () => get().abortController?.signal,
 }));
 
 /**
@@ -183,5 +242,8 @@ export function createProgressEmitter(): ProgressEmitter {
     itemError: (itemId: string, error: string) => {
       store.failItem(itemId, error);
     },
+    itemCancelled: (itemId: string) => {
+      store.cancelItem(itemId);
+    },
   };
 }
@@ -0,0 +1,32 @@
+/**
+ * Request Queue Store
+ *
+ * In-memory Zustand store mirroring the LLM request scheduler, so the
+ * progress UI can show how many requests are running and waiting.
+ */
+
+import { create } from 'zustand';
+import type { SchedulerSnapshot } from '../api/scheduler';
+
+interface RequestQueueState {
+  running: number;
+  queued: number;
+  byModel: SchedulerSnapshot['byModel'];
+
+  // Actions
+  setSnapshot: (snapshot: SchedulerSnapshot) => void;
+}
+
+export const useRequestQueueStore = create<RequestQueueState>((set) => ({
+  running: 0,
+  queued: 0,
+  byModel: {},
+
+  setSnapshot: (snapshot) => {
+    set({
+      running: snapshot.running,
+      queued: snapshot.queued,
+      byModel: snapshot.byModel,
+    });
+  },
+}));
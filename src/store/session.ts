@@ -12,7 +12,7 @@ interface SessionState {
   loadSessions: () => void;
   loadSession: (id: string) => void;
   createSession: (input: CreateSessionInput) => Session;
-  updateSession: (id: string, updates: Partial<Pick<Session, 'name' | 'need' | 'constraints'>>) => void;
+  updateSession: (id: string, updates: Partial<Pick<Session, 'name' | 'need' | 'constraints' | 'budgetUsd'>>) => void;
   deleteSession: (id: string) => void;
   setCurrentSession: (session: Session | null) => void;
 }
@@ -0,0 +1,52 @@
+/**
+ * Streaming Output Store
+ *
+ * In-memory Zustand store holding partial agent output per lineage while
+ * an execution is streaming. Kept separate from the lineage store so that
+ * token updates only re-render the cards that display them.
+ */
+
+import { create } from 'zustand';
+import type { TokenCallback } from '../api/llm';
+
+interface StreamingState {
+  /** Partial output keyed by lineage ID */
+  outputs: Record<string, string>;
+
+  // Actions
+  setOutput: (lineageId: string, content: string) => void;
+  clearOutput: (lineageId: string) => void;
+  clearAll: () => void;
+}
+
+export const useStreamingStore = create<StreamingState>((set) => ({
+  outputs: {},
+
+  setOutput: (lineageId, content) => {
+    set((state) => ({
+      outputs: { ...state.outputs, [lineageId]: content },
+    }));
+  },
+
+  clearOutput: (lineageId) => {
+    set((state) => {
+      if (!(lineageId in state.outputs)) return state;
+      const outputs = { ...state.outputs };
+      delete outputs[lineageId];
+      return { outputs };
+    });
+  },
+
+  clearAll: () => {
+    set({ outputs: {} });
+  },
+}));
+
+/**
+ * Creates a token callback that streams partial output into a lineage card.
+ */
+export function streamToLineage(lineageId: string): TokenCallback {
+  return ({ content }) => {
+    useStreamingStore.getState().setOutput(lineageId, content);
+  };
+}
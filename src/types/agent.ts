@@ -1,3 +1,5 @@
+import type { JsonSchema } from '../api/structured';
+
 export interface AgentTool {
   id: string;
   name: string;
@@ -21,7 +23,7 @@ export interface AgentTool {
 
 export interface AgentFlowStep {
   id: string;
-  type: 'start' | 'prompt' | 'tool' | 'condition' | 'loop' | 'output';
+  type: 'start' | 'prompt' | 'tool' | 'condition' | 'transform' | 'loop' | 'parallel' | 'join' | 'call_agent' | 'human_input' | 'output';
   name: string;
   config: Record<string, unknown>;
   position: { x: number; y: number };
@@ -30,7 +32,41 @@ export interface AgentFlowStep {
     onTrue?: string;
     onFalse?: string;
     onError?: string;
+    /** First step of each branch a parallel step runs concurrently */
+    branches?: string[];
   };
+  /** How the executor retries, times out and falls back when this step fails */
+  policy?: AgentStepPolicy;
+  /** Model and sampling for this step's LLM calls, over the agent's parameters */
+  modelParameters?: StepModelParameters;
+}
+
+/**
+ * Per-step overrides for prompt steps and LLM-backed tool calls, e.g. a
+ * cheap model to classify and a strong one to write. Unset fields use the
+ * agent's parameters (or the tool's own settings).
+ */
+export type StepModelParameters = Partial<
+  Pick<AgentParameters, 'model' | 'temperature' | 'topP' | 'maxTokens'>
+>;
+
+/**
+ * What a step does once its retries are used up: rerun on another model,
+ * continue with a fixed value, or continue as if the step had not run
+ */
+export type AgentStepFallback =
+  | { type: 'model'; model: string }
+  | { type: 'value'; value: unknown }
+  | { type: 'skip' };
+
+export interface AgentStepPolicy {
+  /** Extra attempts after the first failure (default 0) */
+  retries?: number;
+  /** Wait before the first retry, doubled for each one after (default 1000) */
+  backoffMs?: number;
+  /** Each attempt fails once it runs longer than this */
+  timeoutMs?: number;
+  fallback?: AgentStepFallback;
 }
 
 export interface AgentMemoryConfig {
@@ -42,6 +78,19 @@ export interface AgentMemoryConfig {
   };
 }
 
+/**
+ * One item of a lineage's agent memory. Runs add a user and an assistant
+ * message; summary memory folds older messages into one summary entry.
+ */
+export interface AgentMemoryEntry {
+  id: string;
+  lineageId: string;
+  role: 'user' | 'assistant' | 'summary';
+  content: string;
+  attemptId?: string;
+  createdAt: number;
+}
+
 export interface AgentParameters {
   model: string;
   temperature: number;
@@ -57,6 +106,48 @@ export interface AgentConstraints {
   forbiddenPatterns?: string[];
 }
 
+/**
+ * Rules an agent's final output must follow. The output step checks them
+ * and asks the model to repair output that fails.
+ */
+export interface AgentOutputContract {
+  /** Schema the output must match as JSON; `{}` accepts any valid JSON */
+  jsonSchema?: JsonSchema;
+  /** Markdown headings the output must contain, in this order */
+  requiredHeadings?: string[];
+  /** Regular expression the output must match */
+  pattern?: string;
+  minWords?: number;
+  maxWords?: number;
+  /** Repair rounds after a failed check (default 2; 0 only checks) */
+  maxRepairAttempts?: number;
+}
+
+/**
+ * How a run's output fared against the agent's output contract
+ */
+export interface OutputContractResult {
+  passed: boolean;
+  /** Violations of the final output; empty when it passed */
+  violations: string[];
+  repairAttempts: number;
+}
+
+/**
+ * One message of a conversation an agent takes part in
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * How an agent runs:
+ * - 'flow': follow the defined flow steps (or a single prompt when there is no flow)
+ * - 'function_calling': let the model call the agent's tools in a multi-turn loop
+ */
+export type AgentExecutionMode = 'flow' | 'function_calling';
+
 export interface AgentDefinition {
   id: string;
   lineageId?: string;  // Optional: links agent to a lineage for evolution tracking
@@ -69,6 +160,10 @@ export interface AgentDefinition {
   memory: AgentMemoryConfig;
   parameters: AgentParameters;
   constraints?: AgentConstraints;
+  /** Checked by the output step of flows */
+  outputContract?: AgentOutputContract;
+  /** Defaults to 'flow' when unset */
+  executionMode?: AgentExecutionMode;
   // Hashes for reproducibility
   systemPromptHash?: string;
   toolsHash?: string;
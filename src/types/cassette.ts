@@ -0,0 +1,46 @@
+/**
+ * LLM Cassette Types
+ *
+ * A cassette stores recorded LLM request/response pairs so sessions, demos
+ * and tests can be replayed offline:
+ * - off: call the provider normally
+ * - record: call the provider and store every successful response
+ * - replay: serve stored responses only; a request with no recording fails
+ */
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export const CASSETTE_FILE_VERSION = 1;
+
+export interface CassetteEntry {
+  /** Hash of model, messages and sampling parameters */
+  key: string;
+  /** Same hash without the model, used to serve recordings to the mock model */
+  promptKey: string;
+  model: string;
+  /** The canonical request that was recorded (for inspection) */
+  request: Record<string, unknown>;
+  response: {
+    content: string;
+    finishReason: string;
+    toolCalls?: Array<{
+      id: string;
+      type: 'function';
+      function: { name: string; arguments: string };
+    }>;
+    model?: string;
+  };
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+  recordedAt: number;
+}
+
+/** Exportable cassette file format */
+export interface CassetteFile {
+  version: number;
+  exportedAt: number;
+  entries: CassetteEntry[];
+}
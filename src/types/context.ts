@@ -25,8 +25,30 @@ export interface TestCase {
   createdAt: number;
 }
 
+/**
+ * A user an LLM plays against the agents: the agents are run on the
+ * conversation it holds instead of a single input
+ */
+export interface UserSimulation {
+  id: string;
+  sessionId: string;
+  name: string;
+  /** Who the simulated user is and how they write */
+  persona: string;
+  /** What the simulated user wants out of the conversation */
+  goal: string;
+  /** The most messages the simulated user sends */
+  maxTurns: number;
+  /** Ends the conversation when an agent reply contains it (case-insensitive) */
+  stopPhrase?: string;
+  /** Whether the session's runs use this simulation; at most one per session */
+  isActive: boolean;
+  createdAt: number;
+}
+
 export interface SessionContext {
   documents: ContextDocument[];
   examples: ContextExample[];
   testCases: TestCase[];
+  userSimulations: UserSimulation[];
 }
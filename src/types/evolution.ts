@@ -5,14 +5,17 @@
  * - Rollout: One cycle of agent execution for a lineage
  * - Attempt: A single try within a rollout (with retry capability)
  * - ExecutionSpan: Detailed trace of execution steps
+ * - PausedRun: A flow run waiting for human input
  * - Credit Assignment: Blame attribution for feedback
  * - Evolution: Planned changes and their outcomes
  */
 
+import type { ConversationTurn } from './agent';
+
 // ============ Execution Tracking ============
 
-export type RolloutStatus = 'pending' | 'running' | 'completed' | 'failed';
-export type AttemptStatus = 'running' | 'succeeded' | 'failed';
+export type RolloutStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type AttemptStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
 export type SpanType = 'llm_call' | 'tool_call' | 'tool_result' | 'reasoning' | 'output';
 
 /**
@@ -114,6 +117,76 @@ export interface ExecutionSpan {
   createdAt: number;
 }
 
+// ============ Paused Runs ============
+
+/**
+ * Iteration state of a loop step
+ */
+export interface FlowLoopState {
+  currentIndex: number;
+  maxIterations: number;
+  items?: unknown[];
+  itemVariable?: string;
+}
+
+/**
+ * Everything needed to continue a flow run from a step: the serializable
+ * part of the flow context
+ */
+export interface FlowSnapshot {
+  /** Step the run continues at */
+  stepId: string;
+  input: string;
+  sessionContext?: string;
+  /** Earlier turns of the conversation the input continues */
+  conversation?: ConversationTurn[];
+  variables: Record<string, unknown>;
+  /** Loop state by loop step ID */
+  loopState: Record<string, FlowLoopState>;
+  sequence: number;
+  parentSpanId?: string;
+  spans: ExecutionSpan[];
+  stepsExecuted: number;
+}
+
+/**
+ * A flow run suspended at a human_input step until the user answers
+ */
+export interface PausedRun {
+  id: string;
+  lineageId: string;
+  cycle: number;
+  rolloutId?: string;
+  attemptId: string;
+  agentId: string;
+  agentVersion: number;
+  /** Input the run was started with */
+  input: string;
+  /** Question shown to the user */
+  prompt: string;
+  snapshot: FlowSnapshot;
+  createdAt: number;
+}
+
+/**
+ * Flow state just before a top-level step of an attempt ran. Replaying from
+ * it reruns that step and everything after, skipping the calls before it.
+ */
+export interface FlowCheckpoint {
+  id: string;
+  attemptId: string;
+  stepId: string;
+  /** Finds the step again in versions where its ID changed */
+  stepName: string;
+  /** Sequence of the step's first span; earlier spans ran before it */
+  sequence: number;
+  /** Flow state before the step; its `spans` are left empty, see `spanIds` */
+  snapshot: FlowSnapshot;
+  /** IDs of the spans recorded before the step, nested ones too */
+  spanIds: string[];
+  createdAt: number;
+}
+
 // ============ Reward Analysis ============
 
 export type Sentiment = 'positive' | 'neutral' | 'negative';
@@ -129,6 +202,16 @@ export interface FeedbackAspect {
   confidence: number; // 0-1
 }
 
+/**
+ * The user's score and comment on one assistant turn of a conversation
+ */
+export interface TurnFeedback {
+  /** Index of the turn in the transcript */
+  turn: number;
+  score?: number;
+  comment?: string;
+}
+
 /**
  * Analysis of user score and comment
  */
@@ -139,6 +222,8 @@ export interface ScoreAnalysis {
   aspects: FeedbackAspect[];
   trend: Trend;
   deltaFromPrevious: number;
+  /** Feedback on single turns, for conversation artifacts */
+  turnFeedback?: TurnFeedback[];
 }
 
 // ============ Credit Assignment ============
@@ -321,6 +406,10 @@ export interface CreateSpanInput {
   estimatedCost?: number;
 }
 
+export type CreatePausedRunInput = Omit<PausedRun, 'id' | 'createdAt'>;
+
+export type CreateFlowCheckpointInput = Omit<FlowCheckpoint, 'id' | 'createdAt'>;
+
 export interface CreateEvolutionRecordInput {
   lineageId: string;
   fromVersion: number;
@@ -357,6 +446,11 @@ export interface UpdateAttemptInput {
   estimatedCost?: number;
 }
 
+export interface UpdateSpanInput {
+  output?: string;
+  durationMs?: number;
+}
+
 export interface UpdateEvolutionOutcomeInput {
   nextScore: number;
   scoreDelta: number;
@@ -1,3 +1,6 @@
+import type { ConversationTurn, OutputContractResult } from "./agent";
+import type { TurnFeedback } from "./evolution";
+
 export interface Session {
   id: string;
   name: string;
@@ -9,6 +12,8 @@ export interface Session {
   initialAgentCount: number;
   /** Persisted chat history with the Master Trainer */
   trainerMessages?: TrainerMessage[];
+  /** Maximum estimated LLM spend in USD; regeneration is blocked beyond it */
+  budgetUsd?: number | null;
   createdAt: number;
   updatedAt: number;
 }
@@ -39,6 +44,10 @@ export interface ArtifactMetadata {
   stepsExecuted?: number;
   spanCount?: number;
   error?: string;
+  /** Set when the agent has an output contract */
+  outputContract?: OutputContractResult;
+  /** The conversation, with the agent's replies, for conversation inputs */
+  transcript?: ConversationTurn[];
   // Allow additional properties for backward compatibility
   [key: string]: unknown;
 }
@@ -57,6 +66,8 @@ export interface Evaluation {
   artifactId: string;
   score: number;
   comment: string | null;
+  /** Scores and comments on single turns of a conversation artifact */
+  turnFeedback?: TurnFeedback[];
   createdAt: number;
 }
 
@@ -12,13 +12,15 @@ export interface LLMDebugEntry {
   // Request details
   request: {
     model: string;
+    adapter?: string; // provider adapter the request was routed through
     messages: Array<{
-      role: 'system' | 'user' | 'assistant';
+      role: 'system' | 'user' | 'assistant' | 'tool';
       content: string;
     }>;
     maxTokens: number;
     temperature: number;
     topP?: number;
+    tools?: string[]; // names of tools offered to the model
   };
 
   // Response details (if success)
@@ -26,6 +28,10 @@ export interface LLMDebugEntry {
     content: string;
     finishReason: string;
     model: string; // actual model used (may differ from requested)
+    toolCalls?: Array<{
+      id: string;
+      function: { name: string; arguments: string };
+    }>;
   };
 
   // Token usage
@@ -52,6 +58,31 @@ export interface LLMDebugEntry {
 
   // Session context for filtering
   sessionId?: string;
+
+  // Whether the response was received as an SSE stream
+  streamed?: boolean;
+
+  // Whether the response was served from the cassette instead of the provider
+  replayed?: boolean;
+
+  // Retry tracking: attempt number (2+ for retries) and the first attempt's entry ID
+  attempt?: number;
+  retryOf?: string;
+  // Backoff scheduled after this failed attempt (absent when the error was final)
+  retryDelayMs?: number;
 }
 
 export type LLMDebugFilter = 'all' | 'success' | 'error';
+
+/**
+ * How a structured (schema-validated) call ended: valid on the first reply,
+ * valid after a repair retry, or handed back to the caller's fallback
+ */
+export type StructuredOutcome = 'valid' | 'repaired' | 'fallback';
+
+export interface StructuredCallStats {
+  calls: number;
+  repaired: number;
+  fallbacks: number;
+  lastError?: string;
+}
@@ -28,7 +28,7 @@ export interface ProgressItem {
   id: string; // Lineage ID or agent label
   label: string; // Display label (e.g., "Agent A", "Lineage B")
   stage: ProgressStage;
-  status: "pending" | "in_progress" | "completed" | "error";
+  status: "pending" | "in_progress" | "completed" | "error" | "cancelled";
   error?: string;
 }
 
@@ -42,6 +42,10 @@ export interface OperationProgress {
   items: ProgressItem[];
   startedAt: number;
   error?: string;
+  /** Whether the work watches the operation's abort signal */
+  cancellable?: boolean;
+  /** Set once the user cancels; running work stops at its next checkpoint */
+  cancelled?: boolean;
 }
 
 /**
@@ -56,6 +60,8 @@ export interface ProgressEmitter {
   itemComplete: (itemId: string) => void;
   /** Mark an item as failed with error message */
   itemError: (itemId: string, error: string) => void;
+  /** Mark an item as stopped by a cancel */
+  itemCancelled: (itemId: string) => void;
 }
 
 /**
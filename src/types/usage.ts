@@ -0,0 +1,50 @@
+/**
+ * Token and Cost Ledger Types
+ *
+ * Every successful LLM call is recorded with its token usage and estimated
+ * cost, attributed to a session and to the side of training that made it:
+ * - trainer: evolution, analysis and planning calls (trainer model)
+ * - agent: calls made while executing an agent (agent model)
+ */
+
+export type UsageRole = 'trainer' | 'agent';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * USD prices per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  sessionId: string | null;
+  model: string;
+  role: UsageRole;
+  /** Estimated USD cost, null when the model has no price */
+  cost: number | null;
+  createdAt: number;
+}
+
+export type CreateUsageRecordInput = Omit<UsageRecord, 'id' | 'createdAt'>;
+
+export interface UsageTotals extends TokenUsage {
+  /** Estimated USD cost of the calls that have a price */
+  cost: number;
+  calls: number;
+  /** Calls whose model has no price, so `cost` understates the spend */
+  unpricedCalls: number;
+}
+
+export interface SessionUsage {
+  trainer: UsageTotals;
+  agent: UsageTotals;
+  total: UsageTotals;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CancelledError, delay, isCancelledError, throwIfCancelled } from '../abort';
+
+describe('abort helpers', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('throws only once the signal is aborted', () => {
+    const controller = new AbortController();
+
+    expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+    expect(() => throwIfCancelled(undefined)).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfCancelled(controller.signal)).toThrow(CancelledError);
+  });
+
+  it('resolves a delay that is not aborted', async () => {
+    vi.useFakeTimers();
+    const pending = delay(1000, new AbortController().signal);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(pending).resolves.toBeUndefined();
+  });
+
+  it('rejects a delay as soon as it is aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const pending = delay(60_000, controller.signal);
+
+    controller.abort();
+
+    const error = await pending.catch((e) => e);
+    expect(isCancelledError(error)).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Conversation Tests
+ *
+ * Tests for reading, writing and continuing conversation scripts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { continueConversation, formatConversation, parseConversation } from '../conversation';
+import type { ConversationTurn } from '../../types/agent';
+
+const turns: ConversationTurn[] = [
+  { role: 'user', content: 'Hi, I need a refund.' },
+  { role: 'assistant', content: 'Sure, what is the order number?' },
+  { role: 'user', content: 'It is 1234.\nBought last week.' },
+];
+
+describe('parseConversation', () => {
+  it('reads User and Assistant lines as turns', () => {
+    const text = 'User: Hi, I need a refund.\nAssistant: Sure, what is the order number?\nuser: It is 1234.\nBought last week.';
+    expect(parseConversation(text)).toEqual(turns);
+  });
+
+  it('reads back formatted conversations', () => {
+    expect(parseConversation(formatConversation(turns))).toEqual(turns);
+  });
+
+  it('returns null for plain text', () => {
+    expect(parseConversation('Write a poem about autumn leaves')).toBeNull();
+  });
+
+  it('returns null when text comes before the first turn', () => {
+    expect(parseConversation('Context first\nUser: Hi\nAssistant: Hello')).toBeNull();
+  });
+
+  it('returns null for a single turn or no user turn', () => {
+    expect(parseConversation('User: Hi')).toBeNull();
+    expect(parseConversation('Assistant: Hello\nAssistant: Anyone there?')).toBeNull();
+  });
+});
+
+describe('formatConversation', () => {
+  it('writes one labelled paragraph per turn', () => {
+    expect(formatConversation(turns.slice(0, 2))).toBe(
+      'User: Hi, I need a refund.\n\nAssistant: Sure, what is the order number?'
+    );
+  });
+});
+
+describe('continueConversation', () => {
+  it('returns the message alone without earlier turns', () => {
+    expect(continueConversation(undefined, 'Hello')).toBe('Hello');
+    expect(continueConversation([], 'Hello')).toBe('Hello');
+  });
+
+  it('appends the message as a user turn', () => {
+    expect(continueConversation(turns.slice(0, 2), 'Thanks')).toEqual([
+      ...turns.slice(0, 2),
+      { role: 'user', content: 'Thanks' },
+    ]);
+  });
+});
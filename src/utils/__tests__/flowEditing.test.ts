@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  connectSteps,
+  connectionForHandle,
+  createFlowStep,
+  diffFlows,
+  disconnectSteps,
+  removeFlowStep,
+  updateFlowStep,
+} from '../flowEditing';
+import type { AgentFlowStep } from '../../types/agent';
+
+function step(id: string, type: AgentFlowStep['type'], connections: AgentFlowStep['connections'] = {}): AgentFlowStep {
+  return { id, type, name: id, config: {}, position: { x: 0, y: 0 }, connections };
+}
+
+const flow: AgentFlowStep[] = [
+  step('start', 'start', { next: 'check' }),
+  step('check', 'condition', { onTrue: 'fan', onFalse: 'out' }),
+  step('fan', 'parallel', { branches: ['a', 'b'], next: 'out' }),
+  step('a', 'prompt'),
+  step('b', 'prompt'),
+  step('out', 'output'),
+];
+
+describe('flow editing', () => {
+  it('creates steps with an unused ID and name', () => {
+    const first = createFlowStep(flow, 'prompt', { x: 10, y: 20 });
+    expect(first).toMatchObject({
+      id: 'prompt-1',
+      name: 'Prompt',
+      position: { x: 10, y: 20 },
+      config: { template: '{{input}}' },
+      connections: {},
+    });
+
+    const second = createFlowStep([...flow, first], 'prompt', { x: 0, y: 0 });
+    expect(second.id).toBe('prompt-2');
+    expect(second.name).toBe('Prompt 2');
+  });
+
+  it('maps FlowNode handles to connections', () => {
+    expect(connectionForHandle('true')).toBe('onTrue');
+    expect(connectionForHandle('false')).toBe('onFalse');
+    expect(connectionForHandle('error')).toBe('onError');
+    expect(connectionForHandle('branch')).toBe('branches');
+    expect(connectionForHandle(null)).toBe('next');
+  });
+
+  it('replaces single connections and adds branches', () => {
+    let edited = connectSteps(flow, 'check', 'onTrue', 'out');
+    expect(edited.find((s) => s.id === 'check')?.connections).toEqual({ onTrue: 'out', onFalse: 'out' });
+
+    edited = connectSteps(edited, 'fan', 'branches', 'out');
+    edited = connectSteps(edited, 'fan', 'branches', 'out');
+    expect(edited.find((s) => s.id === 'fan')?.connections.branches).toEqual(['a', 'b', 'out']);
+
+    expect(connectSteps(flow, 'a', 'next', 'a')).toBe(flow);
+  });
+
+  it('disconnects one connection without touching the others', () => {
+    let edited = disconnectSteps(flow, 'check', 'onFalse', 'out');
+    expect(edited.find((s) => s.id === 'check')?.connections).toEqual({ onTrue: 'fan' });
+
+    edited = disconnectSteps(edited, 'fan', 'branches', 'a');
+    edited = disconnectSteps(edited, 'fan', 'branches', 'b');
+    expect(edited.find((s) => s.id === 'fan')?.connections).toEqual({ next: 'out' });
+  });
+
+  it('removes a step and every connection to it', () => {
+    const edited = removeFlowStep(flow, 'out');
+
+    expect(edited.map((s) => s.id)).not.toContain('out');
+    expect(edited.find((s) => s.id === 'check')?.connections).toEqual({ onTrue: 'fan' });
+    expect(edited.find((s) => s.id === 'fan')?.connections).toEqual({ branches: ['a', 'b'] });
+    // The original flow is left alone
+    expect(flow.find((s) => s.id === 'check')?.connections.onFalse).toBe('out');
+  });
+
+  it('describes an edit as flow changes, ignoring moves', () => {
+    let edited = updateFlowStep(flow, 'a', { position: { x: 300, y: 300 } });
+    expect(diffFlows(flow, edited, 'Manual flow edit')).toEqual([]);
+
+    edited = updateFlowStep(edited, 'b', { config: { template: 'Summarize {{input}}' } });
+    edited = removeFlowStep(edited, 'a');
+    edited = [...edited, createFlowStep(edited, 'tool', { x: 0, y: 0 })];
+
+    const changes = diffFlows(flow, edited, 'Manual flow edit');
+    const summary = changes.map((c) => [c.changeType, c.target]);
+
+    expect(summary).toEqual(
+      expect.arrayContaining([
+        ['modify', 'step:b'],
+        ['modify', 'step:fan'],
+        ['add', 'step:Tool'],
+        ['remove', 'step:a'],
+      ])
+    );
+    expect(changes).toHaveLength(4);
+    expect(changes.every((c) => c.component === 'flow' && c.reason === 'Manual flow edit')).toBe(true);
+    expect(changes.find((c) => c.target === 'step:b')?.after).toContain('Summarize {{input}}');
+  });
+});
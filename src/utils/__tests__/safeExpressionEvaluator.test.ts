@@ -10,6 +10,7 @@ import {
   safeEvaluate,
   safeEvaluateCondition,
   validateExpression,
+  getExpressionVariables,
 } from '../safeExpressionEvaluator';
 
 describe('safeExpressionEvaluator', () => {
@@ -217,6 +218,87 @@ describe('safeExpressionEvaluator', () => {
       expect(result.valid).toBe(false);
       expect(result.error).toBeDefined();
     });
+
+    it('rejects expressions that do not parse', () => {
+      expect(validateExpression('x >').valid).toBe(false);
+      expect(validateExpression('a b').valid).toBe(false);
+    });
+  });
+
+  describe('getExpressionVariables', () => {
+    it('lists the root of each variable access once', () => {
+      expect(getExpressionVariables('user.age >= min && user.verified || !flags.off')).toEqual([
+        'user',
+        'min',
+        'flags',
+      ]);
+      expect(getExpressionVariables('"a" == "b"')).toEqual([]);
+    });
+
+    it('rejects blocked identifiers', () => {
+      expect(() => getExpressionVariables('window.location')).toThrow();
+    });
+  });
+
+  describe('functions', () => {
+    it('splits, joins and measures text and lists', () => {
+      expect(safeEvaluate('split(tags, ",")', { tags: 'a,b,c' })).toEqual(['a', 'b', 'c']);
+      expect(safeEvaluate('join(split(tags), " / ")', { tags: 'a,b' })).toBe('a / b');
+      expect(safeEvaluate('len(split(tags, ","))', { tags: 'a,b,c' })).toBe(3);
+      expect(safeEvaluate('len(missing)', {})).toBe(0);
+    });
+
+    it('maps and filters with item and index', () => {
+      const people = [
+        { name: 'Ada', age: 36 },
+        { name: 'Tim', age: 12 },
+      ];
+      expect(safeEvaluate('map(people, "item.name")', { people })).toEqual(['Ada', 'Tim']);
+      expect(safeEvaluate('filter(people, "item.age >= min")', { people, min: 18 })).toEqual([
+        people[0],
+      ]);
+      expect(safeEvaluate('map(split(x, ","), "index")', { x: 'a,b' })).toEqual([0, 1]);
+    });
+
+    it('parses and reads JSON', () => {
+      const text = '```json\n{"user": {"name": "Ada"}, "tags": ["x", "y"]}\n```';
+      expect(safeEvaluate('get(jsonParse(text), "user.name")', { text })).toBe('Ada');
+      expect(safeEvaluate('at(get(jsonParse(text), "tags"), -1)', { text })).toBe('y');
+      expect(safeEvaluate('json(keys(data))', { data: { a: 1, b: 2 } })).toBe('["a","b"]');
+    });
+
+    it('transforms strings', () => {
+      expect(safeEvaluate('upper(trim(x))', { x: '  hi ' })).toBe('HI');
+      expect(safeEvaluate('replace(x, ".", "-")', { x: 'a.b.c' })).toBe('a-b-c');
+      expect(safeEvaluate('slice(x, 0, 2)', { x: 'abc' })).toBe('ab');
+      expect(safeEvaluate('number(x) + 1', { x: '41' })).toBe(42);
+    });
+
+    it('rejects unknown functions and wrong argument counts', () => {
+      expect(() => safeEvaluate('eval("1")', {})).toThrow();
+      expect(() => safeEvaluate('split()', {})).toThrow();
+      expect(() => safeEvaluate('len(a, b)', { a: [], b: [] })).toThrow();
+      expect(validateExpression('fetch(url)').valid).toBe(false);
+      expect(validateExpression('map(items, "item.")').valid).toBe(false);
+      expect(validateExpression('map(items, "item.name")')).toEqual({ valid: true });
+    });
+
+    it('rejects lists where text is given', () => {
+      expect(() => safeEvaluate('join(x)', { x: 'abc' })).toThrow('join() expects a list');
+    });
+
+    it('reads operator characters in string arguments as text', () => {
+      expect(safeEvaluate('join(split(x, "-"), "+")', { x: 'a-b' })).toBe('a+b');
+      expect(safeEvaluate('x == "!"', { x: '!' })).toBe(true);
+    });
+
+    it('blocks dangerous property paths', () => {
+      expect(() => safeEvaluate('get(x, "__proto__")', { x: {} })).toThrow();
+    });
+
+    it('does not list function names as variables', () => {
+      expect(getExpressionVariables('len(split(tags, sep))')).toEqual(['tags', 'sep']);
+    });
   });
 
   describe('security', () => {
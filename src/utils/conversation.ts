@@ -0,0 +1,49 @@
+import type { ConversationTurn } from '../types/agent';
+
+const ROLE_LABELS: Record<ConversationTurn['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+};
+
+/**
+ * A conversation as plain text, one `User:` or `Assistant:` paragraph per
+ * turn. parseConversation reads it back.
+ */
+export function formatConversation(turns: ConversationTurn[]): string {
+  return turns.map((turn) => `${ROLE_LABELS[turn.role]}: ${turn.content}`).join('\n\n');
+}
+
+/**
+ * Read a conversation script: turns start on lines beginning with `User:`
+ * or `Assistant:` and run until the next such line. Returns null for text
+ * that is not a script of at least two turns, so plain inputs stay plain.
+ */
+export function parseConversation(text: string): ConversationTurn[] | null {
+  const turns: ConversationTurn[] = [];
+
+  for (const line of text.trim().split('\n')) {
+    const match = line.match(/^(user|assistant)\s*:\s?(.*)$/i);
+    if (match) {
+      turns.push({ role: match[1].toLowerCase() as ConversationTurn['role'], content: match[2] });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].content += `\n${line}`;
+    } else {
+      return null;
+    }
+  }
+
+  const trimmed = turns.map((turn) => ({ ...turn, content: turn.content.trim() }));
+  if (trimmed.length < 2 || !trimmed.some((turn) => turn.role === 'user')) return null;
+  return trimmed;
+}
+
+/**
+ * What to send a model for a new user message: the message alone, or the
+ * earlier turns followed by it
+ */
+export function continueConversation(
+  turns: ConversationTurn[] | undefined,
+  message: string
+): string | ConversationTurn[] {
+  return turns && turns.length > 0 ? [...turns, { role: 'user', content: message }] : message;
+}
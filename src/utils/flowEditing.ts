@@ -0,0 +1,283 @@
+import type { AgentFlowStep, StepModelParameters } from '../types/agent';
+import type { EvolutionChange } from '../types/evolution';
+import { JOIN_STRATEGIES } from '../services/flow/handlers';
+
+type StepType = AgentFlowStep['type'];
+
+/**
+ * Outgoing connections a step can have. `branches` holds the first step of
+ * each of a parallel step's branches; the others hold one step ID.
+ */
+export type FlowConnection = 'next' | 'onTrue' | 'onFalse' | 'onError' | 'branches';
+
+/**
+ * An editable config key of a step type
+ */
+export interface StepConfigField {
+  key: string;
+  label: string;
+  /** `template` is multi-line text with {{variables}}; `json` is any JSON value */
+  kind: 'text' | 'template' | 'number' | 'boolean' | 'json' | 'select';
+  options?: readonly string[];
+  placeholder?: string;
+}
+
+/**
+ * The config form of each step type, in the order the editor shows it
+ */
+export const STEP_CONFIG_FIELDS: Record<StepType, StepConfigField[]> = {
+  start: [{ key: 'variables', label: 'Initial variables', kind: 'json', placeholder: '{ "tone": "warm" }' }],
+  prompt: [
+    { key: 'template', label: 'Template', kind: 'template', placeholder: '{{input}}' },
+    { key: 'outputVariable', label: 'Output variable', kind: 'text', placeholder: 'promptOutput' },
+    { key: 'useSystemPrompt', label: 'Use system prompt', kind: 'boolean' },
+  ],
+  tool: [
+    { key: 'toolName', label: 'Tool', kind: 'text', placeholder: 'web_search' },
+    { key: 'args', label: 'Arguments', kind: 'json', placeholder: '{ "query": "{{input}}" }' },
+    { key: 'outputVariable', label: 'Output variable', kind: 'text', placeholder: 'toolOutput' },
+  ],
+  condition: [
+    { key: 'condition', label: 'Condition', kind: 'text', placeholder: 'lastOutput contains "yes"' },
+  ],
+  transform: [
+    { key: 'assignments', label: 'Assignments', kind: 'json', placeholder: '{ "names": "map(people, \\"item.name\\")" }' },
+  ],
+  loop: [
+    { key: 'maxIterations', label: 'Max iterations', kind: 'number', placeholder: '10' },
+    { key: 'itemsVariable', label: 'Items variable', kind: 'text' },
+    { key: 'itemVariable', label: 'Item variable', kind: 'text', placeholder: 'item' },
+  ],
+  parallel: [],
+  join: [
+    { key: 'strategy', label: 'Strategy', kind: 'select', options: JOIN_STRATEGIES },
+    { key: 'prompt', label: 'Judge or merge prompt', kind: 'template' },
+    { key: 'separator', label: 'Separator', kind: 'text' },
+    { key: 'variable', label: 'Branch variable', kind: 'text', placeholder: 'lastOutput' },
+    { key: 'outputVariable', label: 'Output variable', kind: 'text', placeholder: 'joinOutput' },
+  ],
+  call_agent: [
+    { key: 'lineageId', label: 'Lineage', kind: 'text' },
+    { key: 'agentId', label: 'Agent', kind: 'text' },
+    { key: 'version', label: 'Version', kind: 'number' },
+    { key: 'input', label: 'Input', kind: 'template', placeholder: '{{input}}' },
+    { key: 'outputVariable', label: 'Output variable', kind: 'text', placeholder: 'agentOutput' },
+  ],
+  human_input: [
+    { key: 'prompt', label: 'Question', kind: 'template' },
+    { key: 'outputVariable', label: 'Output variable', kind: 'text', placeholder: 'humanInput' },
+  ],
+  output: [
+    { key: 'template', label: 'Template', kind: 'template', placeholder: '{{lastOutput}}' },
+    { key: 'variable', label: 'Variable', kind: 'text', placeholder: 'lastOutput' },
+  ],
+};
+
+/**
+ * The model parameter form of prompt and tool steps; empty fields use the
+ * agent's parameters
+ */
+export const MODEL_PARAMETER_FIELDS: (StepConfigField & { key: keyof StepModelParameters })[] = [
+  { key: 'model', label: 'Model', kind: 'text', placeholder: "Agent's model" },
+  { key: 'temperature', label: 'Temperature', kind: 'number', placeholder: '0.7' },
+  { key: 'topP', label: 'Top P', kind: 'number', placeholder: '1' },
+  { key: 'maxTokens', label: 'Max tokens', kind: 'number', placeholder: '2048' },
+];
+
+const STEP_NAMES: Record<StepType, string> = {
+  start: 'Start',
+  prompt: 'Prompt',
+  tool: 'Tool',
+  condition: 'Condition',
+  transform: 'Transform',
+  loop: 'Loop',
+  parallel: 'Parallel',
+  join: 'Join',
+  call_agent: 'Call Agent',
+  human_input: 'Ask User',
+  output: 'Output',
+};
+
+const DEFAULT_CONFIGS: Partial<Record<StepType, Record<string, unknown>>> = {
+  prompt: { template: '{{input}}' },
+  transform: { assignments: { items: 'split(lastOutput, "\\n")' } },
+  loop: { maxIterations: 3 },
+  join: { strategy: 'concat' },
+  output: { template: '{{lastOutput}}' },
+};
+
+/**
+ * A new step of `type` at `position`, with an ID and name not yet used in
+ * `flow`. It is not added to the flow.
+ */
+export function createFlowStep(
+  flow: AgentFlowStep[],
+  type: StepType,
+  position: { x: number; y: number }
+): AgentFlowStep {
+  const ids = new Set(flow.map((step) => step.id));
+  const names = new Set(flow.map((step) => step.name));
+
+  let n = 1;
+  while (ids.has(`${type}-${n}`)) n++;
+  let name = STEP_NAMES[type];
+  for (let k = 2; names.has(name); k++) {
+    name = `${STEP_NAMES[type]} ${k}`;
+  }
+
+  return {
+    id: `${type}-${n}`,
+    type,
+    name,
+    config: { ...DEFAULT_CONFIGS[type] },
+    position,
+    connections: {},
+  };
+}
+
+/**
+ * The connection a React Flow source handle draws (see FlowNode)
+ */
+export function connectionForHandle(handleId: string | null | undefined): FlowConnection {
+  switch (handleId) {
+    case 'true':
+      return 'onTrue';
+    case 'false':
+      return 'onFalse';
+    case 'error':
+      return 'onError';
+    case 'branch':
+      return 'branches';
+    default:
+      return 'next';
+  }
+}
+
+/**
+ * Point `connection` of `sourceId` at `targetId`, replacing what it pointed
+ * at before; branches are added to
+ */
+export function connectSteps(
+  flow: AgentFlowStep[],
+  sourceId: string,
+  connection: FlowConnection,
+  targetId: string
+): AgentFlowStep[] {
+  if (sourceId === targetId) return flow;
+
+  return flow.map((step) => {
+    if (step.id !== sourceId) return step;
+    if (connection === 'branches') {
+      const branches = step.connections.branches ?? [];
+      if (branches.includes(targetId)) return step;
+      return { ...step, connections: { ...step.connections, branches: [...branches, targetId] } };
+    }
+    return { ...step, connections: { ...step.connections, [connection]: targetId } };
+  });
+}
+
+/**
+ * Remove `connection` of `sourceId`; for branches, only the one to `targetId`
+ */
+export function disconnectSteps(
+  flow: AgentFlowStep[],
+  sourceId: string,
+  connection: FlowConnection,
+  targetId: string
+): AgentFlowStep[] {
+  return flow.map((step) => {
+    if (step.id !== sourceId) return step;
+    const connections = { ...step.connections };
+    if (connection === 'branches') {
+      connections.branches = connections.branches?.filter((id) => id !== targetId);
+      if (connections.branches?.length === 0) delete connections.branches;
+    } else if (connections[connection] === targetId) {
+      delete connections[connection];
+    }
+    return { ...step, connections };
+  });
+}
+
+/**
+ * Remove a step and every connection to it
+ */
+export function removeFlowStep(flow: AgentFlowStep[], stepId: string): AgentFlowStep[] {
+  return flow
+    .filter((step) => step.id !== stepId)
+    .map((step) => {
+      const connections = { ...step.connections };
+      for (const connection of ['next', 'onTrue', 'onFalse', 'onError'] as const) {
+        if (connections[connection] === stepId) delete connections[connection];
+      }
+      if (connections.branches) {
+        connections.branches = connections.branches.filter((id) => id !== stepId);
+        if (connections.branches.length === 0) delete connections.branches;
+      }
+      return { ...step, connections };
+    });
+}
+
+/**
+ * Replace fields of one step. IDs can't change: connections refer to them.
+ */
+export function updateFlowStep(
+  flow: AgentFlowStep[],
+  stepId: string,
+  updates: Partial<Omit<AgentFlowStep, 'id'>>
+): AgentFlowStep[] {
+  return flow.map((step) => (step.id === stepId ? { ...step, ...updates } : step));
+}
+
+/**
+ * Describe an edit of a flow as evolution changes, one per added, removed
+ * or changed step. Moving a step around is not a change.
+ */
+export function diffFlows(
+  before: AgentFlowStep[],
+  after: AgentFlowStep[],
+  reason: string
+): EvolutionChange[] {
+  const describe = (step: AgentFlowStep) =>
+    JSON.stringify({
+      type: step.type,
+      name: step.name,
+      config: step.config,
+      connections: step.connections,
+      policy: step.policy,
+      modelParameters: step.modelParameters,
+    });
+  const change = (
+    changeType: EvolutionChange['changeType'],
+    step: AgentFlowStep,
+    beforeStep: AgentFlowStep | null,
+    afterStep: AgentFlowStep | null
+  ): EvolutionChange => ({
+    component: 'flow',
+    changeType,
+    target: `step:${step.name}`,
+    before: beforeStep && describe(beforeStep),
+    after: afterStep && describe(afterStep),
+    reason,
+    confidence: 1,
+  });
+
+  const beforeById = new Map(before.map((step) => [step.id, step]));
+  const afterIds = new Set(after.map((step) => step.id));
+  const changes: EvolutionChange[] = [];
+
+  for (const step of after) {
+    const previous = beforeById.get(step.id);
+    if (!previous) {
+      changes.push(change('add', step, null, step));
+    } else if (describe(previous) !== describe(step)) {
+      changes.push(change('modify', step, previous, step));
+    }
+  }
+  for (const step of before) {
+    if (!afterIds.has(step.id)) {
+      changes.push(change('remove', step, step, null));
+    }
+  }
+
+  return changes;
+}
@@ -79,6 +79,40 @@ export function layoutFlow(
 export function convertFlowToLayoutedElements(
   flow: AgentFlowStep[],
   options: LayoutOptions = {}
+): { nodes: Node[]; edges: Edge[] } {
+  const { nodes, edges } = convertFlowToElements(flow);
+  if (nodes.length === 0) {
+    return { nodes, edges };
+  }
+
+  // Apply auto-layout
+  const layoutedNodes = layoutFlow(nodes, edges, options);
+
+  return { nodes: layoutedNodes, edges };
+}
+
+/**
+ * Give every step the position auto-layout would draw it at, so a flow can
+ * be edited from where the viewer showed it
+ */
+export function applyLayoutPositions(
+  flow: AgentFlowStep[],
+  options: LayoutOptions = {}
+): AgentFlowStep[] {
+  const { nodes } = convertFlowToLayoutedElements(flow, options);
+  const positions = new Map(nodes.map((node) => [node.id, node.position]));
+  return flow.map((step) => ({
+    ...step,
+    position: positions.get(step.id) ?? step.position,
+  }));
+}
+
+/**
+ * Convert AgentFlowStep array to React Flow nodes and edges at the steps'
+ * own positions. Each edge's data names the connection it draws.
+ */
+export function convertFlowToElements(
+  flow: AgentFlowStep[]
 ): { nodes: Node[]; edges: Edge[] } {
   // Handle empty flow
   if (!flow || flow.length === 0) {
@@ -92,7 +126,7 @@ export function convertFlowToLayoutedElements(
   const nodes: Node[] = flow.map((step) => ({
     id: step.id,
     type: 'flowNode',
-    position: { x: 0, y: 0 }, // Will be set by layout
+    position: step.position,
     data: { step },
   }));
 
@@ -107,6 +141,7 @@ export function convertFlowToLayoutedElements(
       edges.push({
         id: `${step.id}-${connections.next}`,
         source: step.id,
+        data: { connection: 'next' },
         target: connections.next,
         type: 'smoothstep',
         animated: false,
@@ -122,11 +157,41 @@ export function convertFlowToLayoutedElements(
       console.warn(`[FlowLayout] Invalid connection: ${step.id} -> ${connections.next} (target not found)`);
     }
 
+    // Parallel branches - validate targets exist
+    connections.branches?.forEach((branch, index) => {
+      if (!validStepIds.has(branch)) {
+        console.warn(`[FlowLayout] Invalid branch connection: ${step.id} -> ${branch} (target not found)`);
+        return;
+      }
+      edges.push({
+        id: `${step.id}-branch-${branch}`,
+        source: step.id,
+        sourceHandle: 'branch',
+        data: { connection: 'branches' },
+        target: branch,
+        type: 'smoothstep',
+        animated: false,
+        label: `Branch ${index + 1}`,
+        labelStyle: { fill: '#c026d3', fontWeight: 600, fontSize: 11 },
+        labelBgStyle: { fill: '#fae8ff', fillOpacity: 0.8 },
+        labelBgPadding: [4, 4] as [number, number],
+        labelBgBorderRadius: 4,
+        style: { strokeWidth: 2, stroke: '#c026d3' },
+        markerEnd: {
+          type: MarkerType.ArrowClosed,
+          width: 16,
+          height: 16,
+          color: '#c026d3',
+        },
+      });
+    });
+
     // Condition true branch - validate target exists
     if (connections.onTrue && validStepIds.has(connections.onTrue)) {
       edges.push({
         id: `${step.id}-true-${connections.onTrue}`,
         source: step.id,
+        data: { connection: 'onTrue' },
         sourceHandle: 'true',
         target: connections.onTrue,
         type: 'smoothstep',
@@ -153,6 +218,7 @@ export function convertFlowToLayoutedElements(
       edges.push({
         id: `${step.id}-false-${connections.onFalse}`,
         source: step.id,
+        data: { connection: 'onFalse' },
         sourceHandle: 'false',
         target: connections.onFalse,
         type: 'smoothstep',
@@ -179,6 +245,7 @@ export function convertFlowToLayoutedElements(
       edges.push({
         id: `${step.id}-error-${connections.onError}`,
         source: step.id,
+        data: { connection: 'onError' },
         sourceHandle: 'error',
         target: connections.onError,
         type: 'smoothstep',
@@ -201,10 +268,7 @@ export function convertFlowToLayoutedElements(
     }
   });
 
-  // Apply auto-layout
-  const layoutedNodes = layoutFlow(nodes, edges, options);
-
-  return { nodes: layoutedNodes, edges };
+  return { nodes, edges };
 }
 
 /**
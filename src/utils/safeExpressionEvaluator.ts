@@ -2,7 +2,8 @@
  * Safe Expression Evaluator
  *
  * A sandboxed expression evaluator that replaces the dangerous `new Function()` pattern.
- * Only allows safe operations: comparisons, logical operators, literals, and variable access.
+ * Only allows safe operations: comparisons, logical operators, literals, variable access,
+ * and calls to the built-in functions in EXPRESSION_FUNCTIONS.
  *
  * Security: Blocks access to window, globalThis, constructor, __proto__, and other
  * dangerous properties that could enable arbitrary code execution.
@@ -47,6 +48,7 @@ type TokenType =
   | 'OPERATOR'
   | 'LPAREN'
   | 'RPAREN'
+  | 'COMMA'
   | 'EOF';
 
 interface Token {
@@ -143,6 +145,13 @@ function tokenize(expr: string): Token[] {
       continue;
     }
 
+    // Function argument separator
+    if (expr[pos] === ',') {
+      tokens.push({ type: 'COMMA', value: ',', raw: ',' });
+      pos++;
+      continue;
+    }
+
     // Dot for property access - treat as part of identifier
     if (expr[pos] === '.') {
       tokens.push({ type: 'OPERATOR', value: '.', raw: '.' });
@@ -190,6 +199,147 @@ function tokenize(expr: string): Token[] {
   return tokens;
 }
 
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  call: (args: unknown[], variables: Record<string, unknown>) => unknown;
+}
+
+/**
+ * Built-in functions expressions can call, e.g. `len(split(tags, ","))`.
+ * map and filter take an expression string evaluated for each element,
+ * with the element as `item` and its position as `index`.
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  split: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([text, separator = ',']) =>
+      text === undefined || text === null ? [] : toText(text).split(toText(separator)),
+  },
+  join: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([list, separator = ', ']) => toList(list, 'join').map(toText).join(toText(separator)),
+  },
+  map: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([list, expression], variables) =>
+      toList(list, 'map').map((item, index) =>
+        evaluateForItem(expression, variables, item, index, 'map')
+      ),
+  },
+  filter: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([list, expression], variables) =>
+      toList(list, 'filter').filter((item, index) =>
+        Boolean(evaluateForItem(expression, variables, item, index, 'filter'))
+      ),
+  },
+  slice: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: ([value, start, end]) => {
+      const sliceable = typeof value === 'string' ? value : toList(value, 'slice');
+      return sliceable.slice(Number(start), end === undefined ? undefined : Number(end));
+    },
+  },
+  len: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) => {
+      if (value === undefined || value === null) return 0;
+      if (typeof value === 'string' || Array.isArray(value)) return value.length;
+      if (typeof value === 'object') return Object.keys(value).length;
+      return toText(value).length;
+    },
+  },
+  lower: { minArgs: 1, maxArgs: 1, call: ([text]) => toText(text).toLowerCase() },
+  upper: { minArgs: 1, maxArgs: 1, call: ([text]) => toText(text).toUpperCase() },
+  trim: { minArgs: 1, maxArgs: 1, call: ([text]) => toText(text).trim() },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    // Replaces every occurrence of the literal search text
+    call: ([text, search, replacement]) =>
+      toText(text).split(toText(search)).join(toText(replacement)),
+  },
+  jsonParse: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([text]) => {
+      if (typeof text !== 'string') return text;
+      // Model output often wraps JSON in a code fence
+      const fenced = text.trim().match(/^```[\w-]*[ \t]*\n([\s\S]*?)\n?```$/);
+      return JSON.parse(fenced ? fenced[1] : text);
+    },
+  },
+  json: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, indent]) =>
+      JSON.stringify(value ?? null, null, typeof indent === 'number' ? indent : undefined),
+  },
+  get: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([value, path]) => {
+      let current = value;
+      for (const key of toText(path).split('.')) {
+        if (BLOCKED_PROPERTIES.has(key)) {
+          throw new Error(`Access to property '${key}' is not allowed`);
+        }
+        if (current === null || typeof current !== 'object') return undefined;
+        current = (current as Record<string, unknown>)[key];
+      }
+      return current;
+    },
+  },
+  at: {
+    minArgs: 2,
+    maxArgs: 2,
+    call: ([list, index]) => {
+      const items = toList(list, 'at');
+      const i = Number(index);
+      return items[i < 0 ? items.length + i : i];
+    },
+  },
+  keys: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([value]) =>
+      value !== null && typeof value === 'object' && !Array.isArray(value) ? Object.keys(value) : [],
+  },
+  number: { minArgs: 1, maxArgs: 1, call: ([value]) => Number(value) },
+  string: { minArgs: 1, maxArgs: 1, call: ([value]) => toText(value) },
+};
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toList(value: unknown, functionName: string): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === undefined || value === null) return [];
+  throw new Error(`${functionName}() expects a list, got ${typeof value}`);
+}
+
+function evaluateForItem(
+  expression: unknown,
+  variables: Record<string, unknown>,
+  item: unknown,
+  index: number,
+  functionName: string
+): unknown {
+  if (typeof expression !== 'string') {
+    throw new Error(`${functionName}() expects an expression string, e.g. "item.name"`);
+  }
+  return safeEvaluate(expression, { ...variables, item, index });
+}
+
 /**
  * Parser for safe expression evaluation
  * Uses recursive descent with proper operator precedence
@@ -198,11 +348,14 @@ class SafeExpressionParser {
   private tokens: Token[];
   private pos: number;
   private variables: Record<string, unknown>;
+  /** Check syntax and function calls without calling functions */
+  private checkOnly: boolean;
 
-  constructor(tokens: Token[], variables: Record<string, unknown>) {
+  constructor(tokens: Token[], variables: Record<string, unknown>, checkOnly = false) {
     this.tokens = tokens;
     this.pos = 0;
     this.variables = variables;
+    this.checkOnly = checkOnly;
   }
 
   private current(): Token {
@@ -213,6 +366,12 @@ class SafeExpressionParser {
     return this.tokens[this.pos++];
   }
 
+  // The current operator, so string literals such as "-" are never read as one
+  private currentOperator(): string {
+    const token = this.current();
+    return token.type === 'OPERATOR' ? (token.value as string) : '';
+  }
+
   // Note: peek method available for future use if needed for lookahead
   // private peek(offset = 0): Token {
   //   return this.tokens[this.pos + offset] || { type: 'EOF', value: '', raw: '' };
@@ -233,7 +392,7 @@ class SafeExpressionParser {
   private parseOr(): unknown {
     let left = this.parseAnd();
 
-    while (this.current().value === '||') {
+    while (this.currentOperator() === '||') {
       this.advance();
       const right = this.parseAnd();
       left = Boolean(left) || Boolean(right);
@@ -246,7 +405,7 @@ class SafeExpressionParser {
   private parseAnd(): unknown {
     let left = this.parseEquality();
 
-    while (this.current().value === '&&') {
+    while (this.currentOperator() === '&&') {
       this.advance();
       const right = this.parseEquality();
       left = Boolean(left) && Boolean(right);
@@ -259,7 +418,7 @@ class SafeExpressionParser {
   private parseEquality(): unknown {
     let left = this.parseComparison();
 
-    while (['==', '!=', '===', '!=='].includes(this.current().value as string)) {
+    while (['==', '!=', '===', '!=='].includes(this.currentOperator())) {
       const op = this.advance().value;
       const right = this.parseComparison();
 
@@ -286,7 +445,7 @@ class SafeExpressionParser {
   private parseComparison(): unknown {
     let left = this.parseAdditive();
 
-    while (['<', '>', '<=', '>='].includes(this.current().value as string)) {
+    while (['<', '>', '<=', '>='].includes(this.currentOperator())) {
       const op = this.advance().value;
       const right = this.parseAdditive();
 
@@ -313,7 +472,7 @@ class SafeExpressionParser {
   private parseAdditive(): unknown {
     let left = this.parseMultiplicative();
 
-    while (['+', '-'].includes(this.current().value as string)) {
+    while (['+', '-'].includes(this.currentOperator())) {
       const op = this.advance().value;
       const right = this.parseMultiplicative();
 
@@ -336,7 +495,7 @@ class SafeExpressionParser {
   private parseMultiplicative(): unknown {
     let left = this.parseUnary();
 
-    while (['*', '/', '%'].includes(this.current().value as string)) {
+    while (['*', '/', '%'].includes(this.currentOperator())) {
       const op = this.advance().value;
       const right = this.parseUnary();
 
@@ -358,11 +517,11 @@ class SafeExpressionParser {
 
   // Unary (!, -)
   private parseUnary(): unknown {
-    if (this.current().value === '!') {
+    if (this.currentOperator() === '!') {
       this.advance();
       return !this.parseUnary();
     }
-    if (this.current().value === '-') {
+    if (this.currentOperator() === '-') {
       this.advance();
       return -(this.parseUnary() as number);
     }
@@ -406,6 +565,11 @@ class SafeExpressionParser {
       return undefined;
     }
 
+    // Function calls
+    if (token.type === 'IDENTIFIER' && this.tokens[this.pos + 1]?.type === 'LPAREN') {
+      return this.parseCall();
+    }
+
     // Identifiers (variable access with optional property access)
     if (token.type === 'IDENTIFIER') {
       return this.parsePropertyAccess();
@@ -414,6 +578,48 @@ class SafeExpressionParser {
     throw new Error(`Unexpected token: ${token.raw}`);
   }
 
+  // Function call (e.g., split(tags, ","))
+  private parseCall(): unknown {
+    const name = this.advance().value as string;
+    const fn = Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, name)
+      ? EXPRESSION_FUNCTIONS[name]
+      : undefined;
+    if (!fn) {
+      throw new Error(
+        `Unknown function '${name}'; available functions: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`
+      );
+    }
+    this.advance(); // Skip the opening parenthesis
+
+    const args: unknown[] = [];
+    if (this.current().type !== 'RPAREN') {
+      args.push(this.parseOr());
+      while (this.current().type === 'COMMA') {
+        this.advance();
+        args.push(this.parseOr());
+      }
+    }
+    if (this.current().type !== 'RPAREN') {
+      throw new Error(`Expected closing parenthesis after arguments of ${name}()`);
+    }
+    this.advance();
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      const expected =
+        fn.minArgs === fn.maxArgs ? `${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+      throw new Error(`${name}() takes ${expected} arguments, got ${args.length}`);
+    }
+
+    if (this.checkOnly) {
+      // Per-item expressions are literals, so they can be checked too
+      if ((name === 'map' || name === 'filter') && typeof args[1] === 'string') {
+        new SafeExpressionParser(tokenize(args[1].trim()), {}, true).parse();
+      }
+      return undefined;
+    }
+    return fn.call(args, this.variables);
+  }
+
   // Property access (e.g., object.property.nested)
   private parsePropertyAccess(): unknown {
     const firstToken = this.advance();
@@ -428,7 +634,7 @@ class SafeExpressionParser {
     let value: unknown = this.variables[rootName];
 
     // Handle dot notation property access
-    while (this.current().value === '.') {
+    while (this.currentOperator() === '.') {
       this.advance(); // Skip the dot
 
       if (this.current().type !== 'IDENTIFIER') {
@@ -514,8 +720,9 @@ export function safeEvaluateCondition(
  */
 export function validateExpression(expression: string): { valid: boolean; error?: string } {
   try {
-    // Just tokenize to check for syntax errors and blocked identifiers
-    tokenize(expression.trim());
+    // Parsing without variables only throws for syntax errors, blocked identifiers
+    // and bad function calls
+    new SafeExpressionParser(tokenize(expression.trim()), {}, true).parse();
     return { valid: true };
   } catch (error) {
     return {
@@ -524,3 +731,28 @@ export function validateExpression(expression: string): { valid: boolean; error?
     };
   }
 }
+
+/**
+ * Names of the variables an expression reads: the roots of its property
+ * accesses, e.g. `user` for `user.age >= 18`.
+ *
+ * @param expression - The expression to inspect
+ * @returns Variable names in order of first use
+ * @throws Error if the expression contains unsafe constructs
+ */
+export function getExpressionVariables(expression: string): string[] {
+  const tokens = tokenize(expression.trim());
+  const names = new Set<string>();
+
+  tokens.forEach((token, index) => {
+    if (
+      token.type === 'IDENTIFIER' &&
+      tokens[index - 1]?.value !== '.' &&
+      tokens[index + 1]?.type !== 'LPAREN'
+    ) {
+      names.add(token.value as string);
+    }
+  });
+
+  return [...names];
+}